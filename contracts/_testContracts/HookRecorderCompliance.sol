@@ -0,0 +1,71 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.17;
+
+import "../compliance/interface/ICompliance.sol";
+
+/// @dev Accepts every transfer and emits the arguments the token passes to each hook
+contract HookRecorderCompliance is ICompliance {
+    /// Token linked to the compliance contract
+    address public tokenBound;
+
+    event Transferred(address _from, address _to, uint256 _value);
+
+    event Created(address _to, uint256 _value);
+
+    event Destroyed(address _from, uint256 _value);
+
+    /**
+     *  @dev See {ICompliance-bindToken}.
+     */
+    function bindToken(address _token) external {
+        tokenBound = _token;
+        emit TokenBound(_token);
+    }
+
+    /**
+     *  @dev See {ICompliance-unbindToken}.
+     */
+    function unbindToken(address _token) external {
+        delete tokenBound;
+        emit TokenUnbound(_token);
+    }
+
+    /**
+     *  @dev See {ICompliance-transferred}.
+     */
+    function transferred(address _from, address _to, uint256 _value) external {
+        emit Transferred(_from, _to, _value);
+    }
+
+    /**
+     *  @dev See {ICompliance-created}.
+     */
+    function created(address _to, uint256 _value) external {
+        emit Created(_to, _value);
+    }
+
+    /**
+     *  @dev See {ICompliance-destroyed}.
+     */
+    function destroyed(address _from, uint256 _value) external {
+        emit Destroyed(_from, _value);
+    }
+
+    /**
+     *  @dev See {ICompliance-canTransfer}.
+     */
+    function canTransfer(
+        address /*_from*/,
+        address /*_to*/,
+        uint256 /*_value*/
+    ) external pure returns (bool) {
+        return true;
+    }
+
+    /**
+     *  @dev See {ICompliance-isTokenBound}.
+     */
+    function isTokenBound(address _token) external view returns (bool) {
+        return (_token == tokenBound);
+    }
+}
@@ -4,4 +4,6 @@ pragma solidity 0.8.17;
 import "@onchain-id/solidity/contracts/Identity.sol";
 import "@onchain-id/solidity/contracts/ClaimIssuer.sol";
 
-abstract contract IdentityTrick is Identity, ClaimIssuer {}
+// Only imported so that Hardhat compiles the OnchainID contracts. ClaimIssuer already extends Identity, and listing
+// both as bases fails to compile because they both define `isClaimValid`.
+abstract contract IdentityTrick is ClaimIssuer {}
@@ -0,0 +1,213 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.17;
+
+import "./interface/ICompliance.sol";
+import "../token/IToken.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+
+/// @title ERC-3643 - ComposableCompliance
+/// @notice Combines several `ICompliance` rule contracts into the single compliance of a token. A transfer is
+/// compliant when every rule accepts it, and the `transferred`, `created` and `destroyed` hooks are forwarded to every
+/// rule, in the order of the rule list. The token bound to this contract is bound to the rules as well; a rule whose
+/// hooks only accept the token (such as `MaxHoldersCompliance`) must grant TOKEN_ROLE to this contract.
+/// Unbinding the token or removing a rule leaves the rules bound to the token.
+contract ComposableCompliance is ICompliance, AccessControl {
+    /// Mapping of tokens linked to the compliance contract
+    IToken public tokenBound;
+
+    // keccak256(ADMIN_ROLE)
+    bytes32 public constant ADMIN_ROLE =
+        0xa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775;
+
+    // keccak256(TOKEN_ROLE)
+    bytes32 public constant TOKEN_ROLE =
+        0xa7197c38d9c4c7450c7f2cd20d0a17cbe7c344190d6c82a6b49a146e62439ae4;
+
+    /// @dev Maximum number of rules, every transfer calls each of them twice
+    uint256 public constant MAX_RULES = 25;
+
+    /// @dev Rules in the order they are evaluated
+    address[] private _rules;
+    mapping(address => bool) private _isRule;
+
+    /// @dev Emitted when `_rule` is added at the end of the rule list
+    event RuleAdded(address indexed _rule);
+
+    /// @dev Emitted when `_rule` is removed from the rule list
+    event RuleRemoved(address indexed _rule);
+
+    /// @dev Emitted when `_rule` is moved to `_position` in the rule list
+    event RuleMoved(address indexed _rule, uint256 _position);
+
+    /// @dev Restricts the hooks to the bound token and to the contracts holding TOKEN_ROLE
+    modifier onlyToken() {
+        require(
+            _msgSender() == address(tokenBound) ||
+                hasRole(TOKEN_ROLE, _msgSender()),
+            "ERC-3643: Caller is not the token"
+        );
+        _;
+    }
+
+    constructor() {
+        _grantRole(0x00, _msgSender());
+        _grantRole(ADMIN_ROLE, _msgSender());
+    }
+
+    /**
+     *  @dev See {ICompliance-bindToken}.
+     *  Binds the token to the rules that are not bound to it yet.
+     */
+    function bindToken(address _token) external {
+        require(
+            hasRole(ADMIN_ROLE, _msgSender()) ||
+                address(tokenBound) == address(0),
+            "ERC-3643: Caller not authorized"
+        );
+        tokenBound = IToken(_token);
+        for (uint256 i = 0; i < _rules.length; i++) {
+            _bindRule(_rules[i]);
+        }
+        emit TokenBound(_token);
+    }
+
+    /**
+     *  @dev See {ICompliance-unbindToken}.
+     */
+    function unbindToken(address _token) external {
+        require(
+            hasRole(ADMIN_ROLE, _msgSender()) ||
+                hasRole(TOKEN_ROLE, _msgSender()),
+            "ERC-3643: Caller not authorized"
+        );
+        require(_token == address(tokenBound), "ERC-3643: Token not bound");
+        delete tokenBound;
+        emit TokenUnbound(_token);
+    }
+
+    /// @notice Adds a rule at the end of the rule list and binds it to the token
+    /// @param _rule Address of an `ICompliance` contract
+    function addRule(address _rule) external onlyRole(ADMIN_ROLE) {
+        require(
+            _rule != address(0) && _rule != address(this),
+            "ERC-3643: Invalid rule"
+        );
+        require(!_isRule[_rule], "ERC-3643: Rule already added");
+        require(_rules.length < MAX_RULES, "ERC-3643: Too many rules");
+        _rules.push(_rule);
+        _isRule[_rule] = true;
+        if (address(tokenBound) != address(0)) _bindRule(_rule);
+        emit RuleAdded(_rule);
+    }
+
+    /// @notice Removes a rule, keeping the order of the other rules
+    /// @param _rule Address of the rule
+    function removeRule(address _rule) external onlyRole(ADMIN_ROLE) {
+        uint256 position = _positionOf(_rule);
+        for (uint256 i = position; i + 1 < _rules.length; i++) {
+            _rules[i] = _rules[i + 1];
+        }
+        _rules.pop();
+        delete _isRule[_rule];
+        emit RuleRemoved(_rule);
+    }
+
+    /// @notice Moves a rule to another position, shifting the rules in between
+    /// @param _rule Address of the rule
+    /// @param _position New position of the rule, from 0
+    function moveRule(
+        address _rule,
+        uint256 _position
+    ) external onlyRole(ADMIN_ROLE) {
+        require(_position < _rules.length, "ERC-3643: Invalid position");
+        uint256 position = _positionOf(_rule);
+        for (; position < _position; position++) {
+            _rules[position] = _rules[position + 1];
+        }
+        for (; position > _position; position--) {
+            _rules[position] = _rules[position - 1];
+        }
+        _rules[_position] = _rule;
+        emit RuleMoved(_rule, _position);
+    }
+
+    /**
+     *  @dev See {ICompliance-transferred}.
+     */
+    function transferred(
+        address _from,
+        address _to,
+        uint256 _value
+    ) external onlyToken {
+        for (uint256 i = 0; i < _rules.length; i++) {
+            ICompliance(_rules[i]).transferred(_from, _to, _value);
+        }
+    }
+
+    /**
+     *  @dev See {ICompliance-created}.
+     */
+    function created(address _to, uint256 _value) external onlyToken {
+        for (uint256 i = 0; i < _rules.length; i++) {
+            ICompliance(_rules[i]).created(_to, _value);
+        }
+    }
+
+    /**
+     *  @dev See {ICompliance-destroyed}.
+     */
+    function destroyed(address _from, uint256 _value) external onlyToken {
+        for (uint256 i = 0; i < _rules.length; i++) {
+            ICompliance(_rules[i]).destroyed(_from, _value);
+        }
+    }
+
+    /**
+     *  @dev See {ICompliance-canTransfer}.
+     *  Stops at the first rule that rejects the transfer; with no rule, every transfer is compliant.
+     */
+    function canTransfer(
+        address _from,
+        address _to,
+        uint256 _value
+    ) external view returns (bool) {
+        for (uint256 i = 0; i < _rules.length; i++) {
+            if (!ICompliance(_rules[i]).canTransfer(_from, _to, _value)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     *  @dev See {ICompliance-isTokenBound}.
+     */
+    function isTokenBound(address _token) external view returns (bool) {
+        return (_token == address(tokenBound));
+    }
+
+    /// @dev Returns the rules in the order they are evaluated
+    function rules() external view returns (address[] memory) {
+        return _rules;
+    }
+
+    /// @dev Returns true if `_rule` is in the rule list
+    function isRule(address _rule) external view returns (bool) {
+        return _isRule[_rule];
+    }
+
+    /// @dev Binds the token to `_rule` unless it already is
+    function _bindRule(address _rule) private {
+        if (!ICompliance(_rule).isTokenBound(address(tokenBound))) {
+            ICompliance(_rule).bindToken(address(tokenBound));
+        }
+    }
+
+    /// @dev Returns the position of `_rule` in the rule list, reverts if it is not in it
+    function _positionOf(address _rule) private view returns (uint256) {
+        require(_isRule[_rule], "ERC-3643: Rule not found");
+        uint256 position = 0;
+        while (_rules[position] != _rule) position++;
+        return position;
+    }
+}
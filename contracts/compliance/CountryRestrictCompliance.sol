@@ -0,0 +1,262 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.17;
+
+import "./interface/ICompliance.sol";
+import "../token/IToken.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+
+/// @title ERC-3643 - CountryRestrictCompliance
+/// @notice Rejects transfers and mints to wallets whose country, read from the identity registry of the bound
+/// token, is blocked or, when an allowlist is set, is not on it. An empty allowlist allows every country that is
+/// not blocked. Countries are ISO 3166-1 numeric codes, as stored by the identity registry.
+contract CountryRestrictCompliance is ICompliance, AccessControl {
+    /// Mapping of tokens linked to the compliance contract
+    IToken public tokenBound;
+
+    // keccak256(ADMIN_ROLE)
+    bytes32 public constant ADMIN_ROLE =
+        0xa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775;
+
+    // keccak256(TOKEN_ROLE)
+    bytes32 public constant TOKEN_ROLE =
+        0xa7197c38d9c4c7450c7f2cd20d0a17cbe7c344190d6c82a6b49a146e62439ae4;
+
+    /// @dev Blocked countries, and the position + 1 of each of them in `_blockedCountries`
+    uint16[] private _blockedCountries;
+    mapping(uint16 => uint256) private _blockedIndex;
+
+    /// @dev Allowed countries, and the position + 1 of each of them in `_allowedCountries`
+    uint16[] private _allowedCountries;
+    mapping(uint16 => uint256) private _allowedIndex;
+
+    /// @dev Emitted when transfers to wallets of `_country` are blocked
+    event CountryBlocked(uint16 _country);
+
+    /// @dev Emitted when `_country` is removed from the blocklist
+    event CountryUnblocked(uint16 _country);
+
+    /// @dev Emitted when `_country` is added to the allowlist
+    event CountryAllowed(uint16 _country);
+
+    /// @dev Emitted when `_country` is removed from the allowlist
+    event CountryDisallowed(uint16 _country);
+
+    constructor() {
+        _grantRole(0x00, _msgSender());
+        _grantRole(ADMIN_ROLE, _msgSender());
+    }
+
+    /**
+     *  @dev See {ICompliance-bindToken}.
+     */
+    function bindToken(address _token) external {
+        require(
+            hasRole(ADMIN_ROLE, _msgSender()) ||
+                address(tokenBound) == address(0),
+            "ERC-3643: Caller not authorized"
+        );
+        tokenBound = IToken(_token);
+        emit TokenBound(_token);
+    }
+
+    /**
+     *  @dev See {ICompliance-unbindToken}.
+     */
+    function unbindToken(address _token) external {
+        require(
+            hasRole(ADMIN_ROLE, _msgSender()) ||
+                hasRole(TOKEN_ROLE, _msgSender()),
+            "ERC-3643: Caller not authorized"
+        );
+        require(_token == address(tokenBound), "ERC-3643: Token not bound");
+        delete tokenBound;
+        emit TokenUnbound(_token);
+    }
+
+    /// @notice Blocks transfers and mints to wallets of a country
+    /// @param _country ISO 3166-1 numeric code of the country
+    function blockCountry(uint16 _country) external onlyRole(ADMIN_ROLE) {
+        _blockCountry(_country);
+    }
+
+    /// @notice Removes a country from the blocklist
+    /// @param _country ISO 3166-1 numeric code of the country
+    function unblockCountry(uint16 _country) external onlyRole(ADMIN_ROLE) {
+        _unblockCountry(_country);
+    }
+
+    /// @notice Adds a country to the allowlist. Once the allowlist is not empty, only its countries can receive tokens.
+    /// @param _country ISO 3166-1 numeric code of the country
+    function allowCountry(uint16 _country) external onlyRole(ADMIN_ROLE) {
+        _allowCountry(_country);
+    }
+
+    /// @notice Removes a country from the allowlist
+    /// @param _country ISO 3166-1 numeric code of the country
+    function disallowCountry(uint16 _country) external onlyRole(ADMIN_ROLE) {
+        _disallowCountry(_country);
+    }
+
+    /// @notice Blocks several countries in one transaction
+    /// @param _countries ISO 3166-1 numeric codes of the countries
+    function batchBlockCountries(
+        uint16[] calldata _countries
+    ) external onlyRole(ADMIN_ROLE) {
+        for (uint256 i = 0; i < _countries.length; i++) {
+            _blockCountry(_countries[i]);
+        }
+    }
+
+    /// @notice Removes several countries from the blocklist in one transaction
+    /// @param _countries ISO 3166-1 numeric codes of the countries
+    function batchUnblockCountries(
+        uint16[] calldata _countries
+    ) external onlyRole(ADMIN_ROLE) {
+        for (uint256 i = 0; i < _countries.length; i++) {
+            _unblockCountry(_countries[i]);
+        }
+    }
+
+    /// @notice Adds several countries to the allowlist in one transaction
+    /// @param _countries ISO 3166-1 numeric codes of the countries
+    function batchAllowCountries(
+        uint16[] calldata _countries
+    ) external onlyRole(ADMIN_ROLE) {
+        for (uint256 i = 0; i < _countries.length; i++) {
+            _allowCountry(_countries[i]);
+        }
+    }
+
+    /// @notice Removes several countries from the allowlist in one transaction
+    /// @param _countries ISO 3166-1 numeric codes of the countries
+    function batchDisallowCountries(
+        uint16[] calldata _countries
+    ) external onlyRole(ADMIN_ROLE) {
+        for (uint256 i = 0; i < _countries.length; i++) {
+            _disallowCountry(_countries[i]);
+        }
+    }
+
+    /**
+     *  @dev See {ICompliance-transferred}.
+     *  No-op: the rule only reads the country of the receiver from the identity registry and keeps no state per
+     *  holder, so the hooks have nothing to record and can be called by anyone.
+     */
+    // solhint-disable-next-line no-empty-blocks
+    function transferred(address _from, address _to, uint256 _value) external {}
+
+    /**
+     *  @dev See {ICompliance-created}.
+     *  No-op, see {transferred}.
+     */
+    // solhint-disable-next-line no-empty-blocks
+    function created(address _to, uint256 _value) external {}
+
+    /**
+     *  @dev See {ICompliance-destroyed}.
+     *  No-op, see {transferred}.
+     */
+    // solhint-disable-next-line no-empty-blocks
+    function destroyed(address _from, uint256 _value) external {}
+
+    /**
+     *  @dev See {ICompliance-canTransfer}.
+     *  Only the country of the receiver is checked, so transfers out of a restricted country stay possible.
+     */
+    function canTransfer(
+        address /*_from*/,
+        address _to,
+        uint256 /*_value*/
+    ) external view returns (bool) {
+        return isCountryPermitted(_getCountry(_to));
+    }
+
+    /**
+     *  @dev See {ICompliance-isTokenBound}.
+     */
+    function isTokenBound(address _token) external view returns (bool) {
+        return (_token == address(tokenBound));
+    }
+
+    /// @dev Returns the blocked countries
+    function blockedCountries() external view returns (uint16[] memory) {
+        return _blockedCountries;
+    }
+
+    /// @dev Returns the allowed countries, empty when every country that is not blocked is allowed
+    function allowedCountries() external view returns (uint16[] memory) {
+        return _allowedCountries;
+    }
+
+    /// @dev Returns true if `_country` is blocked
+    function isCountryBlocked(uint16 _country) external view returns (bool) {
+        return _blockedIndex[_country] != 0;
+    }
+
+    /// @dev Returns true if `_country` is on the allowlist
+    function isCountryAllowed(uint16 _country) external view returns (bool) {
+        return _allowedIndex[_country] != 0;
+    }
+
+    /// @dev Returns true if wallets of `_country` can receive tokens
+    function isCountryPermitted(uint16 _country) public view returns (bool) {
+        return
+            _blockedIndex[_country] == 0 &&
+            (_allowedCountries.length == 0 || _allowedIndex[_country] != 0);
+    }
+
+    /**
+     *  @dev Returns the country of residence of the _userAddress
+     *  @param _userAddress Address of the wallet
+     *  internal function, can be called only from the functions of the Compliance smart contract
+     */
+    function _getCountry(address _userAddress) internal view returns (uint16) {
+        return tokenBound.identityRegistry().investorCountry(_userAddress);
+    }
+
+    function _blockCountry(uint16 _country) private {
+        require(
+            _blockedIndex[_country] == 0,
+            "ERC-3643: Country already blocked"
+        );
+        _blockedCountries.push(_country);
+        _blockedIndex[_country] = _blockedCountries.length;
+        emit CountryBlocked(_country);
+    }
+
+    function _unblockCountry(uint16 _country) private {
+        require(_blockedIndex[_country] != 0, "ERC-3643: Country not blocked");
+        _removeCountry(_blockedCountries, _blockedIndex, _country);
+        emit CountryUnblocked(_country);
+    }
+
+    function _allowCountry(uint16 _country) private {
+        require(
+            _allowedIndex[_country] == 0,
+            "ERC-3643: Country already allowed"
+        );
+        _allowedCountries.push(_country);
+        _allowedIndex[_country] = _allowedCountries.length;
+        emit CountryAllowed(_country);
+    }
+
+    function _disallowCountry(uint16 _country) private {
+        require(_allowedIndex[_country] != 0, "ERC-3643: Country not allowed");
+        _removeCountry(_allowedCountries, _allowedIndex, _country);
+        emit CountryDisallowed(_country);
+    }
+
+    /// @dev Removes `_country` from `_list` by moving the last country into its slot
+    function _removeCountry(
+        uint16[] storage _list,
+        mapping(uint16 => uint256) storage _index,
+        uint16 _country
+    ) private {
+        uint256 position = _index[_country] - 1;
+        uint16 last = _list[_list.length - 1];
+        _list[position] = last;
+        _index[last] = position + 1;
+        _list.pop();
+        delete _index[_country];
+    }
+}
@@ -0,0 +1,239 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.17;
+
+import "./interface/ICompliance.sol";
+import "../token/IToken.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+
+/// @title ERC-3643 - LockUpCompliance
+/// @notice Keeps tokens non-transferable for a lock-up period after they are minted to or received by a wallet.
+/// Each acquisition is recorded as a lot by the `created` and `transferred` hooks, and `canTransfer` only lets a
+/// wallet send the part of its balance that is not in a lot younger than the lock-up period. Tokens leave a wallet
+/// oldest first; tokens held before the token was bound to this compliance are not in any lot and are never locked.
+/// Transfers between wallets of the same ONCHAINID, such as a recovery, are not restricted and keep the acquisition
+/// times of the tokens they move.
+contract LockUpCompliance is ICompliance, AccessControl {
+    /// @dev Tokens acquired by a wallet at `acquiredAt` (unix seconds) and not spent yet
+    struct Lot {
+        uint256 amount;
+        uint256 acquiredAt;
+    }
+
+    /// Mapping of tokens linked to the compliance contract
+    IToken public tokenBound;
+
+    // keccak256(ADMIN_ROLE)
+    bytes32 public constant ADMIN_ROLE =
+        0xa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775;
+
+    // keccak256(TOKEN_ROLE)
+    bytes32 public constant TOKEN_ROLE =
+        0xa7197c38d9c4c7450c7f2cd20d0a17cbe7c344190d6c82a6b49a146e62439ae4;
+
+    /// @dev Number of seconds acquired tokens stay locked, 0 for no lock-up
+    uint256 public lockUpPeriod;
+
+    /// @dev Lots of each wallet sorted by acquisition time; the lots before `_firstLot` are spent
+    mapping(address => Lot[]) private _lots;
+    mapping(address => uint256) private _firstLot;
+
+    /// @dev Sum of the lots of each wallet, never above its balance once a hook ran
+    mapping(address => uint256) private _lotTotals;
+
+    /// @dev Emitted when the lock-up period is set
+    event LockUpPeriodSet(uint256 _period);
+
+    /// @dev Restricts the hooks to the bound token and to the contracts holding TOKEN_ROLE
+    modifier onlyToken() {
+        require(
+            _msgSender() == address(tokenBound) ||
+                hasRole(TOKEN_ROLE, _msgSender()),
+            "ERC-3643: Caller is not the token"
+        );
+        _;
+    }
+
+    constructor(uint256 _lockUpPeriod) {
+        _grantRole(0x00, _msgSender());
+        _grantRole(ADMIN_ROLE, _msgSender());
+        lockUpPeriod = _lockUpPeriod;
+        emit LockUpPeriodSet(_lockUpPeriod);
+    }
+
+    /**
+     *  @dev See {ICompliance-bindToken}.
+     */
+    function bindToken(address _token) external {
+        require(
+            hasRole(ADMIN_ROLE, _msgSender()) ||
+                address(tokenBound) == address(0),
+            "ERC-3643: Caller not authorized"
+        );
+        tokenBound = IToken(_token);
+        emit TokenBound(_token);
+    }
+
+    /**
+     *  @dev See {ICompliance-unbindToken}.
+     */
+    function unbindToken(address _token) external {
+        require(
+            hasRole(ADMIN_ROLE, _msgSender()) ||
+                hasRole(TOKEN_ROLE, _msgSender()),
+            "ERC-3643: Caller not authorized"
+        );
+        require(_token == address(tokenBound), "ERC-3643: Token not bound");
+        delete tokenBound;
+        emit TokenUnbound(_token);
+    }
+
+    /// @notice Sets the lock-up period. It applies to the lots already recorded, from their acquisition time.
+    /// @param _period Number of seconds acquired tokens stay locked, 0 for no lock-up
+    function setLockUpPeriod(uint256 _period) external onlyRole(ADMIN_ROLE) {
+        lockUpPeriod = _period;
+        emit LockUpPeriodSet(_period);
+    }
+
+    /**
+     *  @dev See {ICompliance-transferred}.
+     */
+    function transferred(
+        address _from,
+        address _to,
+        uint256 _value
+    ) external onlyToken {
+        if (_sameInvestor(_from, _to)) {
+            _spendLots(_from, _to);
+        } else {
+            _spendLots(_from, address(0));
+            _addLot(_to, _value, block.timestamp);
+        }
+    }
+
+    /**
+     *  @dev See {ICompliance-created}.
+     */
+    function created(address _to, uint256 _value) external onlyToken {
+        _addLot(_to, _value, block.timestamp);
+    }
+
+    /**
+     *  @dev See {ICompliance-destroyed}.
+     */
+    function destroyed(address _from, uint256 /*_value*/) external onlyToken {
+        _spendLots(_from, address(0));
+    }
+
+    /**
+     *  @dev See {ICompliance-canTransfer}.
+     *  Mints and transfers between wallets of the same ONCHAINID are always compliant.
+     */
+    function canTransfer(
+        address _from,
+        address _to,
+        uint256 _value
+    ) external view returns (bool) {
+        if (_from == address(0) || _sameInvestor(_from, _to)) return true;
+        return _value <= unlockedBalanceOf(_from);
+    }
+
+    /**
+     *  @dev See {ICompliance-isTokenBound}.
+     */
+    function isTokenBound(address _token) external view returns (bool) {
+        return (_token == address(tokenBound));
+    }
+
+    /// @dev Returns the lots of `_wallet` not spent yet, oldest first
+    function lotsOf(address _wallet) external view returns (Lot[] memory) {
+        Lot[] storage lots = _lots[_wallet];
+        uint256 first = _firstLot[_wallet];
+        Lot[] memory active = new Lot[](lots.length - first);
+        for (uint256 i = first; i < lots.length; i++) {
+            active[i - first] = lots[i];
+        }
+        return active;
+    }
+
+    /// @dev Returns the part of the balance of `_wallet` that cannot be transferred yet
+    function lockedBalanceOf(address _wallet) public view returns (uint256) {
+        Lot[] storage lots = _lots[_wallet];
+        uint256 first = _firstLot[_wallet];
+        uint256 locked;
+        // Lots are sorted by acquisition time, so the locked ones are at the end
+        for (
+            uint256 i = lots.length;
+            i > first &&
+                lots[i - 1].acquiredAt + lockUpPeriod > block.timestamp;
+            i--
+        ) {
+            locked += lots[i - 1].amount;
+        }
+        return Math.min(locked, tokenBound.balanceOf(_wallet));
+    }
+
+    /// @dev Returns the part of the balance of `_wallet` that can be transferred
+    function unlockedBalanceOf(address _wallet) public view returns (uint256) {
+        return tokenBound.balanceOf(_wallet) - lockedBalanceOf(_wallet);
+    }
+
+    /// @dev Returns true if both wallets are registered with the same ONCHAINID
+    function _sameInvestor(
+        address _from,
+        address _to
+    ) internal view returns (bool) {
+        IIdentityRegistry registry = tokenBound.identityRegistry();
+        address identity = address(registry.identity(_from));
+        return
+            identity != address(0) &&
+            identity == address(registry.identity(_to));
+    }
+
+    /// @dev Records `_amount` tokens acquired by `_wallet` at `_acquiredAt`, keeping the lots sorted
+    function _addLot(
+        address _wallet,
+        uint256 _amount,
+        uint256 _acquiredAt
+    ) private {
+        Lot[] storage lots = _lots[_wallet];
+        uint256 first = _firstLot[_wallet];
+        _lotTotals[_wallet] += _amount;
+        if (
+            lots.length > first &&
+            lots[lots.length - 1].acquiredAt == _acquiredAt
+        ) {
+            lots[lots.length - 1].amount += _amount;
+            return;
+        }
+        lots.push(Lot(_amount, _acquiredAt));
+        // Only lots moved from another wallet of the same investor can be older than the last one
+        uint256 i = lots.length - 1;
+        for (; i > first && lots[i - 1].acquiredAt > _acquiredAt; i--) {
+            lots[i] = lots[i - 1];
+        }
+        lots[i] = Lot(_amount, _acquiredAt);
+    }
+
+    /// @dev Removes the oldest lots of `_wallet` until they fit in its balance. With a `_receiver`, the tokens removed
+    /// are added to its lots with their acquisition time.
+    function _spendLots(address _wallet, address _receiver) private {
+        Lot[] storage lots = _lots[_wallet];
+        uint256 first = _firstLot[_wallet];
+        uint256 balance = tokenBound.balanceOf(_wallet);
+        while (_lotTotals[_wallet] > balance) {
+            Lot storage lot = lots[first];
+            uint256 spent = Math.min(lot.amount, _lotTotals[_wallet] - balance);
+            lot.amount -= spent;
+            _lotTotals[_wallet] -= spent;
+            if (_receiver != address(0))
+                _addLot(_receiver, spent, lot.acquiredAt);
+            if (lot.amount == 0) first++;
+        }
+        if (first == lots.length) {
+            delete _lots[_wallet];
+            first = 0;
+        }
+        _firstLot[_wallet] = first;
+    }
+}
@@ -0,0 +1,264 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.17;
+
+import "./interface/ICompliance.sol";
+import "../token/IToken.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+
+/// @title ERC-3643 - MaxHoldersCompliance
+/// @notice Caps the number of wallets holding tokens of the bound token, overall and optionally per country.
+/// A holder is a wallet with a non-zero balance; it is counted in the country the identity registry gives it when
+/// it becomes a holder. The count is kept by the `transferred`, `created` and `destroyed` hooks, and `canTransfer`
+/// rejects transfers and mints that would make a new holder beyond a limit. A limit of 0 means no limit.
+contract MaxHoldersCompliance is ICompliance, AccessControl {
+    /// Mapping of tokens linked to the compliance contract
+    IToken public tokenBound;
+
+    // keccak256(ADMIN_ROLE)
+    bytes32 public constant ADMIN_ROLE =
+        0xa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775;
+
+    // keccak256(TOKEN_ROLE)
+    bytes32 public constant TOKEN_ROLE =
+        0xa7197c38d9c4c7450c7f2cd20d0a17cbe7c344190d6c82a6b49a146e62439ae4;
+
+    /// @dev Maximum number of holders, 0 for no limit
+    uint256 public holderLimit;
+
+    /// @dev Number of wallets counted as holders
+    uint256 public holderCount;
+
+    /// @dev Holders and the country each of them is counted in
+    mapping(address => bool) private _holders;
+    mapping(address => uint16) private _holderCountries;
+
+    /// @dev Number of holders and maximum number of holders (0 for no limit) per country
+    mapping(uint16 => uint256) private _countryHolderCounts;
+    mapping(uint16 => uint256) private _countryHolderLimits;
+
+    /// @dev Countries with a holder limit, and the position + 1 of each of them in `_limitedCountries`
+    uint16[] private _limitedCountries;
+    mapping(uint16 => uint256) private _limitedIndex;
+
+    /// @dev Emitted when the maximum number of holders is set
+    event HolderLimitSet(uint256 _limit);
+
+    /// @dev Emitted when the maximum number of holders of `_country` is set, 0 when the limit is removed
+    event CountryHolderLimitSet(uint16 _country, uint256 _limit);
+
+    /// @dev Emitted when `_wallet` starts to be counted as a holder in `_country`
+    event HolderAdded(address indexed _wallet, uint16 _country);
+
+    /// @dev Emitted when `_wallet` stops being counted as a holder of `_country`
+    event HolderRemoved(address indexed _wallet, uint16 _country);
+
+    /// @dev Restricts the hooks to the bound token and to the contracts holding TOKEN_ROLE
+    modifier onlyToken() {
+        require(
+            _msgSender() == address(tokenBound) ||
+                hasRole(TOKEN_ROLE, _msgSender()),
+            "ERC-3643: Caller is not the token"
+        );
+        _;
+    }
+
+    constructor() {
+        _grantRole(0x00, _msgSender());
+        _grantRole(ADMIN_ROLE, _msgSender());
+    }
+
+    /**
+     *  @dev See {ICompliance-bindToken}.
+     */
+    function bindToken(address _token) external {
+        require(
+            hasRole(ADMIN_ROLE, _msgSender()) ||
+                address(tokenBound) == address(0),
+            "ERC-3643: Caller not authorized"
+        );
+        tokenBound = IToken(_token);
+        emit TokenBound(_token);
+    }
+
+    /**
+     *  @dev See {ICompliance-unbindToken}.
+     */
+    function unbindToken(address _token) external {
+        require(
+            hasRole(ADMIN_ROLE, _msgSender()) ||
+                hasRole(TOKEN_ROLE, _msgSender()),
+            "ERC-3643: Caller not authorized"
+        );
+        require(_token == address(tokenBound), "ERC-3643: Token not bound");
+        delete tokenBound;
+        emit TokenUnbound(_token);
+    }
+
+    /// @notice Sets the maximum number of holders. Holders already counted are kept when the limit is lowered.
+    /// @param _limit Maximum number of holders, 0 for no limit
+    function setHolderLimit(uint256 _limit) external onlyRole(ADMIN_ROLE) {
+        holderLimit = _limit;
+        emit HolderLimitSet(_limit);
+    }
+
+    /// @notice Sets the maximum number of holders of a country
+    /// @param _country ISO 3166-1 numeric code of the country
+    /// @param _limit Maximum number of holders, 0 to remove the limit
+    function setCountryHolderLimit(
+        uint16 _country,
+        uint256 _limit
+    ) external onlyRole(ADMIN_ROLE) {
+        if (_limit != 0 && _limitedIndex[_country] == 0) {
+            _limitedCountries.push(_country);
+            _limitedIndex[_country] = _limitedCountries.length;
+        }
+        if (_limit == 0 && _limitedIndex[_country] != 0) {
+            uint16 last = _limitedCountries[_limitedCountries.length - 1];
+            _limitedCountries[_limitedIndex[_country] - 1] = last;
+            _limitedIndex[last] = _limitedIndex[_country];
+            _limitedCountries.pop();
+            delete _limitedIndex[_country];
+        }
+        _countryHolderLimits[_country] = _limit;
+        emit CountryHolderLimitSet(_country, _limit);
+    }
+
+    /// @notice Counts or uncounts wallets from their current balance, for holders that received tokens before the
+    /// token was bound to this compliance. The limits are not checked.
+    /// @param _wallets Wallets to update
+    function syncHolders(
+        address[] calldata _wallets
+    ) external onlyRole(ADMIN_ROLE) {
+        for (uint256 i = 0; i < _wallets.length; i++) {
+            _updateHolder(_wallets[i]);
+        }
+    }
+
+    /**
+     *  @dev See {ICompliance-transferred}.
+     */
+    function transferred(
+        address _from,
+        address _to,
+        uint256 /*_value*/
+    ) external onlyToken {
+        _updateHolder(_from);
+        _updateHolder(_to);
+    }
+
+    /**
+     *  @dev See {ICompliance-created}.
+     */
+    function created(address _to, uint256 /*_value*/) external onlyToken {
+        _updateHolder(_to);
+    }
+
+    /**
+     *  @dev See {ICompliance-destroyed}.
+     */
+    function destroyed(
+        address _from,
+        uint256 /*_value*/
+    ) external onlyToken {
+        _updateHolder(_from);
+    }
+
+    /**
+     *  @dev See {ICompliance-canTransfer}.
+     *  A transfer to a wallet that already holds tokens is always compliant. A transfer of the whole balance of the
+     *  sender to a new holder frees the place of the sender, also in its country.
+     */
+    function canTransfer(
+        address _from,
+        address _to,
+        uint256 _value
+    ) external view returns (bool) {
+        if (_value == 0 || _holders[_to]) return true;
+        bool senderLeaves = _from != address(0) &&
+            _holders[_from] &&
+            tokenBound.balanceOf(_from) == _value;
+        if (!_withinLimit(holderCount, holderLimit, senderLeaves)) return false;
+        uint16 country = _getCountry(_to);
+        return
+            _withinLimit(
+                _countryHolderCounts[country],
+                _countryHolderLimits[country],
+                senderLeaves && _holderCountries[_from] == country
+            );
+    }
+
+    /**
+     *  @dev See {ICompliance-isTokenBound}.
+     */
+    function isTokenBound(address _token) external view returns (bool) {
+        return (_token == address(tokenBound));
+    }
+
+    /// @dev Returns true if `_wallet` is counted as a holder
+    function isHolder(address _wallet) external view returns (bool) {
+        return _holders[_wallet];
+    }
+
+    /// @dev Returns the country `_wallet` is counted in, meaningful only when it is a holder
+    function holderCountry(address _wallet) external view returns (uint16) {
+        return _holderCountries[_wallet];
+    }
+
+    /// @dev Returns the number of holders counted in `_country`
+    function countryHolderCount(
+        uint16 _country
+    ) external view returns (uint256) {
+        return _countryHolderCounts[_country];
+    }
+
+    /// @dev Returns the maximum number of holders of `_country`, 0 for no limit
+    function countryHolderLimit(
+        uint16 _country
+    ) external view returns (uint256) {
+        return _countryHolderLimits[_country];
+    }
+
+    /// @dev Returns the countries with a holder limit
+    function limitedCountries() external view returns (uint16[] memory) {
+        return _limitedCountries;
+    }
+
+    /**
+     *  @dev Returns the country of residence of the _userAddress
+     *  @param _userAddress Address of the wallet
+     *  internal function, can be called only from the functions of the Compliance smart contract
+     */
+    function _getCountry(address _userAddress) internal view returns (uint16) {
+        return tokenBound.identityRegistry().investorCountry(_userAddress);
+    }
+
+    /// @dev Counts `_wallet` as a holder when it has a balance, uncounts it when it has none
+    function _updateHolder(address _wallet) private {
+        if (_wallet == address(0)) return;
+        bool holds = tokenBound.balanceOf(_wallet) > 0;
+        if (holds && !_holders[_wallet]) {
+            uint16 country = _getCountry(_wallet);
+            _holders[_wallet] = true;
+            _holderCountries[_wallet] = country;
+            holderCount++;
+            _countryHolderCounts[country]++;
+            emit HolderAdded(_wallet, country);
+        } else if (!holds && _holders[_wallet]) {
+            uint16 country = _holderCountries[_wallet];
+            delete _holders[_wallet];
+            delete _holderCountries[_wallet];
+            holderCount--;
+            _countryHolderCounts[country]--;
+            emit HolderRemoved(_wallet, country);
+        }
+    }
+
+    /// @dev Returns true if one more holder fits in `_limit`, `_freed` when a holder leaves at the same time
+    function _withinLimit(
+        uint256 _count,
+        uint256 _limit,
+        bool _freed
+    ) private pure returns (bool) {
+        return _limit == 0 || _freed || _count < _limit;
+    }
+}
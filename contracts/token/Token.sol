@@ -565,7 +565,7 @@ contract Token is IToken, AccessControl, Pausable {
         }
 
         emit Transfer(from, to, amount);
-        _compliance.transferred(_msgSender(), to, amount);
+        _compliance.transferred(from, to, amount);
     }
 
     /// @dev Mints the amount of tokens to the `account`
@@ -6,6 +6,7 @@ import 'solidity-coverage';
 import '@nomiclabs/hardhat-solhint';
 import '@primitivefi/hardhat-dodoc';
 import * as dotenv from 'dotenv';
+import './tasks/trex';
 
 dotenv.config();
 
@@ -0,0 +1,46 @@
+/**
+ * Replaces the compliance of the Token recorded in deployments/<network>.json with a CountryRestrictCompliance,
+ * filled with the blocked and allowed countries given in the environment, and records it in the manifest. The
+ * lists are managed afterwards with the trex:block-countries, trex:allow-countries and trex:countries tasks.
+ *
+ * The first Hardhat account signs: it needs OWNER_ROLE on the Token.
+ *
+ * To run this script against a local Hardhat node:
+ * COUNTRY_BLOCKLIST=IR,KP npx hardhat run scripts/attach-country-compliance.ts --network localhost
+ *
+ * Environment variables:
+ * COUNTRY_BLOCKLIST=<a,b,...>   countries whose wallets cannot receive tokens (ISO 3166-1 codes or names)
+ * COUNTRY_ALLOWLIST=<a,b,...>   when set, only wallets of these countries can receive tokens
+ */
+import { ethers, network } from 'hardhat';
+import { Token__factory } from '../typechain-types';
+import {
+  attachCountryRestrictCompliance,
+  contractAddress,
+  formatCountryRestrictions,
+  loadManifest,
+  readCountryRestrictions,
+  writeManifest,
+} from '../sdk';
+
+const list = (value?: string) => value?.split(',').filter((country) => country.trim() !== '') ?? [];
+
+async function main() {
+  const [admin] = await ethers.getSigners();
+  const manifest = await loadManifest(network.name, ethers.provider);
+  const token = Token__factory.connect(contractAddress(manifest, 'Token'), admin);
+
+  const compliance = await attachCountryRestrictCompliance(admin, token, {
+    blocked: list(process.env.COUNTRY_BLOCKLIST),
+    allowed: list(process.env.COUNTRY_ALLOWLIST),
+    manifest,
+    log: (message) => console.log(`- ${message}`),
+  });
+  console.log(`Deployment manifest written to ${writeManifest(manifest)}`);
+  console.log(formatCountryRestrictions(await readCountryRestrictions(compliance)));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,65 @@
+/**
+ * Bulk issuance (cap table import) for a deployed ERC-3643 suite.
+ *
+ * Reads a CSV with the columns `wallet,amount`, amounts in token units (parsed with the token decimals), checks
+ * every row against the identity registry and compliance, and mints the accepted rows on the Token recorded in
+ * deployments/<network>.json with chunked `batchMint` calls.
+ *
+ * The per-row results (status, transaction hash, error) are written to a CSV next to the input. Running the
+ * script again with the same files resumes where it stopped without minting a row twice; rejected and failed
+ * rows are retried. Once done, balances and total supply are reconciled with the file and the diff report is
+ * signed by the operator. The first Hardhat account must have AGENT_ROLE on the Token.
+ *
+ * To run this script against a local Hardhat node:
+ * ISSUANCE_CSV=register.csv npx hardhat run scripts/bulk-issuance.ts --network localhost
+ *
+ * Environment variables:
+ * ISSUANCE_CSV=<path>             balances to issue (required)
+ * ISSUANCE_RESULTS=<path>         result file (default <ISSUANCE_CSV without .csv>.results.csv)
+ * ISSUANCE_REPORT=<path>          signed reconciliation report (default <ISSUANCE_CSV without .csv>.report.json)
+ * ISSUANCE_MAX_CHUNK_GAS=<gas>    gas bound of one batchMint transaction (default 5000000)
+ * ISSUANCE_MAX_CHUNK_SIZE=<n>     wallets per batchMint transaction (default 100)
+ */
+import fs from 'fs';
+import { ethers, network } from 'hardhat';
+import { Token__factory } from '../typechain-types';
+import { IssuanceStatus, contractAddress, issueTokens, loadManifest, parseIssuanceCsv, reconcileIssuance, signReport } from '../sdk';
+
+async function main() {
+  const csvPath = process.env.ISSUANCE_CSV;
+  if (!csvPath) throw new Error('Set ISSUANCE_CSV to the issuance CSV file');
+  const base = csvPath.replace(/\.csv$/i, '');
+  const resultFile = process.env.ISSUANCE_RESULTS ?? `${base}.results.csv`;
+  const reportFile = process.env.ISSUANCE_REPORT ?? `${base}.report.json`;
+  const maxChunkGas = process.env.ISSUANCE_MAX_CHUNK_GAS ? Number(process.env.ISSUANCE_MAX_CHUNK_GAS) : undefined;
+  const maxChunkSize = process.env.ISSUANCE_MAX_CHUNK_SIZE ? Number(process.env.ISSUANCE_MAX_CHUNK_SIZE) : undefined;
+
+  const [agent] = await ethers.getSigners();
+  const manifest = await loadManifest(network.name, ethers.provider);
+  const token = Token__factory.connect(contractAddress(manifest, 'Token'), agent);
+  const csv = fs.readFileSync(csvPath, 'utf8');
+  const rows = parseIssuanceCsv(csv, await token.decimals());
+  console.log(`Issuing to ${rows.length} wallets from ${csvPath} as ${agent.address}, results in ${resultFile}`);
+
+  const results = await issueTokens(token, rows, { resultFile, maxChunkGas, maxChunkSize, log: console.log });
+
+  const count = (status: IssuanceStatus) => results.filter((result) => result.status === status).length;
+  console.log(`Minted: ${count('minted')}, rejected: ${count('rejected')}, failed: ${count('failed')}, not settled: ${count('submitted')}`);
+  if (count('submitted') > 0) console.error(`Run the issuance again with ${resultFile} to settle the submitted transactions before minting again`);
+  results
+    .filter((result) => result.status === 'rejected' || result.status === 'failed')
+    .forEach((result) => console.error(`- line ${result.line} (${result.wallet}): ${result.error}`));
+
+  const report = await signReport(await reconcileIssuance(token, rows, csv), agent);
+  fs.writeFileSync(reportFile, `${JSON.stringify(report, null, 2)}\n`);
+  console.log(`Total supply ${report.totalSupply}, expected ${report.expectedTotal}; report signed by ${report.signedBy} in ${reportFile}`);
+  if (!report.reconciled) {
+    report.rows.filter((row) => !row.ok).forEach((row) => console.error(`- line ${row.line} (${row.wallet}): ${row.difference}`));
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,83 @@
+/**
+ * Point-in-time cap table export for a deployed ERC-3643 suite.
+ *
+ * Lists every holder of the Token recorded in deployments/<network>.json at a block or at a record date, with
+ * balance, frozen tokens, freeze flag, ONCHAINID and country, and writes it as CSV and JSON. The sum of the
+ * balances is reconciled against totalSupply() at the same block; the script exits with code 1 when it does not
+ * match. When the cap table database of scripts/index-cap-table.ts covers the block, its journal is replayed
+ * instead of fetching the logs again.
+ *
+ * To run this script against a local Hardhat node:
+ * SNAPSHOT_BLOCK=42 npx hardhat run scripts/cap-table-snapshot.ts --network localhost
+ * SNAPSHOT_TIMESTAMP=2024-06-30T23:59:59Z npx hardhat run scripts/cap-table-snapshot.ts --network localhost
+ *
+ * Environment variables:
+ * SNAPSHOT_BLOCK=<number>                block to snapshot
+ * SNAPSHOT_TIMESTAMP=<unix seconds|ISO>  record date, resolved to the last block mined at or before it
+ * (neither: the latest block)
+ * SNAPSHOT_DIR=<path>                    output directory (default deployments/snapshots)
+ * CAP_TABLE_DB=<path>                    cap table database (default deployments/<network>.cap-table.sqlite)
+ */
+import fs from 'fs';
+import path from 'path';
+import { ethers, network } from 'hardhat';
+import {
+  CapTableStore,
+  DEFAULT_MANIFEST_DIR,
+  SnapshotPoint,
+  contractAddress,
+  loadManifest,
+  snapshotToCsv,
+  snapshotToJson,
+  takeCapTableSnapshot,
+} from '../sdk';
+
+function snapshotPoint(): SnapshotPoint | undefined {
+  const { SNAPSHOT_BLOCK, SNAPSHOT_TIMESTAMP } = process.env;
+  if (SNAPSHOT_BLOCK && SNAPSHOT_TIMESTAMP) throw new Error('Set either SNAPSHOT_BLOCK or SNAPSHOT_TIMESTAMP, not both');
+  if (SNAPSHOT_BLOCK) return { blockNumber: Number(SNAPSHOT_BLOCK) };
+  if (SNAPSHOT_TIMESTAMP) {
+    const timestamp = /^\d+$/.test(SNAPSHOT_TIMESTAMP) ? Number(SNAPSHOT_TIMESTAMP) : Math.floor(Date.parse(SNAPSHOT_TIMESTAMP) / 1000);
+    if (Number.isNaN(timestamp)) throw new Error(`Invalid SNAPSHOT_TIMESTAMP ${SNAPSHOT_TIMESTAMP}`);
+    return { timestamp };
+  }
+  return undefined;
+}
+
+async function main() {
+  const manifest = await loadManifest(network.name, ethers.provider);
+  const dbPath = process.env.CAP_TABLE_DB ?? path.join(DEFAULT_MANIFEST_DIR, `${network.name}.cap-table.sqlite`);
+  const outDir = process.env.SNAPSHOT_DIR ?? path.join(DEFAULT_MANIFEST_DIR, 'snapshots');
+  const at = snapshotPoint() ?? { blockNumber: await ethers.provider.getBlockNumber() };
+
+  const store = fs.existsSync(dbPath) ? new CapTableStore(dbPath) : undefined;
+  const snapshot = await takeCapTableSnapshot(ethers.provider, {
+    token: contractAddress(manifest, 'Token'),
+    identityRegistry: contractAddress(manifest, 'IdentityRegistry'),
+    fromBlock: manifest.deploymentBlock,
+    at,
+    store,
+  });
+  store?.close();
+
+  fs.mkdirSync(outDir, { recursive: true });
+  const basename = path.join(outDir, `${network.name}-${snapshot.blockNumber}`);
+  fs.writeFileSync(`${basename}.csv`, snapshotToCsv(snapshot));
+  fs.writeFileSync(`${basename}.json`, snapshotToJson(snapshot));
+
+  console.log(`Cap table at block ${snapshot.blockNumber} (${new Date(snapshot.timestamp * 1000).toISOString()})`);
+  console.log(`${snapshot.holders.length} holders, written to ${basename}.csv and ${basename}.json`);
+  console.log(`Total balance:       ${snapshot.totalBalance.toString()}`);
+  console.log(`Total frozen tokens: ${snapshot.totalFrozenTokens.toString()}`);
+  console.log(`totalSupply():       ${snapshot.totalSupply.toString()}`);
+
+  if (!snapshot.reconciled) {
+    console.error(`Holder balances do not reconcile with totalSupply(): difference of ${snapshot.difference.toString()}`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,80 @@
+/**
+ * Claim expiry scheduler for the suite recorded in deployments/<network>.json.
+ *
+ * Lists the registered investors whose claims expire within CLAIM_EXPIRY_WITHIN_DAYS days under the validity periods
+ * of the policy file, and writes the full report to a CSV file. With CLAIM_EXPIRY_ENFORCE=1 it also applies the
+ * `onExpiry` action of the policy to the expired claims: the first Hardhat account freezes wallets as agent of the
+ * Token and revokes claims as management key of the ClaimIssuer of the manifest. CLAIM_EXPIRY_DRY_RUN=1 only
+ * simulates those calls. With CLAIM_EXPIRY_INTERVAL set, the scan runs again every interval until Ctrl-C.
+ *
+ * To run this script against a local Hardhat node:
+ * CLAIM_POLICY=claim-policy.json npx hardhat run scripts/claim-expiry.ts --network localhost
+ *
+ * Environment variables:
+ * CLAIM_POLICY=<path>                 policy file, see sdk/claim-expiry.ts (required)
+ * CLAIM_EXPIRY_WITHIN_DAYS=<days>     window of the expiring list (default 30)
+ * CLAIM_EXPIRY_REPORT=<path>          CSV report (default deployments/<network>.claim-expiry.csv)
+ * CLAIM_EXPIRY_ENFORCE=1              apply the policy actions to expired claims
+ * CLAIM_EXPIRY_DRY_RUN=1              only simulate the policy actions
+ * CLAIM_EXPIRY_INTERVAL=<ms>          run again after this delay, until the process is stopped
+ */
+import fs from 'fs';
+import path from 'path';
+import { ethers, network } from 'hardhat';
+import { Token__factory } from '../typechain-types';
+import {
+  DEFAULT_MANIFEST_DIR,
+  claimExpiryCsv,
+  contractAddress,
+  enforceClaimPolicy,
+  expiringClaims,
+  loadManifest,
+  readClaimPolicy,
+  scanClaimExpiry,
+} from '../sdk';
+
+async function main() {
+  if (!process.env.CLAIM_POLICY) throw new Error('Set CLAIM_POLICY to the claim policy file');
+  const policy = readClaimPolicy(process.env.CLAIM_POLICY);
+  const withinDays = Number(process.env.CLAIM_EXPIRY_WITHIN_DAYS ?? 30);
+  const reportFile = process.env.CLAIM_EXPIRY_REPORT ?? path.join(DEFAULT_MANIFEST_DIR, `${network.name}.claim-expiry.csv`);
+  const enforce = process.env.CLAIM_EXPIRY_ENFORCE === '1';
+  const dryRun = process.env.CLAIM_EXPIRY_DRY_RUN === '1';
+  const interval = process.env.CLAIM_EXPIRY_INTERVAL ? Number(process.env.CLAIM_EXPIRY_INTERVAL) : undefined;
+
+  const [agent] = await ethers.getSigners();
+  const manifest = await loadManifest(network.name, ethers.provider);
+  const token = Token__factory.connect(contractAddress(manifest, 'Token'), agent);
+  const issuerManagers = manifest.contracts.ClaimIssuer ? { [manifest.contracts.ClaimIssuer.address]: agent } : {};
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  while (!controller.signal.aborted) {
+    const report = await scanClaimExpiry(manifest, ethers.provider, policy, { withinDays });
+    fs.writeFileSync(reportFile, claimExpiryCsv(report));
+    const expiring = expiringClaims(report);
+    console.log(
+      `Block ${report.blockNumber}: ${report.rows.length} claims tracked, ${expiring.length} expired or expiring within ${withinDays} days`,
+    );
+    expiring.forEach((row) =>
+      console.log(`- ${row.wallet} ${row.topicName} ${row.status} on ${new Date((row.expiresAt as number) * 1000).toISOString()} (${row.onExpiry})`),
+    );
+    report.rows
+      .filter((row) => row.status === 'unknown' || row.status === 'missing')
+      .forEach((row) => console.log(`- ${row.wallet} ${row.topicName} ${row.status}`));
+    console.log(`Report written to ${reportFile}`);
+
+    if (enforce) {
+      await enforceClaimPolicy(report, { token, issuerManagers, dryRun, log: (message) => console.log(`${dryRun ? 'Dry run: ' : ''}${message}`) });
+    }
+    if (interval === undefined) break;
+    await new Promise((resolve) => {
+      setTimeout(resolve, interval);
+    });
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
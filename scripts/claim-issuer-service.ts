@@ -0,0 +1,38 @@
+/**
+ * Runs the KYC claim-issuer stand-in (sdk/claim-issuer-service.ts) against the ClaimIssuer recorded in
+ * deployments/<network>.json, until the process is stopped with Ctrl-C.
+ *
+ * The first Hardhat account signs the claims and sends the revocations: scripts/deploy-trex-suite.ts makes it
+ * both a management key and a CLAIM key of the ClaimIssuer.
+ *
+ * To run this script against a local Hardhat node:
+ * npx hardhat run scripts/claim-issuer-service.ts --network localhost
+ *
+ * Environment variables:
+ * CLAIM_SERVICE_PORT=<port>    port to listen on (default 3030)
+ * CLAIM_SERVICE_STORE=<path>   file the issued claims are kept in (default deployments/<network>.claims.json)
+ */
+import path from 'path';
+import { ethers, network } from 'hardhat';
+import { DEFAULT_MANIFEST_DIR, contractAddress, createClaimIssuerService, loadManifest } from '../sdk';
+
+async function main() {
+  const port = Number(process.env.CLAIM_SERVICE_PORT ?? 3030);
+  const storeFile = process.env.CLAIM_SERVICE_STORE ?? path.join(DEFAULT_MANIFEST_DIR, `${network.name}.claims.json`);
+
+  const [signer] = await ethers.getSigners();
+  const manifest = await loadManifest(network.name, ethers.provider);
+  const issuer = contractAddress(manifest, 'ClaimIssuer');
+
+  const service = createClaimIssuerService({ issuer, signingKey: signer, manager: signer, provider: ethers.provider, storeFile });
+  await new Promise<void>((resolve) => {
+    service.listen(port, resolve);
+  });
+  console.log(`Claim issuer service for ${issuer} listening on http://localhost:${port}, signing with ${signer.address}`);
+  console.log(`Issued claims are kept in ${storeFile}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
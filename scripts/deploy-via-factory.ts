@@ -4,17 +4,15 @@
  * This script demonstrates how to call the `deployTREXSuite` function, which
  * deploys and configures all necessary contracts in a single transaction.
  *
+ * The TREXFactory address is read from the deployments/<network>.json manifest, and the suite deployed
+ * by the factory is recorded back into it.
+ *
  * To run this script, use the following command AFTER deploying the initial factory:
  * npx hardhat run scripts/deploy-via-factory.ts --network localhost
  */
-import { ethers } from 'hardhat';
-
-// =================================================================================
-// IMPORTANT: Update this address from your deployment script's output!
-// =================================================================================
-// This is the address of the TREXFactory contract itself.
-const TREX_FACTORY_ADDRESS = '0x8040A9446c71C080A69A1FE8DdA7Cf5578268748';
-// =================================================================================
+import { Event } from 'ethers';
+import { ethers, network } from 'hardhat';
+import { contractAddress, loadManifest, recordCreatedBy, recordDeployment, writeManifest } from '../sdk';
 
 async function main() {
   console.log('🎬 Starting TREX suite deployment via the factory...');
@@ -23,13 +21,14 @@ async function main() {
   console.log(`- Using deployer account: ${deployer.address}`);
 
   // Get an instance of the deployed TREXFactory contract
-  const trexFactory = await ethers.getContractAt('ITREXFactory', TREX_FACTORY_ADDRESS, deployer);
+  const manifest = await loadManifest(network.name, ethers.provider);
+  const trexFactory = await ethers.getContractAt('ITREXFactory', contractAddress(manifest, 'TREXFactory'), deployer);
 
   // --- 1. Deploy a dedicated ClaimIssuer contract ---
   // The factory expects the address of a contract, not a regular wallet.
   console.log('\n--- Deploying a dedicated ClaimIssuer contract first ---');
   const claimIssuerContract = await ethers.deployContract('ClaimIssuer', [deployer.address], deployer);
-  await claimIssuerContract.deployed();
+  await recordDeployment(manifest, 'ClaimIssuer', claimIssuerContract);
   console.log(`- ClaimIssuer contract deployed at: ${claimIssuerContract.address}`);
   // Authorize the deployer's key to sign claims on this new issuer contract
   await claimIssuerContract
@@ -85,7 +84,7 @@ async function main() {
 
     // The factory emits an event with the addresses of all the deployed contracts.
     // We can parse the logs to find this information.
-    const deployEvent = receipt.events?.find((e) => e.event === 'TREXSuiteDeployed');
+    const deployEvent = receipt.events?.find((e: Event) => e.event === 'TREXSuiteDeployed');
 
     if (deployEvent && deployEvent.args) {
       console.log('\n✅ TREX suite deployed successfully via factory!');
@@ -94,6 +93,14 @@ async function main() {
       console.log(`Identity Registry:   ${deployEvent.args.ir}`);
       console.log(`Compliance Contract: ${deployEvent.args.mc}`);
       console.log('====================================================');
+
+      await recordCreatedBy(manifest, 'Token', deployEvent.args[0], receipt);
+      await recordCreatedBy(manifest, 'IdentityRegistry', deployEvent.args[1], receipt);
+      await recordCreatedBy(manifest, 'IdentityRegistryStorage', deployEvent.args[2], receipt);
+      await recordCreatedBy(manifest, 'TrustedIssuersRegistry', deployEvent.args[3], receipt);
+      await recordCreatedBy(manifest, 'ClaimTopicsRegistry', deployEvent.args[4], receipt);
+      await recordCreatedBy(manifest, 'ModularCompliance', deployEvent.args[5], receipt);
+      console.log(`- Deployment manifest updated: ${writeManifest(manifest)}`);
     } else {
       console.error('❌ Deployment seemed to succeed, but the TREXSuiteDeployed event was not found. The transaction likely reverted.');
     }
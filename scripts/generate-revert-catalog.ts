@@ -0,0 +1,18 @@
+/**
+ * Regenerates sdk/revert-catalog.ts from the revert strings and role constants of the Solidity sources in
+ * contracts/. Run it after changing a `require` / `revert` message or a role; a test fails while the catalog is
+ * out of date.
+ *
+ * To run this script:
+ * npm run generate:revert-catalog
+ */
+import fs from 'fs';
+import { CATALOG_FILE, collectRevertCatalog, renderRevertCatalog } from '../sdk/revert-catalog-builder';
+
+function main() {
+  const catalog = collectRevertCatalog();
+  fs.writeFileSync(CATALOG_FILE, renderRevertCatalog(catalog));
+  console.log(`Wrote ${catalog.reasons.length} revert reasons and ${Object.keys(catalog.roles).length} roles to ${CATALOG_FILE}`);
+}
+
+main();
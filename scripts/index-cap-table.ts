@@ -0,0 +1,65 @@
+/**
+ * Cap table indexer for a deployed ERC-3643 suite.
+ *
+ * Follows the Token and IdentityRegistry recorded in deployments/<network>.json from their deployment block and
+ * keeps the cap table (wallet, identity, country, balance, frozen tokens, frozen flag) in a SQLite database,
+ * by default deployments/<network>.cap-table.sqlite. Stopping and restarting the script resumes from the last
+ * indexed block; blocks that were reorganized away are rolled back.
+ *
+ * To run this script against a local Hardhat node, deploy the suite first and then use:
+ * npx hardhat node
+ * npx hardhat run scripts/deploy-trex-suite.ts --network localhost
+ * npx hardhat run scripts/index-cap-table.ts --network localhost
+ *
+ * Optional environment variables:
+ * CAP_TABLE_DB=<path>               database file
+ * CAP_TABLE_POLL_INTERVAL=<ms>      delay between two syncs (default 2000)
+ *
+ * The database can be queried directly, e.g. `sqlite3 deployments/localhost.cap-table.sqlite 'SELECT * FROM holders'`.
+ */
+import path from 'path';
+import { ethers, network } from 'hardhat';
+import { CapTableIndexer, CapTableStore, DEFAULT_MANIFEST_DIR, formatCountry, loadManifest } from '../sdk';
+
+async function main() {
+  const manifest = await loadManifest(network.name, ethers.provider);
+  const dbPath = process.env.CAP_TABLE_DB ?? path.join(DEFAULT_MANIFEST_DIR, `${network.name}.cap-table.sqlite`);
+  const pollInterval = Number(process.env.CAP_TABLE_POLL_INTERVAL ?? 2000);
+
+  const store = new CapTableStore(dbPath);
+  const indexer = CapTableIndexer.fromManifest(manifest, ethers.provider, store);
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  const checkpoint = store.checkpoint();
+  console.log(`Indexing ${network.name} into ${dbPath}`);
+  console.log(checkpoint ? `Resuming after block ${checkpoint.lastBlock}` : `Starting at block ${manifest.deploymentBlock}`);
+
+  await indexer.follow({
+    pollInterval,
+    signal: controller.signal,
+    onSync: ({ rolledBackTo, fromBlock, toBlock, events }) => {
+      if (rolledBackTo !== undefined) console.log(`Reorg detected, rolled back to block ${rolledBackTo}`);
+      if (events === 0) return;
+      console.log(`Indexed ${events} events in blocks ${fromBlock}-${toBlock}`);
+      console.table(
+        store.holders().map((holder) => ({
+          wallet: holder.wallet,
+          identity: holder.identity,
+          country: holder.country === null ? '' : formatCountry(holder.country),
+          balance: holder.balance.toString(),
+          frozenTokens: holder.frozenTokens.toString(),
+          frozen: holder.frozen,
+        })),
+      );
+    },
+  });
+
+  store.close();
+  console.log('Indexer stopped');
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -6,13 +6,15 @@
  * 2. Minting tokens to the now-verified investor.
  * 3. Checking the final token balance.
  *
- * To run this script, first update the addresses in the CONFIGURATION section,
+ * To run this script, first deploy the suite on the same network (contract addresses are read from
+ * its deployments/<network>.json manifest) and set the signing key in the CONFIGURATION section,
  * then run the following command:
  * npx hardhat run scripts/interact-with-suite.ts --network <your-network-name>
  */
-import { ethers } from 'hardhat';
+import { ethers, network } from 'hardhat';
 import OnchainID from '@onchain-id/solidity';
-import { Contract, Wallet } from 'ethers';
+import { IIdentity__factory } from '../typechain-types';
+import { ClaimBuilder, contractAddress, countryCode, loadManifest, submitClaim } from '../sdk';
 
 async function main() {
   console.log('Starting interaction with deployed TREX suite...');
@@ -21,13 +23,14 @@ async function main() {
   console.log(`\nUsing deployer/admin account: ${deployer.address}`);
 
   // =======================================================================
-  // CONFIGURATION: PASTE YOUR DEPLOYED ADDRESSES AND KEYS HERE
+  // CONFIGURATION: ADDRESSES COME FROM THE DEPLOYMENT MANIFEST, PASTE YOUR KEYS HERE
   // =======================================================================
-  // Addresses from your `deploy-trex-suite.ts` output
-  const TOKEN_ADDRESS = '0x3Aa5ebB10DC797CAC828524e59A333d0A371443c';
-  const IDENTITY_REGISTRY_ADDRESS = '0x9A9f2CCfdE556A7E9Ff0848998Aa4a0CFD8863AE';
-  const IDENTITY_IMPLEMENTATION_AUTHORITY_ADDRESS = '0xa513E6E4b8f2a923D98304ec87F64353C4D5C853';
-  const CLAIM_ISSUER_ADDRESS = '0x4A679253410272dd5232B3Ff7cF5dbB88f295319';
+  // Addresses written by `deploy-trex-suite.ts` to deployments/<network>.json
+  const manifest = await loadManifest(network.name, ethers.provider);
+  const TOKEN_ADDRESS = contractAddress(manifest, 'Token');
+  const IDENTITY_REGISTRY_ADDRESS = contractAddress(manifest, 'IdentityRegistry');
+  const IDENTITY_IMPLEMENTATION_AUTHORITY_ADDRESS = contractAddress(manifest, 'IdentityImplementationAuthority');
+  const CLAIM_ISSUER_ADDRESS = contractAddress(manifest, 'ClaimIssuer');
 
   // The private key for the `claimIssuerSigningKey` generated during deployment.
   const claimIssuerSigningKey = new ethers.Wallet(
@@ -61,46 +64,31 @@ async function main() {
   const investorIdentity = await IdentityProxy.deploy(
     IDENTITY_IMPLEMENTATION_AUTHORITY_ADDRESS,
     investor.address // The investor has initial management control
-  ).then(proxy => ethers.getContractAt('Identity', proxy.address));
-  await investorIdentity.deployed();
+  ).then(proxy => IIdentity__factory.connect(proxy.address, deployer));
   console.log(`- Deployed IdentityProxy for investor at: ${investorIdentity.address}`);
 
   // Register the investor's wallet with their Identity contract in the main registry
-  await identityRegistry.connect(deployer).registerIdentity(investor.address, investorIdentity.address, 356); // 356 for India
+  await identityRegistry.connect(deployer).registerIdentity(investor.address, investorIdentity.address, countryCode('IN'));
   console.log(`- Registered investor's wallet in the IdentityRegistry.`);
 
   // Prepare and sign the KYC claim using the authorized signing key
   const claimTopic = ethers.utils.id('KYC_AML_VERIFIED');
-  const claimData = ethers.utils.hexlify(ethers.utils.toUtf8Bytes('Verified on ' + new Date().toISOString()));
-
-  const signature = await claimIssuerSigningKey._signTypedData(
-    {
-      name: 'ClaimIssuer',
-      version: '1',
-      chainId: (await ethers.provider.getNetwork()).chainId,
-      verifyingContract: claimIssuer.address,
-    },
-    {
-      Claim: [
-        { name: 'subject', type: 'address' },
-        { name: 'topic', type: 'uint256' },
-        { name: 'value', type: 'bytes' },
-      ],
-    },
-    {
-      subject: investorIdentity.address,
-      topic: claimTopic,
-      value: claimData,
-    },
-  );
+
+  // ClaimIssuer.isClaimValid only accepts an EIP-191 signature of keccak256(abi.encode(identity, topic, data)).
+  const claim = await ClaimBuilder.create(investorIdentity.address, claimIssuer.address, claimTopic)
+    .withData('Verified on ' + new Date().toISOString())
+    .sign(claimIssuerSigningKey);
 
   // **FIX**: The investor must grant the `deployer` (the msg.sender) permission to add claims.
   const CLAIM_SIGNER_KEY = ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(['address'], [deployer.address]));
   await investorIdentity.connect(investor).addKey(CLAIM_SIGNER_KEY, 3, 1); // 3 = CLAIM_SIGNER_KEY, 1 = ECDSA
   console.log(`- Investor granted CLAIM_SIGNER permission to the Deployer.`);
 
-  // Now the deployer has permission to submit the claim
-  await investorIdentity.connect(deployer).addClaim(claimTopic, 1, claimIssuer.address, signature, claimData, '');
+  // Now the deployer has permission to submit the claim; it is verified locally before being sent
+  const claimResult = await submitClaim(investorIdentity.connect(deployer), claim);
+  if (!claimResult.ok) {
+    throw new Error(`Claim rejected: ${claimResult.failures.map((failure) => failure.message).join('; ')}`);
+  }
   console.log(`- Added KYC claim to investor's Identity contract.`);
 
   // Verify the investor's status through the registry
@@ -11,27 +11,21 @@
  * 7. Demonstrates that the 'Investor' can transfer tokens to 'AnotherInvestor' (since both are verified).
  * 8. Demonstrates that a transfer to a non-verified account will fail.
  *
- * To run this script, use the following command AFTER running the deployment script:
+ * To run this script, use the following command AFTER running the deployment script on the same network
+ * (contract addresses are read from its deployments/<network>.json manifest):
  * npx hardhat run scripts/interact-with-trex.ts --network localhost
  */
-import { ethers } from 'hardhat';
-import { Contract, Signer } from 'ethers';
+import { ethers, network } from 'hardhat';
+import { Signer } from 'ethers';
 import OnchainID from '@onchain-id/solidity';
+import { IIdentity, IIdentity__factory } from '../typechain-types';
+import { ClaimBuilder, contractAddress, decodeRevert, loadManifest, submitClaim } from '../sdk';
 
-// =================================================================================
-// IMPORTANT: Update these addresses from your deployment script's output!
-// =================================================================================
-const TOKEN_ADDRESS = '0x3Aa5ebB10DC797CAC828524e59A333d0A371443c';
-const IDENTITY_REGISTRY_ADDRESS = '0x9A9f2CCfdE556A7E9Ff0848998Aa4a0CFD8863AE';
-const CLAIM_ISSUER_ADDRESS = '0x4A679253410272dd5232B3Ff7cF5dbB88f295319';
-const IDENTITY_IMPLEMENTATION_AUTHORITY_ADDRESS = '0xa513E6E4b8f2a923D98304ec87F64353C4D5C853';
-
-// The claim topic hash from your deployment output
-const KYC_AML_CLAIM_TOPIC = '0x18be04bd8d115b448043fa0b06bdadd1fadc4027c7123595b5671541dbaae317';
-// =================================================================================
+// The claim topic configured by the deployment script
+const KYC_AML_CLAIM_TOPIC = ethers.utils.id('KYC_AML_VERIFIED');
 
 // Helper to create an Identity for a user
-async function createIdentity(user: Signer, implementationAuthorityAddress: string): Promise<Contract> {
+async function createIdentity(user: Signer, implementationAuthorityAddress: string): Promise<IIdentity> {
   const userAddress = await user.getAddress();
   const factory = new ethers.ContractFactory(
     OnchainID.contracts.IdentityProxy.abi,
@@ -41,7 +35,7 @@ async function createIdentity(user: Signer, implementationAuthorityAddress: stri
   const identity = await factory.deploy(implementationAuthorityAddress, userAddress);
   await identity.deployed();
   console.log(`- IdentityProxy for ${userAddress} deployed to: ${identity.address}`);
-  return ethers.getContractAt('Identity', identity.address, user);
+  return IIdentity__factory.connect(identity.address, user);
 }
 
 async function main() {
@@ -55,6 +49,12 @@ async function main() {
   console.log(`AnotherInvestor: ${anotherInvestor.address}`);
   console.log(`Unverified User: ${unverifiedUser.address}`);
 
+  const manifest = await loadManifest(network.name, ethers.provider);
+  const TOKEN_ADDRESS = contractAddress(manifest, 'Token');
+  const IDENTITY_REGISTRY_ADDRESS = contractAddress(manifest, 'IdentityRegistry');
+  const CLAIM_ISSUER_ADDRESS = contractAddress(manifest, 'ClaimIssuer');
+  const IDENTITY_IMPLEMENTATION_AUTHORITY_ADDRESS = contractAddress(manifest, 'IdentityImplementationAuthority');
+
   const token = await ethers.getContractAt('Token', TOKEN_ADDRESS, deployer);
   const identityRegistry = await ethers.getContractAt('IdentityRegistry', IDENTITY_REGISTRY_ADDRESS, deployer);
   const claimIssuer = await ethers.getContractAt('ClaimIssuer', CLAIM_ISSUER_ADDRESS, deployer);
@@ -77,32 +77,17 @@ async function main() {
   const claimSigner = deployer;
   console.log(`- Using signer ${claimSigner.address} to sign the claim.`);
 
-  // We will use empty data ('0x') to ensure the hash matches perfectly.
-  const emptyClaimData = '0x';
-
-  // Step 1: Prepare the claim hash and sign it OFF-CHAIN
-  // This hash must match EXACTLY what ClaimIssuer.isClaimValid() expects.
-  const dataHash = ethers.utils.keccak256(
-    ethers.utils.defaultAbiCoder.encode(
-      ['address', 'uint256', 'bytes'],
-      [investorIdentity.address, KYC_AML_CLAIM_TOPIC, emptyClaimData],
-    ),
-  );
-
-  // Sign the hash to get the signature
-  const signature = await claimSigner.signMessage(ethers.utils.arrayify(dataHash));
+  // Sign the claim OFF-CHAIN in the scheme ClaimIssuer.isClaimValid() checks, then add it ON-CHAIN.
+  // submitClaim verifies the claim locally first and reports why it would be rejected instead of reverting.
+  const investorClaim = await ClaimBuilder.create(investorIdentity.address, CLAIM_ISSUER_ADDRESS, KYC_AML_CLAIM_TOPIC).sign(claimSigner);
   console.log('- Claim has been signed off-chain.');
 
-  // Step 2: Add the signed claim ON-CHAIN to the investor's identity contract
   console.log("- Adding signed claim to the investor's Identity contract...");
-  await investorIdentity.connect(investor).addClaim(
-    KYC_AML_CLAIM_TOPIC,
-    1, // Scheme for EIP-191 signature
-    CLAIM_ISSUER_ADDRESS,
-    signature,
-    emptyClaimData, // Use empty data here as well
-    '', // URI is optional
-  );
+  const investorClaimResult = await submitClaim(investorIdentity.connect(investor), investorClaim);
+  if (!investorClaimResult.ok) {
+    console.error('❌ Claim rejected:', investorClaimResult.failures);
+    process.exit(1);
+  }
   console.log('- KYC claim added to the investor identity.');
 
   // This check should now pass
@@ -145,21 +130,14 @@ async function main() {
 
   // We need to issue a claim for the second investor as well for the transfer to succeed
   console.log('\n- Issuing KYC claim to AnotherInvestor to enable receiving tokens...');
-  const anotherDataHash = ethers.utils.keccak256(
-    ethers.utils.defaultAbiCoder.encode(
-      ['address', 'uint256', 'bytes'],
-      [anotherInvestorIdentity.address, KYC_AML_CLAIM_TOPIC, emptyClaimData],
-    ),
-  );
-  const anotherSignature = await claimSigner.signMessage(ethers.utils.arrayify(anotherDataHash));
-  await anotherInvestorIdentity.connect(anotherInvestor).addClaim(
-    KYC_AML_CLAIM_TOPIC,
-    1,
-    CLAIM_ISSUER_ADDRESS,
-    anotherSignature,
-    emptyClaimData,
-    '',
+  const anotherInvestorClaim = await ClaimBuilder.create(anotherInvestorIdentity.address, CLAIM_ISSUER_ADDRESS, KYC_AML_CLAIM_TOPIC).sign(
+    claimSigner,
   );
+  const anotherInvestorClaimResult = await submitClaim(anotherInvestorIdentity.connect(anotherInvestor), anotherInvestorClaim);
+  if (!anotherInvestorClaimResult.ok) {
+    console.error('❌ Claim rejected:', anotherInvestorClaimResult.failures);
+    process.exit(1);
+  }
   console.log('- KYC claim added to AnotherInvestor.');
 
 
@@ -175,12 +153,12 @@ async function main() {
   try {
     // Note: We are attempting to send to the user's EOA, which has no identity and no claims.
     await token.connect(investor).transfer(unverifiedUser.address, transferAmount);
-  } catch (error: any) {
-    // The error reason comes from the DefaultCompliance contract
-    if (error.message.includes('revert')) { // A generic check for a reverted transaction
+  } catch (error) {
+    const revert = decodeRevert(error);
+    if (revert.code === 'UNVERIFIED_IDENTITY') {
       console.log("- Transfer failed as expected because the receiver is not verified. ✅");
     } else {
-      console.error('- Transfer failed, but for an unexpected reason:', error.message);
+      console.error(`- Transfer failed, but for an unexpected reason: ${revert.message} (${revert.code})`);
     }
   }
 
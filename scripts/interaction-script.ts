@@ -1,7 +1,8 @@
 // File: scripts/interact.ts
-import { ethers } from 'hardhat';
-import { Contract } from 'ethers';
+import { ethers, network } from 'hardhat';
 import OnchainID from '@onchain-id/solidity';
+import { IIdentity__factory } from '../typechain-types';
+import { ClaimBuilder, contractAddress, countryCode, loadManifest, submitClaim } from '../sdk';
 
 
 async function main() {
@@ -11,10 +12,12 @@ async function main() {
   // Create a new wallet to act as our test investor
   const investor = ethers.Wallet.createRandom().connect(ethers.provider);
 
-  // --- CONFIGURATION: PASTE YOUR DEPLOYED ADDRESSES HERE ---
-  // Get these from the output of your last deployment script
-  const TOKEN_ADDRESS = '0xae20FdF946bC8fF93bbd769A3E070C94D3C8714E';
-  const IDENTITY_REGISTRY_ADDRESS = '0xb5e9567240C5d663Ecdc3763e88E1e6EcD399D26';
+  // --- CONFIGURATION: ADDRESSES COME FROM THE DEPLOYMENT MANIFEST ---
+  // Written by the deployment script to deployments/<network>.json
+  const manifest = await loadManifest(network.name, ethers.provider);
+  const TOKEN_ADDRESS = contractAddress(manifest, 'Token');
+  const IDENTITY_REGISTRY_ADDRESS = contractAddress(manifest, 'IdentityRegistry');
+  const CLAIM_ISSUER_ADDRESS = contractAddress(manifest, 'ClaimIssuer');
   const KYC_TOPIC = ethers.utils.id('KYC_APPROVED');
   // ---------------------------------------------------------
 
@@ -43,7 +46,7 @@ async function main() {
   console.log(`- Deployed a new Identity contract for investor at: ${identityContract.address}`);
 
   // Register the investor's wallet with their new Identity contract
-  await identityRegistry.registerIdentity(investor.address, identityContract.address, 356); // 356 is country code for India
+  await identityRegistry.registerIdentity(investor.address, identityContract.address, countryCode('IN'));
   console.log(`- Registered identity for ${investor.address}`);
 
   // **FIX**: The investor (management key) must grant the deployer permission to be a claim signer.
@@ -56,45 +59,17 @@ async function main() {
 
 
   // Issue the KYC claim by calling addClaim ON THE IDENTITY CONTRACT
-  const claimData = ethers.utils.hexlify(ethers.utils.toUtf8Bytes('Verified by CircleHackathon Admin'));
-  
-  // The signature must be created by a key trusted by the Identity contract.
-  // The deployer is now a trusted claim signer on this identity.
-  const signature = await deployer._signTypedData(
-      // Domain
-      {
-          name: 'Identity',
-          version: '1',
-          chainId: (await ethers.provider.getNetwork()).chainId,
-          verifyingContract: identityContract.address,
-      },
-      // Types
-      {
-          Claim: [
-              { name: 'issuer', type: 'address' },
-              { name: 'topic', type: 'uint256' },
-              { name: 'data', type: 'bytes' },
-          ],
-      },
-      // Value
-      {
-          issuer: deployer.address, // The deployer is acting as the trusted issuer
-          topic: KYC_TOPIC,
-          data: claimData,
-      },
-  );
-
-  // The deployer now has the correct key to add the claim.
-  const claimScheme = 1; // 1 for ECDSA signature scheme
-  const claimUri = ""; // URI can be empty for this example
-  await identityContract.connect(deployer).addClaim(
-    KYC_TOPIC,
-    claimScheme,
-    deployer.address,
-    signature,
-    claimData,
-    claimUri
-  );
+  // The issuer must be the trusted ClaimIssuer contract, and the signature must come from one of its
+  // CLAIM keys (the deployer, see deploy-trex-suite.ts) over keccak256(abi.encode(identity, topic, data)).
+  const claim = await ClaimBuilder.create(identityContract.address, CLAIM_ISSUER_ADDRESS, KYC_TOPIC)
+    .withData('Verified by CircleHackathon Admin')
+    .sign(deployer);
+
+  // The deployer now has the correct key to add the claim; it is verified locally before being sent.
+  const claimResult = await submitClaim(IIdentity__factory.connect(identityContract.address, deployer), claim);
+  if (!claimResult.ok) {
+    throw new Error(`Claim rejected: ${claimResult.failures.map((failure) => failure.message).join('; ')}`);
+  }
   console.log(`- Added KYC claim to investor's identity contract.`);
 
   const isVerified = await identityRegistry.isVerified(investor.address);
@@ -0,0 +1,65 @@
+/**
+ * Bulk investor onboarding for a deployed ERC-3643 suite.
+ *
+ * Reads a CSV with the columns `wallet,country[,identity]`, deploys an IdentityProxy for every investor without
+ * an ONCHAINID and registers everyone in the IdentityRegistry recorded in deployments/<network>.json with
+ * chunked `batchRegisterIdentity` calls. Wallets already in the registry are skipped.
+ *
+ * The per-row results (identity, status, transaction hash, error) are written to a CSV next to the input.
+ * Running the script again with the same files resumes where it stopped; failed rows are retried and identity
+ * deployments that were not settled are checked before anything is deployed again.
+ * The first Hardhat account must have AGENT_ROLE on the IdentityRegistry.
+ *
+ * To run this script against a local Hardhat node:
+ * ONBOARDING_CSV=investors.csv npx hardhat run scripts/onboard-investors.ts --network localhost
+ *
+ * Environment variables:
+ * ONBOARDING_CSV=<path>            investors to onboard (required)
+ * ONBOARDING_RESULTS=<path>        result file (default <ONBOARDING_CSV without .csv>.results.csv)
+ * ONBOARDING_MAX_CHUNK_GAS=<gas>   gas bound of one batchRegisterIdentity transaction (default 5000000)
+ * ONBOARDING_MAX_CHUNK_SIZE=<n>    wallets per batchRegisterIdentity transaction (default 100)
+ */
+import fs from 'fs';
+import { ethers, network } from 'hardhat';
+import { IdentityRegistry__factory } from '../typechain-types';
+import { OnboardingStatus, contractAddress, loadManifest, onboardInvestors, parseInvestorCsv } from '../sdk';
+
+async function main() {
+  const csvPath = process.env.ONBOARDING_CSV;
+  if (!csvPath) throw new Error('Set ONBOARDING_CSV to the investor CSV file');
+  const resultFile = process.env.ONBOARDING_RESULTS ?? `${csvPath.replace(/\.csv$/i, '')}.results.csv`;
+  const maxChunkGas = process.env.ONBOARDING_MAX_CHUNK_GAS ? Number(process.env.ONBOARDING_MAX_CHUNK_GAS) : undefined;
+  const maxChunkSize = process.env.ONBOARDING_MAX_CHUNK_SIZE ? Number(process.env.ONBOARDING_MAX_CHUNK_SIZE) : undefined;
+
+  const [agent] = await ethers.getSigners();
+  const manifest = await loadManifest(network.name, ethers.provider);
+  const identityRegistry = IdentityRegistry__factory.connect(contractAddress(manifest, 'IdentityRegistry'), agent);
+  const investors = parseInvestorCsv(fs.readFileSync(csvPath, 'utf8'));
+  console.log(`Onboarding ${investors.length} investors from ${csvPath} as ${agent.address}, results in ${resultFile}`);
+
+  const results = await onboardInvestors(identityRegistry, investors, {
+    identityImplementationAuthority: contractAddress(manifest, 'IdentityImplementationAuthority'),
+    resultFile,
+    maxChunkGas,
+    maxChunkSize,
+    log: console.log,
+  });
+
+  const count = (status: OnboardingStatus) => results.filter((result) => result.status === status).length;
+  console.log(
+    `Registered: ${count('registered')}, already registered: ${count('already-registered')}, failed: ${count('failed')}, ` +
+      `identity not settled: ${count('identity-submitted')}`,
+  );
+  if (count('identity-submitted') > 0) {
+    console.error(`Run the onboarding again with ${resultFile} to settle the submitted identity deployments before registering them`);
+  }
+  results
+    .filter((result) => result.status === 'failed')
+    .forEach((result) => console.error(`- line ${result.line} (${result.wallet}): ${result.error}`));
+  if (count('failed') > 0) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
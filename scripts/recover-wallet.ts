@@ -0,0 +1,67 @@
+/**
+ * Guided recovery of a lost investor wallet on the Token recorded in deployments/<network>.json.
+ *
+ * Inspects the lost wallet (balance, frozen flag, frozen tokens) and the key purposes of the new wallet on the
+ * investor ONCHAINID. When the new wallet is not yet a management key, prints the `addKey` transaction the investor
+ * must send from a current management key and stops; run the script again once it is mined. Otherwise calls
+ * `recoveryAddress` and verifies that the registry maps the new wallet and that balance and freezes carried over.
+ * Every step is appended to the audit log. The first Hardhat account must have AGENT_ROLE on the Token.
+ *
+ * To run this script against a local Hardhat node:
+ * RECOVERY_LOST_WALLET=0x... RECOVERY_NEW_WALLET=0x... npx hardhat run scripts/recover-wallet.ts --network localhost
+ *
+ * Environment variables:
+ * RECOVERY_LOST_WALLET=<address>   wallet the investor lost access to (required)
+ * RECOVERY_NEW_WALLET=<address>    new wallet of the investor (required)
+ * RECOVERY_IDENTITY=<address>      ONCHAINID of the investor (default: the registry entry of the lost wallet)
+ * RECOVERY_AUDIT_LOG=<path>        audit log (default deployments/<network>.recovery.jsonl)
+ */
+import path from 'path';
+import { ethers, network } from 'hardhat';
+import { Token__factory } from '../typechain-types';
+import { DEFAULT_MANIFEST_DIR, contractAddress, formatCountry, loadManifest, recoverWallet } from '../sdk';
+
+async function main() {
+  const lostWallet = process.env.RECOVERY_LOST_WALLET;
+  const newWallet = process.env.RECOVERY_NEW_WALLET;
+  if (!lostWallet || !newWallet) throw new Error('Set RECOVERY_LOST_WALLET and RECOVERY_NEW_WALLET');
+  const auditLog = process.env.RECOVERY_AUDIT_LOG ?? path.join(DEFAULT_MANIFEST_DIR, `${network.name}.recovery.jsonl`);
+
+  const [agent] = await ethers.getSigners();
+  const manifest = await loadManifest(network.name, ethers.provider);
+  const token = Token__factory.connect(contractAddress(manifest, 'Token'), agent);
+  console.log(`Recovering ${lostWallet} to ${newWallet} as ${agent.address}, audit log in ${auditLog}`);
+
+  const outcome = await recoverWallet(token, { lostWallet, newWallet, identity: process.env.RECOVERY_IDENTITY }, { auditLog });
+  const { inspection } = outcome;
+  console.log(`Identity ${inspection.identity}, country ${formatCountry(inspection.country)}`);
+  console.log(`Lost wallet: balance ${inspection.lost.balance}, frozen tokens ${inspection.lost.frozenTokens}, frozen ${inspection.lost.frozen}`);
+  console.log(`New wallet key purposes: ${inspection.newWalletKeyPurposes.join(', ') || 'none'}`);
+
+  switch (outcome.status) {
+    case 'blocked':
+      inspection.failures.forEach((failure) => console.error(`- ${failure.code}: ${failure.message}`));
+      break;
+    case 'awaiting-key': {
+      const transaction = outcome.addKeyTransaction;
+      console.log(`The investor must first send, from a management key of the identity:`);
+      console.log(`  to:   ${transaction.to}\n  data: ${transaction.data}\n  (${transaction.description})`);
+      if (inspection.lostWalletIsManagementKey && inspection.managementKeyCount === 1) {
+        console.log('The lost wallet is the only management key of the identity, only it can send this transaction.');
+      }
+      break;
+    }
+    case 'failed':
+      console.error(`Recovery failed: ${outcome.error}`);
+      break;
+    default:
+      console.log(`Recovery mined in ${outcome.transactionHash}`);
+      outcome.checks.forEach((check) => console.log(`${check.ok ? 'ok  ' : 'FAIL'} ${check.name}: ${check.actual} (expected ${check.expected})`));
+  }
+  if (outcome.status !== 'recovered') process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,49 @@
+/**
+ * Role audit of the suite recorded in deployments/<network>.json.
+ *
+ * Replays the RoleGranted / RoleRevoked / OwnershipTransferred events of every suite contract and writes the current
+ * role matrix (roles.csv), the history of changes (role-history.csv) and the full report with its risks
+ * (role-audit.json). Exits with code 1 when a high severity risk is found, so it can run in CI.
+ *
+ * To run this script against a local Hardhat node:
+ * npx hardhat run scripts/role-audit.ts --network localhost
+ *
+ * Environment variables:
+ * ROLE_AUDIT_DIR=<dir>       output directory (default deployments/roles/<network>)
+ * ROLE_AUDIT_BLOCK=<number>  last block to replay (default: latest)
+ */
+import fs from 'fs';
+import path from 'path';
+import { ethers, network } from 'hardhat';
+import { DEFAULT_MANIFEST_DIR, buildRoleInventory, loadManifest, roleHistoryCsv, roleMatrixCsv } from '../sdk';
+
+async function main() {
+  const dir = process.env.ROLE_AUDIT_DIR ?? path.join(DEFAULT_MANIFEST_DIR, 'roles', network.name);
+  const toBlock = process.env.ROLE_AUDIT_BLOCK ? Number(process.env.ROLE_AUDIT_BLOCK) : undefined;
+
+  const manifest = await loadManifest(network.name, ethers.provider);
+  const inventory = await buildRoleInventory(manifest, ethers.provider, { toBlock });
+  console.log(
+    `Replayed ${inventory.history.length} role changes on ${inventory.contracts.length} contracts up to block ${inventory.blockNumber}: ` +
+      `${inventory.holders.length} role holders`,
+  );
+
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'roles.csv'), roleMatrixCsv(inventory));
+  fs.writeFileSync(path.join(dir, 'role-history.csv'), roleHistoryCsv(inventory));
+  fs.writeFileSync(path.join(dir, 'role-audit.json'), `${JSON.stringify(inventory, null, 2)}\n`);
+  console.log(`Wrote roles.csv, role-history.csv and role-audit.json to ${dir}`);
+
+  inventory.holders.forEach((holder) =>
+    console.log(
+      `${holder.contract} ${holder.roleName}: ${holder.account}${holder.accountName ? ` (${holder.accountName})` : ''} [${holder.accountType}]`,
+    ),
+  );
+  inventory.risks.forEach((risk) => console.log(`${risk.severity.toUpperCase()} ${risk.code}: ${risk.message}`));
+  if (inventory.risks.some((risk) => risk.severity === 'high')) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
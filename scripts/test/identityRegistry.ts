@@ -1,15 +1,7 @@
-import { ethers } from 'hardhat';
+import { ethers, network } from 'hardhat';
 import { Contract, Signer } from 'ethers';
 import OnchainID from '@onchain-id/solidity';
-import { token } from '../../typechain-types/contracts';
-
-const TOKEN_ADDRESS = '0x5f3f1dBD7B74C6B46e8c44f98792A1dAf8d69154';
-const IDENTITY_REGISTRY_ADDRESS = '0x4c5859f0F772848b2D91F1D83E2Fe57935348029';
-const CLAIM_ISSUER_ADDRESS = '0x4A679253410272dd5232B3Ff7cF5dbB88f295319';
-const IDENTITY_IMPLEMENTATION_AUTHORITY_ADDRESS = '0x998abeb3E57409262aE5b751f60747921B33613E';
-
-// The claim topic hash from your deployment output
-const KYC_AML_CLAIM_TOPIC = '0x18be04bd8d115b448043fa0b06bdadd1fadc4027c7123595b5671541dbaae317';
+import { contractAddress, countryCode, loadManifest } from '../../sdk';
 
 async function createIdentity(user: Signer, implementationAuthorityAddress: string): Promise<Contract> {
     const userAddress = await user.getAddress();
@@ -25,7 +17,11 @@ async function createIdentity(user: Signer, implementationAuthorityAddress: stri
 }
 
 async function main() {
-    const [deployer, investor, anotherInvestor, unverifiedUser] = await ethers.getSigners();
+    const [deployer, investor] = await ethers.getSigners();
+    const manifest = await loadManifest(network.name, ethers.provider);
+    const TOKEN_ADDRESS = contractAddress(manifest, 'Token');
+    const IDENTITY_REGISTRY_ADDRESS = contractAddress(manifest, 'IdentityRegistry');
+    const IDENTITY_IMPLEMENTATION_AUTHORITY_ADDRESS = contractAddress(manifest, 'IdentityImplementationAuthority');
     console.log("creating Identity");
     const investorIdentity = await createIdentity(investor, IDENTITY_IMPLEMENTATION_AUTHORITY_ADDRESS);
     console.log("Identitity=", investorIdentity);
@@ -38,8 +34,8 @@ async function main() {
 
 
     console.log("Registering identities...");
-    const registrytx = await identityRegistry.connect(deployer).registerIdentity(deployer.address, deployerIdentity.address, 0);
-    const registrytx2 = await identityRegistry.connect(deployer).registerIdentity(investor.address, investorIdentity.address, 0);
+    const registrytx = await identityRegistry.connect(deployer).registerIdentity(deployer.address, deployerIdentity.address, countryCode('FR'));
+    const registrytx2 = await identityRegistry.connect(deployer).registerIdentity(investor.address, investorIdentity.address, countryCode('FR'));
     
     console.log("identity registered", registrytx);
     console.log("identity registered", registrytx2);
@@ -0,0 +1,34 @@
+/**
+ * Verifies the suite recorded in deployments/<network>.json: contract links, bindings, required roles, a trusted
+ * issuer per claim topic and the token details of the manifest. Prints a PASS / FAIL line per check and exits with
+ * code 1 when a check fails, so it can gate a CI pipeline.
+ *
+ * To run this script against a local Hardhat node:
+ * npx hardhat run scripts/verify-suite.ts --network localhost
+ *
+ * Environment variables:
+ * VERIFY_AGENTS=<a,b,...>   accounts that must be agents of the Token and the IdentityRegistry
+ * VERIFY_REPORT=<path>      also write the report as JSON to this file
+ */
+import fs from 'fs';
+import path from 'path';
+import { ethers, network } from 'hardhat';
+import { formatSuiteReport, loadManifest, verifySuite } from '../sdk';
+
+async function main() {
+  const agents = process.env.VERIFY_AGENTS?.split(',').map((agent) => agent.trim()) ?? [];
+  const manifest = await loadManifest(network.name, ethers.provider);
+
+  const report = await verifySuite(manifest, ethers.provider, { agents });
+  console.log(formatSuiteReport(report));
+  if (process.env.VERIFY_REPORT) {
+    fs.mkdirSync(path.dirname(process.env.VERIFY_REPORT), { recursive: true });
+    fs.writeFileSync(process.env.VERIFY_REPORT, `${JSON.stringify(report, null, 2)}\n`);
+  }
+  if (!report.passed) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,127 @@
+/**
+ * Item-by-item simulation of the `Token` batch calls before they are sent.
+ *
+ * `batchTransfer`, `batchForcedTransfer`, `batchMint`, `batchBurn` and `batchFreezePartialTokens` revert as a
+ * whole when one item fails, with the reason of that item but not its position. `simulateBatch` replays the items
+ * in order as the matching single calls (`transfer`, `forcedTransfer`, `mint`, ...) on a local fork, so every
+ * item sees the effects of the earlier ones, then reverts the fork to where it started. A failing item is
+ * reported with its index and revert reason and left out, which makes the remaining items the batch that would
+ * pass; with `rejectedFile` the failing rows are also written to a CSV.
+ *
+ * The fork must be a Hardhat (or compatible) node: the simulation uses `evm_snapshot` / `evm_revert` and
+ * impersonates the sender. To simulate against a live network, start a fork of it first
+ * (`npx hardhat node --fork <rpc url>`) and pass a provider connected to it.
+ *
+ * Usage:
+ *   const fork = new providers.JsonRpcProvider('http://127.0.0.1:8545');
+ *   const simulation = await simulateBatch(token.connect(agent), 'batchMint', [wallets, amounts], { fork });
+ *   simulation.failures.forEach(({ index, reason }) => console.log(index, reason));
+ *   if (simulation.passing[0].length > 0) await token.connect(agent).batchMint(...simulation.passing);
+ */
+import { BigNumberish, Contract, providers, utils } from 'ethers';
+import fs from 'fs';
+import { Token, Token__factory } from '../typechain-types';
+import { revertReason } from './contract-operation';
+import { formatCsv } from './csv';
+
+export type BatchMethod = 'batchTransfer' | 'batchForcedTransfer' | 'batchMint' | 'batchBurn' | 'batchFreezePartialTokens';
+
+/** The arguments of each batch call, one array per column. */
+export interface BatchArgs {
+  batchTransfer: [toList: string[], amounts: BigNumberish[]];
+  batchForcedTransfer: [fromList: string[], toList: string[], amounts: BigNumberish[]];
+  batchMint: [toList: string[], amounts: BigNumberish[]];
+  batchBurn: [accounts: string[], amounts: BigNumberish[]];
+  batchFreezePartialTokens: [accounts: string[], amounts: BigNumberish[]];
+}
+
+export interface BatchItemFailure {
+  index: number;
+  reason: string;
+}
+
+export interface BatchSimulation<M extends BatchMethod> {
+  method: M;
+  /** Account the items were simulated from. */
+  sender: string;
+  /** Block of the fork the simulation started from. */
+  blockNumber: number;
+  failures: BatchItemFailure[];
+  /** Indexes of the items that passed, in batch order. */
+  passingIndexes: number[];
+  /** Arguments of the batch made of the passing items only. */
+  passing: BatchArgs[M];
+}
+
+export interface BatchSimulationOptions {
+  /** Hardhat node to simulate on; the state is reverted afterwards. */
+  fork: providers.JsonRpcProvider;
+  /** Account the batch will be sent from, by default the signer of `token`. */
+  from?: string;
+  /** When set, the failing rows are written to this CSV with their index and reason. */
+  rejectedFile?: string;
+}
+
+// Single call each batch call loops over, and the names of its columns for the rejected rows file
+const SINGLE_CALLS: Record<BatchMethod, { method: string; columns: string[] }> = {
+  batchTransfer: { method: 'transfer', columns: ['to', 'amount'] },
+  batchForcedTransfer: { method: 'forcedTransfer', columns: ['from', 'to', 'amount'] },
+  batchMint: { method: 'mint', columns: ['to', 'amount'] },
+  batchBurn: { method: 'burn', columns: ['account', 'amount'] },
+  batchFreezePartialTokens: { method: 'freezePartialTokens', columns: ['account', 'amount'] },
+};
+
+// Enough ether for the impersonated sender to pay for the simulated transactions
+const SIMULATION_BALANCE = utils.parseEther('1000');
+
+export const rejectedRowsHeader = (method: BatchMethod) => ['index', ...SINGLE_CALLS[method].columns, 'reason'];
+
+export function writeRejectedRows<M extends BatchMethod>(file: string, method: M, args: BatchArgs[M], failures: BatchItemFailure[]) {
+  const rows = failures.map(({ index, reason }) => [index.toString(), ...args.map((column) => String(column[index])), reason]);
+  fs.writeFileSync(file, formatCsv(rejectedRowsHeader(method), rows));
+}
+
+export async function simulateBatch<M extends BatchMethod>(
+  token: Token,
+  method: M,
+  args: BatchArgs[M],
+  options: BatchSimulationOptions,
+): Promise<BatchSimulation<M>> {
+  const { fork, rejectedFile } = options;
+  const columns: BigNumberish[][] = args;
+  const length = columns[0].length;
+  if (columns.some((column) => column.length !== length)) throw new Error(`${method}: the argument arrays have different lengths`);
+  if ((await fork.getCode(token.address)) === '0x') throw new Error(`Token ${token.address} is not deployed on the fork`);
+
+  const sender = utils.getAddress(options.from ?? (await token.signer.getAddress()));
+  const blockNumber = await fork.getBlockNumber();
+  const snapshot = await fork.send('evm_snapshot', []);
+  const failures: BatchItemFailure[] = [];
+  try {
+    await fork.send('hardhat_impersonateAccount', [sender]);
+    await fork.send('hardhat_setBalance', [sender, utils.hexStripZeros(SIMULATION_BALANCE.toHexString())]);
+    const forked = new Contract(token.address, Token__factory.abi, fork.getSigner(sender));
+    const single = SINGLE_CALLS[method].method;
+
+    // items run one after the other: each one must see the state left by the previous ones
+    await Array.from({ length }, (_, index) => index).reduce(async (previous, index) => {
+      await previous;
+      const itemArgs = columns.map((column) => column[index]);
+      try {
+        await forked.callStatic[single](...itemArgs);
+        await (await forked[single](...itemArgs)).wait();
+      } catch (error) {
+        failures.push({ index, reason: revertReason(error) });
+      }
+    }, Promise.resolve());
+  } finally {
+    await fork.send('evm_revert', [snapshot]);
+    await fork.send('hardhat_stopImpersonatingAccount', [sender]);
+  }
+
+  const failed = new Set(failures.map((failure) => failure.index));
+  const passingIndexes = Array.from({ length }, (_, index) => index).filter((index) => !failed.has(index));
+  const passing = columns.map((column) => passingIndexes.map((index) => column[index])) as BatchArgs[M];
+  if (rejectedFile) writeRejectedRows(rejectedFile, method, args, failures);
+  return { method, sender, blockNumber, failures, passingIndexes, passing };
+}
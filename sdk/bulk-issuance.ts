@@ -0,0 +1,301 @@
+/**
+ * Bulk issuance from a CSV of `wallet,amount`, typically to migrate an existing register onto a new `Token`.
+ *
+ * 1. Amounts are parsed with the token `decimals()` (`12.5` is 12.5 tokens, not base units).
+ * 2. Every row is pre-checked like `Token.mint` does (`isVerified`, `canTransfer(0, wallet, amount)`); rows that
+ *    fail are reported as `rejected` and not sent.
+ * 3. The rest is minted through `Token.batchMint` in chunks whose estimated gas stays under `maxChunkGas`.
+ * 4. `reconcileIssuance` compares on-chain balances and `totalSupply()` with the file, and `signReport` lets the
+ *    operator sign the resulting diff report off.
+ *
+ * Minting is not idempotent, so a chunk is recorded as `submitted` with its transaction hash before waiting for
+ * it, and only becomes `failed` when `batchMint` throws or its mined receipt has status 0. When waiting fails for
+ * another reason (a timeout, a lost connection) the chunk stays `submitted`. Running the issuance again with the
+ * same result file resumes: `minted` rows are kept, `submitted` rows are settled from their transaction receipt
+ * (and only retried when it reverted or was dropped), `rejected` and `failed` rows are retried.
+ *
+ * Usage:
+ *   const rows = parseIssuanceCsv(fs.readFileSync('register.csv', 'utf8'), await token.decimals());
+ *   await issueTokens(token.connect(agent), rows, { resultFile });
+ *   const report = await signReport(await reconcileIssuance(token, rows), agent);
+ */
+import fs from 'fs';
+import { BigNumber, Signer, providers, utils } from 'ethers';
+import { Token } from '../typechain-types';
+import { formatCsv, parseCsv } from './csv';
+import { revertReason } from './contract-operation';
+import { fitChunk } from './gas-chunks';
+import { TokenClient } from './token-client';
+
+export interface IssuanceRow {
+  line: number;
+  wallet: string;
+  /** In token base units. */
+  amount: BigNumber;
+}
+
+export type IssuanceStatus = 'pending' | 'rejected' | 'submitted' | 'minted' | 'failed';
+
+export interface IssuanceResult {
+  line: number;
+  wallet: string;
+  /** In token base units. */
+  amount: string;
+  status: IssuanceStatus;
+  transactionHash: string;
+  error: string;
+}
+
+export interface IssuanceOptions {
+  /** CSV file the per-row results are written to, and read back from to resume. */
+  resultFile: string;
+  /** Upper bound for the estimated gas of one `batchMint` transaction. */
+  maxChunkGas?: number;
+  /** Upper bound for the number of wallets in one `batchMint` transaction. */
+  maxChunkSize?: number;
+  log?: (_message: string) => void;
+}
+
+export interface ReconciliationRow {
+  line: number;
+  wallet: string;
+  expected: string;
+  actual: string;
+  /** `actual - expected`. */
+  difference: string;
+  ok: boolean;
+}
+
+export interface ReconciliationReport {
+  chainId: number;
+  token: string;
+  blockNumber: number;
+  /** keccak256 of the issuance file, when it was given. */
+  fileHash?: string;
+  rows: ReconciliationRow[];
+  expectedTotal: string;
+  totalSupply: string;
+  reconciled: boolean;
+  createdAt: string;
+}
+
+export interface SignedReconciliationReport extends ReconciliationReport {
+  signedBy: string;
+  /** EIP-191 signature of `reportMessage(report)`. */
+  signature: string;
+}
+
+export const ISSUANCE_RESULT_HEADER = ['line', 'wallet', 'amount', 'status', 'transactionHash', 'error'];
+
+const DEFAULT_MAX_CHUNK_GAS = 5_000_000;
+const DEFAULT_MAX_CHUNK_SIZE = 100;
+
+// Failures that concern the operator rather than a row
+const OPERATOR_FAILURES = ['NO_SIGNER', 'MISSING_AGENT_ROLE'];
+
+/** Reads `wallet,amount` rows, amounts in token units. Invalid addresses, amounts or duplicate wallets are errors. */
+export function parseIssuanceCsv(text: string, decimals: number): IssuanceRow[] {
+  const { header, records } = parseCsv(text);
+  const missing = ['wallet', 'amount'].filter((column) => !header.includes(column));
+  if (missing.length > 0) throw new Error(`Issuance CSV is missing the ${missing.join(', ')} column(s)`);
+
+  const seen = new Map<string, number>();
+  return records.map(({ line, values }) => {
+    if (!utils.isAddress(values.wallet)) throw new Error(`Line ${line}: invalid wallet "${values.wallet}"`);
+    const wallet = utils.getAddress(values.wallet);
+    if (seen.has(wallet)) throw new Error(`Line ${line}: wallet ${wallet} already listed on line ${seen.get(wallet)}`);
+    seen.set(wallet, line);
+
+    let amount: BigNumber;
+    try {
+      amount = utils.parseUnits(values.amount, decimals);
+    } catch {
+      throw new Error(`Line ${line}: invalid amount "${values.amount}" for a token with ${decimals} decimals`);
+    }
+    if (amount.lte(0)) throw new Error(`Line ${line}: amount must be positive`);
+    return { line, wallet, amount };
+  });
+}
+
+/** Previous results by wallet, empty when the file does not exist yet. */
+export function readIssuanceResults(file: string): Map<string, IssuanceResult> {
+  if (!fs.existsSync(file)) return new Map();
+  const { records } = parseCsv(fs.readFileSync(file, 'utf8'));
+  return new Map(
+    records.map(({ values }) => [
+      values.wallet,
+      {
+        line: Number(values.line),
+        wallet: values.wallet,
+        amount: values.amount,
+        status: values.status as IssuanceStatus,
+        transactionHash: values.transactionHash,
+        error: values.error,
+      },
+    ]),
+  );
+}
+
+export function writeIssuanceResults(file: string, results: IssuanceResult[]) {
+  const rows = results.map((result) => [result.line.toString(), result.wallet, result.amount, result.status, result.transactionHash, result.error]);
+  // written next to the target and renamed, so a crash never leaves a truncated result file
+  fs.writeFileSync(`${file}.tmp`, formatCsv(ISSUANCE_RESULT_HEADER, rows));
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+function initialResult(row: IssuanceRow, previous?: IssuanceResult): IssuanceResult {
+  if (previous && ['minted', 'submitted'].includes(previous.status)) {
+    if (previous.amount !== row.amount.toString()) {
+      throw new Error(`Line ${row.line}: ${row.wallet} was already issued ${previous.amount}, the file now says ${row.amount}`);
+    }
+    return { ...previous, line: row.line };
+  }
+  return { line: row.line, wallet: row.wallet, amount: row.amount.toString(), status: 'pending', transactionHash: '', error: '' };
+}
+
+type MintOutcome = Pick<IssuanceResult, 'status' | 'transactionHash' | 'error'>;
+
+/**
+ * Waits for a `batchMint` transaction. It is `failed` only when a mined receipt has status 0 or a replacement
+ * cancelled it; a repriced transaction is followed to its replacement. Any other error leaves it `submitted`.
+ */
+async function waitForMint(transaction: providers.TransactionResponse): Promise<MintOutcome> {
+  try {
+    const receipt = await transaction.wait();
+    return { status: 'minted', transactionHash: receipt.transactionHash, error: '' };
+  } catch (error) {
+    const { code, cancelled, receipt } = error as { code?: string; cancelled?: boolean; receipt?: providers.TransactionReceipt };
+    if (code === utils.Logger.errors.TRANSACTION_REPLACED && cancelled) {
+      return { status: 'failed', transactionHash: transaction.hash, error: 'Transaction was replaced before it was mined' };
+    }
+    if (receipt?.status === 1) return { status: 'minted', transactionHash: receipt.transactionHash, error: '' };
+    if (receipt) return { status: 'failed', transactionHash: receipt.transactionHash, error: revertReason(error) };
+    return { status: 'submitted', transactionHash: transaction.hash, error: revertReason(error) };
+  }
+}
+
+async function settleTransaction(token: Token, hash: string): Promise<MintOutcome> {
+  const receipt = await token.provider.getTransactionReceipt(hash);
+  if (receipt) return { status: receipt.status === 1 ? 'minted' : 'failed', transactionHash: hash, error: '' };
+  const transaction = await token.provider.getTransaction(hash);
+  if (!transaction) return { status: 'failed', transactionHash: hash, error: '' };
+  return waitForMint(transaction);
+}
+
+/**
+ * Settles `submitted` rows from the receipt of their transaction, waiting for it when it is still pending.
+ * Reverted or dropped rows go back to `pending`; rows whose transaction still cannot be settled stay `submitted`.
+ */
+async function settleSubmitted(token: Token, results: IssuanceResult[], log: (_message: string) => void) {
+  const submitted = results.filter((result) => result.status === 'submitted');
+  const hashes = [...new Set(submitted.map((result) => result.transactionHash))];
+  const outcomes = await Promise.all(hashes.map((hash) => settleTransaction(token, hash)));
+  outcomes.forEach((outcome, i) => {
+    if (outcome.status === 'submitted') log(`Transaction ${hashes[i]} is not settled yet: ${outcome.error}`);
+  });
+  submitted.forEach((result) => {
+    const outcome = outcomes[hashes.indexOf(result.transactionHash)];
+    Object.assign(result, outcome.status === 'failed' ? { status: 'pending', transactionHash: '', error: '' } : outcome);
+  });
+}
+
+export async function issueTokens(token: Token, rows: IssuanceRow[], options: IssuanceOptions): Promise<IssuanceResult[]> {
+  const { resultFile, maxChunkGas = DEFAULT_MAX_CHUNK_GAS, maxChunkSize = DEFAULT_MAX_CHUNK_SIZE, log = () => {} } = options;
+  const previous = readIssuanceResults(resultFile);
+  const results = rows.map((row) => initialResult(row, previous.get(row.wallet)));
+  const save = () => writeIssuanceResults(resultFile, results);
+
+  await settleSubmitted(token, results, log);
+  save();
+
+  const client = new TokenClient(token);
+  const operator = await token.signer.getAddress();
+  const pending = results.filter((result) => result.status === 'pending');
+  const checks = await Promise.all(pending.map((result) => client.checkMint(operator, result.wallet, result.amount)));
+  const operatorFailure = checks.flat().find((failure) => OPERATOR_FAILURES.includes(failure.code));
+  if (operatorFailure) throw new Error(operatorFailure.message);
+  pending.forEach((result, i) => {
+    if (checks[i].length > 0) Object.assign(result, { status: 'rejected', error: checks[i].map((failure) => failure.message).join('; ') });
+  });
+  save();
+
+  const batchArgs = (chunk: IssuanceResult[]) => [chunk.map((result) => result.wallet), chunk.map((result) => result.amount)] as const;
+  const queue = pending.filter((result) => result.status === 'pending');
+  while (queue.length > 0) {
+    const fit = await fitChunk(queue, Math.min(maxChunkSize, queue.length), maxChunkGas, (chunk) => token.estimateGas.batchMint(...batchArgs(chunk)));
+    queue.splice(0, fit.chunk.length);
+    if ('error' in fit) {
+      Object.assign(fit.chunk[0], { status: 'failed', error: fit.error });
+      log(`Line ${fit.chunk[0].line}: ${fit.error}`);
+      save();
+    } else {
+      const { chunk } = fit;
+      const transaction = await token.batchMint(...batchArgs(chunk)).catch((error) => {
+        chunk.forEach((result) => Object.assign(result, { status: 'failed', error: revertReason(error) }));
+      });
+      if (transaction) {
+        chunk.forEach((result) => Object.assign(result, { status: 'submitted', transactionHash: transaction.hash, error: '' }));
+        save();
+        const outcome = await waitForMint(transaction);
+        chunk.forEach((result) => Object.assign(result, outcome));
+        if (outcome.status === 'minted') log(`Minted to ${chunk.length} wallets in ${outcome.transactionHash}`);
+        else log(`Transaction ${outcome.transactionHash} is ${outcome.status}: ${outcome.error}`);
+      }
+      save();
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Compares the balance of every wallet of the file, and `totalSupply()`, with the file amounts, all read at the
+ * same block. The token is expected to hold nothing but this issuance.
+ */
+export async function reconcileIssuance(token: Token, rows: IssuanceRow[], fileContents?: string): Promise<ReconciliationReport> {
+  // getBlockNumber() may answer from the provider cache, which lags behind or runs ahead of a reverted node
+  const { number: blockTag } = await token.provider.getBlock('latest');
+  const [{ chainId }, totalSupply, balances] = await Promise.all([
+    token.provider.getNetwork(),
+    token.totalSupply({ blockTag }),
+    Promise.all(rows.map((row) => token.balanceOf(row.wallet, { blockTag }))),
+  ]);
+  const expectedTotal = rows.reduce((sum, row) => sum.add(row.amount), BigNumber.from(0));
+  const reportRows = rows.map((row, i) => ({
+    line: row.line,
+    wallet: row.wallet,
+    expected: row.amount.toString(),
+    actual: balances[i].toString(),
+    difference: balances[i].sub(row.amount).toString(),
+    ok: balances[i].eq(row.amount),
+  }));
+
+  return {
+    chainId,
+    token: token.address,
+    blockNumber: blockTag,
+    fileHash: fileContents === undefined ? undefined : utils.id(fileContents),
+    rows: reportRows,
+    expectedTotal: expectedTotal.toString(),
+    totalSupply: totalSupply.toString(),
+    reconciled: totalSupply.eq(expectedTotal) && reportRows.every((row) => row.ok),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/** The message an operator signs to sign a report off. */
+export const reportMessage = (report: ReconciliationReport) => JSON.stringify(report);
+
+export async function signReport(report: ReconciliationReport, signer: Signer): Promise<SignedReconciliationReport> {
+  return { ...report, signedBy: await signer.getAddress(), signature: await signer.signMessage(reportMessage(report)) };
+}
+
+/** Whether `signature` was produced by `signedBy` over the report as it is now. */
+export function verifyReportSignature(signed: SignedReconciliationReport): boolean {
+  const { signedBy, signature, ...report } = signed;
+  try {
+    return utils.verifyMessage(reportMessage(report), signature) === utils.getAddress(signedBy);
+  } catch {
+    return false;
+  }
+}
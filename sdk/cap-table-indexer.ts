@@ -0,0 +1,206 @@
+/**
+ * Follows a `Token` deployment and its `IdentityRegistry` from the deployment block and keeps a `CapTableStore`
+ * up to date. `Token` has no holder enumeration, so this is the way to list holders.
+ *
+ * Each `sync()`:
+ * 1. checks that the last indexed block is still canonical. If not, it walks back through the stored block hashes
+ *    to the newest one still on the chain and rolls the store back to it. When the fork is deeper than
+ *    `reorgDepth`, the store goes back to `fromBlock`.
+ * 2. fetches the logs of both contracts in ranges of `batchSize` blocks up to the head and applies each range in
+ *    one SQLite transaction. A stopped indexer resumes from its checkpoint.
+ *
+ * The registry followed is the one given at creation; a later `Token.setIdentityRegistry` is not picked up.
+ *
+ * Usage:
+ *   const store = new CapTableStore('deployments/localhost.cap-table.sqlite');
+ *   const indexer = CapTableIndexer.fromManifest(manifest, ethers.provider, store);
+ *   await indexer.sync();
+ *   console.table(store.holders());
+ */
+import { Log, Provider } from '@ethersproject/providers';
+import { IdentityRegistry, IdentityRegistry__factory, Token__factory } from '../typechain-types';
+import { CapTableCheckpoint, CapTableEvent, CapTableStore, IndexedBlock } from './cap-table-store';
+import { DeploymentManifest, contractAddress } from './deployment-manifest';
+
+export interface CapTableIndexerOptions {
+  token: string;
+  identityRegistry: string;
+  /** First block to scan, usually the manifest `deploymentBlock`. */
+  fromBlock: number;
+  /** Blocks per `eth_getLogs` request. */
+  batchSize?: number;
+  /** How many recent block hashes are kept to find the common ancestor after a reorg. */
+  reorgDepth?: number;
+}
+
+export interface CapTableSyncResult {
+  /** Block the store was rolled back to, when the last indexed block was no longer canonical. */
+  rolledBackTo?: number;
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+}
+
+export interface FollowOptions {
+  /** Delay between two syncs, in milliseconds. */
+  pollInterval?: number;
+  signal?: AbortSignal;
+  onSync?: (_result: CapTableSyncResult) => void;
+}
+
+const DEFAULT_BATCH_SIZE = 2000;
+const DEFAULT_REORG_DEPTH = 128;
+
+const tokenInterface = Token__factory.createInterface();
+const registryInterface = IdentityRegistry__factory.createInterface();
+
+const TOKEN_TOPICS = ['Transfer', 'AddressFrozen', 'TokensFrozen', 'TokensUnfrozen', 'RecoverySuccess'].map((name) =>
+  tokenInterface.getEventTopic(name),
+);
+const REGISTRY_TOPICS = ['IdentityRegistered', 'IdentityRemoved', 'IdentityUpdated', 'CountryUpdated'].map((name) =>
+  registryInterface.getEventTopic(name),
+);
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const byChainOrder = (a: Log, b: Log) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+
+export class CapTableIndexer {
+  readonly provider: Provider;
+
+  readonly store: CapTableStore;
+
+  private readonly options: Required<CapTableIndexerOptions>;
+
+  private readonly identityRegistry: IdentityRegistry;
+
+  constructor(provider: Provider, store: CapTableStore, options: CapTableIndexerOptions) {
+    this.provider = provider;
+    this.store = store;
+    this.options = { ...options, batchSize: options.batchSize ?? DEFAULT_BATCH_SIZE, reorgDepth: options.reorgDepth ?? DEFAULT_REORG_DEPTH };
+    this.identityRegistry = IdentityRegistry__factory.connect(options.identityRegistry, provider);
+  }
+
+  /** Follows the `Token` and `IdentityRegistry` of a deployment manifest from its deployment block. */
+  static fromManifest(
+    manifest: DeploymentManifest,
+    provider: Provider,
+    store: CapTableStore,
+    options: Pick<CapTableIndexerOptions, 'batchSize' | 'reorgDepth'> = {},
+  ): CapTableIndexer {
+    return new CapTableIndexer(provider, store, {
+      ...options,
+      token: contractAddress(manifest, 'Token'),
+      identityRegistry: contractAddress(manifest, 'IdentityRegistry'),
+      fromBlock: manifest.deploymentBlock,
+    });
+  }
+
+  /** Indexes up to `toBlock`, by default the current head. */
+  async sync(toBlock?: number): Promise<CapTableSyncResult> {
+    const rolledBackTo = await this.rollBackOrphanedBlocks(await this.ensureCheckpoint());
+    const fromBlock = (this.store.checkpoint() as CapTableCheckpoint).lastBlock + 1;
+    const lastBlock = toBlock ?? (await this.provider.getBlockNumber());
+
+    const { batchSize } = this.options;
+    const ranges = Array.from({ length: Math.max(0, Math.ceil((lastBlock - fromBlock + 1) / batchSize)) }, (_, i) => {
+      const start = fromBlock + i * batchSize;
+      return [start, Math.min(start + batchSize - 1, lastBlock)];
+    });
+    const events = await ranges.reduce<Promise<number>>(
+      (indexed, [start, end]) => indexed.then(async (count) => count + (await this.indexRange(start, end))),
+      Promise.resolve(0),
+    );
+    this.store.pruneBlocks(lastBlock - this.options.reorgDepth);
+
+    return { rolledBackTo, fromBlock, toBlock: lastBlock, events };
+  }
+
+  /** Syncs every `pollInterval` milliseconds until `signal` is aborted. */
+  async follow({ pollInterval = 1000, signal, onSync }: FollowOptions = {}): Promise<void> {
+    while (!signal?.aborted) {
+      const result = await this.sync();
+      onSync?.(result);
+      await new Promise((resolve) => {
+        setTimeout(resolve, pollInterval);
+      });
+    }
+  }
+
+  private async ensureCheckpoint(): Promise<CapTableCheckpoint> {
+    const { token, identityRegistry, fromBlock } = this.options;
+    const { chainId } = await this.provider.getNetwork();
+    const checkpoint = this.store.checkpoint();
+    if (!checkpoint) {
+      this.store.initialize(chainId, token, identityRegistry, fromBlock);
+      return this.store.checkpoint() as CapTableCheckpoint;
+    }
+    if (checkpoint.chainId !== chainId || !sameAddress(checkpoint.token, token) || !sameAddress(checkpoint.identityRegistry, identityRegistry)) {
+      throw new Error(
+        `Cap table database follows token ${checkpoint.token} and registry ${checkpoint.identityRegistry} on chain ${checkpoint.chainId}, ` +
+          `not token ${token} and registry ${identityRegistry} on chain ${chainId}`,
+      );
+    }
+    return checkpoint;
+  }
+
+  private async isCanonical(block: IndexedBlock): Promise<boolean> {
+    const onChain = await this.provider.getBlock(block.number);
+    return onChain?.hash === block.hash;
+  }
+
+  private async rollBackOrphanedBlocks(checkpoint: CapTableCheckpoint): Promise<number | undefined> {
+    const { lastBlock, lastBlockHash } = checkpoint;
+    if (lastBlockHash === null || (await this.isCanonical({ number: lastBlock, hash: lastBlockHash }))) return undefined;
+
+    const recent = this.store.recentBlocks(this.options.reorgDepth);
+    const canonical = await Promise.all(recent.map((block) => this.isCanonical(block)));
+    this.store.rollback(recent.find((_, i) => canonical[i]));
+    return (this.store.checkpoint() as CapTableCheckpoint).lastBlock;
+  }
+
+  private async indexRange(fromBlock: number, toBlock: number): Promise<number> {
+    // The block hash is read before the logs: if the chain reorganizes in between, the next sync sees a
+    // non-canonical checkpoint and indexes the range again.
+    const lastBlock = await this.provider.getBlock(toBlock);
+    const [tokenLogs, registryLogs] = await Promise.all([
+      this.provider.getLogs({ address: this.options.token, topics: [TOKEN_TOPICS], fromBlock, toBlock }),
+      this.provider.getLogs({ address: this.options.identityRegistry, topics: [REGISTRY_TOPICS], fromBlock, toBlock }),
+    ]);
+    const events = await Promise.all([...tokenLogs, ...registryLogs].sort(byChainOrder).map((log) => this.decode(log)));
+
+    this.store.applyBatch(events, { number: toBlock, hash: lastBlock.hash });
+    return events.length;
+  }
+
+  private async decode(log: Log): Promise<CapTableEvent> {
+    const meta = { blockNumber: log.blockNumber, blockHash: log.blockHash, logIndex: log.logIndex, transactionHash: log.transactionHash };
+    const { name, args } = (sameAddress(log.address, this.options.token) ? tokenInterface : registryInterface).parseLog(log);
+
+    // Token event parameters are `_`-prefixed, so they are read by position
+    switch (name) {
+      case 'Transfer':
+        return { ...meta, name, from: args.from, to: args.to, value: args.value.toString() };
+      case 'AddressFrozen':
+        return { ...meta, name, wallet: args[0], frozen: args[1] };
+      case 'TokensFrozen':
+      case 'TokensUnfrozen':
+        return { ...meta, name, wallet: args[0], amount: args[1].toString() };
+      case 'RecoverySuccess':
+        return { ...meta, name, lostWallet: args[0], newWallet: args[1], identity: args[2] };
+      case 'IdentityRegistered': {
+        // The event does not carry the country: read it as of the registration block
+        const country = await this.identityRegistry.investorCountry(args.investorAddress, { blockTag: log.blockNumber });
+        return { ...meta, name, wallet: args.investorAddress, identity: args.identity, country };
+      }
+      case 'IdentityRemoved':
+        return { ...meta, name, wallet: args.investorAddress, identity: args.identity };
+      case 'IdentityUpdated':
+        return { ...meta, name, oldIdentity: args.oldIdentity, newIdentity: args.newIdentity };
+      case 'CountryUpdated':
+        return { ...meta, name, wallet: args.investorAddress, country: args.country };
+      default:
+        throw new Error(`Unexpected ${name} event in transaction ${log.transactionHash}`);
+    }
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Point-in-time cap table: every holder of a `Token` at a given block, or at the last block mined at or before
+ * a given timestamp (a record date), with balance, frozen tokens, freeze flag, ONCHAINID and country.
+ *
+ * The holder list comes from replaying the `Token` and `IdentityRegistry` events up to the snapshot block, either
+ * from a `CapTableStore` that already indexed past that block or from the chain logs. The sum of the replayed
+ * balances is then reconciled against `totalSupply()` read at the same block; a snapshot that does not
+ * reconcile is returned with `reconciled: false` so the caller decides what to do with it.
+ *
+ * Usage:
+ *   const snapshot = await takeCapTableSnapshot(ethers.provider, { ...addresses, at: { timestamp: recordDate } });
+ *   fs.writeFileSync('cap-table.csv', snapshotToCsv(snapshot));
+ */
+import { BigNumber, utils } from 'ethers';
+import { Block, Provider } from '@ethersproject/providers';
+import { Token__factory } from '../typechain-types';
+import { CapTableIndexer, CapTableIndexerOptions } from './cap-table-indexer';
+import { CapTableEntry, CapTableStore } from './cap-table-store';
+import { countryName } from './countries';
+import { formatCsv } from './csv';
+
+/** A block number, or a unix timestamp in seconds resolved to the last block mined at or before it. */
+export type SnapshotPoint = { blockNumber: number } | { timestamp: number };
+
+export interface CapTableSnapshotOptions extends Pick<CapTableIndexerOptions, 'token' | 'identityRegistry' | 'fromBlock' | 'batchSize'> {
+  at: SnapshotPoint;
+  /** Indexed database to replay from. It is only used when it follows the same contracts and covers the snapshot block. */
+  store?: CapTableStore;
+}
+
+export interface CapTableSnapshot {
+  chainId: number;
+  token: string;
+  identityRegistry: string;
+  blockNumber: number;
+  blockHash: string;
+  timestamp: number;
+  holders: CapTableEntry[];
+  totalBalance: BigNumber;
+  totalFrozenTokens: BigNumber;
+  /** `totalSupply()` at the snapshot block. */
+  totalSupply: BigNumber;
+  /** `totalSupply - totalBalance`, zero when the snapshot reconciles. */
+  difference: BigNumber;
+  reconciled: boolean;
+}
+
+export const CAP_TABLE_CSV_HEADER = ['wallet', 'identity', 'country', 'countryName', 'balance', 'frozenTokens', 'frozen'];
+
+/** Number of the last block mined at or before `timestamp` (unix seconds). */
+export async function blockAtTimestamp(provider: Provider, timestamp: number): Promise<number> {
+  const head = await provider.getBlock('latest');
+  if (head.timestamp <= timestamp) return head.number;
+  if ((await provider.getBlock(0)).timestamp > timestamp) {
+    throw new Error(`No block was mined at or before timestamp ${timestamp}`);
+  }
+
+  // Invariant: block `low` is at or before the timestamp, block `high` is after it
+  let low = 0;
+  let high = head.number;
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if ((await provider.getBlock(middle)).timestamp <= timestamp) low = middle;
+    else high = middle;
+  }
+  return low;
+}
+
+async function resolveBlock(provider: Provider, at: SnapshotPoint): Promise<Block> {
+  const blockNumber = 'blockNumber' in at ? at.blockNumber : await blockAtTimestamp(provider, at.timestamp);
+  const block = await provider.getBlock(blockNumber);
+  if (!block) throw new Error(`Block ${blockNumber} has not been mined yet`);
+  return block;
+}
+
+const coversBlock = (store: CapTableStore, chainId: number, options: CapTableSnapshotOptions, blockNumber: number) => {
+  const checkpoint = store.checkpoint();
+  return (
+    checkpoint !== undefined &&
+    checkpoint.chainId === chainId &&
+    checkpoint.token === utils.getAddress(options.token) &&
+    checkpoint.identityRegistry === utils.getAddress(options.identityRegistry) &&
+    checkpoint.fromBlock <= options.fromBlock &&
+    checkpoint.lastBlock >= blockNumber
+  );
+};
+
+async function replayHolders(provider: Provider, chainId: number, options: CapTableSnapshotOptions, block: Block): Promise<CapTableEntry[]> {
+  const { token, identityRegistry, fromBlock, batchSize, store } = options;
+  const replay = new CapTableStore(':memory:');
+  try {
+    if (store && coversBlock(store, chainId, options, block.number)) {
+      replay.initialize(chainId, token, identityRegistry, fromBlock);
+      replay.applyBatch(store.events(block.number), { number: block.number, hash: block.hash });
+    } else {
+      await new CapTableIndexer(provider, replay, { token, identityRegistry, fromBlock, batchSize }).sync(block.number);
+    }
+    return replay.holders();
+  } finally {
+    replay.close();
+  }
+}
+
+export async function takeCapTableSnapshot(provider: Provider, options: CapTableSnapshotOptions): Promise<CapTableSnapshot> {
+  const { chainId } = await provider.getNetwork();
+  const block = await resolveBlock(provider, options.at);
+  if (block.number < options.fromBlock) {
+    throw new Error(`Snapshot block ${block.number} is before the deployment block ${options.fromBlock}`);
+  }
+
+  const holders = await replayHolders(provider, chainId, options, block);
+  const totalSupply = await Token__factory.connect(options.token, provider).totalSupply({ blockTag: block.number });
+  const totalBalance = holders.reduce((sum, holder) => sum.add(holder.balance), BigNumber.from(0));
+  const totalFrozenTokens = holders.reduce((sum, holder) => sum.add(holder.frozenTokens), BigNumber.from(0));
+  const difference = totalSupply.sub(totalBalance);
+
+  return {
+    chainId,
+    token: utils.getAddress(options.token),
+    identityRegistry: utils.getAddress(options.identityRegistry),
+    blockNumber: block.number,
+    blockHash: block.hash,
+    timestamp: block.timestamp,
+    holders,
+    totalBalance,
+    totalFrozenTokens,
+    totalSupply,
+    difference,
+    reconciled: difference.isZero(),
+  };
+}
+
+/** One row per holder, amounts in token base units, the country as its ISO 3166-1 code and name. */
+export function snapshotToCsv(snapshot: CapTableSnapshot): string {
+  const rows = snapshot.holders.map((holder) => [
+    holder.wallet,
+    holder.identity ?? '',
+    holder.country?.toString() ?? '',
+    holder.country === null ? '' : countryName(holder.country),
+    holder.balance.toString(),
+    holder.frozenTokens.toString(),
+    holder.frozen.toString(),
+  ]);
+  return formatCsv(CAP_TABLE_CSV_HEADER, rows);
+}
+
+/** The whole snapshot, amounts as decimal strings in token base units. */
+export function snapshotToJson(snapshot: CapTableSnapshot): string {
+  const { holders, totalBalance, totalFrozenTokens, totalSupply, difference, ...rest } = snapshot;
+  const json = {
+    ...rest,
+    totalSupply: totalSupply.toString(),
+    totalBalance: totalBalance.toString(),
+    totalFrozenTokens: totalFrozenTokens.toString(),
+    difference: difference.toString(),
+    holders: holders.map((holder) => ({
+      ...holder,
+      countryName: holder.country === null ? null : countryName(holder.country),
+      balance: holder.balance.toString(),
+      frozenTokens: holder.frozenTokens.toString(),
+    })),
+  };
+  return `${JSON.stringify(json, null, 2)}\n`;
+}
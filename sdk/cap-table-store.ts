@@ -0,0 +1,289 @@
+/**
+ * SQLite persistence for the cap table built by `CapTableIndexer`.
+ *
+ * Tables:
+ * - `events`: journal of every indexed event in chain order, with its decoded arguments
+ * - `holders`: wallet, identity, country, balance, frozen amount and frozen flag, derived from the journal
+ * - `blocks`: hashes of recently indexed blocks, used to find the common ancestor after a reorg
+ * - `checkpoint`: the followed contracts and the last indexed block, used to resume
+ *
+ * Amounts are stored as decimal strings because uint256 values do not fit SQLite integers.
+ * A rollback deletes the journal past the common ancestor and replays the rest into `holders`.
+ */
+import Database from 'better-sqlite3';
+import { BigNumber, constants, utils } from 'ethers';
+
+/**
+ * A decoded `Token` or `IdentityRegistry` event. `IdentityRegistered` does not carry the country, so the
+ * indexer reads it from the registry at the registration block.
+ */
+export type CapTableEvent = {
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  transactionHash: string;
+} & (
+  | { name: 'Transfer'; from: string; to: string; value: string }
+  | { name: 'AddressFrozen'; wallet: string; frozen: boolean }
+  | { name: 'TokensFrozen'; wallet: string; amount: string }
+  | { name: 'TokensUnfrozen'; wallet: string; amount: string }
+  | { name: 'RecoverySuccess'; lostWallet: string; newWallet: string; identity: string }
+  | { name: 'IdentityRegistered'; wallet: string; identity: string; country: number }
+  | { name: 'IdentityRemoved'; wallet: string; identity: string }
+  | { name: 'IdentityUpdated'; oldIdentity: string; newIdentity: string }
+  | { name: 'CountryUpdated'; wallet: string; country: number }
+);
+
+export interface CapTableEntry {
+  wallet: string;
+  identity: string | null;
+  country: number | null;
+  balance: BigNumber;
+  frozenTokens: BigNumber;
+  frozen: boolean;
+}
+
+export interface CapTableCheckpoint {
+  chainId: number;
+  token: string;
+  identityRegistry: string;
+  fromBlock: number;
+  /** Last fully indexed block, `fromBlock - 1` before the first sync. */
+  lastBlock: number;
+  lastBlockHash: string | null;
+}
+
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+}
+
+interface HolderRow {
+  wallet: string;
+  identity: string | null;
+  country: number | null;
+  balance: string;
+  frozen_tokens: string;
+  frozen: number;
+}
+
+interface CheckpointRow {
+  chain_id: number;
+  token: string;
+  identity_registry: string;
+  from_block: number;
+  last_block: number;
+  last_block_hash: string | null;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS checkpoint (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    chain_id INTEGER NOT NULL,
+    token TEXT NOT NULL,
+    identity_registry TEXT NOT NULL,
+    from_block INTEGER NOT NULL,
+    last_block INTEGER NOT NULL,
+    last_block_hash TEXT
+  );
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    name TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS holders (
+    wallet TEXT PRIMARY KEY,
+    identity TEXT,
+    country INTEGER,
+    balance TEXT NOT NULL DEFAULT '0',
+    frozen_tokens TEXT NOT NULL DEFAULT '0',
+    frozen INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE INDEX IF NOT EXISTS holders_identity ON holders (identity);
+`;
+
+const toEntry = (row: HolderRow): CapTableEntry => ({
+  wallet: row.wallet,
+  identity: row.identity,
+  country: row.country,
+  balance: BigNumber.from(row.balance),
+  frozenTokens: BigNumber.from(row.frozen_tokens),
+  frozen: row.frozen === 1,
+});
+
+export class CapTableStore {
+  readonly db: Database.Database;
+
+  /** Opens (or creates) the database at `filename`; `':memory:'` keeps it in memory. */
+  constructor(filename: string) {
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  checkpoint(): CapTableCheckpoint | undefined {
+    const row = this.db.prepare('SELECT * FROM checkpoint WHERE id = 1').get() as CheckpointRow | undefined;
+    return (
+      row && {
+        chainId: row.chain_id,
+        token: row.token,
+        identityRegistry: row.identity_registry,
+        fromBlock: row.from_block,
+        lastBlock: row.last_block,
+        lastBlockHash: row.last_block_hash,
+      }
+    );
+  }
+
+  /** Records the contracts this database follows. Nothing is indexed yet. */
+  initialize(chainId: number, token: string, identityRegistry: string, fromBlock: number) {
+    this.db
+      .prepare(
+        `INSERT INTO checkpoint (id, chain_id, token, identity_registry, from_block, last_block, last_block_hash)
+         VALUES (1, ?, ?, ?, ?, ?, NULL)`,
+      )
+      .run(chainId, utils.getAddress(token), utils.getAddress(identityRegistry), fromBlock, fromBlock - 1);
+  }
+
+  /**
+   * Stores the events of a block range, applies them to `holders` and moves the checkpoint to `lastBlock`,
+   * all in one SQLite transaction so an interrupted sync resumes from the previous checkpoint.
+   */
+  applyBatch(events: CapTableEvent[], lastBlock: IndexedBlock) {
+    const insertEvent = this.db.prepare(
+      'INSERT INTO events (block_number, log_index, block_hash, transaction_hash, name, data) VALUES (?, ?, ?, ?, ?, ?)',
+    );
+    const insertBlock = this.db.prepare('INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)');
+
+    this.db.transaction(() => {
+      events.forEach((event) => {
+        insertEvent.run(event.blockNumber, event.logIndex, event.blockHash, event.transactionHash, event.name, JSON.stringify(event));
+        insertBlock.run(event.blockNumber, event.blockHash);
+        this.applyEvent(event);
+      });
+      insertBlock.run(lastBlock.number, lastBlock.hash);
+      this.db.prepare('UPDATE checkpoint SET last_block = ?, last_block_hash = ? WHERE id = 1').run(lastBlock.number, lastBlock.hash);
+    })();
+  }
+
+  /** Indexed block hashes, newest first. */
+  recentBlocks(limit: number): IndexedBlock[] {
+    return this.db.prepare('SELECT number, hash FROM blocks ORDER BY number DESC LIMIT ?').all(limit) as IndexedBlock[];
+  }
+
+  /** Forgets the hashes of blocks below `number`; they are too deep to be reorganized. */
+  pruneBlocks(number: number) {
+    this.db.prepare('DELETE FROM blocks WHERE number < ?').run(number);
+  }
+
+  /**
+   * Drops everything indexed after `ancestor` and rebuilds `holders` from the remaining journal.
+   * Without an ancestor the database goes back to its state before the first sync.
+   */
+  rollback(ancestor?: IndexedBlock) {
+    const checkpoint = this.checkpoint();
+    if (!checkpoint) throw new Error('Cannot roll back an uninitialized cap table');
+    const lastBlock = ancestor ?? { number: checkpoint.fromBlock - 1, hash: null };
+
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM events WHERE block_number > ?').run(lastBlock.number);
+      this.db.prepare('DELETE FROM blocks WHERE number > ?').run(lastBlock.number);
+      this.db.prepare('DELETE FROM holders').run();
+      this.events().forEach((event) => this.applyEvent(event));
+      this.db.prepare('UPDATE checkpoint SET last_block = ?, last_block_hash = ? WHERE id = 1').run(lastBlock.number, lastBlock.hash);
+    })();
+  }
+
+  /** The event journal in chain order, optionally up to `toBlock` included. */
+  events(toBlock = Number.MAX_SAFE_INTEGER): CapTableEvent[] {
+    const rows = this.db.prepare('SELECT data FROM events WHERE block_number <= ? ORDER BY block_number, log_index').all(toBlock) as {
+      data: string;
+    }[];
+    return rows.map((row) => JSON.parse(row.data) as CapTableEvent);
+  }
+
+  holder(wallet: string): CapTableEntry | undefined {
+    const row = this.db.prepare('SELECT * FROM holders WHERE wallet = ?').get(utils.getAddress(wallet)) as HolderRow | undefined;
+    return row && toEntry(row);
+  }
+
+  /**
+   * Every known wallet, largest balance first. Wallets that only appear in the registry or that were emptied
+   * are left out unless `includeEmpty` is set.
+   */
+  holders({ includeEmpty = false } = {}): CapTableEntry[] {
+    const rows = this.db.prepare('SELECT * FROM holders').all() as HolderRow[];
+    return rows
+      .map(toEntry)
+      .filter((entry) => includeEmpty || !entry.balance.isZero())
+      .sort((a, b) => {
+        if (a.balance.eq(b.balance)) return a.wallet.localeCompare(b.wallet);
+        return a.balance.gt(b.balance) ? -1 : 1;
+      });
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  private applyEvent(event: CapTableEvent) {
+    switch (event.name) {
+      case 'Transfer':
+        if (event.from !== constants.AddressZero) this.addBalance(event.from, BigNumber.from(event.value).mul(-1));
+        if (event.to !== constants.AddressZero) this.addBalance(event.to, BigNumber.from(event.value));
+        break;
+      case 'AddressFrozen':
+        this.update(event.wallet, 'frozen = ?', event.frozen ? 1 : 0);
+        break;
+      case 'TokensFrozen':
+        this.addFrozenTokens(event.wallet, BigNumber.from(event.amount));
+        break;
+      case 'TokensUnfrozen':
+        this.addFrozenTokens(event.wallet, BigNumber.from(event.amount).mul(-1));
+        break;
+      case 'RecoverySuccess':
+        // `recoveryAddress` unfreezes the lost wallet without emitting `AddressFrozen`; balances, frozen tokens
+        // and registry entries move through their own events.
+        this.update(event.lostWallet, 'frozen = 0');
+        break;
+      case 'IdentityRegistered':
+        this.update(event.wallet, 'identity = ?, country = ?', event.identity, event.country);
+        break;
+      case 'IdentityRemoved':
+        this.update(event.wallet, 'identity = NULL, country = NULL');
+        break;
+      case 'IdentityUpdated':
+        // The event does not name the wallet: every wallet registered with the old identity moves to the new one
+        this.db.prepare('UPDATE holders SET identity = ? WHERE identity = ?').run(event.newIdentity, event.oldIdentity);
+        break;
+      case 'CountryUpdated':
+        this.update(event.wallet, 'country = ?', event.country);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private update(wallet: string, assignments: string, ...values: (string | number)[]) {
+    this.db.prepare('INSERT OR IGNORE INTO holders (wallet) VALUES (?)').run(wallet);
+    this.db.prepare(`UPDATE holders SET ${assignments} WHERE wallet = ?`).run(...values, wallet);
+  }
+
+  private addBalance(wallet: string, delta: BigNumber) {
+    const current = this.holder(wallet)?.balance ?? BigNumber.from(0);
+    this.update(wallet, 'balance = ?', current.add(delta).toString());
+  }
+
+  private addFrozenTokens(wallet: string, delta: BigNumber) {
+    const current = this.holder(wallet)?.frozenTokens ?? BigNumber.from(0);
+    this.update(wallet, 'frozen_tokens = ?', current.add(delta).toString());
+  }
+}
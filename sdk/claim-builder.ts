@@ -0,0 +1,182 @@
+/**
+ * Builds, hashes, signs and verifies OnchainID claims in the one scheme the contracts accept.
+ *
+ * `ClaimIssuer.isClaimValid` recovers the signer of
+ *   keccak256("\x19Ethereum Signed Message:\n32" || keccak256(abi.encode(identity, topic, data)))
+ * and requires it to be a CLAIM signer key (purpose 3) of the issuer contract, with the signature not revoked.
+ * EIP-712 signatures, or hashes that include the issuer, are rejected by `Identity.addClaim` ("invalid claim").
+ *
+ * Usage:
+ *   const claim = await ClaimBuilder.create(identity, claimIssuer, topic).withData('KYC passed').sign(signingKey);
+ *   const check = await verifyClaim(claim, provider);
+ *   const result = await submitClaim(IIdentity__factory.connect(identity, investor), claim);
+ */
+import { BigNumber, BigNumberish, BytesLike, ContractReceipt, Overrides, Signer, constants, utils } from 'ethers';
+import { Provider } from '@ethersproject/providers';
+import { IClaimIssuer__factory, IIdentity } from '../typechain-types';
+import { walletKey } from './token-client';
+
+// ERC-734 purpose of the keys allowed to sign claims on a ClaimIssuer and to add claims on an Identity
+export const CLAIM_SIGNER_KEY_PURPOSE = 3;
+
+// ERC-735 scheme of ECDSA signed claims
+export const ECDSA_CLAIM_SCHEME = 1;
+
+export interface Claim {
+  identity: string;
+  issuer: string;
+  topic: BigNumber;
+  scheme: number;
+  data: string;
+  uri: string;
+}
+
+export interface SignedClaim extends Claim {
+  /** Id the claim is stored under on the identity, `keccak256(abi.encode(issuer, topic))`. */
+  claimId: string;
+  signature: string;
+}
+
+export type ClaimCheckCode =
+  | 'MALFORMED_SIGNATURE'
+  | 'SIGNER_NOT_CLAIM_KEY'
+  | 'CLAIM_REVOKED'
+  | 'ISSUER_REJECTS_CLAIM'
+  | 'SENDER_NOT_CLAIM_KEY'
+  | 'TRANSACTION_REVERTED';
+
+export interface ClaimCheckFailure {
+  code: ClaimCheckCode;
+  message: string;
+}
+
+export interface ClaimCheck {
+  valid: boolean;
+  /** Address recovered from the signature, the zero address when the signature is malformed. */
+  signer: string;
+  failures: ClaimCheckFailure[];
+}
+
+export type ClaimTxResult =
+  | { ok: true; claimId: string; transactionHash: string; receipt: ContractReceipt }
+  | { ok: false; failures: ClaimCheckFailure[] };
+
+// Same derivation as `IdentityRegistry._isClaimValid` and OnchainID `Identity.addClaim`
+export const claimIdOf = (issuer: string, topic: BigNumberish) =>
+  utils.keccak256(utils.defaultAbiCoder.encode(['address', 'uint256'], [issuer, topic]));
+
+/** The hash the issuer signs (before the EIP-191 prefix), as computed by `ClaimIssuer.isClaimValid`. */
+export const claimHash = (identity: string, topic: BigNumberish, data: BytesLike) =>
+  utils.keccak256(utils.defaultAbiCoder.encode(['address', 'uint256', 'bytes'], [identity, topic, data]));
+
+const failure = (code: ClaimCheckCode, message: string): ClaimCheckFailure => ({ code, message });
+
+/** Mirrors `Identity.getRecoveredAddress`: anything that is not a 65 bytes signature recovers to the zero address. */
+export function recoverClaimSigner(claim: Pick<SignedClaim, 'identity' | 'topic' | 'data' | 'signature'>): string {
+  if (utils.hexDataLength(claim.signature) !== 65) return constants.AddressZero;
+  try {
+    return utils.verifyMessage(utils.arrayify(claimHash(claim.identity, claim.topic, claim.data)), claim.signature);
+  } catch {
+    return constants.AddressZero;
+  }
+}
+
+export class ClaimBuilder {
+  private readonly claim: Claim;
+
+  constructor(identity: string, issuer: string, topic: BigNumberish) {
+    this.claim = { identity, issuer, topic: BigNumber.from(topic), scheme: ECDSA_CLAIM_SCHEME, data: '0x', uri: '' };
+  }
+
+  static create(identity: string, issuer: string, topic: BigNumberish): ClaimBuilder {
+    return new ClaimBuilder(identity, issuer, topic);
+  }
+
+  /** Raw bytes, or a plain string which is stored UTF-8 encoded. A `0x` string with an odd number of digits is rejected. */
+  withData(data: BytesLike): ClaimBuilder {
+    if (typeof data === 'string' && utils.isHexString(data) && data.length % 2 !== 0) {
+      throw new Error(`Claim data "${data}" is not valid hex: it has an odd number of digits`);
+    }
+    this.claim.data = typeof data === 'string' && !utils.isHexString(data) ? utils.hexlify(utils.toUtf8Bytes(data)) : utils.hexlify(data);
+    return this;
+  }
+
+  withUri(uri: string): ClaimBuilder {
+    this.claim.uri = uri;
+    return this;
+  }
+
+  withScheme(scheme: number): ClaimBuilder {
+    this.claim.scheme = scheme;
+    return this;
+  }
+
+  build(): Claim {
+    return { ...this.claim };
+  }
+
+  hash(): string {
+    return claimHash(this.claim.identity, this.claim.topic, this.claim.data);
+  }
+
+  /** Signs with a CLAIM signer key (purpose 3) of the issuer contract. */
+  async sign(signingKey: Signer): Promise<SignedClaim> {
+    const signature = await signingKey.signMessage(utils.arrayify(this.hash()));
+    return { ...this.build(), claimId: claimIdOf(this.claim.issuer, this.claim.topic), signature };
+  }
+}
+
+/**
+ * Checks a signed claim the way `ClaimIssuer.isClaimValid` will: the signature is recovered locally, then the
+ * issuer contract is asked whether the signer holds a CLAIM key and whether the signature was revoked.
+ * `isClaimValid` itself is called last so a contract that is not a ClaimIssuer is reported too.
+ */
+export async function verifyClaim(claim: SignedClaim, provider: Provider): Promise<ClaimCheck> {
+  const signer = recoverClaimSigner(claim);
+  if (signer === constants.AddressZero) {
+    return { valid: false, signer, failures: [failure('MALFORMED_SIGNATURE', 'Signature is not a 65 bytes ECDSA signature of the claim hash')] };
+  }
+
+  const issuer = IClaimIssuer__factory.connect(claim.issuer, provider);
+  const [signerIsClaimKey, revoked, issuerAccepts] = await Promise.all([
+    issuer.keyHasPurpose(walletKey(signer), CLAIM_SIGNER_KEY_PURPOSE).catch(() => false),
+    issuer.isClaimRevoked(claim.signature).catch(() => false),
+    issuer.isClaimValid(claim.identity, claim.topic, claim.signature, claim.data).catch(() => false),
+  ]);
+
+  const failures: ClaimCheckFailure[] = [];
+  if (!signerIsClaimKey) failures.push(failure('SIGNER_NOT_CLAIM_KEY', `Signer ${signer} is not a CLAIM key of issuer ${claim.issuer}`));
+  if (revoked) failures.push(failure('CLAIM_REVOKED', `Issuer ${claim.issuer} revoked this claim signature`));
+  if (failures.length === 0 && !issuerAccepts) {
+    failures.push(failure('ISSUER_REJECTS_CLAIM', `${claim.issuer} does not accept the claim through isClaimValid`));
+  }
+  return { valid: failures.length === 0, signer, failures };
+}
+
+/**
+ * Adds a signed claim to an identity connected with a CLAIM (or MANAGEMENT) key of that identity.
+ * The claim is verified first and nothing is sent when `Identity.addClaim` would revert.
+ */
+export async function submitClaim(identity: IIdentity, claim: SignedClaim, overrides: Overrides = {}): Promise<ClaimTxResult> {
+  if (utils.getAddress(identity.address) !== utils.getAddress(claim.identity)) {
+    throw new Error(`Claim was signed for identity ${claim.identity}, not ${identity.address}`);
+  }
+
+  const sender = await identity.signer.getAddress();
+  const [check, senderIsClaimKey] = await Promise.all([
+    verifyClaim(claim, identity.provider),
+    identity.keyHasPurpose(walletKey(sender), CLAIM_SIGNER_KEY_PURPOSE),
+  ]);
+  const failures = [...check.failures];
+  if (!senderIsClaimKey) failures.push(failure('SENDER_NOT_CLAIM_KEY', `Sender ${sender} is not a CLAIM key of identity ${identity.address}`));
+  if (failures.length > 0) return { ok: false, failures };
+
+  try {
+    const tx = await identity.addClaim(claim.topic, claim.scheme, claim.issuer, claim.signature, claim.data, claim.uri, overrides);
+    const receipt = await tx.wait();
+    return { ok: true, claimId: claim.claimId, transactionHash: receipt.transactionHash, receipt };
+  } catch (error) {
+    const err = error as { reason?: string; message?: string };
+    return { ok: false, failures: [failure('TRANSACTION_REVERTED', err.reason ?? err.message ?? String(error))] };
+  }
+}
@@ -0,0 +1,320 @@
+/**
+ * Claim expiry tracking for the investors of a deployed suite. OnchainID claims carry no issue date, so the date a
+ * claim was (re)issued is the timestamp of the block of its last `ClaimAdded` / `ClaimChanged` event.
+ *
+ * `scanClaimExpiry`:
+ * 1. replays `IdentityStored` / `IdentityUnstored` / `IdentityModified` of the IdentityRegistryStorage to list the
+ *    registered wallets and their identities;
+ * 2. replays `ClaimAdded` / `ClaimChanged` / `ClaimRemoved` of each identity for the topics of the policy;
+ * 3. gives each claim the validity period of its topic and classifies it against the timestamp of the latest block.
+ *
+ * Claims the identity holds but whose events are older than the scanned range are `unknown`: their issue date
+ * cannot be told, renew them to start tracking them. A wallet without any claim for a policy topic is `missing`.
+ *
+ * The policy is a JSON file; topics are numbers or strings hashed with keccak256. `onExpiry` is what
+ * `enforceClaimPolicy` does with an expired claim: `report` (default), `freeze` the wallet with
+ * `Token.setAddressFrozen` once none of its claims for the topic is current, or `revoke` the claim on its issuer.
+ *
+ *   { "topics": { "KYC_AML_VERIFIED": { "validityDays": 365, "onExpiry": "freeze" }, "ACCREDITED": { "validityDays": 90 } } }
+ *
+ * Usage:
+ *   const report = await scanClaimExpiry(manifest, ethers.provider, readClaimPolicy('claim-policy.json'), { withinDays: 30 });
+ *   console.table(expiringClaims(report));
+ *   await enforceClaimPolicy(report, { token: token.connect(agent), issuerManagers: { [issuer]: manager }, dryRun: true });
+ */
+import fs from 'fs';
+import { BigNumber, Signer, utils } from 'ethers';
+import { Log, Provider } from '@ethersproject/providers';
+import { ClaimIssuer__factory, IIdentity__factory, IdentityRegistryStorage__factory, Token } from '../typechain-types';
+import { runOperation } from './contract-operation';
+import { formatCsv } from './csv';
+import { DeploymentManifest, contractAddress } from './deployment-manifest';
+
+export type ExpiryAction = 'report' | 'freeze' | 'revoke';
+
+export interface TopicPolicy {
+  validityDays: number;
+  onExpiry?: ExpiryAction;
+}
+
+export interface ClaimPolicy {
+  /** Claim topic (number or string hashed with keccak256) -> policy. */
+  topics: Record<string, TopicPolicy>;
+}
+
+/**
+ * - `valid`: expires after the `withinDays` window
+ * - `expiring`: expires within `withinDays`
+ * - `expired`: the validity period is over
+ * - `unknown`: the identity holds the claim but it was issued before the scanned blocks
+ * - `missing`: the identity holds no claim for the topic
+ */
+export type ClaimExpiryStatus = 'valid' | 'expiring' | 'expired' | 'unknown' | 'missing';
+
+export interface ClaimExpiryRow {
+  wallet: string;
+  identity: string;
+  /** Decimal string. */
+  topic: string;
+  /** Topic as written in the policy. */
+  topicName: string;
+  issuer?: string;
+  claimId?: string;
+  signature?: string;
+  /** Unix time of the block that (re)issued the claim. */
+  issuedAt?: number;
+  expiresAt?: number;
+  status: ClaimExpiryStatus;
+  onExpiry: ExpiryAction;
+}
+
+export interface ClaimExpiryReport {
+  blockNumber: number;
+  /** Unix time the claims were classified at, the timestamp of `blockNumber`. */
+  timestamp: number;
+  withinDays: number;
+  rows: ClaimExpiryRow[];
+}
+
+export interface ClaimExpiryOptions {
+  /** Claims expiring within this many days are `expiring`. */
+  withinDays?: number;
+  /** First block scanned for claim events, the manifest `deploymentBlock` by default. */
+  fromBlock?: number;
+  /** Blocks per `eth_getLogs` query. */
+  batchSize?: number;
+}
+
+export interface EnforcementOptions {
+  /** Token connected with an agent, freezes wallets. */
+  token: Token;
+  /** Management key of each ClaimIssuer (by address) allowed to revoke its claims. */
+  issuerManagers?: Record<string, Signer>;
+  dryRun?: boolean;
+  log?: (_message: string) => void;
+}
+
+export interface EnforcementResult {
+  action: Exclude<ExpiryAction, 'report'>;
+  wallet: string;
+  identity: string;
+  topicName: string;
+  claimId?: string;
+  outcome: 'sent' | 'simulated' | 'skipped' | 'failed';
+  detail?: string;
+  transactionHash?: string;
+}
+
+export const CLAIM_EXPIRY_HEADER = ['wallet', 'identity', 'topicName', 'topic', 'status', 'issuedAt', 'expiresAt', 'issuer', 'claimId', 'onExpiry'];
+
+const DAY = 24 * 60 * 60;
+const DEFAULT_WITHIN_DAYS = 30;
+const DEFAULT_BATCH_SIZE = 10_000;
+const EXPIRY_ACTIONS: ExpiryAction[] = ['report', 'freeze', 'revoke'];
+
+const storageInterface = IdentityRegistryStorage__factory.createInterface();
+const identityInterface = IIdentity__factory.createInterface();
+const STORAGE_TOPICS = ['IdentityStored', 'IdentityUnstored', 'IdentityModified'].map((name) => storageInterface.getEventTopic(name));
+const CLAIM_TOPICS = ['ClaimAdded', 'ClaimChanged', 'ClaimRemoved'].map((name) => identityInterface.getEventTopic(name));
+
+const byChainOrder = (a: Log, b: Log) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+
+export const policyTopic = (topic: string) => (/^\d+$/.test(topic) ? BigNumber.from(topic) : BigNumber.from(utils.id(topic)));
+
+export function parseClaimPolicy(text: string): ClaimPolicy {
+  const policy = JSON.parse(text);
+  if (typeof policy?.topics !== 'object' || policy.topics === null || Object.keys(policy.topics).length === 0) {
+    throw new Error('The claim policy must have a non-empty "topics" object');
+  }
+  Object.entries(policy.topics).forEach(([topic, value]) => {
+    const { validityDays, onExpiry = 'report' } = (value ?? {}) as Partial<TopicPolicy>;
+    if (typeof validityDays !== 'number' || !(validityDays > 0)) throw new Error(`topics.${topic}.validityDays must be a positive number`);
+    if (!EXPIRY_ACTIONS.includes(onExpiry)) throw new Error(`topics.${topic}.onExpiry must be one of ${EXPIRY_ACTIONS.join(', ')}`);
+  });
+  return policy;
+}
+
+export const readClaimPolicy = (file: string): ClaimPolicy => parseClaimPolicy(fs.readFileSync(file, 'utf8'));
+
+async function fetchLogs(provider: Provider, address: string, topics: string[], fromBlock: number, toBlock: number, batchSize: number) {
+  const starts = Array.from({ length: Math.max(0, Math.ceil((toBlock - fromBlock + 1) / batchSize)) }, (_, i) => fromBlock + i * batchSize);
+  const batches = await starts.reduce<Promise<Log[][]>>(
+    async (previous, start) => [
+      ...(await previous),
+      await provider.getLogs({ address, topics: [topics], fromBlock: start, toBlock: Math.min(start + batchSize - 1, toBlock) }),
+    ],
+    Promise.resolve([]),
+  );
+  return batches.flat().sort(byChainOrder);
+}
+
+/** Registered wallets and their identity, replayed from the storage events. */
+function replayRegistrations(logs: Log[]): Map<string, string> {
+  const identities = new Map<string, string>();
+  logs.forEach((log) => {
+    const parsed = storageInterface.parseLog(log);
+    if (parsed.name === 'IdentityStored') identities.set(parsed.args.investorAddress, parsed.args.identity);
+    else if (parsed.name === 'IdentityUnstored') identities.delete(parsed.args.investorAddress);
+    else {
+      [...identities.entries()]
+        .filter(([, identity]) => identity === parsed.args.oldIdentity)
+        .forEach(([wallet]) => identities.set(wallet, parsed.args.newIdentity));
+    }
+  });
+  return identities;
+}
+
+interface TrackedClaim {
+  claimId: string;
+  topic: BigNumber;
+  issuer: string;
+  signature: string;
+  blockNumber: number;
+}
+
+export async function scanClaimExpiry(
+  manifest: DeploymentManifest,
+  provider: Provider,
+  policy: ClaimPolicy,
+  options: ClaimExpiryOptions = {},
+): Promise<ClaimExpiryReport> {
+  const { withinDays = DEFAULT_WITHIN_DAYS, fromBlock = manifest.deploymentBlock, batchSize = DEFAULT_BATCH_SIZE } = options;
+  const head = await provider.getBlock('latest');
+  const storage = manifest.contracts.IdentityRegistryStorage;
+  const registrationLogs = await fetchLogs(
+    provider,
+    contractAddress(manifest, 'IdentityRegistryStorage'),
+    STORAGE_TOPICS,
+    storage.blockNumber,
+    head.number,
+    batchSize,
+  );
+  const wallets = replayRegistrations(registrationLogs);
+  const topics = Object.entries(policy.topics).map(([name, topicPolicy]) => ({ name, topic: policyTopic(name), ...topicPolicy }));
+
+  const identities = [...new Set(wallets.values())];
+  const claimsByIdentity = new Map(
+    await identities.reduce<Promise<[string, TrackedClaim[]][]>>(async (previous, identity) => {
+      const logs = await fetchLogs(provider, identity, CLAIM_TOPICS, fromBlock, head.number, batchSize);
+      const claims = new Map<string, TrackedClaim>();
+      logs.forEach((log) => {
+        const parsed = identityInterface.parseLog(log);
+        if (parsed.name === 'ClaimRemoved') claims.delete(parsed.args.claimId);
+        else {
+          const { claimId, topic, issuer, signature } = parsed.args;
+          claims.set(claimId, { claimId, topic, issuer, signature, blockNumber: log.blockNumber });
+        }
+      });
+      return [...(await previous), [identity, [...claims.values()]]];
+    }, Promise.resolve([])),
+  );
+
+  const blocks = [...new Set([...claimsByIdentity.values()].flat().map((claim) => claim.blockNumber))];
+  const timestamps = new Map(await Promise.all(blocks.map(async (block) => [block, (await provider.getBlock(block)).timestamp] as const)));
+
+  const rows = await Promise.all(
+    [...wallets.entries()].flatMap(([wallet, identity]) =>
+      topics.map(async ({ name, topic, validityDays, onExpiry = 'report' }): Promise<ClaimExpiryRow[]> => {
+        const base = { wallet, identity, topic: topic.toString(), topicName: name, onExpiry };
+        const tracked = (claimsByIdentity.get(identity) ?? []).filter((claim) => claim.topic.eq(topic));
+        const held = await IIdentity__factory.connect(identity, provider)
+          .getClaimIdsByTopic(topic)
+          .catch(() => [] as string[]);
+        const untracked = await Promise.all(
+          held
+            .filter((claimId) => !tracked.some((claim) => claim.claimId === claimId))
+            .map((claimId) =>
+              IIdentity__factory.connect(identity, provider)
+                .getClaim(claimId)
+                .then((claim) => ({ claimId, ...claim })),
+            ),
+        );
+        if (tracked.length === 0 && untracked.length === 0) return [{ ...base, status: 'missing' }];
+        return [
+          ...tracked.map((claim): ClaimExpiryRow => {
+            const issuedAt = timestamps.get(claim.blockNumber) as number;
+            const expiresAt = issuedAt + validityDays * DAY;
+            const status = (expiresAt <= head.timestamp && 'expired') || (expiresAt <= head.timestamp + withinDays * DAY && 'expiring') || 'valid';
+            return { ...base, issuer: claim.issuer, claimId: claim.claimId, signature: claim.signature, issuedAt, expiresAt, status };
+          }),
+          ...untracked.map(
+            (claim): ClaimExpiryRow => ({ ...base, issuer: claim.issuer, claimId: claim.claimId, signature: claim.signature, status: 'unknown' }),
+          ),
+        ];
+      }),
+    ),
+  );
+  return { blockNumber: head.number, timestamp: head.timestamp, withinDays, rows: rows.flat() };
+}
+
+/** Claims that are expired or expire within the report window, soonest first. */
+export const expiringClaims = (report: ClaimExpiryReport): ClaimExpiryRow[] =>
+  report.rows
+    .filter((row) => row.status === 'expired' || row.status === 'expiring')
+    .sort((a, b) => (a.expiresAt as number) - (b.expiresAt as number));
+
+export function claimExpiryCsv(report: ClaimExpiryReport): string {
+  const date = (time?: number) => (time === undefined ? '' : new Date(time * 1000).toISOString());
+  const rows = report.rows.map((row) => [
+    row.wallet,
+    row.identity,
+    row.topicName,
+    row.topic,
+    row.status,
+    date(row.issuedAt),
+    date(row.expiresAt),
+    row.issuer ?? '',
+    row.claimId ?? '',
+    row.onExpiry,
+  ]);
+  return formatCsv(CLAIM_EXPIRY_HEADER, rows);
+}
+
+/**
+ * Applies the `onExpiry` action of the policy to the expired claims of `report`: revokes each expired `revoke` claim
+ * with the management key of its issuer, and freezes each wallet left without a current claim for a `freeze` topic.
+ * Already frozen wallets and already revoked claims are skipped. With `dryRun` every call is only simulated.
+ */
+export async function enforceClaimPolicy(report: ClaimExpiryReport, options: EnforcementOptions): Promise<EnforcementResult[]> {
+  const { token, issuerManagers = {}, dryRun = false, log = () => {} } = options;
+  const expired = report.rows.filter((row) => row.status === 'expired');
+  const current = (row: ClaimExpiryRow) =>
+    report.rows.some((other) => other.wallet === row.wallet && other.topic === row.topic && ['valid', 'expiring', 'unknown'].includes(other.status));
+  const freezes = expired
+    .filter((row) => row.onExpiry === 'freeze' && !current(row))
+    .filter((row, i, rows) => rows.findIndex((other) => other.wallet === row.wallet) === i);
+  const revocations = expired.filter((row) => row.onExpiry === 'revoke');
+  const managers = new Map(Object.entries(issuerManagers).map(([issuer, signer]) => [issuer.toLowerCase(), signer]));
+
+  const run = async (result: Omit<EnforcementResult, 'outcome'>, send: () => Promise<string | undefined>): Promise<EnforcementResult> => {
+    try {
+      const transactionHash = await send();
+      return { ...result, outcome: dryRun ? 'simulated' : 'sent', transactionHash };
+    } catch (error) {
+      return { ...result, outcome: 'failed', detail: (error as Error).message };
+    }
+  };
+
+  const steps = [
+    ...revocations.map((row) => async (): Promise<EnforcementResult> => {
+      const base = { action: 'revoke' as const, wallet: row.wallet, identity: row.identity, topicName: row.topicName, claimId: row.claimId };
+      const manager = managers.get((row.issuer as string).toLowerCase());
+      if (!manager) return { ...base, outcome: 'skipped', detail: `No management key of issuer ${row.issuer} configured` };
+      const issuer = ClaimIssuer__factory.connect(row.issuer as string, manager);
+      if (await issuer.isClaimRevoked(row.signature as string)) return { ...base, outcome: 'skipped', detail: 'Claim already revoked' };
+      return run(base, async () => (await runOperation(issuer, 'revokeClaim', [row.claimId, row.identity], { dryRun })).transactionHash);
+    }),
+    ...freezes.map((row) => async (): Promise<EnforcementResult> => {
+      const base = { action: 'freeze' as const, wallet: row.wallet, identity: row.identity, topicName: row.topicName };
+      if (await token.isFrozen(row.wallet)) return { ...base, outcome: 'skipped', detail: 'Wallet already frozen' };
+      return run(base, async () => (await runOperation(token, 'setAddressFrozen', [row.wallet, true], { dryRun })).transactionHash);
+    }),
+  ];
+  // one signer per contract: the calls are sent one after the other so nonces stay ordered
+  return steps.reduce<Promise<EnforcementResult[]>>(async (previous, step) => {
+    const results = await previous;
+    const result = await step();
+    log(`${result.action} ${result.wallet} (${result.topicName}): ${result.outcome}${result.detail ? `, ${result.detail}` : ''}`);
+    return [...results, result];
+  }, Promise.resolve([]));
+}
@@ -0,0 +1,196 @@
+/**
+ * Stand-in for a KYC vendor during integration tests: a small HTTP service that signs claims with a CLAIM key
+ * (purpose 3) of a `ClaimIssuer` contract and revokes them on-chain, so the onboarding loop that
+ * `IdentityRegistry.isVerified` depends on can run against a local Hardhat node.
+ *
+ * Routes (JSON bodies and responses):
+ * - `POST /claims` `{ identity, topic, data?, uri? }`: signs a claim, `201` with the claim record. `topic` is a number
+ *   or a string hashed with keccak256 (e.g. `"KYC_AML_VERIFIED"`), `data` raw hex or a plain string.
+ * - `GET /claims/:id`: the claim record with its current status (`valid`, `revoked` or `invalid`) as
+ *   `ClaimIssuer.isClaimValid` sees it, and whether the identity holds it.
+ * - `POST /claims/:id/revoke`: calls `revokeClaimBySignature` with a management key of the issuer.
+ *
+ * The claim id is `keccak256(signature)`. The service does not add claims to identities: the investor (or the test)
+ * does it with `submitClaim`, with a CLAIM key of the identity. Records are kept in memory, and in `storeFile` when
+ * given so a restarted service still knows the claims it issued.
+ *
+ * Usage:
+ *   const service = createClaimIssuerService({ issuer: claimIssuer.address, signingKey, manager, provider });
+ *   service.listen(3030);
+ *   // curl -X POST localhost:3030/claims -d '{"identity":"0x...","topic":"KYC_AML_VERIFIED"}'
+ */
+import fs from 'fs';
+import http from 'http';
+import { BigNumber, Signer, utils } from 'ethers';
+import { Provider } from '@ethersproject/providers';
+import { ClaimIssuer__factory, IIdentity__factory } from '../typechain-types';
+import { ClaimBuilder, SignedClaim, verifyClaim } from './claim-builder';
+
+export interface ClaimIssuerServiceOptions {
+  /** `ClaimIssuer` contract the claims are issued for. */
+  issuer: string;
+  /** CLAIM key (purpose 3) of the issuer, signs the claims. */
+  signingKey: Signer;
+  /** MANAGEMENT key (purpose 1) of the issuer, sends the revocations. */
+  manager: Signer;
+  provider: Provider;
+  /** JSON file the issued claims are kept in across restarts. */
+  storeFile?: string;
+}
+
+export interface IssuedClaim {
+  id: string;
+  identity: string;
+  issuer: string;
+  /** Decimal string. */
+  topic: string;
+  scheme: number;
+  data: string;
+  uri: string;
+  /** Id the claim is stored under on the identity. */
+  claimId: string;
+  signature: string;
+  issuedAt: string;
+  revokedAt?: string;
+  revocationTransaction?: string;
+}
+
+export type IssuedClaimStatus = 'valid' | 'revoked' | 'invalid';
+
+export interface ClaimStatusResponse extends IssuedClaim {
+  status: IssuedClaimStatus;
+  /** Failures reported by `verifyClaim` for an invalid claim. */
+  failures: string[];
+  /** The identity holds this claim (same issuer, topic and signature). */
+  onIdentity: boolean;
+}
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const CLAIM_ROUTE = /^\/claims\/(0x[0-9a-fA-F]{64})(\/revoke)?$/;
+
+const claimTopic = (topic: unknown) => {
+  if (typeof topic === 'number' || (typeof topic === 'string' && /^\d+$/.test(topic))) return BigNumber.from(topic);
+  if (typeof topic === 'string' && topic !== '') return BigNumber.from(utils.id(topic));
+  throw new HttpError(400, '"topic" must be a number or a non-empty string');
+};
+
+// ClaimBuilder.withData stores text UTF-8 encoded, and throws for 0x hex with an odd number of digits
+const claimData = (data: unknown) => {
+  const text = String(data);
+  if (utils.isHexString(text) && text.length % 2 !== 0) throw new HttpError(400, '"data" must be text or hex with an even number of digits');
+  return text;
+};
+
+const toSignedClaim = (record: IssuedClaim): SignedClaim => ({ ...record, topic: BigNumber.from(record.topic) });
+
+function readStore(file?: string): Map<string, IssuedClaim> {
+  if (!file || !fs.existsSync(file)) return new Map();
+  const records = JSON.parse(fs.readFileSync(file, 'utf8')) as IssuedClaim[];
+  return new Map(records.map((record) => [record.id, record]));
+}
+
+function writeStore(file: string | undefined, claims: Map<string, IssuedClaim>) {
+  if (!file) return;
+  fs.writeFileSync(`${file}.tmp`, `${JSON.stringify([...claims.values()], null, 2)}\n`);
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+async function readBody(request: http.IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  await new Promise<void>((resolve, reject) => {
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', resolve);
+    request.on('error', reject);
+  });
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (text === '') return {};
+  try {
+    const body = JSON.parse(text);
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) throw new Error('not an object');
+    return body;
+  } catch {
+    throw new HttpError(400, 'The request body must be a JSON object');
+  }
+}
+
+export function createClaimIssuerService(options: ClaimIssuerServiceOptions): http.Server {
+  const { issuer, signingKey, manager, provider, storeFile } = options;
+  const claims = readStore(storeFile);
+  const issuerContract = ClaimIssuer__factory.connect(issuer, manager);
+
+  const findClaim = (id: string) => {
+    const record = claims.get(id.toLowerCase());
+    if (!record) throw new HttpError(404, `No claim ${id} was issued by this service`);
+    return record;
+  };
+
+  async function issue(body: Record<string, unknown>): Promise<IssuedClaim> {
+    if (typeof body.identity !== 'string' || !utils.isAddress(body.identity)) throw new HttpError(400, '"identity" must be an address');
+    const builder = ClaimBuilder.create(utils.getAddress(body.identity), issuer, claimTopic(body.topic));
+    if (body.data !== undefined) builder.withData(claimData(body.data));
+    if (body.uri !== undefined) builder.withUri(String(body.uri));
+    const claim = await builder.sign(signingKey);
+    const record: IssuedClaim = { ...claim, id: utils.keccak256(claim.signature), topic: claim.topic.toString(), issuedAt: new Date().toISOString() };
+    claims.set(record.id, record);
+    writeStore(storeFile, claims);
+    return record;
+  }
+
+  async function status(record: IssuedClaim): Promise<ClaimStatusResponse> {
+    const claim = toSignedClaim(record);
+    const [check, held] = await Promise.all([
+      verifyClaim(claim, provider),
+      IIdentity__factory.connect(record.identity, provider)
+        .getClaim(record.claimId)
+        .then(
+          (onChain) => onChain.issuer.toLowerCase() === issuer.toLowerCase() && onChain.signature === record.signature,
+          () => false,
+        ),
+    ]);
+    const revoked = check.failures.some((failure) => failure.code === 'CLAIM_REVOKED');
+    return {
+      ...record,
+      status: (revoked && 'revoked') || (check.valid ? 'valid' : 'invalid'),
+      failures: check.failures.map((failure) => failure.message),
+      onIdentity: held,
+    };
+  }
+
+  async function revoke(record: IssuedClaim): Promise<ClaimStatusResponse> {
+    if (await issuerContract.isClaimRevoked(record.signature)) throw new HttpError(409, `Claim ${record.id} is already revoked`);
+    const receipt = await (await issuerContract.revokeClaimBySignature(record.signature)).wait();
+    const revoked = { ...record, revokedAt: new Date().toISOString(), revocationTransaction: receipt.transactionHash };
+    claims.set(record.id, revoked);
+    writeStore(storeFile, claims);
+    return status(revoked);
+  }
+
+  async function route(request: http.IncomingMessage): Promise<[number, unknown]> {
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+    if (pathname === '/claims' && request.method === 'POST') return [201, await issue(await readBody(request))];
+    const match = CLAIM_ROUTE.exec(pathname);
+    if (match && !match[2] && request.method === 'GET') return [200, await status(findClaim(match[1]))];
+    if (match && match[2] && request.method === 'POST') return [200, await revoke(findClaim(match[1]))];
+    throw new HttpError(404, `No route for ${request.method} ${pathname}`);
+  }
+
+  return http.createServer((request, response) => {
+    route(request)
+      .catch((error): [number, unknown] => {
+        if (error instanceof HttpError) return [error.status, { error: error.message }];
+        return [500, { error: (error as Error).message ?? String(error) }];
+      })
+      .then(([code, body]) => {
+        response.writeHead(code, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(body));
+      });
+  });
+}
@@ -0,0 +1,163 @@
+/**
+ * Rule manager of `ComposableCompliance`, the compliance that combines an ordered list of `ICompliance` rule
+ * contracts: a transfer is compliant when every rule accepts it, and the hooks are forwarded to every rule.
+ *
+ * Rules are given as addresses or as contract names of the deployment manifest. `planComplianceRules` diffs the rule
+ * list on-chain against the wanted one: rules to remove, rules to add at the end, then moves until the order matches.
+ * `applyComplianceRules` sends the changes one by one; before adding a rule that restricts its hooks with TOKEN_ROLE
+ * (such as `MaxHoldersCompliance` or `LockUpCompliance`), it grants the role to the aggregator when the signer can.
+ *
+ * `checkComplianceRules` evaluates `canTransfer` on each rule, so a rejected transfer names the rule that rejected it.
+ *
+ * Usage:
+ *   const compliance = ComposableCompliance__factory.connect(address, admin);
+ *   await setComplianceRules(compliance, ['CountryRestrictCompliance', 'MaxHoldersCompliance'], { manifest });
+ *   const { rejectedBy } = await checkComplianceRules(compliance, from, to, amount, manifest);
+ */
+import { BigNumberish, constants, utils } from 'ethers';
+import { BasicCompliance__factory, ComposableCompliance, ICompliance__factory } from '../typechain-types';
+import { OperationResult, runOperation } from './contract-operation';
+import { DeploymentManifest } from './deployment-manifest';
+
+export interface ComplianceRule {
+  /** Position in the rule list, from 0. */
+  position: number;
+  address: string;
+  /** Contract name in the manifest, when it is there. */
+  name?: string;
+}
+
+export type RuleChange = { method: 'removeRule' | 'addRule'; rule: string } | { method: 'moveRule'; rule: string; position: number };
+
+export interface AppliedRuleChange {
+  change: RuleChange;
+  result: OperationResult;
+}
+
+export interface RuleCheck extends ComplianceRule {
+  compliant: boolean;
+}
+
+export interface RuleCheckReport {
+  compliant: boolean;
+  rules: RuleCheck[];
+  /** First rule that rejects the transfer, the one `canTransfer` of the aggregator stops at. */
+  rejectedBy?: RuleCheck;
+}
+
+export interface ApplyComplianceRulesOptions {
+  /** Names the rules in the logs. */
+  manifest?: DeploymentManifest;
+  log?: (_message: string) => void;
+}
+
+export const COMPOSABLE_COMPLIANCE = 'ComposableCompliance';
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const ruleName = (address: string, manifest?: DeploymentManifest) =>
+  Object.entries(manifest?.contracts ?? {}).find(([, contract]) => sameAddress(contract.address, address))?.[0];
+
+export function resolveRule(rule: string, manifest?: DeploymentManifest): string {
+  if (utils.isAddress(rule)) return utils.getAddress(rule);
+  const address = manifest?.contracts[rule]?.address;
+  if (!address) throw new Error(`Unknown rule "${rule}", expected an address${manifest ? ` or a contract of the ${manifest.network} manifest` : ''}`);
+  return address;
+}
+
+export async function readComplianceRules(compliance: ComposableCompliance, manifest?: DeploymentManifest): Promise<ComplianceRule[]> {
+  const rules = await compliance.rules();
+  return rules.map((address, position) => ({ position, address, name: ruleName(address, manifest) }));
+}
+
+/** Changes that turn the `current` rule list into `target`: removals, additions at the end, then moves. */
+export function planComplianceRules(current: string[], target: string[]): RuleChange[] {
+  const duplicates = target.filter((rule, i) => target.findIndex((other) => sameAddress(other, rule)) !== i);
+  if (duplicates.length > 0) throw new Error(`Rules listed more than once: ${duplicates.join(', ')}`);
+  const includes = (list: string[], rule: string) => list.some((other) => sameAddress(other, rule));
+
+  const removals = current.filter((rule) => !includes(target, rule));
+  const additions = target.filter((rule) => !includes(current, rule));
+  let rules = [...current.filter((rule) => includes(target, rule)), ...additions];
+  const moves: RuleChange[] = [];
+  target.forEach((rule, position) => {
+    if (sameAddress(rules[position], rule)) return;
+    moves.push({ method: 'moveRule', rule, position });
+    rules = rules.filter((other) => !sameAddress(other, rule));
+    rules.splice(position, 0, rule);
+  });
+  return [
+    ...removals.map((rule): RuleChange => ({ method: 'removeRule', rule })),
+    ...additions.map((rule): RuleChange => ({ method: 'addRule', rule })),
+    ...moves,
+  ];
+}
+
+export function formatRuleChange(change: RuleChange, manifest?: DeploymentManifest): string {
+  const name = ruleName(change.rule, manifest);
+  const label = name ? `${name} (${change.rule})` : change.rule;
+  if (change.method === 'moveRule') return `~ ${label} to position ${change.position}`;
+  return `${change.method === 'addRule' ? '+' : '-'} ${label}`;
+}
+
+// Same TOKEN_ROLE constant as BasicCompliance; a rule without it, or that the signer cannot administer, is left as is
+async function grantTokenRole(compliance: ComposableCompliance, rule: string, log: (_message: string) => void) {
+  const ruleContract = BasicCompliance__factory.connect(rule, compliance.signer);
+  const tokenRole = await compliance.TOKEN_ROLE();
+  const [hasRole, canGrant] = await Promise.all([
+    ruleContract.hasRole(tokenRole, compliance.address).catch(() => true),
+    ruleContract.hasRole(constants.HashZero, await compliance.signer.getAddress()).catch(() => false),
+  ]);
+  if (!hasRole && canGrant) {
+    await (await ruleContract.grantRole(tokenRole, compliance.address)).wait();
+    log(`${COMPOSABLE_COMPLIANCE} granted TOKEN_ROLE on ${rule}`);
+  }
+}
+
+/** Sends `changes` in order with the signer of `compliance`, which needs ADMIN_ROLE on it. */
+export async function applyComplianceRules(
+  compliance: ComposableCompliance,
+  changes: RuleChange[],
+  options: ApplyComplianceRulesOptions = {},
+): Promise<AppliedRuleChange[]> {
+  const { manifest, log = () => {} } = options;
+  return changes.reduce<Promise<AppliedRuleChange[]>>(async (previous, change) => {
+    const applied = await previous;
+    if (change.method === 'addRule') await grantTokenRole(compliance, change.rule, log);
+    const args = change.method === 'moveRule' ? [change.rule, change.position] : [change.rule];
+    const result = await runOperation(compliance, change.method, args, { contracts: { [COMPOSABLE_COMPLIANCE]: compliance } });
+    log(formatRuleChange(change, manifest));
+    return [...applied, { change, result }];
+  }, Promise.resolve([]));
+}
+
+/** Makes the rule list of `compliance` equal to `rules`, given as addresses or manifest contract names. */
+export async function setComplianceRules(
+  compliance: ComposableCompliance,
+  rules: string[],
+  options: ApplyComplianceRulesOptions = {},
+): Promise<AppliedRuleChange[]> {
+  const target = rules.map((rule) => resolveRule(rule, options.manifest));
+  return applyComplianceRules(compliance, planComplianceRules(await compliance.rules(), target), options);
+}
+
+export async function checkComplianceRules(
+  compliance: ComposableCompliance,
+  from: string,
+  to: string,
+  amount: BigNumberish,
+  manifest?: DeploymentManifest,
+): Promise<RuleCheckReport> {
+  const rules = await Promise.all(
+    (
+      await readComplianceRules(compliance, manifest)
+    ).map(async (rule) => ({
+      ...rule,
+      compliant: await ICompliance__factory.connect(rule.address, compliance.provider)
+        .canTransfer(from, to, amount)
+        .catch(() => false),
+    })),
+  );
+  const rejectedBy = rules.find((rule) => !rule.compliant);
+  return { compliant: !rejectedBy, rules, rejectedBy };
+}
@@ -0,0 +1,122 @@
+/**
+ * Runs one state-changing contract call the way the `trex:*` Hardhat tasks do: always through `callStatic`
+ * first, so a call that would revert is reported with its reason and nothing is sent, then (unless `dryRun`)
+ * as a transaction whose receipt logs are decoded with the interfaces of every known suite contract.
+ *
+ * This module does not import `typechain-types` at runtime: the tasks load it from `hardhat.config.ts`, before
+ * the contracts (and their typings) are compiled.
+ *
+ * Usage:
+ *   const result = await runOperation(token, 'mint', [investor, 1000], { dryRun: false, contracts: { Token: token } });
+ *   result.events.forEach((event) => console.log(formatEvent(event)));
+ */
+import { BigNumber, Contract, ContractReceipt } from 'ethers';
+import { Log } from '@ethersproject/providers';
+import { extractRevertReason } from './revert-errors';
+
+export interface DecodedEvent {
+  /** Manifest name of the emitting contract, or its address when it is not a known contract. */
+  contract: string;
+  address: string;
+  logIndex: number;
+  /** Event name, `undefined` when no known interface matches the log. */
+  name?: string;
+  /** Named event arguments, amounts as decimal strings. */
+  args: Record<string, string>;
+}
+
+export interface OperationOptions {
+  dryRun?: boolean;
+  /** Contracts whose events are decoded from the receipt, by manifest name. */
+  contracts?: Record<string, Contract>;
+}
+
+export interface OperationResult {
+  contract: string;
+  method: string;
+  dryRun: boolean;
+  /** What `callStatic` returned, formatted like event arguments. */
+  returned?: string;
+  /** Estimated gas for a dry run, used gas otherwise. */
+  gas: BigNumber;
+  transactionHash?: string;
+  blockNumber?: number;
+  events: DecodedEvent[];
+}
+
+export function revertReason(error: unknown): string {
+  const err = error as { reason?: string; error?: { message?: string }; message?: string };
+  return extractRevertReason(error) ?? err.reason ?? err.error?.message ?? err.message ?? String(error);
+}
+
+const formatValue = (value: unknown): string => {
+  if (BigNumber.isBigNumber(value)) return value.toString();
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(', ')}]`;
+  return String(value);
+};
+
+const namedArgs = (args: ReadonlyArray<unknown> & Record<string, unknown>, inputs: { name: string }[]) =>
+  Object.fromEntries(inputs.map((input, i) => [input.name || `${i}`, formatValue(args[i])]));
+
+function decodeLog(log: Log, contracts: Record<string, Contract>): DecodedEvent {
+  const [name, contract] = Object.entries(contracts).find(([, candidate]) => candidate.address.toLowerCase() === log.address.toLowerCase()) ?? [];
+  const base = { contract: name ?? log.address, address: log.address, logIndex: log.logIndex };
+  try {
+    const parsed = contract?.interface.parseLog(log);
+    if (!parsed) return { ...base, args: {} };
+    return { ...base, name: parsed.name, args: namedArgs(parsed.args, parsed.eventFragment.inputs) };
+  } catch {
+    // the contract emitted an event its ABI does not declare (e.g. from a library)
+    return { ...base, args: {} };
+  }
+}
+
+/** Decodes every log of `receipt` with the interface of the contract that emitted it. */
+export function decodeReceiptEvents(receipt: ContractReceipt, contracts: Record<string, Contract>): DecodedEvent[] {
+  return receipt.logs.map((log) => decodeLog(log, contracts));
+}
+
+export function formatEvent(event: DecodedEvent): string {
+  const args = Object.entries(event.args)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(', ');
+  return event.name ? `${event.contract}.${event.name}(${args})` : `${event.contract}: undecoded log ${event.logIndex}`;
+}
+
+/**
+ * Calls `contract[method](...args)`. Throws with the revert reason when the static call reverts, or when the
+ * transaction reverts on-chain anyway.
+ */
+export async function runOperation(contract: Contract, method: string, args: unknown[], options: OperationOptions = {}): Promise<OperationResult> {
+  const { dryRun = false, contracts = {} } = options;
+  const contractName = Object.entries(contracts).find(([, candidate]) => candidate.address === contract.address)?.[0] ?? contract.address;
+  const label = `${contractName}.${method}`;
+
+  let returned: unknown;
+  let gas: BigNumber;
+  try {
+    returned = await contract.callStatic[method](...args);
+    gas = await contract.estimateGas[method](...args);
+  } catch (error) {
+    throw new Error(`${label} would revert: ${revertReason(error)}`);
+  }
+  // a function without return value resolves to an empty result
+  const hasReturnValue = returned !== undefined && !(Array.isArray(returned) && returned.length === 0);
+  const base = { contract: contractName, method, returned: hasReturnValue ? formatValue(returned) : undefined };
+  if (dryRun) return { ...base, dryRun, gas, events: [] };
+
+  let receipt: ContractReceipt;
+  try {
+    receipt = await (await contract[method](...args)).wait();
+  } catch (error) {
+    throw new Error(`${label} reverted: ${revertReason(error)}`);
+  }
+  return {
+    ...base,
+    dryRun,
+    gas: receipt.gasUsed,
+    transactionHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber,
+    events: decodeReceiptEvents(receipt, contracts),
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * Admin API of `CountryRestrictCompliance`, the compliance that rejects transfers and mints to wallets of blocked
+ * countries or, once its allowlist is not empty, of countries outside the allowlist.
+ *
+ * Countries are given as ISO 3166-1 codes or names and resolved with `countryCode`, so an unknown country fails
+ * before anything is sent. `updateCountryRestrictions` diffs the requested changes against the lists on-chain and
+ * sends one batch call per list that changes, through `runOperation` (`dryRun` only simulates them). Countries are
+ * blocked and allowed before others are unblocked and disallowed, so the restrictions never loosen midway.
+ *
+ * `attachCountryRestrictCompliance` deploys the compliance, fills its lists and makes it the compliance of a token.
+ *
+ * Usage:
+ *   const compliance = CountryRestrictCompliance__factory.connect(address, admin);
+ *   await updateCountryRestrictions(compliance, { block: ['IR', 'KP'], allow: ['FR', 'DEU'] });
+ *   console.log(formatCountryRestrictions(await readCountryRestrictions(compliance)));
+ */
+import { Signer, constants } from 'ethers';
+import { BasicCompliance__factory, CountryRestrictCompliance, CountryRestrictCompliance__factory, Token } from '../typechain-types';
+import { OperationResult, runOperation } from './contract-operation';
+import { countryCode, formatCountry } from './countries';
+import { DeploymentManifest, recordDeployment } from './deployment-manifest';
+
+export interface CountryRestrictions {
+  blocked: number[];
+  /** Empty when every country that is not blocked is allowed. */
+  allowed: number[];
+}
+
+export interface CountryRestrictionChanges {
+  block?: (string | number)[];
+  unblock?: (string | number)[];
+  allow?: (string | number)[];
+  disallow?: (string | number)[];
+}
+
+export type CountryListMethod = 'batchBlockCountries' | 'batchAllowCountries' | 'batchUnblockCountries' | 'batchDisallowCountries';
+
+export interface CountryRestrictionUpdate {
+  method: CountryListMethod;
+  countries: number[];
+  result: OperationResult;
+}
+
+export interface AttachCountryRestrictOptions {
+  blocked?: (string | number)[];
+  allowed?: (string | number)[];
+  /** Records the compliance as `CountryRestrictCompliance`. */
+  manifest?: DeploymentManifest;
+  log?: (_message: string) => void;
+}
+
+export const COUNTRY_RESTRICT_COMPLIANCE = 'CountryRestrictCompliance';
+
+export async function readCountryRestrictions(compliance: CountryRestrictCompliance): Promise<CountryRestrictions> {
+  const [blocked, allowed] = await Promise.all([compliance.blockedCountries(), compliance.allowedCountries()]);
+  return { blocked, allowed };
+}
+
+/** Mirrors `CountryRestrictCompliance.isCountryPermitted`. */
+export const isCountryPermitted = ({ blocked, allowed }: CountryRestrictions, country: number) =>
+  !blocked.includes(country) && (allowed.length === 0 || allowed.includes(country));
+
+export function formatCountryRestrictions({ blocked, allowed }: CountryRestrictions): string {
+  const list = (countries: number[]) => countries.map(formatCountry).join(', ');
+  return [
+    `Blocked: ${blocked.length > 0 ? list(blocked) : 'none'}`,
+    `Allowed: ${allowed.length > 0 ? list(allowed) : 'every country that is not blocked'}`,
+  ].join('\n');
+}
+
+const resolve = (codes: (string | number)[] = []) => [...new Set(codes.map(countryCode))];
+
+export async function updateCountryRestrictions(
+  compliance: CountryRestrictCompliance,
+  changes: CountryRestrictionChanges,
+  options: { dryRun?: boolean } = {},
+): Promise<CountryRestrictionUpdate[]> {
+  const [block, unblock, allow, disallow] = [changes.block, changes.unblock, changes.allow, changes.disallow].map(resolve);
+  const conflict = [...block.filter((country) => unblock.includes(country)), ...allow.filter((country) => disallow.includes(country))];
+  if (conflict.length > 0) throw new Error(`Countries both added to and removed from a list: ${conflict.map(formatCountry).join(', ')}`);
+
+  const current = await readCountryRestrictions(compliance);
+  const calls: [CountryListMethod, number[]][] = [
+    ['batchBlockCountries', block.filter((country) => !current.blocked.includes(country))],
+    ['batchAllowCountries', allow.filter((country) => !current.allowed.includes(country))],
+    ['batchUnblockCountries', unblock.filter((country) => current.blocked.includes(country))],
+    ['batchDisallowCountries', disallow.filter((country) => current.allowed.includes(country))],
+  ];
+  return calls
+    .filter(([, countries]) => countries.length > 0)
+    .reduce<Promise<CountryRestrictionUpdate[]>>(async (previous, [method, countries]) => {
+      const updates = await previous;
+      const result = await runOperation(compliance, method, [countries], {
+        dryRun: options.dryRun,
+        contracts: { [COUNTRY_RESTRICT_COMPLIANCE]: compliance },
+      });
+      return [...updates, { method, countries, result }];
+    }, Promise.resolve([]));
+}
+
+/**
+ * Deploys a `CountryRestrictCompliance` with the given lists and sets it as the compliance of `token`. `admin` must
+ * hold OWNER_ROLE on the token; when the current compliance only lets the token unbind itself with TOKEN_ROLE (as
+ * `BasicCompliance` does) and `admin` can grant it, the role is granted first. The token gets TOKEN_ROLE on the new
+ * compliance so that it can be replaced the same way.
+ */
+export async function attachCountryRestrictCompliance(
+  admin: Signer,
+  token: Token,
+  options: AttachCountryRestrictOptions = {},
+): Promise<CountryRestrictCompliance> {
+  const { manifest, log = () => {} } = options;
+  const compliance = await new CountryRestrictCompliance__factory(admin).deploy();
+  if (manifest) await recordDeployment(manifest, COUNTRY_RESTRICT_COMPLIANCE, compliance);
+  else await compliance.deployed();
+  log(`${COUNTRY_RESTRICT_COMPLIANCE} deployed to ${compliance.address}`);
+
+  const tokenRole = await compliance.TOKEN_ROLE();
+  await (await compliance.grantRole(tokenRole, token.address)).wait();
+  const updates = await updateCountryRestrictions(compliance, { block: options.blocked, allow: options.allowed });
+  updates.forEach(({ method, countries }) => log(`${method}(${countries.map(formatCountry).join(', ')})`));
+
+  // Same TOKEN_ROLE constant as BasicCompliance; a compliance without it is left as is
+  const previous = BasicCompliance__factory.connect(await token.compliance(), admin);
+  const [tokenHasRole, adminCanGrant] = await Promise.all([
+    previous.hasRole(tokenRole, token.address).catch(() => true),
+    previous.hasRole(constants.HashZero, await admin.getAddress()).catch(() => false),
+  ]);
+  if (!tokenHasRole && adminCanGrant) {
+    await (await previous.grantRole(tokenRole, token.address)).wait();
+    log(`Token granted TOKEN_ROLE on the previous compliance ${previous.address}`);
+  }
+  await (await token.connect(admin).setCompliance(compliance.address)).wait();
+  log(`Token compliance set to ${compliance.address}`);
+  return compliance;
+}
@@ -0,0 +1,68 @@
+/**
+ * Minimal CSV reading and writing for the operations files (investor lists, result files, cap table exports):
+ * comma-separated, a header line, fields quoted with `"` when they contain a comma, a quote or a line break.
+ */
+
+export interface CsvRecord {
+  /** 1-based line number in the file, the header being line 1 (rows with quoted line breaks count as one line). */
+  line: number;
+  values: Record<string, string>;
+}
+
+const quote = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/** Splits `text` into rows of fields, honouring quoted fields. */
+function splitRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i += 1;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+    i += 1;
+  }
+  if (quoted) throw new Error('Unterminated quoted field in CSV');
+  if (field !== '' || row.length > 0) rows.push([...row, field]);
+  return rows;
+}
+
+/** Parses a CSV with a header line. Blank lines are skipped; a row with another number of fields is an error. */
+export function parseCsv(text: string): { header: string[]; records: CsvRecord[] } {
+  const [header = [], ...rows] = splitRows(text);
+  const columns = header.map((column) => column.trim());
+  const records = rows
+    .map((fields, i) => ({ fields, line: i + 2 }))
+    .filter(({ fields }) => fields.some((field) => field.trim() !== ''))
+    .map(({ fields, line }) => {
+      if (fields.length !== columns.length) throw new Error(`Line ${line}: expected ${columns.length} fields, got ${fields.length}`);
+      return { line, values: Object.fromEntries(columns.map((column, j) => [column, fields[j].trim()])) };
+    });
+  return { header: columns, records };
+}
+
+export function formatCsv(header: string[], rows: string[][]): string {
+  return `${[header, ...rows].map((row) => row.map(quote).join(',')).join('\n')}\n`;
+}
@@ -0,0 +1,120 @@
+/**
+ * Deployment manifest: the addresses, transaction hashes and blocks of a deployed suite, stored as
+ * `deployments/<network>.json` so scripts can load them by network instead of hard-coding addresses.
+ *
+ * The manifest records the chain id it was written for. Loading it against a provider on another chain
+ * (e.g. a `localhost` node that was restarted with a different chain id, or a renamed network) fails instead
+ * of silently pointing scripts at unrelated contracts.
+ *
+ * Usage (deploy script):
+ *   const manifest = createManifest(network.name, chainId, deployer.address);
+ *   await recordDeployment(manifest, 'Token', token);
+ *   writeManifest(manifest);
+ *
+ * Usage (interaction script):
+ *   const manifest = await loadManifest(network.name, ethers.provider);
+ *   const token = Token__factory.connect(contractAddress(manifest, 'Token'), signer);
+ */
+import fs from 'fs';
+import path from 'path';
+import { Contract, ContractReceipt, ContractTransaction } from 'ethers';
+import { Provider } from '@ethersproject/providers';
+
+export const MANIFEST_VERSION = 1;
+
+export const DEFAULT_MANIFEST_DIR = 'deployments';
+
+export interface DeployedContract {
+  address: string;
+  /** Transaction that created the contract, or that emitted it for contracts deployed by a factory. */
+  transactionHash: string;
+  blockNumber: number;
+}
+
+export interface TokenDetails {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface DeploymentManifest {
+  version: number;
+  network: string;
+  chainId: number;
+  deployer: string;
+  /** Lowest block of the recorded contracts; indexers start scanning from here. */
+  deploymentBlock: number;
+  updatedAt: string;
+  /** Name, symbol and decimals the Token was deployed with, checked by `verifySuite`. */
+  token?: TokenDetails;
+  contracts: Record<string, DeployedContract>;
+}
+
+export const manifestPath = (network: string, dir = DEFAULT_MANIFEST_DIR) => path.join(dir, `${network}.json`);
+
+export function createManifest(network: string, chainId: number, deployer: string): DeploymentManifest {
+  return { version: MANIFEST_VERSION, network, chainId, deployer, deploymentBlock: 0, updatedAt: new Date().toISOString(), contracts: {} };
+}
+
+/** Adds (or replaces) a contract entry. `deploymentBlock` follows the lowest recorded block. */
+export function recordContract(manifest: DeploymentManifest, name: string, deployed: DeployedContract): DeploymentManifest {
+  manifest.contracts[name] = deployed;
+  const blocks = Object.values(manifest.contracts).map((contract) => contract.blockNumber);
+  manifest.deploymentBlock = Math.min(...blocks);
+  manifest.updatedAt = new Date().toISOString();
+  return manifest;
+}
+
+/** Records a contract deployed through a `ContractFactory`, waiting for its deployment receipt. */
+export async function recordDeployment(manifest: DeploymentManifest, name: string, contract: Contract): Promise<DeploymentManifest> {
+  const receipt = await contract.deployTransaction.wait();
+  return recordContract(manifest, name, { address: contract.address, transactionHash: receipt.transactionHash, blockNumber: receipt.blockNumber });
+}
+
+/** Records a contract created by another transaction (factory call, proxy deployment helper, ...). */
+export async function recordCreatedBy(
+  manifest: DeploymentManifest,
+  name: string,
+  address: string,
+  tx: ContractTransaction | ContractReceipt,
+): Promise<DeploymentManifest> {
+  const receipt = 'wait' in tx ? await tx.wait() : tx;
+  return recordContract(manifest, name, { address, transactionHash: receipt.transactionHash, blockNumber: receipt.blockNumber });
+}
+
+export function writeManifest(manifest: DeploymentManifest, dir = DEFAULT_MANIFEST_DIR): string {
+  const file = manifestPath(manifest.network, dir);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify(manifest, null, 2)}\n`);
+  return file;
+}
+
+export function readManifest(network: string, dir = DEFAULT_MANIFEST_DIR): DeploymentManifest {
+  const file = manifestPath(network, dir);
+  if (!fs.existsSync(file)) {
+    throw new Error(`No deployment manifest for network "${network}" (${file}), run the deploy script on this network first`);
+  }
+  const manifest = JSON.parse(fs.readFileSync(file, 'utf8')) as DeploymentManifest;
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new Error(`${file} has manifest version ${manifest.version}, expected ${MANIFEST_VERSION}`);
+  }
+  return manifest;
+}
+
+/** Reads the manifest of `network` and checks it was written for the chain `provider` is connected to. */
+export async function loadManifest(network: string, provider: Provider, dir = DEFAULT_MANIFEST_DIR): Promise<DeploymentManifest> {
+  const manifest = readManifest(network, dir);
+  const { chainId } = await provider.getNetwork();
+  if (manifest.chainId !== chainId) {
+    throw new Error(`Manifest for network "${network}" was written for chain ${manifest.chainId}, but the provider is on chain ${chainId}`);
+  }
+  return manifest;
+}
+
+export function contractAddress(manifest: DeploymentManifest, name: string): string {
+  const contract = manifest.contracts[name];
+  if (!contract) {
+    throw new Error(`Contract "${name}" is not in the ${manifest.network} manifest (has: ${Object.keys(manifest.contracts).join(', ')})`);
+  }
+  return contract.address;
+}
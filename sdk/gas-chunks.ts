@@ -0,0 +1,27 @@
+/**
+ * Splitting of batch calls (`batchRegisterIdentity`, `batchMint`, ...) into transactions that stay under a gas
+ * bound, used by the bulk operations.
+ */
+import { BigNumber } from 'ethers';
+import { revertReason } from './contract-operation';
+
+export type ChunkFit<T> = { chunk: T[]; gas: BigNumber } | { chunk: T[]; error: string };
+
+/**
+ * Largest chunk at the head of `queue`, of at most `size` items, whose estimated gas is at most `maxGas`.
+ * When the estimate reverts the chunk is halved until the first reverting item is isolated; it is then
+ * returned alone with the revert reason.
+ */
+export async function fitChunk<T>(queue: T[], size: number, maxGas: number, estimate: (_chunk: T[]) => Promise<BigNumber>): Promise<ChunkFit<T>> {
+  const chunk = queue.slice(0, size);
+  let gas: BigNumber;
+  try {
+    gas = await estimate(chunk);
+  } catch (error) {
+    if (size === 1) return { chunk, error: revertReason(error) };
+    return fitChunk(queue, Math.ceil(size / 2), maxGas, estimate);
+  }
+  if (gas.lte(maxGas)) return { chunk, gas };
+  if (size === 1) throw new Error(`Gas bound ${maxGas} is lower than the ${gas} gas of a single item`);
+  return fitChunk(queue, Math.max(1, Math.min(size - 1, Math.floor((size * maxGas) / gas.toNumber()))), maxGas, estimate);
+}
@@ -0,0 +1,102 @@
+/**
+ * Reader for `MaxHoldersCompliance`, the compliance that caps the number of wallets holding a token, overall and
+ * per country.
+ *
+ * `readHolderCounts` returns the holder count and limit, and the count and limit of every country with a limit plus
+ * the countries asked for. `reconcileHolderCounts` reads the counts at the block of a cap table snapshot and compares
+ * them with the holders of the snapshot, the wallets with a non-zero balance replayed from the events. The compliance
+ * counts a holder in the country it had when it became a holder, so a country updated since then shows up as a
+ * difference even though the total matches.
+ *
+ * Usage:
+ *   const compliance = MaxHoldersCompliance__factory.connect(address, provider);
+ *   console.log(formatHolderCounts(await readHolderCounts(compliance, { countries: ['FR'] })));
+ *   const { reconciled, differences } = await reconcileHolderCounts(compliance, await takeCapTableSnapshot(provider, options));
+ */
+import { MaxHoldersCompliance } from '../typechain-types';
+import { CapTableSnapshot } from './cap-table-snapshot';
+import { countryCode, formatCountry } from './countries';
+
+export interface CountryHolderCount {
+  country: number;
+  holders: number;
+  /** 0 when the country has no limit. */
+  limit: number;
+}
+
+export interface HolderCounts {
+  holders: number;
+  /** 0 when the number of holders is not limited. */
+  limit: number;
+  /** Sorted by country code. */
+  countries: CountryHolderCount[];
+}
+
+export interface HolderCountDifference {
+  /** `null` for the total number of holders. */
+  country: number | null;
+  compliance: number;
+  capTable: number;
+}
+
+export interface HolderCountReconciliation {
+  blockNumber: number;
+  counts: HolderCounts;
+  differences: HolderCountDifference[];
+  reconciled: boolean;
+}
+
+export async function readHolderCounts(
+  compliance: MaxHoldersCompliance,
+  options: { countries?: (string | number)[]; blockTag?: number } = {},
+): Promise<HolderCounts> {
+  const overrides = { blockTag: options.blockTag };
+  const [holders, limit, limited] = await Promise.all([
+    compliance.holderCount(overrides),
+    compliance.holderLimit(overrides),
+    compliance.limitedCountries(overrides),
+  ]);
+  // Numbers are taken as stored on-chain, which is not always an ISO 3166-1 code
+  const requested = (options.countries ?? []).map((country) => (typeof country === 'number' ? country : countryCode(country)));
+  const codes = [...new Set([...limited, ...requested])].sort((a, b) => a - b);
+  const countries = await Promise.all(
+    codes.map(async (country) => {
+      const [count, countryLimit] = await Promise.all([
+        compliance.countryHolderCount(country, overrides),
+        compliance.countryHolderLimit(country, overrides),
+      ]);
+      return { country, holders: count.toNumber(), limit: countryLimit.toNumber() };
+    }),
+  );
+  return { holders: holders.toNumber(), limit: limit.toNumber(), countries };
+}
+
+export function formatHolderCounts({ holders, limit, countries }: HolderCounts): string {
+  const line = (count: number, max: number) => `${count}${max > 0 ? ` / ${max}` : ' (no limit)'}`;
+  const countryLines = countries.map((country) => `  ${formatCountry(country.country)}: ${line(country.holders, country.limit)}`);
+  return [`Holders: ${line(holders, limit)}`, ...countryLines].join('\n');
+}
+
+/**
+ * Compares the counts of `compliance` at the snapshot block with the holders of `snapshot`, in total and for every
+ * country with a limit or with holders in either of them. The compliance must have been bound to the token for its whole
+ * history, or synced with `syncHolders`, for the counts to match.
+ */
+export async function reconcileHolderCounts(compliance: MaxHoldersCompliance, snapshot: CapTableSnapshot): Promise<HolderCountReconciliation> {
+  const holders = snapshot.holders.filter((holder) => holder.balance.gt(0));
+  const capTable = new Map<number, number>();
+  holders.forEach(({ country }) => {
+    if (country !== null) capTable.set(country, (capTable.get(country) ?? 0) + 1);
+  });
+
+  // The countries the compliance counts the same holders in, which differ from the snapshot after a country update
+  const blockTag = snapshot.blockNumber;
+  const counted = await Promise.all(holders.map((holder) => compliance.holderCountry(holder.wallet, { blockTag })));
+  const countries = [...capTable.keys(), ...counted.filter((country) => country !== 0)];
+  const counts = await readHolderCounts(compliance, { countries, blockTag });
+  const differences: HolderCountDifference[] = [
+    { country: null, compliance: counts.holders, capTable: holders.length },
+    ...counts.countries.map(({ country, holders: count }) => ({ country, compliance: count, capTable: capTable.get(country) ?? 0 })),
+  ].filter((difference) => difference.compliance !== difference.capTable);
+  return { blockNumber: snapshot.blockNumber, counts, differences, reconciled: differences.length === 0 };
+}
@@ -0,0 +1,28 @@
+export * from './batch-simulation';
+export * from './bulk-issuance';
+export * from './cap-table-indexer';
+export * from './cap-table-snapshot';
+export * from './cap-table-store';
+export * from './claim-builder';
+export * from './claim-expiry';
+export * from './claim-issuer-service';
+export * from './compliance-rules';
+export * from './contract-operation';
+export * from './countries';
+export * from './country-restrictions';
+export * from './csv';
+export * from './deployment-manifest';
+export * from './gas-chunks';
+export * from './holder-limits';
+export * from './investor-onboarding';
+export * from './lock-ups';
+export * from './revert-catalog';
+export * from './revert-errors';
+export * from './role-config';
+export * from './role-inventory';
+export * from './suite-verifier';
+export * from './token-client';
+export * from './transfer-explainer';
+export * from './verification';
+export * from './wallet-recovery';
+export * from './suite-deployment';
@@ -0,0 +1,282 @@
+/**
+ * Bulk investor onboarding from a CSV of `wallet,country[,identity]`. The country is an ISO 3166-1 numeric, alpha-2
+ * or alpha-3 code or a country name (see `countries.ts`).
+ *
+ * 1. Wallets the registry already `contains()` are skipped and reported as `already-registered`.
+ * 2. Investors without an ONCHAINID get an `IdentityProxy` whose management key is their wallet. The proxy address
+ *    and deployment hash are recorded as `identity-submitted` before waiting for the receipt.
+ * 3. Everyone left is registered through `IdentityRegistry.batchRegisterIdentity` in chunks whose estimated gas
+ *    stays under `maxChunkGas`. A chunk that would revert is split until the offending row is isolated and
+ *    reported as `failed`; the other rows are still registered.
+ *
+ * The result file (one row per investor: identity, status, transaction hash, error) is rewritten after every
+ * deployment and every chunk. Running the onboarding again with the same result file resumes: registered rows
+ * are kept, deployed identities are reused and failed rows are retried. A deployment is only dropped when its
+ * mined receipt has status 0 or it was replaced; when waiting fails for another reason (a timeout, a lost
+ * connection) the row stays `identity-submitted` and the next run settles it from its receipt instead of
+ * deploying a second identity. Registrations mined before a crash was recorded are caught by the `contains()`
+ * check, so no wallet is registered twice.
+ *
+ * Usage:
+ *   const investors = parseInvestorCsv(fs.readFileSync('investors.csv', 'utf8'));
+ *   await onboardInvestors(identityRegistry.connect(agent), investors, { identityImplementationAuthority, resultFile });
+ */
+import fs from 'fs';
+import { providers, utils } from 'ethers';
+import { IdentityProxy__factory, IdentityRegistry } from '../typechain-types';
+import { revertReason } from './contract-operation';
+import { findCountry } from './countries';
+import { formatCsv, parseCsv } from './csv';
+import { fitChunk } from './gas-chunks';
+
+export interface InvestorRow {
+  /** Line of the investor in the CSV, for error reporting. */
+  line: number;
+  wallet: string;
+  country: number;
+  /** Existing ONCHAINID; one is deployed when missing. */
+  identity?: string;
+}
+
+export type OnboardingStatus = 'pending' | 'identity-submitted' | 'identity-deployed' | 'registered' | 'already-registered' | 'failed';
+
+export interface OnboardingResult {
+  line: number;
+  wallet: string;
+  country: number;
+  /** Empty until the identity is known. */
+  identity: string;
+  status: OnboardingStatus;
+  /** Transaction that deployed the identity or registered the wallet, whichever came last. */
+  transactionHash: string;
+  error: string;
+}
+
+export interface OnboardingOptions {
+  identityImplementationAuthority: string;
+  /** CSV file the per-row results are written to, and read back from to resume. */
+  resultFile: string;
+  /** Upper bound for the estimated gas of one `batchRegisterIdentity` transaction. */
+  maxChunkGas?: number;
+  /** Upper bound for the number of wallets in one `batchRegisterIdentity` transaction. */
+  maxChunkSize?: number;
+  log?: (_message: string) => void;
+}
+
+export const ONBOARDING_RESULT_HEADER = ['line', 'wallet', 'country', 'identity', 'status', 'transactionHash', 'error'];
+
+const DEFAULT_MAX_CHUNK_GAS = 5_000_000;
+const DEFAULT_MAX_CHUNK_SIZE = 100;
+
+const DONE: OnboardingStatus[] = ['registered', 'already-registered'];
+
+function parseCountry(value: string, line: number): number {
+  const country = findCountry(value);
+  if (!country) throw new Error(`Line ${line}: invalid country code "${value}"`);
+  return country.numeric;
+}
+
+function parseAddress(value: string, line: number, column: string): string {
+  if (!utils.isAddress(value)) throw new Error(`Line ${line}: invalid ${column} "${value}"`);
+  return utils.getAddress(value);
+}
+
+/** Reads `wallet,country[,identity]` rows. Invalid addresses, countries or duplicate wallets are errors. */
+export function parseInvestorCsv(text: string): InvestorRow[] {
+  const { header, records } = parseCsv(text);
+  const missing = ['wallet', 'country'].filter((column) => !header.includes(column));
+  if (missing.length > 0) throw new Error(`Investor CSV is missing the ${missing.join(', ')} column(s)`);
+
+  const seen = new Map<string, number>();
+  return records.map(({ line, values }) => {
+    const wallet = parseAddress(values.wallet, line, 'wallet');
+    if (seen.has(wallet)) throw new Error(`Line ${line}: wallet ${wallet} already listed on line ${seen.get(wallet)}`);
+    seen.set(wallet, line);
+    return {
+      line,
+      wallet,
+      country: parseCountry(values.country, line),
+      identity: values.identity ? parseAddress(values.identity, line, 'identity') : undefined,
+    };
+  });
+}
+
+/** Previous results by wallet, empty when the file does not exist yet. */
+export function readOnboardingResults(file: string): Map<string, OnboardingResult> {
+  if (!fs.existsSync(file)) return new Map();
+  const { records } = parseCsv(fs.readFileSync(file, 'utf8'));
+  return new Map(
+    records.map(({ values }) => [
+      values.wallet,
+      {
+        line: Number(values.line),
+        wallet: values.wallet,
+        country: Number(values.country),
+        identity: values.identity,
+        status: values.status as OnboardingStatus,
+        transactionHash: values.transactionHash,
+        error: values.error,
+      },
+    ]),
+  );
+}
+
+export function writeOnboardingResults(file: string, results: OnboardingResult[]) {
+  const rows = results.map((result) => [
+    result.line.toString(),
+    result.wallet,
+    result.country.toString(),
+    result.identity,
+    result.status,
+    result.transactionHash,
+    result.error,
+  ]);
+  // written next to the target and renamed, so a crash never leaves a truncated result file
+  fs.writeFileSync(`${file}.tmp`, formatCsv(ONBOARDING_RESULT_HEADER, rows));
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+function initialResult(investor: InvestorRow, previous?: OnboardingResult): OnboardingResult {
+  if (previous && DONE.includes(previous.status)) return previous;
+  if (previous?.status === 'identity-submitted') return { ...previous, line: investor.line, country: investor.country };
+  return {
+    line: investor.line,
+    wallet: investor.wallet,
+    country: investor.country,
+    identity: investor.identity ?? previous?.identity ?? '',
+    status: 'pending',
+    transactionHash: previous?.transactionHash ?? '',
+    error: '',
+  };
+}
+
+type DeploymentOutcome = Pick<OnboardingResult, 'identity' | 'status' | 'transactionHash' | 'error'>;
+
+/**
+ * Waits for the deployment of `identity`. It is `failed`, and the identity dropped, only when a mined receipt has
+ * status 0 or a replacement cancelled it. Any other error leaves it `identity-submitted`.
+ */
+async function waitForDeployment(identity: string, transaction: providers.TransactionResponse): Promise<DeploymentOutcome> {
+  try {
+    const receipt = await transaction.wait();
+    return { identity, status: 'identity-deployed', transactionHash: receipt.transactionHash, error: '' };
+  } catch (error) {
+    const { code, cancelled, receipt } = error as { code?: string; cancelled?: boolean; receipt?: providers.TransactionReceipt };
+    if (code === utils.Logger.errors.TRANSACTION_REPLACED && cancelled) {
+      return { identity: '', status: 'failed', transactionHash: transaction.hash, error: 'Identity deployment was replaced before it was mined' };
+    }
+    if (receipt?.status === 1) return { identity, status: 'identity-deployed', transactionHash: receipt.transactionHash, error: '' };
+    if (receipt)
+      return {
+        identity: '',
+        status: 'failed',
+        transactionHash: receipt.transactionHash,
+        error: `Identity deployment failed: ${revertReason(error)}`,
+      };
+    return { identity, status: 'identity-submitted', transactionHash: transaction.hash, error: revertReason(error) };
+  }
+}
+
+async function settleDeployment(provider: providers.Provider, result: OnboardingResult): Promise<DeploymentOutcome> {
+  const receipt = await provider.getTransactionReceipt(result.transactionHash);
+  if (receipt) {
+    const status = receipt.status === 1 ? 'identity-deployed' : 'failed';
+    return { identity: status === 'failed' ? '' : result.identity, status, transactionHash: result.transactionHash, error: '' };
+  }
+  const transaction = await provider.getTransaction(result.transactionHash);
+  if (!transaction) return { identity: '', status: 'failed', transactionHash: result.transactionHash, error: '' };
+  return waitForDeployment(result.identity, transaction);
+}
+
+/**
+ * Settles `identity-submitted` rows from the receipt of their deployment, waiting for it when it is still pending.
+ * Reverted or dropped deployments go back to `pending`; deployments that still cannot be settled stay submitted.
+ */
+async function settleSubmitted(provider: providers.Provider, results: OnboardingResult[], log: (_message: string) => void) {
+  const submitted = results.filter((result) => result.status === 'identity-submitted');
+  const outcomes = await Promise.all(submitted.map((result) => settleDeployment(provider, result)));
+  submitted.forEach((result, i) => {
+    const outcome = outcomes[i];
+    if (outcome.status === 'identity-submitted')
+      log(`Line ${result.line}: deployment ${result.transactionHash} is not settled yet: ${outcome.error}`);
+    Object.assign(result, outcome.status === 'failed' ? { identity: '', status: 'pending', transactionHash: '', error: '' } : outcome);
+  });
+}
+
+const batchArgs = (chunk: OnboardingResult[]) =>
+  [chunk.map((result) => result.wallet), chunk.map((result) => result.identity), chunk.map((result) => result.country)] as const;
+
+export async function onboardInvestors(
+  registry: IdentityRegistry,
+  investors: InvestorRow[],
+  options: OnboardingOptions,
+): Promise<OnboardingResult[]> {
+  const {
+    identityImplementationAuthority,
+    resultFile,
+    maxChunkGas = DEFAULT_MAX_CHUNK_GAS,
+    maxChunkSize = DEFAULT_MAX_CHUNK_SIZE,
+    log = () => {},
+  } = options;
+  const previous = readOnboardingResults(resultFile);
+  const results = investors.map((investor) => initialResult(investor, previous.get(investor.wallet)));
+  const save = () => writeOnboardingResults(resultFile, results);
+  const remaining = () => results.filter((result) => !DONE.includes(result.status) && !['failed', 'identity-submitted'].includes(result.status));
+
+  await settleSubmitted(registry.provider, results, log);
+
+  await Promise.all(
+    remaining().map(async (result) => {
+      if (!(await registry.contains(result.wallet))) return;
+      result.identity = await registry.identity(result.wallet);
+      result.status = 'already-registered';
+    }),
+  );
+  save();
+
+  // Deployments are sent one after the other so the signer nonces stay ordered
+  const factory = new IdentityProxy__factory(registry.signer);
+  await remaining()
+    .filter((result) => !result.identity)
+    .reduce<Promise<void>>(
+      (previousDeployment, result) =>
+        previousDeployment.then(async () => {
+          const proxy = await factory.deploy(identityImplementationAuthority, result.wallet).catch((error) => {
+            Object.assign(result, { status: 'failed', error: `Identity deployment failed: ${revertReason(error)}` });
+          });
+          if (proxy) {
+            Object.assign(result, { identity: proxy.address, status: 'identity-submitted', transactionHash: proxy.deployTransaction.hash });
+            save();
+            const outcome = await waitForDeployment(proxy.address, proxy.deployTransaction);
+            Object.assign(result, outcome);
+            if (outcome.status === 'identity-deployed') log(`Line ${result.line}: identity ${proxy.address} deployed for ${result.wallet}`);
+            else log(`Line ${result.line}: deployment ${outcome.transactionHash} is ${outcome.status}: ${outcome.error}`);
+          }
+          save();
+        }),
+      Promise.resolve(),
+    );
+
+  const queue = remaining();
+  while (queue.length > 0) {
+    const fit = await fitChunk(queue, Math.min(maxChunkSize, queue.length), maxChunkGas, (chunk) =>
+      registry.estimateGas.batchRegisterIdentity(...batchArgs(chunk)),
+    );
+    queue.splice(0, fit.chunk.length);
+    if ('error' in fit) {
+      Object.assign(fit.chunk[0], { status: 'failed', error: fit.error });
+      log(`Line ${fit.chunk[0].line}: ${fit.error}`);
+    } else {
+      try {
+        const receipt = await (await registry.batchRegisterIdentity(...batchArgs(fit.chunk))).wait();
+        fit.chunk.forEach((result) => Object.assign(result, { status: 'registered', transactionHash: receipt.transactionHash, error: '' }));
+        log(`Registered ${fit.chunk.length} wallets in ${receipt.transactionHash} (${receipt.gasUsed} gas)`);
+      } catch (error) {
+        fit.chunk.forEach((result) => Object.assign(result, { status: 'failed', error: revertReason(error) }));
+      }
+    }
+    save();
+  }
+
+  return results;
+}
@@ -0,0 +1,82 @@
+/**
+ * Reader for `LockUpCompliance`, the compliance that keeps minted and received tokens non-transferable for a lock-up
+ * period. Each acquisition is recorded as a lot; a lot unlocks once the lock-up period has passed since it was
+ * acquired, and tokens held before the compliance was bound are never locked.
+ *
+ * `readLockUps` returns, for each wallet, its balance split into locked and unlocked amounts along with its lots and
+ * the time its next lot unlocks, all read at the same block. The wallets usually come from a cap table snapshot.
+ *
+ * Usage:
+ *   const compliance = LockUpCompliance__factory.connect(address, provider);
+ *   const snapshot = await takeCapTableSnapshot(provider, options);
+ *   console.log(formatLockUps(await readLockUps(compliance, snapshot.holders.map((holder) => holder.wallet))));
+ */
+import { BigNumber } from 'ethers';
+import { LockUpCompliance } from '../typechain-types';
+
+export interface LockUpLot {
+  amount: BigNumber;
+  /** Unix seconds. */
+  acquiredAt: number;
+  /** Unix seconds, `acquiredAt + lockUpPeriod`. */
+  unlocksAt: number;
+  locked: boolean;
+}
+
+export interface WalletLockUp {
+  wallet: string;
+  balance: BigNumber;
+  locked: BigNumber;
+  unlocked: BigNumber;
+  /** Lots not spent yet, oldest first. */
+  lots: LockUpLot[];
+  /** Unix seconds at which the next locked lot unlocks, `null` when nothing is locked. */
+  nextUnlockAt: number | null;
+}
+
+export interface LockUps {
+  blockNumber: number;
+  timestamp: number;
+  /** Seconds. */
+  lockUpPeriod: number;
+  wallets: WalletLockUp[];
+}
+
+export async function readLockUps(compliance: LockUpCompliance, wallets: string[], options: { blockTag?: number } = {}): Promise<LockUps> {
+  const block = await compliance.provider.getBlock(options.blockTag ?? 'latest');
+  const blockTag = block.number;
+  const lockUpPeriod = (await compliance.lockUpPeriod({ blockTag })).toNumber();
+
+  const lockUps = await Promise.all(
+    wallets.map(async (wallet) => {
+      const [locked, unlocked, lots] = await Promise.all([
+        compliance.lockedBalanceOf(wallet, { blockTag }),
+        compliance.unlockedBalanceOf(wallet, { blockTag }),
+        compliance.lotsOf(wallet, { blockTag }),
+      ]);
+      const walletLots = lots.map(({ amount, acquiredAt }) => {
+        const unlocksAt = acquiredAt.toNumber() + lockUpPeriod;
+        return { amount, acquiredAt: acquiredAt.toNumber(), unlocksAt, locked: unlocksAt > block.timestamp };
+      });
+      const nextLocked = walletLots.find((lot) => lot.locked);
+      return {
+        wallet,
+        balance: locked.add(unlocked),
+        locked,
+        unlocked,
+        lots: walletLots,
+        nextUnlockAt: nextLocked ? nextLocked.unlocksAt : null,
+      };
+    }),
+  );
+  return { blockNumber: blockTag, timestamp: block.timestamp, lockUpPeriod, wallets: lockUps };
+}
+
+/** One line per wallet, amounts in token base units and unlock times as ISO 8601 dates. */
+export function formatLockUps({ blockNumber, lockUpPeriod, wallets }: LockUps): string {
+  const lines = wallets.map(({ wallet, locked, unlocked, nextUnlockAt }) => {
+    const next = nextUnlockAt === null ? '' : `, next unlock ${new Date(nextUnlockAt * 1000).toISOString()}`;
+    return `${wallet}: ${unlocked} unlocked, ${locked} locked${next}`;
+  });
+  return [`Lock-up period ${lockUpPeriod}s, at block ${blockNumber}`, ...lines].join('\n');
+}
@@ -0,0 +1,96 @@
+/**
+ * Builds `sdk/revert-catalog.ts` from the Solidity sources: every string a `require` or `revert` of contracts/
+ * can fail with, and every `*_ROLE` constant, so that `decodeRevert` knows all of them. The test contracts in
+ * `_testContracts` directories are left out.
+ *
+ * Not exported from `sdk/index.ts`: it reads the sources and formats with prettier, it is only used by
+ * scripts/generate-revert-catalog.ts and by the test that checks the catalog is in sync with contracts/.
+ */
+import fs from 'fs';
+import path from 'path';
+import prettier from 'prettier';
+
+export interface RevertCatalogEntry {
+  reason: string;
+  code: string;
+  /** Contracts (file names without `.sol`) whose sources contain the reason. */
+  contracts: string[];
+}
+
+export interface RevertCatalog {
+  reasons: RevertCatalogEntry[];
+  /** `*_ROLE` constants by hash. */
+  roles: Record<string, string>;
+}
+
+export const CATALOG_FILE = path.join('sdk', 'revert-catalog.ts');
+
+const EXCLUDED_DIRECTORIES = ['_testContracts'];
+
+function solidityFiles(dir: string): string[] {
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => !EXCLUDED_DIRECTORIES.includes(entry.name))
+    .flatMap((entry) => {
+      const file = path.join(dir, entry.name);
+      if (entry.isDirectory()) return solidityFiles(file);
+      return entry.name.endsWith('.sol') ? [file] : [];
+    })
+    .sort();
+}
+
+const withoutComments = (source: string) => source.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+
+/** `ERC-3643: Issuer doesn't exist` -> `ISSUER_DOESNT_EXIST`. The ERC-3643 prefix is dropped, nothing else. */
+export const revertCode = (reason: string) =>
+  reason
+    .replace(/^ERC-?3643:\s*/, '')
+    .replace(/'/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+
+export function collectRevertCatalog(contractsDir = 'contracts'): RevertCatalog {
+  const reasons = new Map<string, Set<string>>();
+  const roles: Record<string, string> = {};
+  solidityFiles(contractsDir).forEach((file) => {
+    const source = withoutComments(fs.readFileSync(file, 'utf8'));
+    const contract = path.basename(file, '.sol');
+    // the reason is the last string literal of the call: `require(cond, "reason")`, `revert("reason")`
+    [...source.matchAll(/\b(?:require|revert)\s*\(([^;]*?)\)\s*;/g)].forEach(([, args]) => {
+      const literals = [...args.matchAll(/"((?:[^"\\]|\\.)*)"/g)];
+      if (literals.length === 0) return;
+      const reason = literals[literals.length - 1][1];
+      reasons.set(reason, (reasons.get(reason) ?? new Set()).add(contract));
+    });
+    [...source.matchAll(/bytes32\s+public\s+constant\s+(\w+_ROLE)\s*=\s*(0x[0-9a-fA-F]{64})\s*;/g)].forEach(([, name, hash]) => {
+      roles[hash.toLowerCase()] = name;
+    });
+  });
+
+  const entries = [...reasons.entries()]
+    .map(([reason, contracts]) => ({ reason, code: revertCode(reason), contracts: [...contracts].sort() }))
+    .sort((a, b) => a.code.localeCompare(b.code));
+  entries.forEach((entry, i) => {
+    if (i > 0 && entries[i - 1].code === entry.code) {
+      throw new Error(`Revert reasons "${entries[i - 1].reason}" and "${entry.reason}" map to the same code ${entry.code}`);
+    }
+  });
+  return { reasons: entries, roles: Object.fromEntries(Object.entries(roles).sort(([a], [b]) => a.localeCompare(b))) };
+}
+
+export function renderRevertCatalog(catalog: RevertCatalog): string {
+  const source = `/**
+ * Revert reasons and roles of the contracts in contracts/, generated by scripts/generate-revert-catalog.ts.
+ * Do not edit: run \`npm run generate:revert-catalog\` after changing a revert string or a role.
+ */
+
+export const REVERT_CATALOG = ${JSON.stringify(catalog.reasons)} as const;
+
+export type CatalogRevertCode = (typeof REVERT_CATALOG)[number]['code'];
+
+/** \`*_ROLE\` constants by hash. */
+export const CONTRACT_ROLES: Record<string, string> = ${JSON.stringify(catalog.roles)};
+`;
+  return prettier.format(source, { ...prettier.resolveConfig.sync(CATALOG_FILE), parser: 'typescript' });
+}
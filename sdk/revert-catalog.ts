@@ -0,0 +1,119 @@
+/**
+ * Revert reasons and roles of the contracts in contracts/, generated by scripts/generate-revert-catalog.ts.
+ * Do not edit: run `npm run generate:revert-catalog` after changing a revert string or a role.
+ */
+
+export const REVERT_CATALOG = [
+  { reason: 'ERC-3643: Address not stored', code: 'ADDRESS_NOT_STORED', contracts: ['IdentityRegistryStorage'] },
+  { reason: 'already a factory', code: 'ALREADY_A_FACTORY', contracts: ['IdFactory'] },
+  { reason: 'ERC-3643: Already stored', code: 'ALREADY_STORED', contracts: ['IdentityRegistryStorage'] },
+  { reason: 'Amount exceeds available balance', code: 'AMOUNT_EXCEEDS_AVAILABLE_BALANCE', contracts: ['Token'] },
+  { reason: 'ERC-3643: amount exceeds balance', code: 'AMOUNT_EXCEEDS_BALANCE', contracts: ['Token'] },
+  {
+    reason: 'Amount should be less than or equal to frozen tokens',
+    code: 'AMOUNT_SHOULD_BE_LESS_THAN_OR_EQUAL_TO_FROZEN_TOKENS',
+    contracts: ['Token'],
+  },
+  { reason: 'ERC-3643: approve from zero address', code: 'APPROVE_FROM_ZERO_ADDRESS', contracts: ['Token'] },
+  { reason: 'ERC-3643: approve to zero address', code: 'APPROVE_TO_ZERO_ADDRESS', contracts: ['Token'] },
+  { reason: 'ERC-3643: Array size mismatch', code: 'ARRAY_SIZE_MISMATCH', contracts: ['IdentityRegistry', 'Token'] },
+  { reason: 'ERC-3643: burn exceeds balance', code: 'BURN_EXCEEDS_BALANCE', contracts: ['Token'] },
+  { reason: 'ERC-3643: burn from the zero address', code: 'BURN_FROM_THE_ZERO_ADDRESS', contracts: ['Token'] },
+  {
+    reason: 'ERC-3643: Caller is not the token',
+    code: 'CALLER_IS_NOT_THE_TOKEN',
+    contracts: ['ComposableCompliance', 'LockUpCompliance', 'MaxHoldersCompliance'],
+  },
+  {
+    reason: 'ERC-3643: Caller not authorized',
+    code: 'CALLER_NOT_AUTHORIZED',
+    contracts: ['BasicCompliance', 'ComposableCompliance', 'CountryRestrictCompliance', 'LockUpCompliance', 'MaxHoldersCompliance'],
+  },
+  { reason: 'Cannot approve a non-existing execution', code: 'CANNOT_APPROVE_A_NON_EXISTING_EXECUTION', contracts: ['Identity'] },
+  { reason: 'cannot be called on sender address', code: 'CANNOT_BE_CALLED_ON_SENDER_ADDRESS', contracts: ['IdFactory'] },
+  { reason: 'ERC-3643: Compliance failure', code: 'COMPLIANCE_FAILURE', contracts: ['Token'] },
+  { reason: 'Conflict: Claim already revoked', code: 'CONFLICT_CLAIM_ALREADY_REVOKED', contracts: ['ClaimIssuer'] },
+  { reason: 'Conflict: Key already has purpose', code: 'CONFLICT_KEY_ALREADY_HAS_PURPOSE', contracts: ['Identity'] },
+  { reason: 'ERC-3643: Country already allowed', code: 'COUNTRY_ALREADY_ALLOWED', contracts: ['CountryRestrictCompliance'] },
+  { reason: 'ERC-3643: Country already blocked', code: 'COUNTRY_ALREADY_BLOCKED', contracts: ['CountryRestrictCompliance'] },
+  { reason: 'ERC-3643: Country not allowed', code: 'COUNTRY_NOT_ALLOWED', contracts: ['CountryRestrictCompliance'] },
+  { reason: 'ERC-3643: Country not blocked', code: 'COUNTRY_NOT_BLOCKED', contracts: ['CountryRestrictCompliance'] },
+  { reason: 'ERC-3643: Empty claim topics', code: 'EMPTY_CLAIM_TOPICS', contracts: ['ClaimIssuersRegistry'] },
+  { reason: 'ERC-3643: Freezed balance', code: 'FREEZED_BALANCE', contracts: ['Token'] },
+  { reason: 'Initial key was already setup.', code: 'INITIAL_KEY_WAS_ALREADY_SETUP', contracts: ['Identity'] },
+  { reason: 'Initialization failed.', code: 'INITIALIZATION_FAILED', contracts: ['IdentityProxy'] },
+  { reason: 'ERC3643: Insufficient allowance', code: 'INSUFFICIENT_ALLOWANCE', contracts: ['Token'] },
+  {
+    reason: 'Interacting with the library contract is forbidden.',
+    code: 'INTERACTING_WITH_THE_LIBRARY_CONTRACT_IS_FORBIDDEN',
+    contracts: ['Identity'],
+  },
+  { reason: 'invalid argument - empty string', code: 'INVALID_ARGUMENT_EMPTY_STRING', contracts: ['IdFactory'] },
+  { reason: 'invalid argument - token address', code: 'INVALID_ARGUMENT_TOKEN_ADDRESS', contracts: ['IdFactory'] },
+  {
+    reason: 'invalid argument - zero address',
+    code: 'INVALID_ARGUMENT_ZERO_ADDRESS',
+    contracts: ['IdFactory', 'Identity', 'IdentityProxy', 'ImplementationAuthority'],
+  },
+  { reason: 'invalid claim', code: 'INVALID_CLAIM', contracts: ['Identity'] },
+  { reason: 'ERC-3643: Invalid position', code: 'INVALID_POSITION', contracts: ['ComposableCompliance'] },
+  { reason: 'ERC-3643: Invalid rule', code: 'INVALID_RULE', contracts: ['ComposableCompliance'] },
+  {
+    reason: 'ERC-3643: Invalid zero address',
+    code: 'INVALID_ZERO_ADDRESS',
+    contracts: ['ClaimIssuersRegistry', 'IdentityRegistry', 'IdentityRegistryStorage', 'Token'],
+  },
+  { reason: 'ERC-3643: Issuer already exists', code: 'ISSUER_ALREADY_EXISTS', contracts: ['ClaimIssuersRegistry'] },
+  { reason: "ERC-3643: Issuer doesn't exist", code: 'ISSUER_DOESNT_EXIST', contracts: ['ClaimIssuersRegistry'] },
+  { reason: 'max amount of wallets per ID exceeded', code: 'MAX_AMOUNT_OF_WALLETS_PER_ID_EXCEEDED', contracts: ['IdFactory'] },
+  { reason: 'ERC-3643: mint to zero address', code: 'MINT_TO_ZERO_ADDRESS', contracts: ['Token'] },
+  { reason: 'new wallet already linked', code: 'NEW_WALLET_ALREADY_LINKED', contracts: ['IdFactory'] },
+  { reason: 'ERC-3643: No claim topics', code: 'NO_CLAIM_TOPICS', contracts: ['ClaimIssuersRegistry'] },
+  { reason: 'ERC-3643: No identity registry', code: 'NO_IDENTITY_REGISTRY', contracts: ['IdentityRegistryStorage'] },
+  { reason: 'ERC-3643: No tokens to recover', code: 'NO_TOKENS_TO_RECOVER', contracts: ['Token'] },
+  { reason: "NonExisting: Key doesn't have such purpose", code: 'NONEXISTING_KEY_DOESNT_HAVE_SUCH_PURPOSE', contracts: ['Identity'] },
+  { reason: "NonExisting: Key isn't registered", code: 'NONEXISTING_KEY_ISNT_REGISTERED', contracts: ['Identity'] },
+  { reason: 'NonExisting: There is no claim with this ID', code: 'NONEXISTING_THERE_IS_NO_CLAIM_WITH_THIS_ID', contracts: ['Identity'] },
+  { reason: 'ERC-3643: Not a claim issuer', code: 'NOT_A_CLAIM_ISSUER', contracts: ['ClaimIssuersRegistry'] },
+  { reason: 'not a factory', code: 'NOT_A_FACTORY', contracts: ['IdFactory'] },
+  { reason: 'only a linked wallet can unlink', code: 'ONLY_A_LINKED_WALLET_CAN_UNLINK', contracts: ['IdFactory'] },
+  { reason: 'only Factory or owner can call', code: 'ONLY_FACTORY_OR_OWNER_CAN_CALL', contracts: ['IdFactory'] },
+  {
+    reason: 'Permissions: Sender does not have claim signer key',
+    code: 'PERMISSIONS_SENDER_DOES_NOT_HAVE_CLAIM_SIGNER_KEY',
+    contracts: ['Identity'],
+  },
+  { reason: 'Permissions: Sender does not have management key', code: 'PERMISSIONS_SENDER_DOES_NOT_HAVE_MANAGEMENT_KEY', contracts: ['Identity'] },
+  { reason: 'ERC-3643: Recovery not possible', code: 'RECOVERY_NOT_POSSIBLE', contracts: ['Token'] },
+  { reason: 'Request already executed', code: 'REQUEST_ALREADY_EXECUTED', contracts: ['Identity'] },
+  { reason: 'ERC-3643: Rule already added', code: 'RULE_ALREADY_ADDED', contracts: ['ComposableCompliance'] },
+  { reason: 'ERC-3643: Rule not found', code: 'RULE_NOT_FOUND', contracts: ['ComposableCompliance'] },
+  { reason: 'salt already taken', code: 'SALT_ALREADY_TAKEN', contracts: ['IdFactory'] },
+  { reason: 'Sender does not have action key', code: 'SENDER_DOES_NOT_HAVE_ACTION_KEY', contracts: ['Identity'] },
+  { reason: 'Sender does not have management key', code: 'SENDER_DOES_NOT_HAVE_MANAGEMENT_KEY', contracts: ['Identity'] },
+  { reason: 'ERC-3643: Sender low balance', code: 'SENDER_LOW_BALANCE', contracts: ['Token'] },
+  { reason: 'token already linked to an identity', code: 'TOKEN_ALREADY_LINKED_TO_AN_IDENTITY', contracts: ['IdFactory'] },
+  {
+    reason: 'ERC-3643: Token not bound',
+    code: 'TOKEN_NOT_BOUND',
+    contracts: ['BasicCompliance', 'ComposableCompliance', 'CountryRestrictCompliance', 'LockUpCompliance', 'MaxHoldersCompliance'],
+  },
+  { reason: 'ERC-3643: Too many rules', code: 'TOO_MANY_RULES', contracts: ['ComposableCompliance'] },
+  { reason: 'ERC-3643: Topic exists', code: 'TOPIC_EXISTS', contracts: ['ClaimTopicsRegistry'] },
+  { reason: 'ERC-3643: transfer from zero address', code: 'TRANSFER_FROM_ZERO_ADDRESS', contracts: ['Token'] },
+  { reason: 'ERC-3643: transfer to zero address', code: 'TRANSFER_TO_ZERO_ADDRESS', contracts: ['Token'] },
+  { reason: 'ERC-3643: Unverified identity', code: 'UNVERIFIED_IDENTITY', contracts: ['Token'] },
+  { reason: 'wallet already linked to an identity', code: 'WALLET_ALREADY_LINKED_TO_AN_IDENTITY', contracts: ['IdFactory'] },
+  { reason: 'ERC-3643: Wallet frozen', code: 'WALLET_FROZEN', contracts: ['Token'] },
+  { reason: 'wallet not linked to an identity contract', code: 'WALLET_NOT_LINKED_TO_AN_IDENTITY_CONTRACT', contracts: ['IdFactory'] },
+] as const;
+
+export type CatalogRevertCode = (typeof REVERT_CATALOG)[number]['code'];
+
+/** `*_ROLE` constants by hash. */
+export const CONTRACT_ROLES: Record<string, string> = {
+  '0xa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775': 'ADMIN_ROLE',
+  '0xa7197c38d9c4c7450c7f2cd20d0a17cbe7c344190d6c82a6b49a146e62439ae4': 'TOKEN_ROLE',
+  '0xb19546dff01e856fb3f010c267a7b1c60363cf8a4664e21cc89c26224620214e': 'OWNER_ROLE',
+  '0xcab5a0bfe0b79d2c4b1c2e02599fa044d115b7511f9659307cb4276950967709': 'AGENT_ROLE',
+};
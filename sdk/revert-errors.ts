@@ -0,0 +1,298 @@
+/**
+ * Typed errors for the reverts of the suite contracts.
+ *
+ * `decodeRevert` digs the revert out of an ethers error, whatever produced it (Hardhat, Geth-style
+ * `execution reverted` JSON-RPC errors with the data in the response body, Ganache messages, ...), and maps it to:
+ * - `ContractRevertError` for a `require` / `revert` string of contracts/ (listed in the generated
+ *   `REVERT_CATALOG`) or of the OpenZeppelin contracts they inherit, with a code, a message and remediation hints;
+ * - `MissingRoleError` for an AccessControl role check, with the account and the role name;
+ * - `PanicError` for a Solidity panic (overflow, division by zero, out-of-bounds index, ...);
+ * - `UnknownRevertError` when there is no revert reason, or one no contract of the suite produces.
+ *
+ * Usage:
+ *   try {
+ *     await token.connect(agent).mint(wallet, 100);
+ *   } catch (error) {
+ *     const revert = decodeRevert(error);
+ *     if (revert.code === 'UNVERIFIED_IDENTITY') console.log(revert.message, revert.hints);
+ *   }
+ */
+// the error classes form one hierarchy, kept together
+/* eslint-disable max-classes-per-file */
+import { BigNumber, utils } from 'ethers';
+import { CONTRACT_ROLES, CatalogRevertCode, REVERT_CATALOG } from './revert-catalog';
+
+export type OpenZeppelinRevertCode = 'PAUSED' | 'NOT_PAUSED' | 'NOT_OWNER' | 'NEW_OWNER_ZERO_ADDRESS';
+
+export type RevertCode = CatalogRevertCode | OpenZeppelinRevertCode | 'MISSING_ROLE' | 'PANIC' | 'UNKNOWN';
+
+interface RevertDescription {
+  message: string;
+  hints: string[];
+}
+
+// Reasons of the OpenZeppelin contracts the suite inherits; AccessControl builds its message, see MissingRoleError
+const OPENZEPPELIN_REASONS: Record<string, { code: OpenZeppelinRevertCode; contracts: string[] }> = {
+  'Pausable: paused': { code: 'PAUSED', contracts: ['Token'] },
+  'Pausable: not paused': { code: 'NOT_PAUSED', contracts: ['Token'] },
+  'Ownable: caller is not the owner': { code: 'NOT_OWNER', contracts: ['ClaimTopicsRegistry', 'ClaimIssuersRegistry'] },
+  'Ownable: new owner is the zero address': { code: 'NEW_OWNER_ZERO_ADDRESS', contracts: ['ClaimTopicsRegistry', 'ClaimIssuersRegistry'] },
+};
+
+// Messages and hints for the reverts operators run into; other reverts keep their reason as message
+const DESCRIPTIONS: Partial<Record<RevertCode, RevertDescription>> = {
+  UNVERIFIED_IDENTITY: {
+    message: 'The receiving wallet is not verified in the identity registry',
+    hints: [
+      'Register the wallet with its ONCHAINID and country in the IdentityRegistry',
+      'Make sure its ONCHAINID holds a valid claim, from a trusted issuer, for every required claim topic',
+    ],
+  },
+  COMPLIANCE_FAILURE: {
+    message: 'The compliance contract rejects the transfer',
+    hints: [
+      'Check the compliance rules against the sender, the receiver and the amount',
+      'Check that the compliance is bound to this token',
+      'With a CountryRestrictCompliance, check the country of the receiver against its lists (trex:countries)',
+      'With a MaxHoldersCompliance, check the holder counts against the limits (trex:holders)',
+      'With a LockUpCompliance, check the unlocked balance of the sender (trex:lock-ups)',
+      'With a ComposableCompliance, find the rule that rejects the transfer (trex:rules --from --to --amount)',
+    ],
+  },
+  WALLET_FROZEN: {
+    message: 'The sending or the receiving wallet is frozen',
+    hints: ['An agent can unfreeze the wallet with setAddressFrozen(wallet, false)'],
+  },
+  FREEZED_BALANCE: {
+    message: 'The amount exceeds the unfrozen balance of the sender',
+    hints: ['Transfer at most balance minus frozen tokens', 'An agent can release tokens with unfreezePartialTokens'],
+  },
+  AMOUNT_EXCEEDS_BALANCE: { message: 'The amount exceeds the balance of the sender', hints: ['Check balanceOf(sender)'] },
+  BURN_EXCEEDS_BALANCE: { message: 'The amount to burn exceeds the balance of the wallet', hints: ['Check balanceOf(wallet)'] },
+  SENDER_LOW_BALANCE: { message: 'The wallet does not hold the amount to move', hints: ['Check balanceOf(wallet)'] },
+  AMOUNT_EXCEEDS_AVAILABLE_BALANCE: {
+    message: 'The amount to freeze exceeds the balance that is not frozen yet',
+    hints: ['Freeze at most balance minus getFrozenTokens(wallet)'],
+  },
+  AMOUNT_SHOULD_BE_LESS_THAN_OR_EQUAL_TO_FROZEN_TOKENS: {
+    message: 'The amount to unfreeze exceeds the frozen tokens of the wallet',
+    hints: ['Unfreeze at most getFrozenTokens(wallet)'],
+  },
+  INSUFFICIENT_ALLOWANCE: { message: 'The spender allowance is lower than the amount', hints: ['The owner must approve the spender first'] },
+  RECOVERY_NOT_POSSIBLE: {
+    message: 'The new wallet is not a management key of the investor ONCHAINID',
+    hints: ['The investor must add keccak256(abi.encode(newWallet)) as a purpose 1 key on the identity, see recoverWallet'],
+  },
+  NO_TOKENS_TO_RECOVER: { message: 'The lost wallet holds no tokens', hints: ['Check the lost wallet address'] },
+  ALREADY_STORED: {
+    message: 'The wallet is already registered',
+    hints: ['Use updateIdentity or updateCountry to change a registered wallet', 'Skip wallets for which contains(wallet) is true'],
+  },
+  ADDRESS_NOT_STORED: { message: 'The wallet is not registered', hints: ['Register the wallet first'] },
+  ARRAY_SIZE_MISMATCH: { message: 'The batch argument arrays have different lengths', hints: ['Pass one entry per item in every array'] },
+  INVALID_ZERO_ADDRESS: { message: 'An address argument is the zero address', hints: ['Check the addresses passed to the call'] },
+  ISSUER_ALREADY_EXISTS: {
+    message: 'The claim issuer is already trusted',
+    hints: ['Use updateIssuerClaimTopics to change its topics'],
+  },
+  ISSUER_DOESNT_EXIST: { message: 'The claim issuer is not trusted', hints: ['Add it with addClaimIssuer first'] },
+  TOPIC_EXISTS: { message: 'The claim topic is already required', hints: ['Nothing to do, or remove it first'] },
+  TOKEN_NOT_BOUND: { message: 'The compliance is not bound to this token', hints: ['Bind the token with bindToken on the compliance'] },
+  CALLER_NOT_AUTHORIZED: {
+    message: 'The caller may not change the compliance',
+    hints: ['Call from an account with ADMIN_ROLE, or from the bound token'],
+  },
+  PAUSED: { message: 'The token is paused', hints: ['An agent can unpause it'] },
+  NOT_PAUSED: { message: 'The token is not paused', hints: ['Nothing to unpause'] },
+  NOT_OWNER: { message: 'The caller is not the owner of the contract', hints: ['Send the transaction from owner()'] },
+  MISSING_ROLE: { message: 'The caller is missing a role', hints: ['Grant the role with grantRole, from an account holding its admin role'] },
+  CONFLICT_KEY_ALREADY_HAS_PURPOSE: { message: 'The key already has this purpose on the identity', hints: ['Nothing to do'] },
+  PERMISSIONS_SENDER_DOES_NOT_HAVE_MANAGEMENT_KEY: {
+    message: 'The sender is not a management key of the identity',
+    hints: ['Send the transaction from a purpose 1 key of the identity'],
+  },
+  PANIC: { message: 'The contract hit a Solidity panic', hints: ['This is a contract bug or an unexpected state; report it with the transaction'] },
+  UNKNOWN: {
+    message: 'The call reverted without a reason the suite contracts produce',
+    hints: ['Check the target address and the arguments', 'Re-run the call statically to get the revert data'],
+  },
+};
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'invalid enum value',
+  0x22: 'invalid storage byte array',
+  0x31: 'pop on an empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to an uninitialized function',
+};
+
+const ERROR_SELECTOR = utils.id('Error(string)').slice(0, 10);
+const PANIC_SELECTOR = utils.id('Panic(uint256)').slice(0, 10);
+const DEFAULT_ADMIN_ROLE = utils.hexZeroPad('0x', 32);
+
+const MISSING_ROLE_PATTERN = /AccessControl: account (0x[0-9a-fA-F]{40}) is missing role (0x[0-9a-fA-F]{64})/;
+
+// Where nodes and ethers put the revert reason in their messages
+const MESSAGE_PATTERNS = [
+  /reverted with reason string '([\s\S]*)'/,
+  /execution reverted: ([^"\n]*)/,
+  /VM Exception while processing transaction: revert ([^"\n]*)/,
+];
+
+export class ContractRevertError extends Error {
+  readonly code: RevertCode;
+
+  /** The revert string, `''` when there was none. */
+  readonly reason: string;
+
+  readonly hints: string[];
+
+  /** Contracts that can revert with this reason. */
+  readonly contracts: string[];
+
+  /** Raw revert data, when the error carried it. */
+  readonly data?: string;
+
+  readonly cause: unknown;
+
+  constructor(code: RevertCode, reason: string, details: { contracts?: string[]; data?: string; cause?: unknown; message?: string } = {}) {
+    const description = DESCRIPTIONS[code];
+    super(details.message ?? description?.message ?? reason);
+    this.name = new.target.name;
+    this.code = code;
+    this.reason = reason;
+    this.hints = description?.hints ?? [];
+    this.contracts = details.contracts ?? [];
+    this.data = details.data;
+    this.cause = details.cause;
+  }
+}
+
+export class MissingRoleError extends ContractRevertError {
+  readonly account: string;
+
+  readonly role: string;
+
+  /** `AGENT_ROLE`, `OWNER_ROLE`, ... when the hash is a role of contracts/. */
+  readonly roleName?: string;
+
+  constructor(reason: string, account: string, role: string, details: { data?: string; cause?: unknown } = {}) {
+    const roleName = role === DEFAULT_ADMIN_ROLE ? 'DEFAULT_ADMIN_ROLE' : CONTRACT_ROLES[role.toLowerCase()];
+    super('MISSING_ROLE', reason, { ...details, message: `${utils.getAddress(account)} is missing ${roleName ?? `role ${role}`}` });
+    this.account = utils.getAddress(account);
+    this.role = role;
+    this.roleName = roleName;
+  }
+}
+
+export class PanicError extends ContractRevertError {
+  readonly panicCode: number;
+
+  constructor(panicCode: number, details: { data?: string; cause?: unknown } = {}) {
+    const description = PANIC_REASONS[panicCode] ?? 'unknown panic';
+    super('PANIC', '', { ...details, message: `Panic 0x${panicCode.toString(16).padStart(2, '0')}: ${description}` });
+    this.panicCode = panicCode;
+  }
+}
+
+export class UnknownRevertError extends ContractRevertError {
+  constructor(reason: string, details: { data?: string; cause?: unknown } = {}) {
+    super('UNKNOWN', reason, { ...details, message: reason || undefined });
+  }
+}
+
+const isRevertData = (value: string) => /^0x([0-9a-fA-F]{2})*$/.test(value) && value.length >= 10;
+
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Values found under the keys that hold revert details in ethers and provider errors (`error`, `data`, `body`,
+ * `reason`, `message`), nested errors and JSON-RPC response bodies included. Transaction fields are not visited:
+ * `transaction.data` is the calldata, not the revert data.
+ */
+function collect(error: unknown, key: 'data' | 'message'): string[] {
+  const found: string[] = [];
+  const keys = key === 'data' ? ['data', 'error', 'body', 'originalError'] : ['reason', 'message', 'error', 'body', 'originalError'];
+  const visit = (value: unknown, depth: number, underData: boolean) => {
+    if (depth > 6 || value === null || value === undefined) return;
+    if (typeof value === 'string') {
+      if (key === 'message' || isRevertData(value)) found.push(value);
+      return;
+    }
+    if (typeof value !== 'object') return;
+    const record = value as Record<string, unknown>;
+    // some providers key the revert data of a call by transaction hash: { data: { '0x<hash>': { return: '0x...' } } }
+    const names = key === 'data' && underData ? Object.keys(record) : keys;
+    names.forEach((name) => {
+      const child = name === 'body' && typeof record[name] === 'string' ? parseJson(record[name] as string) : record[name];
+      visit(child, depth + 1, underData || name === 'data');
+    });
+  };
+  visit(error, 0, false);
+  return found;
+}
+
+/** The first revert data (`Error(string)`, `Panic(uint256)` or custom error) carried by an ethers error. */
+export function extractRevertData(error: unknown): string | undefined {
+  return collect(error, 'data')[0];
+}
+
+/** Decodes `Error(string)` and `Panic(uint256)` revert data. */
+export function decodeRevertData(data: string): { reason: string } | { panicCode: number } | undefined {
+  try {
+    if (data.startsWith(ERROR_SELECTOR)) return { reason: utils.defaultAbiCoder.decode(['string'], utils.hexDataSlice(data, 4))[0] };
+    if (data.startsWith(PANIC_SELECTOR)) {
+      return { panicCode: (utils.defaultAbiCoder.decode(['uint256'], utils.hexDataSlice(data, 4))[0] as BigNumber).toNumber() };
+    }
+  } catch {
+    return undefined;
+  }
+  return undefined;
+}
+
+/** The revert string of an ethers error, from its revert data or, failing that, from the provider messages. */
+export function extractRevertReason(error: unknown): string | undefined {
+  const decoded = collect(error, 'data')
+    .map(decodeRevertData)
+    .find((candidate) => candidate && 'reason' in candidate);
+  if (decoded && 'reason' in decoded) return decoded.reason;
+  const messages = collect(error, 'message');
+  const matches = MESSAGE_PATTERNS.flatMap((pattern) => messages.map((message) => pattern.exec(message)?.[1]));
+  return matches.find((match) => match !== undefined)?.trim();
+}
+
+const CATALOG = new Map<string, { code: RevertCode; contracts: string[] }>([
+  ...REVERT_CATALOG.map((entry): [string, { code: RevertCode; contracts: string[] }] => [
+    entry.reason,
+    { code: entry.code, contracts: [...entry.contracts] },
+  ]),
+  ...Object.entries(OPENZEPPELIN_REASONS),
+]);
+
+/** Maps an error thrown by a call or transaction on the suite contracts to a typed revert error. */
+export function decodeRevert(error: unknown): ContractRevertError {
+  if (error instanceof ContractRevertError) return error;
+  const data = extractRevertData(error);
+  const decoded = data ? decodeRevertData(data) : undefined;
+  if (decoded && 'panicCode' in decoded) return new PanicError(decoded.panicCode, { data, cause: error });
+
+  const reason = extractRevertReason(error) ?? '';
+  const missingRole = MISSING_ROLE_PATTERN.exec(reason);
+  if (missingRole) return new MissingRoleError(reason, missingRole[1], missingRole[2], { data, cause: error });
+  const known = CATALOG.get(reason);
+  if (known) return new ContractRevertError(known.code, reason, { contracts: known.contracts, data, cause: error });
+  return new UnknownRevertError(reason, { data, cause: error });
+}
+
+/** Whether `error` is, or decodes to, a revert with `code`. */
+export const isRevert = (error: unknown, code: RevertCode) => decodeRevert(error).code === code;
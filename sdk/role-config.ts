@@ -0,0 +1,213 @@
+/**
+ * Declarative role assignments for a deployed suite: a JSON or YAML file lists, per contract of the deployment
+ * manifest and per role, every account that must hold the role. `planRoles` diffs the file against the live `AccessControl`
+ * state (replayed by `buildRoleInventory`) and `applyRolePlan` sends the minimal `grantRole` / `revokeRole` calls.
+ *
+ * The file is exhaustive for the roles it lists: a holder missing from the list is revoked. Roles and contracts the
+ * file does not mention are left alone. Accounts are addresses, manifest contract names (e.g. `"Token"`) or
+ * `"deployer"` for the deployer of the manifest:
+ *
+ *   {
+ *     "roles": {
+ *       "Token": { "AGENT_ROLE": ["deployer", "0x70997970C51812dc3A010C7d01b50e0d17dc79C8"] },
+ *       "IdentityRegistry": { "AGENT_ROLE": ["Token", "deployer"] },
+ *       "IdentityRegistryStorage": { "AGENT_ROLE": ["IdentityRegistry"] }
+ *     }
+ *   }
+ *
+ * The same file in YAML (`.yaml` or `.yml`); every value is read as a string, so addresses need no quotes:
+ *
+ *   roles:
+ *     Token:
+ *       AGENT_ROLE: [deployer, 0x70997970C51812dc3A010C7d01b50e0d17dc79C8]
+ *
+ * A plan that would leave a contract without `DEFAULT_ADMIN_ROLE` holder has an error and is never applied. Grants
+ * are sent before revocations, and revocations of `DEFAULT_ADMIN_ROLE` last, so the signer keeps its rights while
+ * the plan runs. When a transaction fails the changes before it stay mined; plan again to see what is left.
+ *
+ * Usage:
+ *   const plan = await planRoles(readRoleConfig('roles.json'), manifest, ethers.provider);
+ *   plan.changes.forEach((change) => console.log(formatRoleChange(change)));
+ *   await applyRolePlan(plan, admin);
+ */
+import fs from 'fs';
+import path from 'path';
+import { Signer, constants, utils } from 'ethers';
+import { Provider } from '@ethersproject/providers';
+import { parse as parseYaml } from 'yaml';
+import { AccessControl__factory } from '../typechain-types';
+import { OperationResult, runOperation } from './contract-operation';
+import { DeploymentManifest } from './deployment-manifest';
+import { CONTRACT_ROLES } from './revert-catalog';
+import { RoleInventoryOptions, buildRoleInventory, roleName } from './role-inventory';
+
+export interface RoleConfig {
+  /** Manifest contract name -> role name (or bytes32 role) -> accounts holding the role. */
+  roles: Record<string, Record<string, string[]>>;
+}
+
+export interface RoleAssignment {
+  contract: string;
+  contractAddress: string;
+  role: string;
+  roleName: string;
+  account: string;
+  /** Manifest name of the account when it is a contract of the suite. */
+  accountName?: string;
+}
+
+export interface RoleConfigChange extends RoleAssignment {
+  action: 'grant' | 'revoke';
+}
+
+export interface RolePlan {
+  network: string;
+  blockNumber: number;
+  /** In the order `applyRolePlan` sends them. */
+  changes: RoleConfigChange[];
+  /** Assignments of the file already in place. */
+  unchanged: RoleAssignment[];
+  /** Problems that prevent applying the plan. */
+  errors: string[];
+}
+
+export interface ApplyRolesOptions {
+  /** Only simulate each call with `callStatic`. */
+  dryRun?: boolean;
+  log?: (_message: string) => void;
+}
+
+export interface AppliedRoleChange {
+  change: RoleConfigChange;
+  result: OperationResult;
+}
+
+export const DEPLOYER_ACCOUNT = 'deployer';
+
+const DEFAULT_ADMIN_ROLE = constants.HashZero;
+
+const ROLES_BY_NAME: Record<string, string> = {
+  DEFAULT_ADMIN_ROLE,
+  ...Object.fromEntries(Object.entries(CONTRACT_ROLES).map(([role, name]) => [name, role])),
+};
+
+/** Turns a role name of the suite (`AGENT_ROLE`, `DEFAULT_ADMIN_ROLE`...) or a bytes32 hex string into the role. */
+export function resolveRole(name: string): string {
+  if (ROLES_BY_NAME[name]) return ROLES_BY_NAME[name];
+  if (utils.isHexString(name, 32)) return name.toLowerCase();
+  throw new Error(`Unknown role "${name}", expected one of ${Object.keys(ROLES_BY_NAME).join(', ')} or a bytes32 hex string`);
+}
+
+export type RoleConfigFormat = 'json' | 'yaml';
+
+export function parseRoleConfig(text: string, format: RoleConfigFormat = 'json'): RoleConfig {
+  // the failsafe schema keeps every scalar a string: the core schema reads an unquoted 0x address as a number
+  const config = format === 'yaml' ? parseYaml(text, { schema: 'failsafe' }) : JSON.parse(text);
+  if (typeof config?.roles !== 'object' || config.roles === null || Array.isArray(config.roles)) {
+    throw new Error('The role configuration must have a "roles" object');
+  }
+  Object.entries(config.roles).forEach(([contract, roles]) => {
+    if (typeof roles !== 'object' || roles === null || Array.isArray(roles)) throw new Error(`roles.${contract} must map role names to accounts`);
+    Object.entries(roles).forEach(([role, accounts]) => {
+      resolveRole(role);
+      if (!Array.isArray(accounts) || accounts.some((account) => typeof account !== 'string')) {
+        throw new Error(`roles.${contract}.${role} must be an array of accounts`);
+      }
+    });
+  });
+  return config;
+}
+
+/** Reads a role file, as YAML when its extension is `.yaml` or `.yml` and as JSON otherwise. */
+export const readRoleConfig = (file: string): RoleConfig =>
+  parseRoleConfig(fs.readFileSync(file, 'utf8'), ['.yaml', '.yml'].includes(path.extname(file).toLowerCase()) ? 'yaml' : 'json');
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export async function planRoles(
+  config: RoleConfig,
+  manifest: DeploymentManifest,
+  provider: Provider,
+  options: RoleInventoryOptions = {},
+): Promise<RolePlan> {
+  const inventory = await buildRoleInventory(manifest, provider, options);
+  const errors = inventory.risks.filter((risk) => risk.code === 'EVENTS_OUT_OF_SYNC').map((risk) => risk.message);
+  const names = new Map(Object.entries(manifest.contracts).map(([name, deployed]) => [deployed.address.toLowerCase(), name]));
+  const resolveAccount = (account: string): string | undefined => {
+    if (account === DEPLOYER_ACCOUNT) return utils.getAddress(manifest.deployer);
+    if (manifest.contracts[account]) return utils.getAddress(manifest.contracts[account].address);
+    return utils.isAddress(account) ? utils.getAddress(account) : undefined;
+  };
+  const assignment = (contract: string, contractAddress: string, role: string, account: string): RoleAssignment => ({
+    contract,
+    contractAddress,
+    role,
+    roleName: roleName(role),
+    account,
+    accountName: names.get(account.toLowerCase()),
+  });
+
+  const grants: RoleConfigChange[] = [];
+  const revokes: RoleConfigChange[] = [];
+  const unchanged: RoleAssignment[] = [];
+  Object.entries(config.roles).forEach(([contract, roles]) => {
+    const tracked = inventory.contracts.find((candidate) => candidate.name === contract);
+    if (!tracked || tracked.kind !== 'access-control') {
+      errors.push(`${contract} is not an AccessControl contract of the ${manifest.network} manifest`);
+      return;
+    }
+    Object.entries(roles).forEach(([name, accounts]) => {
+      const role = resolveRole(name);
+      const desired = accounts.map((account) => {
+        const address = resolveAccount(account);
+        if (!address) errors.push(`${contract}.${name}: "${account}" is neither an address, a manifest contract nor "${DEPLOYER_ACCOUNT}"`);
+        return address;
+      });
+      const wanted = desired.filter((address): address is string => address !== undefined);
+      const current = inventory.holders.filter((holder) => holder.contract === contract && holder.role === role).map((holder) => holder.account);
+      if (role === DEFAULT_ADMIN_ROLE && desired.length === 0 && current.length > 0) {
+        errors.push(`Refusing to revoke the last DEFAULT_ADMIN_ROLE holder of ${contract}`);
+      }
+      wanted
+        .filter((account, i) => wanted.findIndex((other) => sameAddress(other, account)) === i)
+        .forEach((account) => {
+          const target = assignment(contract, tracked.address, role, account);
+          if (current.some((holder) => sameAddress(holder, account))) unchanged.push(target);
+          else grants.push({ ...target, action: 'grant' });
+        });
+      current
+        .filter((holder) => !wanted.some((account) => sameAddress(account, holder)))
+        .forEach((holder) => revokes.push({ ...assignment(contract, tracked.address, role, holder), action: 'revoke' }));
+    });
+  });
+
+  const adminLast = (change: RoleConfigChange) => (change.role === DEFAULT_ADMIN_ROLE ? 1 : 0);
+  return {
+    network: manifest.network,
+    blockNumber: inventory.blockNumber,
+    changes: [...grants, ...revokes.sort((a, b) => adminLast(a) - adminLast(b))],
+    unchanged,
+    errors,
+  };
+}
+
+export const formatRoleChange = (change: RoleConfigChange) =>
+  `${change.action === 'grant' ? '+' : '-'} ${change.contract} ${change.roleName} ${change.account}${
+    change.accountName ? ` (${change.accountName})` : ''
+  }`;
+
+/** Sends the changes of `plan` one after the other; throws before sending anything when the plan has errors. */
+export async function applyRolePlan(plan: RolePlan, signer: Signer, options: ApplyRolesOptions = {}): Promise<AppliedRoleChange[]> {
+  const { dryRun = false, log = () => {} } = options;
+  if (plan.errors.length > 0) throw new Error(`The role plan cannot be applied:\n${plan.errors.map((error) => `- ${error}`).join('\n')}`);
+  return plan.changes.reduce<Promise<AppliedRoleChange[]>>(async (previous, change) => {
+    const applied = await previous;
+    const contract = AccessControl__factory.connect(change.contractAddress, signer);
+    const result = await runOperation(contract, change.action === 'grant' ? 'grantRole' : 'revokeRole', [change.role, change.account], {
+      dryRun,
+      contracts: { [change.contract]: contract },
+    });
+    log(`${formatRoleChange(change)}${result.transactionHash ? ` in ${result.transactionHash}` : ''}`);
+    return [...applied, { change, result }];
+  }, Promise.resolve([]));
+}
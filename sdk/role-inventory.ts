@@ -0,0 +1,338 @@
+/**
+ * Role inventory of a deployed suite, rebuilt from events.
+ *
+ * Every contract of a deployment manifest that implements OpenZeppelin `AccessControl` (Token, IdentityRegistry,
+ * IdentityRegistryStorage, BasicCompliance) has its `RoleGranted` / `RoleRevoked` events replayed from its
+ * deployment block; `Ownable` contracts (the claim registries, the implementation authority) have their
+ * `OwnershipTransferred` events replayed as an `owner` pseudo-role. The result is the current role matrix
+ * (contract x role x account), the history of changes, and the risks found in the matrix:
+ * - `EOA_DEFAULT_ADMIN`: an externally owned account holds `DEFAULT_ADMIN_ROLE`, one leaked key grants every role;
+ * - `NO_DEFAULT_ADMIN`: nobody holds `DEFAULT_ADMIN_ROLE` any more, roles can no longer be granted or revoked;
+ * - `TOKEN_NOT_REGISTRY_AGENT`: the Token lacks `AGENT_ROLE` on the IdentityRegistry, so `recoveryAddress` fails;
+ * - `REGISTRY_NOT_STORAGE_AGENT`: the IdentityRegistry lacks `AGENT_ROLE` on the storage, so registrations fail;
+ * - `EVENTS_OUT_OF_SYNC`: the replayed matrix disagrees with `hasRole` / `owner()` (missing logs, wrong range).
+ *
+ * Usage:
+ *   const inventory = await buildRoleInventory(manifest, ethers.provider);
+ *   fs.writeFileSync('roles.csv', roleMatrixCsv(inventory));
+ *   inventory.risks.forEach((risk) => console.log(risk.severity, risk.message));
+ */
+import { constants, utils } from 'ethers';
+import { Log, Provider } from '@ethersproject/providers';
+import { AccessControl__factory, Ownable__factory } from '../typechain-types';
+import { formatCsv } from './csv';
+import { DeploymentManifest } from './deployment-manifest';
+import { CONTRACT_ROLES } from './revert-catalog';
+
+export type RoleAction = 'granted' | 'revoked';
+
+/** `owner` stands for the `owner()` of an Ownable contract. */
+export const OWNER_PSEUDO_ROLE = 'owner';
+
+export interface RoleChange {
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  contract: string;
+  contractAddress: string;
+  action: RoleAction;
+  role: string;
+  roleName: string;
+  account: string;
+  /** Account that made the change, when the event carries it. */
+  sender?: string;
+}
+
+export interface RoleHolder {
+  contract: string;
+  contractAddress: string;
+  role: string;
+  roleName: string;
+  account: string;
+  /** Manifest name of the account when it is a contract of the suite. */
+  accountName?: string;
+  accountType: 'eoa' | 'contract';
+  /** Change that gave the account the role. */
+  since: { blockNumber: number; transactionHash: string };
+}
+
+export type RoleRiskCode =
+  | 'EOA_DEFAULT_ADMIN'
+  | 'NO_DEFAULT_ADMIN'
+  | 'TOKEN_NOT_REGISTRY_AGENT'
+  | 'REGISTRY_NOT_STORAGE_AGENT'
+  | 'EVENTS_OUT_OF_SYNC';
+
+export interface RoleRisk {
+  code: RoleRiskCode;
+  severity: 'high' | 'medium';
+  contract: string;
+  account?: string;
+  message: string;
+}
+
+export interface RoleInventory {
+  network: string;
+  chainId: number;
+  blockNumber: number;
+  /** Contracts of the manifest whose roles were replayed, and how they control access. */
+  contracts: { name: string; address: string; kind: 'access-control' | 'ownable' }[];
+  holders: RoleHolder[];
+  history: RoleChange[];
+  risks: RoleRisk[];
+}
+
+export interface RoleInventoryOptions {
+  /** Last block to replay, by default the current head. */
+  toBlock?: number;
+  /** Blocks per `eth_getLogs` query. */
+  batchSize?: number;
+}
+
+export const ROLE_MATRIX_HEADER = [
+  'contract',
+  'contractAddress',
+  'role',
+  'roleName',
+  'account',
+  'accountName',
+  'accountType',
+  'sinceBlock',
+  'transactionHash',
+];
+export const ROLE_HISTORY_HEADER = ['blockNumber', 'transactionHash', 'contract', 'action', 'roleName', 'role', 'account', 'sender'];
+
+const DEFAULT_BATCH_SIZE = 10_000;
+
+// type(IAccessControl).interfaceId
+const ACCESS_CONTROL_INTERFACE_ID = '0x7965db0b';
+
+const DEFAULT_ADMIN_ROLE = constants.HashZero;
+const AGENT_ROLE = utils.id('AGENT_ROLE');
+
+const accessControlInterface = AccessControl__factory.createInterface();
+const ownableInterface = Ownable__factory.createInterface();
+const ROLE_TOPICS = [
+  accessControlInterface.getEventTopic('RoleGranted'),
+  accessControlInterface.getEventTopic('RoleRevoked'),
+  ownableInterface.getEventTopic('OwnershipTransferred'),
+];
+
+export const roleName = (role: string) => {
+  if (role === OWNER_PSEUDO_ROLE) return 'owner()';
+  if (role === DEFAULT_ADMIN_ROLE) return 'DEFAULT_ADMIN_ROLE';
+  return CONTRACT_ROLES[role.toLowerCase()] ?? role;
+};
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const byChainOrder = (a: Log, b: Log) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+
+async function accessKind(provider: Provider, address: string): Promise<'access-control' | 'ownable' | undefined> {
+  const supportsAccessControl = await AccessControl__factory.connect(address, provider)
+    .supportsInterface(ACCESS_CONTROL_INTERFACE_ID)
+    .catch(() => false);
+  if (supportsAccessControl) return 'access-control';
+  const hasOwner = await Ownable__factory.connect(address, provider)
+    .owner()
+    .then(
+      () => true,
+      () => false,
+    );
+  return hasOwner ? 'ownable' : undefined;
+}
+
+async function fetchLogs(provider: Provider, address: string, fromBlock: number, toBlock: number, batchSize: number): Promise<Log[]> {
+  const ranges = Array.from({ length: Math.max(0, Math.ceil((toBlock - fromBlock + 1) / batchSize)) }, (_, i) => fromBlock + i * batchSize);
+  const batches = await ranges.reduce<Promise<Log[][]>>(
+    async (previous, start) => [
+      ...(await previous),
+      await provider.getLogs({ address, topics: [ROLE_TOPICS], fromBlock: start, toBlock: Math.min(start + batchSize - 1, toBlock) }),
+    ],
+    Promise.resolve([]),
+  );
+  return batches.flat();
+}
+
+/** The changes a log stands for: an ownership transfer revokes the previous owner and grants the new one. */
+function logChanges(log: Log, contract: string): RoleChange[] {
+  const base = { blockNumber: log.blockNumber, transactionHash: log.transactionHash, logIndex: log.logIndex, contract, contractAddress: log.address };
+  if (log.topics[0] === ROLE_TOPICS[2]) {
+    const [previousOwner, newOwner] = ownableInterface.parseLog(log).args;
+    return [
+      { action: 'revoked' as const, account: previousOwner },
+      { action: 'granted' as const, account: newOwner },
+    ]
+      .filter((change) => change.account !== constants.AddressZero)
+      .map((change) => ({ ...base, ...change, role: OWNER_PSEUDO_ROLE, roleName: roleName(OWNER_PSEUDO_ROLE) }));
+  }
+  const parsed = accessControlInterface.parseLog(log);
+  const [role, account, sender] = parsed.args;
+  return [{ ...base, action: parsed.name === 'RoleGranted' ? 'granted' : 'revoked', role, roleName: roleName(role), account, sender }];
+}
+
+export async function buildRoleInventory(
+  manifest: DeploymentManifest,
+  provider: Provider,
+  options: RoleInventoryOptions = {},
+): Promise<RoleInventory> {
+  const toBlock = options.toBlock ?? (await provider.getBlock('latest')).number;
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const entries = Object.entries(manifest.contracts);
+  const kinds = await Promise.all(entries.map(([, deployed]) => accessKind(provider, deployed.address)));
+  const tracked = entries
+    .map(([name, deployed], i) => ({ name, address: deployed.address, blockNumber: deployed.blockNumber, kind: kinds[i] }))
+    .filter((contract): contract is typeof contract & { kind: 'access-control' | 'ownable' } => contract.kind !== undefined);
+
+  const logs = await tracked.reduce<Promise<{ log: Log; contract: string }[]>>(
+    async (previous, contract) => [
+      ...(await previous),
+      ...(await fetchLogs(provider, contract.address, contract.blockNumber, toBlock, batchSize)).map((log) => ({ log, contract: contract.name })),
+    ],
+    Promise.resolve([]),
+  );
+  const history = logs.sort((a, b) => byChainOrder(a.log, b.log)).flatMap(({ log, contract }) => logChanges(log, contract));
+
+  // replay: the last change of each (contract, role, account) decides
+  const current = new Map<string, RoleChange>();
+  history.forEach((change) => {
+    const key = `${change.contract}|${change.role}|${change.account}`;
+    if (change.action === 'granted') current.set(key, change);
+    else current.delete(key);
+  });
+  const grants = [...current.values()];
+  const codes = await Promise.all(grants.map((change) => provider.getCode(change.account, toBlock)));
+  const names = new Map(entries.map(([name, deployed]) => [deployed.address.toLowerCase(), name]));
+  const holders: RoleHolder[] = grants.map((change, i) => ({
+    contract: change.contract,
+    contractAddress: change.contractAddress,
+    role: change.role,
+    roleName: change.roleName,
+    account: change.account,
+    accountName: names.get(change.account.toLowerCase()),
+    accountType: codes[i] === '0x' ? 'eoa' : 'contract',
+    since: { blockNumber: change.blockNumber, transactionHash: change.transactionHash },
+  }));
+
+  const { chainId } = await provider.getNetwork();
+  const contracts = tracked.map(({ name, address, kind }) => ({ name, address, kind }));
+  const inventory = { network: manifest.network, chainId, blockNumber: toBlock, contracts, holders, history };
+  return { ...inventory, risks: [...matrixRisks(inventory, manifest), ...(await syncRisks(inventory, provider))] };
+}
+
+const holds = (inventory: Pick<RoleInventory, 'holders'>, contract: string, role: string, account?: string) =>
+  inventory.holders.some((holder) => holder.contract === contract && holder.role === role && (!account || sameAddress(holder.account, account)));
+
+function matrixRisks(inventory: Omit<RoleInventory, 'risks'>, manifest: DeploymentManifest): RoleRisk[] {
+  const risks: RoleRisk[] = [];
+  inventory.holders
+    .filter((holder) => holder.role === DEFAULT_ADMIN_ROLE && holder.accountType === 'eoa')
+    .forEach((holder) =>
+      risks.push({
+        code: 'EOA_DEFAULT_ADMIN',
+        severity: 'high',
+        contract: holder.contract,
+        account: holder.account,
+        message: `${holder.account} is an externally owned account holding DEFAULT_ADMIN_ROLE on ${holder.contract}`,
+      }),
+    );
+  inventory.contracts
+    .filter((contract) => contract.kind === 'access-control' && !holds(inventory, contract.name, DEFAULT_ADMIN_ROLE))
+    .forEach((contract) =>
+      risks.push({
+        code: 'NO_DEFAULT_ADMIN',
+        severity: 'medium',
+        contract: contract.name,
+        message: `Nobody holds DEFAULT_ADMIN_ROLE on ${contract.name}: its roles can no longer be granted or revoked`,
+      }),
+    );
+
+  const { Token: token, IdentityRegistry: registry, IdentityRegistryStorage: storage } = manifest.contracts;
+  if (token && registry && !holds(inventory, 'IdentityRegistry', AGENT_ROLE, token.address)) {
+    risks.push({
+      code: 'TOKEN_NOT_REGISTRY_AGENT',
+      severity: 'high',
+      contract: 'IdentityRegistry',
+      account: token.address,
+      message: 'The Token does not hold AGENT_ROLE on the IdentityRegistry: recoveryAddress cannot register the new wallet',
+    });
+  }
+  if (registry && storage && !holds(inventory, 'IdentityRegistryStorage', AGENT_ROLE, registry.address)) {
+    risks.push({
+      code: 'REGISTRY_NOT_STORAGE_AGENT',
+      severity: 'high',
+      contract: 'IdentityRegistryStorage',
+      account: registry.address,
+      message: 'The IdentityRegistry does not hold AGENT_ROLE on the IdentityRegistryStorage: registrations revert',
+    });
+  }
+  return risks;
+}
+
+/** Holders the events say exist but the contracts deny, and owners the events missed. */
+async function syncRisks(inventory: Omit<RoleInventory, 'risks'>, provider: Provider): Promise<RoleRisk[]> {
+  const blockTag = inventory.blockNumber;
+  const holderChecks = await Promise.all(
+    inventory.holders.map(async (holder) => {
+      if (holder.role === OWNER_PSEUDO_ROLE) {
+        return sameAddress(await Ownable__factory.connect(holder.contractAddress, provider).owner({ blockTag }), holder.account);
+      }
+      return AccessControl__factory.connect(holder.contractAddress, provider).hasRole(holder.role, holder.account, { blockTag });
+    }),
+  );
+  const owners = await Promise.all(
+    inventory.contracts
+      .filter((contract) => contract.kind === 'ownable')
+      .map(async (contract) => ({ contract, owner: await Ownable__factory.connect(contract.address, provider).owner({ blockTag }) })),
+  );
+  const outOfSync = (contract: string, account: string, message: string): RoleRisk => ({
+    code: 'EVENTS_OUT_OF_SYNC',
+    severity: 'high',
+    contract,
+    account,
+    message,
+  });
+  return [
+    ...inventory.holders
+      .filter((_, i) => !holderChecks[i])
+      .map((holder) =>
+        outOfSync(
+          holder.contract,
+          holder.account,
+          `Events grant ${holder.roleName} on ${holder.contract} to ${holder.account}, the contract denies it`,
+        ),
+      ),
+    ...owners
+      .filter(({ contract, owner }) => owner !== constants.AddressZero && !holds(inventory, contract.name, OWNER_PSEUDO_ROLE, owner))
+      .map(({ contract, owner }) => outOfSync(contract.name, owner, `${owner} owns ${contract.name} but no OwnershipTransferred event says so`)),
+  ];
+}
+
+export function roleMatrixCsv(inventory: RoleInventory): string {
+  const rows = inventory.holders.map((holder) => [
+    holder.contract,
+    holder.contractAddress,
+    holder.role,
+    holder.roleName,
+    holder.account,
+    holder.accountName ?? '',
+    holder.accountType,
+    holder.since.blockNumber.toString(),
+    holder.since.transactionHash,
+  ]);
+  return formatCsv(ROLE_MATRIX_HEADER, rows);
+}
+
+export function roleHistoryCsv(inventory: RoleInventory): string {
+  const rows = inventory.history.map((change) => [
+    change.blockNumber.toString(),
+    change.transactionHash,
+    change.contract,
+    change.action,
+    change.roleName,
+    change.role,
+    change.account,
+    change.sender ?? '',
+  ]);
+  return formatCsv(ROLE_HISTORY_HEADER, rows);
+}
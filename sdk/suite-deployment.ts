@@ -0,0 +1,254 @@
+/**
+ * Deploys and wires the contracts in `contracts/`: ClaimTopicsRegistry, ClaimIssuersRegistry,
+ * IdentityRegistryStorage, IdentityRegistry, BasicCompliance and Token, plus the OnchainID pieces the suite
+ * needs (identity implementation + authority, the token ONCHAINID and a ClaimIssuer).
+ *
+ * Wiring:
+ * - `IdentityRegistryStorage.bindIdentityRegistry(identityRegistry)`, which grants the registry AGENT_ROLE on the storage
+ * - AGENT_ROLE on `IdentityRegistry` for the token (`recoveryAddress` registers and deletes identities)
+ * - AGENT_ROLE on `Token` and `IdentityRegistry` for the configured agents (the deployer is always one)
+ * - required claim topics in `ClaimTopicsRegistry`, the ClaimIssuer trusted for all of them in `ClaimIssuersRegistry`
+ *
+ * `checkSuiteLinks` reads every one of these links back from the chain.
+ */
+import { BigNumber, BigNumberish, Contract, Signer } from 'ethers';
+import { Provider } from '@ethersproject/providers';
+import {
+  BasicCompliance,
+  BasicCompliance__factory,
+  ClaimIssuer,
+  ClaimIssuer__factory,
+  ClaimIssuersRegistry,
+  ClaimIssuersRegistry__factory,
+  ClaimTopicsRegistry,
+  ClaimTopicsRegistry__factory,
+  IClaimIssuer__factory,
+  IdentityProxy__factory,
+  IdentityRegistry,
+  IdentityRegistryStorage,
+  IdentityRegistryStorage__factory,
+  IdentityRegistry__factory,
+  Identity__factory,
+  ImplementationAuthority__factory,
+  Token,
+  Token__factory,
+} from '../typechain-types';
+import { CLAIM_SIGNER_KEY_PURPOSE } from './claim-builder';
+import { DeploymentManifest, TokenDetails, contractAddress, recordDeployment } from './deployment-manifest';
+import { walletKey } from './token-client';
+
+export interface SuiteDeploymentOptions {
+  token: TokenDetails;
+  /** Claim topics an identity must hold to be verified. */
+  claimTopics: BigNumberish[];
+  /** Agents on the Token and the IdentityRegistry in addition to the deployer. */
+  agents?: string[];
+  /** Keys allowed to sign claims for the suite ClaimIssuer (ERC-734 purpose 3). */
+  claimSigners?: string[];
+  /** Management key of the token ONCHAINID, the deployer by default. */
+  tokenOwner?: string;
+  /** Every contract is recorded in it as soon as it is deployed. */
+  manifest?: DeploymentManifest;
+  /** Called after each deployment or wiring step. */
+  log?: (_message: string) => void;
+}
+
+export interface DeployedSuite {
+  identityImplementation: Contract;
+  identityImplementationAuthority: Contract;
+  claimTopicsRegistry: ClaimTopicsRegistry;
+  claimIssuersRegistry: ClaimIssuersRegistry;
+  identityRegistryStorage: IdentityRegistryStorage;
+  identityRegistry: IdentityRegistry;
+  compliance: BasicCompliance;
+  tokenOID: Contract;
+  token: Token;
+  claimIssuer: ClaimIssuer;
+}
+
+/** Manifest names of the suite contracts. */
+export const SUITE_CONTRACTS = {
+  identityImplementation: 'IdentityImplementation',
+  identityImplementationAuthority: 'IdentityImplementationAuthority',
+  claimTopicsRegistry: 'ClaimTopicsRegistry',
+  claimIssuersRegistry: 'ClaimIssuersRegistry',
+  identityRegistryStorage: 'IdentityRegistryStorage',
+  identityRegistry: 'IdentityRegistry',
+  compliance: 'BasicCompliance',
+  tokenOID: 'TokenOID',
+  token: 'Token',
+  claimIssuer: 'ClaimIssuer',
+} as const;
+
+export type SuiteAddresses = Record<keyof typeof SUITE_CONTRACTS, string>;
+
+export interface SuiteExpectations {
+  claimTopics: BigNumberish[];
+  agents: string[];
+  claimSigners: string[];
+}
+
+export interface LinkCheck {
+  label: string;
+  ok: boolean;
+}
+
+// Transactions from one signer are sent one after the other so nonces stay ordered
+const inSequence = <T>(items: T[], step: (_item: T) => Promise<void>) =>
+  items.reduce<Promise<void>>((previous, item) => previous.then(() => step(item)), Promise.resolve());
+
+export async function deploySuite(deployer: Signer, options: SuiteDeploymentOptions): Promise<DeployedSuite> {
+  const deployerAddress = await deployer.getAddress();
+  const { manifest, log = () => {} } = options;
+  const deployed = async <T extends Contract>(key: keyof typeof SUITE_CONTRACTS, contract: T): Promise<T> => {
+    if (manifest) await recordDeployment(manifest, SUITE_CONTRACTS[key], contract);
+    else await contract.deployed();
+    log(`${SUITE_CONTRACTS[key]} deployed to ${contract.address}`);
+    return contract;
+  };
+  const wired = async (message: string, tx: Promise<{ wait: () => Promise<unknown> }>) => {
+    await (await tx).wait();
+    log(message);
+  };
+
+  const identityImplementation = await deployed('identityImplementation', await new Identity__factory(deployer).deploy(deployerAddress, true));
+  const identityImplementationAuthority = await deployed(
+    'identityImplementationAuthority',
+    await new ImplementationAuthority__factory(deployer).deploy(identityImplementation.address),
+  );
+
+  const claimTopicsRegistry = await deployed('claimTopicsRegistry', await new ClaimTopicsRegistry__factory(deployer).deploy());
+  const claimIssuersRegistry = await deployed('claimIssuersRegistry', await new ClaimIssuersRegistry__factory(deployer).deploy());
+  const identityRegistryStorage = await deployed('identityRegistryStorage', await new IdentityRegistryStorage__factory(deployer).deploy());
+  const identityRegistry = await deployed(
+    'identityRegistry',
+    await new IdentityRegistry__factory(deployer).deploy(claimIssuersRegistry.address, claimTopicsRegistry.address, identityRegistryStorage.address),
+  );
+  const compliance = await deployed('compliance', await new BasicCompliance__factory(deployer).deploy());
+
+  const tokenOIDProxy = await deployed(
+    'tokenOID',
+    await new IdentityProxy__factory(deployer).deploy(identityImplementationAuthority.address, options.tokenOwner ?? deployerAddress),
+  );
+  const tokenOID = Identity__factory.connect(tokenOIDProxy.address, deployer);
+  const { name, symbol, decimals } = options.token;
+  if (manifest) manifest.token = { name, symbol, decimals };
+  // The constructor binds the token to the compliance and makes the deployer owner and agent
+  const token = await deployed(
+    'token',
+    await new Token__factory(deployer).deploy(identityRegistry.address, compliance.address, name, symbol, decimals, tokenOID.address),
+  );
+
+  await wired('IdentityRegistryStorage bound to IdentityRegistry', identityRegistryStorage.bindIdentityRegistry(identityRegistry.address));
+  await wired('Token granted AGENT_ROLE on IdentityRegistry', identityRegistry.grantRole(await identityRegistry.AGENT_ROLE(), token.address));
+  const [tokenAgentRole, registryAgentRole] = await Promise.all([token.AGENT_ROLE(), identityRegistry.AGENT_ROLE()]);
+  await inSequence([deployerAddress, ...(options.agents ?? [])], async (agent) => {
+    await wired(`${agent} granted AGENT_ROLE on IdentityRegistry`, identityRegistry.grantRole(registryAgentRole, agent));
+    if (!(await token.hasRole(tokenAgentRole, agent))) {
+      await wired(`${agent} granted AGENT_ROLE on Token`, token.grantRole(tokenAgentRole, agent));
+    }
+  });
+
+  await inSequence(options.claimTopics, (topic) =>
+    wired(`Claim topic ${BigNumber.from(topic).toHexString()} required`, claimTopicsRegistry.addClaimTopic(topic)),
+  );
+  const claimIssuer = await deployed('claimIssuer', await new ClaimIssuer__factory(deployer).deploy(deployerAddress));
+  await inSequence(options.claimSigners ?? [], (signer) =>
+    wired(`${signer} added as ClaimIssuer signing key`, claimIssuer.addKey(walletKey(signer), CLAIM_SIGNER_KEY_PURPOSE, 1)),
+  );
+  await wired('ClaimIssuer trusted for every required topic', claimIssuersRegistry.addClaimIssuer(claimIssuer.address, options.claimTopics));
+
+  return {
+    identityImplementation,
+    identityImplementationAuthority,
+    claimTopicsRegistry,
+    claimIssuersRegistry,
+    identityRegistryStorage,
+    identityRegistry,
+    compliance,
+    tokenOID,
+    token,
+    claimIssuer,
+  };
+}
+
+export const suiteAddresses = (suite: DeployedSuite): SuiteAddresses =>
+  Object.fromEntries(Object.entries(suite).map(([key, contract]) => [key, contract.address])) as SuiteAddresses;
+
+export const suiteAddressesFromManifest = (manifest: DeploymentManifest): SuiteAddresses =>
+  Object.fromEntries(Object.entries(SUITE_CONTRACTS).map(([key, name]) => [key, contractAddress(manifest, name)])) as SuiteAddresses;
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/** Reads every link `deploySuite` creates back from the chain. */
+export async function checkSuiteLinks(addresses: SuiteAddresses, provider: Provider, expected: SuiteExpectations): Promise<LinkCheck[]> {
+  const token = Token__factory.connect(addresses.token, provider);
+  const identityRegistry = IdentityRegistry__factory.connect(addresses.identityRegistry, provider);
+  const identityRegistryStorage = IdentityRegistryStorage__factory.connect(addresses.identityRegistryStorage, provider);
+  const compliance = BasicCompliance__factory.connect(addresses.compliance, provider);
+  const claimTopicsRegistry = ClaimTopicsRegistry__factory.connect(addresses.claimTopicsRegistry, provider);
+  const claimIssuersRegistry = ClaimIssuersRegistry__factory.connect(addresses.claimIssuersRegistry, provider);
+  const claimIssuer = IClaimIssuer__factory.connect(addresses.claimIssuer, provider);
+  const implementationAuthority = ImplementationAuthority__factory.connect(addresses.identityImplementationAuthority, provider);
+  const [tokenAgentRole, registryAgentRole, storageAgentRole] = await Promise.all([
+    token.AGENT_ROLE(),
+    identityRegistry.AGENT_ROLE(),
+    identityRegistryStorage.AGENT_ROLE(),
+  ]);
+  const requiredTopics = claimTopicsRegistry.getClaimTopics();
+  const issuerTopics = claimIssuersRegistry
+    .isClaimIssuer(addresses.claimIssuer)
+    .then((trusted) => (trusted ? claimIssuersRegistry.getClaimIssuerClaimTopics(addresses.claimIssuer) : []));
+
+  const links: [string, Promise<boolean>][] = [
+    ['Token is linked to the IdentityRegistry', token.identityRegistry().then((linked) => sameAddress(linked, addresses.identityRegistry))],
+    ['Token is linked to the BasicCompliance', token.compliance().then((linked) => sameAddress(linked, addresses.compliance))],
+    ['Token is linked to its ONCHAINID', token.onchainID().then((linked) => sameAddress(linked, addresses.tokenOID))],
+    ['BasicCompliance is bound to the Token', compliance.tokenBound().then((bound) => sameAddress(bound, addresses.token))],
+    [
+      'IdentityRegistry is linked to the ClaimTopicsRegistry',
+      identityRegistry.topicsRegistry().then((linked) => sameAddress(linked, addresses.claimTopicsRegistry)),
+    ],
+    [
+      'IdentityRegistry is linked to the ClaimIssuersRegistry',
+      identityRegistry.issuersRegistry().then((linked) => sameAddress(linked, addresses.claimIssuersRegistry)),
+    ],
+    [
+      'IdentityRegistry is linked to the IdentityRegistryStorage',
+      identityRegistry.identityStorage().then((linked) => sameAddress(linked, addresses.identityRegistryStorage)),
+    ],
+    [
+      'IdentityRegistryStorage is bound to the IdentityRegistry',
+      identityRegistryStorage
+        .linkedIdentityRegistries()
+        .then((linked) => linked.some((registry) => sameAddress(registry, addresses.identityRegistry))),
+    ],
+    ['IdentityRegistry has AGENT_ROLE on IdentityRegistryStorage', identityRegistryStorage.hasRole(storageAgentRole, addresses.identityRegistry)],
+    ['Token has AGENT_ROLE on IdentityRegistry', identityRegistry.hasRole(registryAgentRole, addresses.token)],
+    [
+      'Identity implementation authority points to the implementation',
+      implementationAuthority.getImplementation().then((implementation) => sameAddress(implementation, addresses.identityImplementation)),
+    ],
+    ...expected.agents.flatMap((agent): [string, Promise<boolean>][] => [
+      [`${agent} has AGENT_ROLE on Token`, token.hasRole(tokenAgentRole, agent)],
+      [`${agent} has AGENT_ROLE on IdentityRegistry`, identityRegistry.hasRole(registryAgentRole, agent)],
+    ]),
+    ...expected.claimTopics.flatMap((topic): [string, Promise<boolean>][] => [
+      [
+        `Claim topic ${BigNumber.from(topic).toHexString()} is required`,
+        requiredTopics.then((topics) => topics.some((required) => required.eq(topic))),
+      ],
+      [
+        `ClaimIssuer is trusted for topic ${BigNumber.from(topic).toHexString()}`,
+        issuerTopics.then((topics) => topics.some((trusted) => trusted.eq(topic))),
+      ],
+    ]),
+    ...expected.claimSigners.map((signer): [string, Promise<boolean>] => [
+      `${signer} is a ClaimIssuer signing key`,
+      claimIssuer.keyHasPurpose(walletKey(signer), CLAIM_SIGNER_KEY_PURPOSE),
+    ]),
+  ];
+
+  const results = await Promise.all(links.map(([, ok]) => ok));
+  return links.map(([label], index) => ({ label, ok: results[index] }));
+}
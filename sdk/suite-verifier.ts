@@ -0,0 +1,184 @@
+/**
+ * Post-deployment verification of the suite recorded in a deployment manifest, for CI and release checklists.
+ *
+ * Reads every link of the real contracts back from the chain: Token -> IdentityRegistry / compliance,
+ * IdentityRegistry -> ClaimIssuersRegistry / ClaimTopicsRegistry / IdentityRegistryStorage, the compliance and
+ * storage bindings, the contract-to-contract roles the suite needs (Token agent of the registry, registry agent of
+ * the storage) together with a `DEFAULT_ADMIN_ROLE` holder and an agent where operations need one, a trusted issuer
+ * for each required claim topic and the token name, symbol and decimals recorded in the manifest.
+ *
+ * The compliance is the BasicCompliance, or the contract of the manifest the token was moved to with
+ * `setCompliance` (e.g. by `attachCountryRestrictCompliance`).
+ *
+ * Every check is reported, passed or failed, with the value read when it failed; the suite passes when every check
+ * passes. A contract missing from the manifest fails its own check and skips the checks that need it.
+ *
+ * Usage:
+ *   const report = await verifySuite(manifest, ethers.provider, { agents: [agent] });
+ *   console.log(formatSuiteReport(report));
+ *   if (!report.passed) process.exitCode = 1;
+ */
+import { BigNumber, constants } from 'ethers';
+import { Provider } from '@ethersproject/providers';
+import {
+  ClaimIssuersRegistry__factory,
+  ClaimTopicsRegistry__factory,
+  IdentityRegistryStorage__factory,
+  ICompliance__factory,
+  IdentityRegistry__factory,
+  Token__factory,
+} from '../typechain-types';
+import { DeploymentManifest } from './deployment-manifest';
+import { buildRoleInventory } from './role-inventory';
+
+export interface SuiteCheck {
+  label: string;
+  ok: boolean;
+  /** What was read on-chain, for failed checks. */
+  detail?: string;
+}
+
+export interface SuiteReport {
+  network: string;
+  chainId: number;
+  blockNumber: number;
+  passed: boolean;
+  checks: SuiteCheck[];
+}
+
+export interface SuiteVerificationOptions {
+  /** Accounts that must hold AGENT_ROLE on the Token and on the IdentityRegistry. */
+  agents?: string[];
+}
+
+export const VERIFIED_CONTRACTS = [
+  'Token',
+  'IdentityRegistry',
+  'IdentityRegistryStorage',
+  'ClaimTopicsRegistry',
+  'ClaimIssuersRegistry',
+  'BasicCompliance',
+] as const;
+
+const AGENT_ROLE_NAME = 'AGENT_ROLE';
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const check = (label: string, ok: boolean, detail: string): SuiteCheck => (ok ? { label, ok } : { label, ok, detail });
+
+const linkCheck = (label: string, actual: string, expected: string) => check(label, sameAddress(actual, expected), `points to ${actual}`);
+
+export async function verifySuite(manifest: DeploymentManifest, provider: Provider, options: SuiteVerificationOptions = {}): Promise<SuiteReport> {
+  const blockNumber = (await provider.getBlock('latest')).number;
+  const { chainId } = await provider.getNetwork();
+  const report = (checks: SuiteCheck[]): SuiteReport => ({
+    network: manifest.network,
+    chainId,
+    blockNumber,
+    passed: checks.every((result) => result.ok),
+    checks,
+  });
+
+  const codes = await Promise.all(
+    VERIFIED_CONTRACTS.map((name) => (manifest.contracts[name] ? provider.getCode(manifest.contracts[name].address) : Promise.resolve(undefined))),
+  );
+  const presence = VERIFIED_CONTRACTS.map((name, i) => {
+    if (codes[i] === undefined) return check(`${name} is recorded in the manifest`, false, 'missing from the manifest');
+    return check(`${name} has code at ${manifest.contracts[name].address}`, codes[i] !== '0x', 'no contract at this address');
+  });
+  if (presence.some((result) => !result.ok)) return report(presence);
+
+  const address = (name: (typeof VERIFIED_CONTRACTS)[number]) => manifest.contracts[name].address;
+  const token = Token__factory.connect(address('Token'), provider);
+  const identityRegistry = IdentityRegistry__factory.connect(address('IdentityRegistry'), provider);
+  const storage = IdentityRegistryStorage__factory.connect(address('IdentityRegistryStorage'), provider);
+  const topicsRegistry = ClaimTopicsRegistry__factory.connect(address('ClaimTopicsRegistry'), provider);
+  const issuersRegistry = ClaimIssuersRegistry__factory.connect(address('ClaimIssuersRegistry'), provider);
+
+  // The token may have been moved to another compliance recorded in the manifest (e.g. a CountryRestrictCompliance)
+  const linkedCompliance = await token.compliance();
+  const complianceName =
+    Object.keys(manifest.contracts).find((name) => sameAddress(manifest.contracts[name].address, linkedCompliance)) ?? 'BasicCompliance';
+  const compliance = ICompliance__factory.connect(manifest.contracts[complianceName].address, provider);
+
+  const [linkedRegistry, issuers, topics, identityStorage, tokenBound, linkedRegistries] = await Promise.all([
+    token.identityRegistry(),
+    identityRegistry.issuersRegistry(),
+    identityRegistry.topicsRegistry(),
+    identityRegistry.identityStorage(),
+    compliance.isTokenBound(address('Token')),
+    storage.linkedIdentityRegistries(),
+  ]);
+  const links = [
+    linkCheck('Token.identityRegistry() is the IdentityRegistry', linkedRegistry, address('IdentityRegistry')),
+    linkCheck(`Token.compliance() is the ${complianceName}`, linkedCompliance, compliance.address),
+    linkCheck('IdentityRegistry.issuersRegistry() is the ClaimIssuersRegistry', issuers, address('ClaimIssuersRegistry')),
+    linkCheck('IdentityRegistry.topicsRegistry() is the ClaimTopicsRegistry', topics, address('ClaimTopicsRegistry')),
+    linkCheck('IdentityRegistry.identityStorage() is the IdentityRegistryStorage', identityStorage, address('IdentityRegistryStorage')),
+    check(`${complianceName}.isTokenBound(Token)`, tokenBound, 'the Token is not bound'),
+    check(
+      'IdentityRegistryStorage is bound to the IdentityRegistry',
+      linkedRegistries.some((registry) => sameAddress(registry, address('IdentityRegistry'))),
+      `bound registries: ${linkedRegistries.join(', ') || 'none'}`,
+    ),
+  ];
+
+  const inventory = await buildRoleInventory(manifest, provider, { toBlock: blockNumber });
+  const holders = (contract: string, roleName: string) =>
+    inventory.holders.filter((holder) => holder.contract === contract && holder.roleName === roleName).map((holder) => holder.account);
+  const holds = (contract: string, roleName: string, account: string) => holders(contract, roleName).some((holder) => sameAddress(holder, account));
+  const roles = [
+    ...linkedRegistries.map((registry) =>
+      check(
+        `Bound registry ${registry} holds AGENT_ROLE on the IdentityRegistryStorage`,
+        holds('IdentityRegistryStorage', AGENT_ROLE_NAME, registry),
+        'role missing',
+      ),
+    ),
+    check('Token holds AGENT_ROLE on the IdentityRegistry', holds('IdentityRegistry', AGENT_ROLE_NAME, address('Token')), 'role missing'),
+    ...['Token', 'IdentityRegistry', 'IdentityRegistryStorage', complianceName].map((contract) =>
+      check(`${contract} has a DEFAULT_ADMIN_ROLE holder`, holders(contract, 'DEFAULT_ADMIN_ROLE').length > 0, 'nobody holds it'),
+    ),
+    check('Token has at least one agent', holders('Token', AGENT_ROLE_NAME).length > 0, 'nobody holds AGENT_ROLE'),
+    ...(options.agents ?? []).flatMap((agent) =>
+      (['Token', 'IdentityRegistry'] as const).map((contract) =>
+        check(`${agent} holds AGENT_ROLE on the ${contract}`, holds(contract, AGENT_ROLE_NAME, agent), 'role missing'),
+      ),
+    ),
+    ...inventory.risks
+      .filter((risk) => risk.code === 'EVENTS_OUT_OF_SYNC')
+      .map((risk) => check('Role events agree with hasRole / owner()', false, risk.message)),
+  ];
+
+  const requiredTopics = await topicsRegistry.getClaimTopics();
+  const topicIssuers = await Promise.all(requiredTopics.map((topic) => issuersRegistry.getClaimIssuersForClaimTopic(topic)));
+  const claims = [
+    check('At least one claim topic is required', requiredTopics.length > 0, 'ClaimTopicsRegistry.getClaimTopics() is empty'),
+    ...requiredTopics.map((topic: BigNumber, i) =>
+      check(
+        `Claim topic ${topic.toHexString()} has a trusted issuer`,
+        topicIssuers[i].some((issuer) => issuer !== constants.AddressZero),
+        'no issuer',
+      ),
+    ),
+  ];
+
+  const [name, symbol, decimals] = await Promise.all([token.name(), token.symbol(), token.decimals()]);
+  const expected = manifest.token;
+  const details = expected
+    ? [
+        check(`Token name is "${expected.name}"`, name === expected.name, `name is "${name}"`),
+        check(`Token symbol is "${expected.symbol}"`, symbol === expected.symbol, `symbol is "${symbol}"`),
+        check(`Token decimals are ${expected.decimals}`, decimals === expected.decimals, `decimals are ${decimals}`),
+      ]
+    : [check('Manifest records the token name, symbol and decimals', false, 'the manifest has no "token" entry')];
+
+  return report([...presence, ...links, ...roles, ...claims, ...details]);
+}
+
+export function formatSuiteReport(report: SuiteReport): string {
+  const lines = report.checks.map((result) => `${result.ok ? 'PASS' : 'FAIL'} ${result.label}${result.detail ? ` (${result.detail})` : ''}`);
+  const failed = report.checks.filter((result) => !result.ok).length;
+  const summary = failed === 0 ? `All ${report.checks.length} checks passed` : `${failed} of ${report.checks.length} checks failed`;
+  return [`Suite verification on ${report.network} (chain ${report.chainId}) at block ${report.blockNumber}`, ...lines, summary].join('\n');
+}
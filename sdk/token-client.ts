@@ -0,0 +1,406 @@
+/**
+ * Typed client for the ERC-3643 `Token` contract.
+ *
+ * Every state-changing method first runs the read-only checks that `Token.sol` enforces
+ * (pause state, frozen wallets, frozen balances, receiver verification, compliance, agent role)
+ * and resolves to a `TokenTxResult` describing why the call would fail instead of sending a
+ * transaction that reverts. Transactions that still revert on-chain are reported the same way.
+ *
+ * Usage:
+ *   const client = TokenClient.connect(tokenAddress, agentSigner);
+ *   const result = await client.mint(investor, 1000);
+ *   if (!result.ok) console.log(result.failures);
+ */
+import { BigNumber, BigNumberish, ContractReceipt, ContractTransaction, Overrides, Signer, constants, utils } from 'ethers';
+import { Provider } from '@ethersproject/providers';
+import { ICompliance__factory, IIdentity__factory, IdentityRegistry__factory, Token, Token__factory } from '../typechain-types';
+import { TransferExplanation, explainTransfer } from './transfer-explainer';
+
+export type PreflightCode =
+  | 'NO_SIGNER'
+  | 'MISSING_AGENT_ROLE'
+  | 'TOKEN_PAUSED'
+  | 'TOKEN_NOT_PAUSED'
+  | 'ZERO_ADDRESS'
+  | 'ARRAY_SIZE_MISMATCH'
+  | 'SENDER_FROZEN'
+  | 'RECEIVER_FROZEN'
+  | 'INSUFFICIENT_BALANCE'
+  | 'INSUFFICIENT_FREE_BALANCE'
+  | 'INSUFFICIENT_ALLOWANCE'
+  | 'INSUFFICIENT_FROZEN_TOKENS'
+  | 'RECEIVER_NOT_VERIFIED'
+  | 'COMPLIANCE_FAILURE'
+  | 'NO_TOKENS_TO_RECOVER'
+  | 'RECOVERY_KEY_MISSING'
+  | 'WALLET_ALREADY_REGISTERED'
+  | 'TRANSACTION_REVERTED';
+
+export interface PreflightFailure {
+  code: PreflightCode;
+  message: string;
+  /** Position of the offending item when the failure comes from a batch call. */
+  index?: number;
+}
+
+export type TokenTxResult = { ok: true; transactionHash: string; receipt: ContractReceipt } | { ok: false; failures: PreflightFailure[] };
+
+export interface WalletState {
+  balance: BigNumber;
+  frozenTokens: BigNumber;
+  frozen: boolean;
+}
+
+// keccak256(abi.encode(wallet)) is the key format OnchainID uses for wallet keys
+export const walletKey = (wallet: string) => utils.keccak256(utils.defaultAbiCoder.encode(['address'], [wallet]));
+
+// ERC-734 purpose required by `recoveryAddress` on the new wallet key
+const MANAGEMENT_KEY_PURPOSE = 1;
+
+const failure = (code: PreflightCode, message: string): PreflightFailure => ({ code, message });
+
+function revertMessage(error: unknown): string {
+  const err = error as { reason?: string; error?: { message?: string }; message?: string };
+  return err.reason ?? err.error?.message ?? err.message ?? String(error);
+}
+
+export class TokenClient {
+  readonly token: Token;
+
+  constructor(token: Token) {
+    this.token = token;
+  }
+
+  static connect(address: string, signerOrProvider: Signer | Provider): TokenClient {
+    return new TokenClient(Token__factory.connect(address, signerOrProvider));
+  }
+
+  get address(): string {
+    return this.token.address;
+  }
+
+  async walletState(wallet: string): Promise<WalletState> {
+    const [balance, frozenTokens, frozen] = await Promise.all([
+      this.token.balanceOf(wallet),
+      this.token.getFrozenTokens(wallet),
+      this.token.isFrozen(wallet),
+    ]);
+    return { balance, frozenTokens, frozen };
+  }
+
+  async isVerified(wallet: string): Promise<boolean> {
+    const identityRegistry = IdentityRegistry__factory.connect(await this.token.identityRegistry(), this.token.provider);
+    return identityRegistry.isVerified(wallet);
+  }
+
+  async canTransfer(from: string, to: string, amount: BigNumberish): Promise<boolean> {
+    const compliance = ICompliance__factory.connect(await this.token.compliance(), this.token.provider);
+    return compliance.canTransfer(from, to, amount);
+  }
+
+  /** Full rule-by-rule report of a transfer (or a mint when `from` is the zero address), see `explainTransfer`. */
+  async explainTransfer(from: string, to: string, amount: BigNumberish): Promise<TransferExplanation> {
+    return explainTransfer(this.token, from, to, amount);
+  }
+
+  // pre-flight checks
+
+  /** Mirrors `transfer` / `_transfer`: pause, zero addresses, frozen wallets, free balance, verification and compliance. */
+  async checkTransfer(from: string, to: string, amount: BigNumberish): Promise<PreflightFailure[]> {
+    const failures = await this.pauseRules();
+    if (from === constants.AddressZero) failures.push(failure('ZERO_ADDRESS', 'Sender is the zero address'));
+    if (to === constants.AddressZero) {
+      failures.push(failure('ZERO_ADDRESS', 'Receiver is the zero address'));
+      return failures;
+    }
+    const sender = await this.walletState(from);
+    if (sender.balance.lt(amount)) {
+      failures.push(failure('INSUFFICIENT_BALANCE', `Sender balance ${sender.balance} is lower than ${amount}`));
+    } else if (sender.balance.sub(sender.frozenTokens).lt(amount)) {
+      failures.push(failure('INSUFFICIENT_FREE_BALANCE', `Sender free balance ${sender.balance.sub(sender.frozenTokens)} is lower than ${amount}`));
+    }
+    return [...failures, ...(await this.receiveRules(from, to, amount, sender.frozen))];
+  }
+
+  /** Mirrors `transferFrom`: the `transfer` rules plus the allowance of `spender` on `from`. */
+  async checkTransferFrom(spender: string, from: string, to: string, amount: BigNumberish): Promise<PreflightFailure[]> {
+    const [failures, allowance] = await Promise.all([this.checkTransfer(from, to, amount), this.token.allowance(from, spender)]);
+    if (!allowance.eq(constants.MaxUint256) && allowance.lt(amount)) {
+      failures.unshift(failure('INSUFFICIENT_ALLOWANCE', `Allowance ${allowance} of ${spender} is lower than ${amount}`));
+    }
+    return failures;
+  }
+
+  /** Mirrors `forcedTransfer`: frozen tokens are released by the contract, the rest of `_transfer` still applies. */
+  async checkForcedTransfer(operator: string, from: string, to: string, amount: BigNumberish): Promise<PreflightFailure[]> {
+    const failures = await this.agentRules(operator);
+    if (to === constants.AddressZero) {
+      failures.push(failure('ZERO_ADDRESS', 'Receiver is the zero address'));
+      return failures;
+    }
+    const sender = await this.walletState(from);
+    if (sender.balance.lt(amount)) {
+      failures.push(failure('INSUFFICIENT_BALANCE', `Sender balance ${sender.balance} is lower than ${amount}`));
+    }
+    return [...failures, ...(await this.receiveRules(from, to, amount, sender.frozen))];
+  }
+
+  /** Mirrors `mint` / `_mint`: receiver verification and compliance, no pause check. */
+  async checkMint(operator: string, to: string, amount: BigNumberish): Promise<PreflightFailure[]> {
+    const failures = await this.agentRules(operator);
+    if (to === constants.AddressZero) {
+      failures.push(failure('ZERO_ADDRESS', 'Receiver is the zero address'));
+      return failures;
+    }
+    const [verified, compliant] = await Promise.all([this.isVerified(to), this.canTransfer(constants.AddressZero, to, amount)]);
+    if (!verified) failures.push(failure('RECEIVER_NOT_VERIFIED', `Receiver ${to} is not verified in the identity registry`));
+    if (!compliant) failures.push(failure('COMPLIANCE_FAILURE', `Compliance rejects minting ${amount} to ${to}`));
+    return failures;
+  }
+
+  /** Mirrors `burn` / `_burn`: frozen tokens are released by the contract when needed. */
+  async checkBurn(operator: string, account: string, amount: BigNumberish): Promise<PreflightFailure[]> {
+    const failures = await this.agentRules(operator);
+    if (account === constants.AddressZero) {
+      failures.push(failure('ZERO_ADDRESS', 'Burn account is the zero address'));
+      return failures;
+    }
+    const balance = await this.token.balanceOf(account);
+    if (balance.lt(amount)) failures.push(failure('INSUFFICIENT_BALANCE', `Balance ${balance} of ${account} is lower than ${amount}`));
+    return failures;
+  }
+
+  async checkFreezePartialTokens(operator: string, account: string, amount: BigNumberish): Promise<PreflightFailure[]> {
+    const [failures, state] = await Promise.all([this.agentRules(operator), this.walletState(account)]);
+    if (state.balance.lt(state.frozenTokens.add(amount))) {
+      failures.push(
+        failure(
+          'INSUFFICIENT_BALANCE',
+          `Freezing ${amount} more tokens of ${account} exceeds its balance ${state.balance} (${state.frozenTokens} frozen)`,
+        ),
+      );
+    }
+    return failures;
+  }
+
+  async checkUnfreezePartialTokens(operator: string, account: string, amount: BigNumberish): Promise<PreflightFailure[]> {
+    const [failures, frozenTokens] = await Promise.all([this.agentRules(operator), this.token.getFrozenTokens(account)]);
+    if (frozenTokens.lt(amount)) {
+      failures.push(failure('INSUFFICIENT_FROZEN_TOKENS', `Only ${frozenTokens} tokens of ${account} are frozen, cannot unfreeze ${amount}`));
+    }
+    return failures;
+  }
+
+  async checkPause(operator: string, pause: boolean): Promise<PreflightFailure[]> {
+    const [failures, paused] = await Promise.all([this.agentRules(operator), this.token.paused()]);
+    if (pause && paused) failures.push(failure('TOKEN_PAUSED', 'Token is already paused'));
+    if (!pause && !paused) failures.push(failure('TOKEN_NOT_PAUSED', 'Token is not paused'));
+    return failures;
+  }
+
+  /** Mirrors `recoveryAddress`: the new wallet must be a management key of the investor identity and not yet registered. */
+  async checkRecovery(operator: string, lostWallet: string, newWallet: string, investorOnchainID: string): Promise<PreflightFailure[]> {
+    const identityRegistry = IdentityRegistry__factory.connect(await this.token.identityRegistry(), this.token.provider);
+    const identity = IIdentity__factory.connect(investorOnchainID, this.token.provider);
+    const [failures, lost, newWalletState, hasKey, alreadyRegistered, tokenIsRegistryAgent] = await Promise.all([
+      this.agentRules(operator),
+      this.walletState(lostWallet),
+      this.walletState(newWallet),
+      identity.keyHasPurpose(walletKey(newWallet), MANAGEMENT_KEY_PURPOSE),
+      identityRegistry.contains(newWallet),
+      identityRegistry.hasRole(await identityRegistry.AGENT_ROLE(), this.token.address),
+    ]);
+    if (lost.balance.isZero()) failures.push(failure('NO_TOKENS_TO_RECOVER', `Lost wallet ${lostWallet} holds no tokens`));
+    if (!hasKey) {
+      failures.push(failure('RECOVERY_KEY_MISSING', `${newWallet} is not a management key (purpose 1) on identity ${investorOnchainID}`));
+    }
+    if (alreadyRegistered) failures.push(failure('WALLET_ALREADY_REGISTERED', `${newWallet} is already registered in the identity registry`));
+    if (newWalletState.frozen) failures.push(failure('RECEIVER_FROZEN', `New wallet ${newWallet} is frozen`));
+    if (!tokenIsRegistryAgent) {
+      failures.push(failure('MISSING_AGENT_ROLE', 'Token does not hold AGENT_ROLE on its identity registry, it cannot register the new wallet'));
+    }
+    return failures;
+  }
+
+  // state-changing calls
+
+  async transfer(to: string, amount: BigNumberish, overrides: Overrides = {}): Promise<TokenTxResult> {
+    return this.withSigner(async (from) => execute(await this.checkTransfer(from, to, amount), () => this.token.transfer(to, amount, overrides)));
+  }
+
+  async forcedTransfer(from: string, to: string, amount: BigNumberish, overrides: Overrides = {}): Promise<TokenTxResult> {
+    return this.withSigner(async (operator) =>
+      execute(await this.checkForcedTransfer(operator, from, to, amount), () => this.token.forcedTransfer(from, to, amount, overrides)),
+    );
+  }
+
+  async mint(to: string, amount: BigNumberish, overrides: Overrides = {}): Promise<TokenTxResult> {
+    return this.withSigner(async (operator) => execute(await this.checkMint(operator, to, amount), () => this.token.mint(to, amount, overrides)));
+  }
+
+  async burn(account: string, amount: BigNumberish, overrides: Overrides = {}): Promise<TokenTxResult> {
+    return this.withSigner(async (operator) =>
+      execute(await this.checkBurn(operator, account, amount), () => this.token.burn(account, amount, overrides)),
+    );
+  }
+
+  async setAddressFrozen(account: string, freeze: boolean, overrides: Overrides = {}): Promise<TokenTxResult> {
+    return this.withSigner(async (operator) =>
+      execute(await this.agentRules(operator), () => this.token.setAddressFrozen(account, freeze, overrides)),
+    );
+  }
+
+  async freezePartialTokens(account: string, amount: BigNumberish, overrides: Overrides = {}): Promise<TokenTxResult> {
+    return this.withSigner(async (operator) =>
+      execute(await this.checkFreezePartialTokens(operator, account, amount), () => this.token.freezePartialTokens(account, amount, overrides)),
+    );
+  }
+
+  async unfreezePartialTokens(account: string, amount: BigNumberish, overrides: Overrides = {}): Promise<TokenTxResult> {
+    return this.withSigner(async (operator) =>
+      execute(await this.checkUnfreezePartialTokens(operator, account, amount), () => this.token.unfreezePartialTokens(account, amount, overrides)),
+    );
+  }
+
+  async pause(overrides: Overrides = {}): Promise<TokenTxResult> {
+    return this.withSigner(async (operator) => execute(await this.checkPause(operator, true), () => this.token.pause(overrides)));
+  }
+
+  async unpause(overrides: Overrides = {}): Promise<TokenTxResult> {
+    return this.withSigner(async (operator) => execute(await this.checkPause(operator, false), () => this.token.unpause(overrides)));
+  }
+
+  async recoveryAddress(lostWallet: string, newWallet: string, investorOnchainID: string, overrides: Overrides = {}): Promise<TokenTxResult> {
+    return this.withSigner(async (operator) =>
+      execute(await this.checkRecovery(operator, lostWallet, newWallet, investorOnchainID), () =>
+        this.token.recoveryAddress(lostWallet, newWallet, investorOnchainID, overrides),
+      ),
+    );
+  }
+
+  // batch calls: each item is checked independently against the current chain state; failures carry the item index.
+
+  async batchTransfer(toList: string[], amounts: BigNumberish[], overrides: Overrides = {}): Promise<TokenTxResult> {
+    return this.withSigner(async (from) => {
+      const failures = sizeRules(toList, amounts);
+      if (failures.length === 0) failures.push(...(await checkEach(toList, (to, i) => this.checkTransfer(from, to, amounts[i]))));
+      return execute(failures, () => this.token.batchTransfer(toList, amounts, overrides));
+    });
+  }
+
+  async batchTransferFrom(fromList: string[], toList: string[], amounts: BigNumberish[], overrides: Overrides = {}): Promise<TokenTxResult> {
+    return this.withSigner(async (spender) => {
+      const failures = sizeRules(fromList, toList, amounts);
+      if (failures.length === 0) {
+        failures.push(...(await checkEach(fromList, (from, i) => this.checkTransferFrom(spender, from, toList[i], amounts[i]))));
+      }
+      return execute(failures, () => this.token.batchTransferFrom(fromList, toList, amounts, overrides));
+    });
+  }
+
+  async batchForcedTransfer(fromList: string[], toList: string[], amounts: BigNumberish[], overrides: Overrides = {}): Promise<TokenTxResult> {
+    return this.withSigner(async (operator) => {
+      const failures = sizeRules(fromList, toList, amounts);
+      if (failures.length === 0) {
+        failures.push(...(await checkEach(fromList, (from, i) => this.checkForcedTransfer(operator, from, toList[i], amounts[i]))));
+      }
+      return execute(failures, () => this.token.batchForcedTransfer(fromList, toList, amounts, overrides));
+    });
+  }
+
+  async batchMint(toList: string[], amounts: BigNumberish[], overrides: Overrides = {}): Promise<TokenTxResult> {
+    return this.withSigner(async (operator) => {
+      const failures = sizeRules(toList, amounts);
+      if (failures.length === 0) failures.push(...(await checkEach(toList, (to, i) => this.checkMint(operator, to, amounts[i]))));
+      return execute(failures, () => this.token.batchMint(toList, amounts, overrides));
+    });
+  }
+
+  async batchBurn(accounts: string[], amounts: BigNumberish[], overrides: Overrides = {}): Promise<TokenTxResult> {
+    return this.withSigner(async (operator) => {
+      const failures = sizeRules(accounts, amounts);
+      if (failures.length === 0) failures.push(...(await checkEach(accounts, (account, i) => this.checkBurn(operator, account, amounts[i]))));
+      return execute(failures, () => this.token.batchBurn(accounts, amounts, overrides));
+    });
+  }
+
+  async batchSetAddressFrozen(accounts: string[], freeze: boolean[], overrides: Overrides = {}): Promise<TokenTxResult> {
+    return this.withSigner(async (operator) => {
+      const failures = sizeRules(accounts, freeze);
+      if (failures.length === 0) failures.push(...(await this.agentRules(operator)));
+      return execute(failures, () => this.token.batchSetAddressFrozen(accounts, freeze, overrides));
+    });
+  }
+
+  async batchFreezePartialTokens(accounts: string[], amounts: BigNumberish[], overrides: Overrides = {}): Promise<TokenTxResult> {
+    return this.withSigner(async (operator) => {
+      const failures = sizeRules(accounts, amounts);
+      if (failures.length === 0) {
+        failures.push(...(await checkEach(accounts, (account, i) => this.checkFreezePartialTokens(operator, account, amounts[i]))));
+      }
+      return execute(failures, () => this.token.batchFreezePartialTokens(accounts, amounts, overrides));
+    });
+  }
+
+  async batchUnfreezePartialTokens(accounts: string[], amounts: BigNumberish[], overrides: Overrides = {}): Promise<TokenTxResult> {
+    return this.withSigner(async (operator) => {
+      const failures = sizeRules(accounts, amounts);
+      if (failures.length === 0) {
+        failures.push(...(await checkEach(accounts, (account, i) => this.checkUnfreezePartialTokens(operator, account, amounts[i]))));
+      }
+      return execute(failures, () => this.token.batchUnfreezePartialTokens(accounts, amounts, overrides));
+    });
+  }
+
+  // internals
+
+  private async pauseRules(): Promise<PreflightFailure[]> {
+    return (await this.token.paused()) ? [failure('TOKEN_PAUSED', 'Token is paused')] : [];
+  }
+
+  private async agentRules(operator: string): Promise<PreflightFailure[]> {
+    const hasRole = await this.token.hasRole(await this.token.AGENT_ROLE(), operator);
+    return hasRole ? [] : [failure('MISSING_AGENT_ROLE', `${operator} does not hold AGENT_ROLE on the token`)];
+  }
+
+  /** The part of `_transfer` shared by regular and forced transfers. */
+  private async receiveRules(from: string, to: string, amount: BigNumberish, senderFrozen: boolean): Promise<PreflightFailure[]> {
+    const [receiverFrozen, verified, compliant] = await Promise.all([
+      this.token.isFrozen(to),
+      this.isVerified(to),
+      this.canTransfer(from, to, amount),
+    ]);
+    const failures: PreflightFailure[] = [];
+    if (senderFrozen) failures.push(failure('SENDER_FROZEN', `Sender wallet ${from} is frozen`));
+    if (receiverFrozen) failures.push(failure('RECEIVER_FROZEN', `Receiver wallet ${to} is frozen`));
+    if (!verified) failures.push(failure('RECEIVER_NOT_VERIFIED', `Receiver ${to} is not verified in the identity registry`));
+    if (!compliant) failures.push(failure('COMPLIANCE_FAILURE', `Compliance rejects a transfer of ${amount} from ${from} to ${to}`));
+    return failures;
+  }
+
+  private async withSigner(run: (_signerAddress: string) => Promise<TokenTxResult>): Promise<TokenTxResult> {
+    if (!Signer.isSigner(this.token.signer)) {
+      return { ok: false, failures: [failure('NO_SIGNER', 'TokenClient is connected to a provider, a signer is required to send transactions')] };
+    }
+    return run(await this.token.signer.getAddress());
+  }
+}
+
+async function execute(failures: PreflightFailure[], send: () => Promise<ContractTransaction>): Promise<TokenTxResult> {
+  if (failures.length > 0) return { ok: false, failures };
+  try {
+    const receipt = await (await send()).wait();
+    return { ok: true, transactionHash: receipt.transactionHash, receipt };
+  } catch (error) {
+    return { ok: false, failures: [failure('TRANSACTION_REVERTED', revertMessage(error))] };
+  }
+}
+
+function sizeRules(...lists: unknown[][]): PreflightFailure[] {
+  return lists.every((list) => list.length === lists[0].length) ? [] : [failure('ARRAY_SIZE_MISMATCH', 'Batch arrays have different lengths')];
+}
+
+async function checkEach<T>(items: T[], check: (_item: T, _index: number) => Promise<PreflightFailure[]>): Promise<PreflightFailure[]> {
+  const results = await Promise.all(items.map(check));
+  return results.flatMap((failures, index) => failures.map((itemFailure) => ({ ...itemFailure, index })));
+}
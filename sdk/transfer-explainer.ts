@@ -0,0 +1,126 @@
+/**
+ * Explains why a transfer (or a mint, when `from` is the zero address) would be rejected by `Token`.
+ *
+ * The contract stops at the first failing `require` and only surfaces its revert string. `explainTransfer`
+ * evaluates every condition of `Token._transfer` / `Token._mint` off-chain, in the same order, and returns
+ * all of them with the revert string each one maps to. The receiver verification is broken down per
+ * claim topic and per claim issuer (see `explainVerification`).
+ */
+import { BigNumber, BigNumberish, constants } from 'ethers';
+import { ICompliance__factory, IdentityRegistry__factory, Token } from '../typechain-types';
+import { VerificationReport, explainVerification } from './verification';
+
+export type TransferRuleId =
+  | 'token-not-paused'
+  | 'receiver-not-zero-address'
+  | 'sender-not-frozen'
+  | 'receiver-not-frozen'
+  | 'sufficient-balance'
+  | 'sufficient-free-balance'
+  | 'receiver-verified'
+  | 'compliance-approved';
+
+export interface TransferRule {
+  rule: TransferRuleId;
+  passed: boolean;
+  /** Human readable description of the evaluated state. */
+  detail: string;
+  /** Revert string `Token` emits when this rule fails. */
+  revertReason: string;
+}
+
+export interface TransferExplanation {
+  kind: 'transfer' | 'mint';
+  token: string;
+  from: string;
+  to: string;
+  amount: BigNumber;
+  /** True when every rule passes. */
+  allowed: boolean;
+  /** Every rule in the order the contract evaluates them. */
+  rules: TransferRule[];
+  failures: TransferRule[];
+  /** Revert string the chain would report, i.e. the first failing rule. */
+  expectedRevert?: string;
+  sender?: { balance: BigNumber; frozenTokens: BigNumber; freeBalance: BigNumber; frozen: boolean };
+  receiver: { frozen: boolean; verification: VerificationReport };
+}
+
+const rule = (id: TransferRuleId, passed: boolean, detail: string, revertReason: string): TransferRule => ({
+  rule: id,
+  passed,
+  detail,
+  revertReason,
+});
+
+export async function explainTransfer(token: Token, from: string, to: string, amountish: BigNumberish): Promise<TransferExplanation> {
+  const amount = BigNumber.from(amountish);
+  const kind = from === constants.AddressZero ? 'mint' : 'transfer';
+  const identityRegistry = IdentityRegistry__factory.connect(await token.identityRegistry(), token.provider);
+  const compliance = ICompliance__factory.connect(await token.compliance(), token.provider);
+
+  const [paused, receiverFrozen, verification, compliant] = await Promise.all([
+    token.paused(),
+    token.isFrozen(to),
+    explainVerification(identityRegistry, to),
+    compliance.canTransfer(from, to, amount).catch(() => false),
+  ]);
+
+  const rules: TransferRule[] = [];
+  let sender: TransferExplanation['sender'];
+
+  if (kind === 'mint') {
+    rules.push(rule('receiver-not-zero-address', to !== constants.AddressZero, `receiver is ${to}`, 'ERC-3643: mint to zero address'));
+  } else {
+    const [balance, frozenTokens, frozen] = await Promise.all([token.balanceOf(from), token.getFrozenTokens(from), token.isFrozen(from)]);
+    const freeBalance = balance.gt(frozenTokens) ? balance.sub(frozenTokens) : BigNumber.from(0);
+    sender = { balance, frozenTokens, freeBalance, frozen };
+
+    rules.push(
+      rule('token-not-paused', !paused, paused ? 'token is paused' : 'token is not paused', 'Pausable: paused'),
+      rule('receiver-not-zero-address', to !== constants.AddressZero, `receiver is ${to}`, 'ERC-3643: transfer to zero address'),
+      rule('sender-not-frozen', !frozen, frozen ? `sender ${from} is frozen` : 'sender is not frozen', 'ERC-3643: Wallet frozen'),
+      rule('receiver-not-frozen', !receiverFrozen, receiverFrozen ? `receiver ${to} is frozen` : 'receiver is not frozen', 'ERC-3643: Wallet frozen'),
+      rule('sufficient-balance', balance.gte(amount), `balance is ${balance}, amount is ${amount}`, 'ERC-3643: amount exceeds balance'),
+      rule(
+        'sufficient-free-balance',
+        freeBalance.gte(amount),
+        `free balance is ${freeBalance} (${frozenTokens} frozen), amount is ${amount}`,
+        'ERC-3643: Freezed balance',
+      ),
+    );
+  }
+
+  rules.push(
+    rule('receiver-verified', verification.verified, describeVerification(verification), 'ERC-3643: Unverified identity'),
+    rule(
+      'compliance-approved',
+      compliant,
+      compliant ? 'compliance accepts the transfer' : `compliance ${compliance.address} rejects the transfer`,
+      'ERC-3643: Compliance failure',
+    ),
+  );
+
+  const failures = rules.filter((evaluated) => !evaluated.passed);
+  return {
+    kind,
+    token: token.address,
+    from,
+    to,
+    amount,
+    allowed: failures.length === 0,
+    rules,
+    failures,
+    expectedRevert: failures[0]?.revertReason,
+    sender,
+    receiver: { frozen: receiverFrozen, verification },
+  };
+}
+
+function describeVerification(report: VerificationReport): string {
+  if (!report.registered) return `receiver ${report.wallet} is not registered in the identity registry`;
+  const invalid = report.topics.filter((topic) => !topic.valid);
+  if (invalid.length === 0) return `receiver identity ${report.identity} holds a valid claim for every required topic`;
+  const detail = invalid.map((topic) => `topic ${topic.topic} is ${topic.status}`);
+  return `receiver identity ${report.identity}: ${detail.join('; ')}`;
+}
@@ -0,0 +1,121 @@
+/**
+ * Off-chain rebuild of `IdentityRegistry.isVerified` / `IdentityRegistry._isClaimValid`.
+ *
+ * Instead of a single boolean, the report lists every required claim topic (from
+ * `ClaimTopicsRegistry.getClaimTopics`) and, for each topic, every issuer trusted for it (from
+ * `ClaimIssuersRegistry.getClaimIssuersForClaimTopic`). The claim of each issuer is looked up under
+ * `keccak256(abi.encode(issuer, topic))` and checked with `IClaimIssuer.isClaimValid`, exactly like the
+ * registry does, and each topic is classified with a `TopicStatus`.
+ */
+import { BigNumber, constants } from 'ethers';
+import { Provider } from '@ethersproject/providers';
+import {
+  IClaimIssuer__factory,
+  IClaimIssuersRegistry__factory,
+  IClaimTopicsRegistry__factory,
+  IIdentity__factory,
+  IdentityRegistry,
+} from '../typechain-types';
+import { claimIdOf } from './claim-builder';
+
+/**
+ * - `valid`: a trusted issuer's claim passes `isClaimValid`, the topic is satisfied
+ * - `revoked-claim`: a trusted issuer's claim exists but the issuer revoked its signature
+ * - `invalid-signature`: a trusted issuer's claim exists but its signature is not accepted (e.g. the signing key was removed)
+ * - `wrong-issuer`: the identity holds a claim for the topic, but only from issuers not trusted for it
+ * - `missing-claim`: the identity holds no claim for the topic
+ */
+export type TopicStatus = 'valid' | 'revoked-claim' | 'invalid-signature' | 'wrong-issuer' | 'missing-claim';
+
+export type IssuerClaimStatus = Exclude<TopicStatus, 'wrong-issuer'>;
+
+export interface IssuerClaimCheck {
+  issuer: string;
+  claimId: string;
+  status: IssuerClaimStatus;
+  /** The identity holds a claim with this id for the expected topic. */
+  claimFound: boolean;
+  /** `IClaimIssuer.isClaimValid` returned true for the stored claim. */
+  claimValid: boolean;
+  /** `IClaimIssuer.isClaimRevoked` returned true for the stored claim signature. */
+  claimRevoked: boolean;
+}
+
+export interface TopicVerification {
+  topic: BigNumber;
+  status: TopicStatus;
+  valid: boolean;
+  issuers: IssuerClaimCheck[];
+  /** Issuers of claims held by the identity for this topic that are not trusted for it. */
+  untrustedIssuers: string[];
+}
+
+export interface VerificationReport {
+  wallet: string;
+  identity: string;
+  registered: boolean;
+  verified: boolean;
+  topics: TopicVerification[];
+}
+
+// Most conclusive status first: a single valid claim satisfies the topic
+const STATUS_PRIORITY: IssuerClaimStatus[] = ['valid', 'revoked-claim', 'invalid-signature', 'missing-claim'];
+
+async function checkIssuerClaim(provider: Provider, identity: string, issuer: string, topic: BigNumber): Promise<IssuerClaimCheck> {
+  const claimId = claimIdOf(issuer, topic);
+  const claim = await IIdentity__factory.connect(identity, provider).getClaim(claimId);
+  if (!claim.topic.eq(topic)) {
+    return { issuer, claimId, status: 'missing-claim', claimFound: false, claimValid: false, claimRevoked: false };
+  }
+
+  const claimIssuer = IClaimIssuer__factory.connect(claim.issuer, provider);
+  const [claimValid, claimRevoked] = await Promise.all([
+    // the registry wraps this call in try/catch and treats a revert as an invalid claim
+    claimIssuer.isClaimValid(identity, topic, claim.signature, claim.data).catch(() => false),
+    claimIssuer.isClaimRevoked(claim.signature).catch(() => false),
+  ]);
+  let status: IssuerClaimStatus = 'invalid-signature';
+  if (claimValid) status = 'valid';
+  else if (claimRevoked) status = 'revoked-claim';
+  return { issuer, claimId, status, claimFound: true, claimValid, claimRevoked };
+}
+
+async function untrustedIssuersFor(provider: Provider, identity: string, topic: BigNumber, trustedClaimIds: string[]): Promise<string[]> {
+  const identityContract = IIdentity__factory.connect(identity, provider);
+  const claimIds = (await identityContract.getClaimIdsByTopic(topic)).filter((claimId) => !trustedClaimIds.includes(claimId));
+  const claims = await Promise.all(claimIds.map((claimId) => identityContract.getClaim(claimId)));
+  return claims.map((claim) => claim.issuer);
+}
+
+/** Classifies a single claim topic for an identity against the issuers the registry trusts for it. */
+export async function verifyClaimTopic(identityRegistry: IdentityRegistry, identity: string, topic: BigNumber): Promise<TopicVerification> {
+  const { provider } = identityRegistry;
+  const issuersRegistry = IClaimIssuersRegistry__factory.connect(await identityRegistry.issuersRegistry(), provider);
+  const trustedIssuers = await issuersRegistry.getClaimIssuersForClaimTopic(topic);
+  const issuers = await Promise.all(trustedIssuers.map((issuer) => checkIssuerClaim(provider, identity, issuer, topic)));
+  const untrustedIssuers = await untrustedIssuersFor(
+    provider,
+    identity,
+    topic,
+    issuers.map((check) => check.claimId),
+  );
+
+  let status: TopicStatus = STATUS_PRIORITY.find((candidate) => issuers.some((check) => check.status === candidate)) ?? 'missing-claim';
+  if (status === 'missing-claim' && untrustedIssuers.length > 0) status = 'wrong-issuer';
+
+  return { topic, status, valid: status === 'valid', issuers, untrustedIssuers };
+}
+
+/** Per-topic breakdown of `IdentityRegistry.isVerified(wallet)`. */
+export async function explainVerification(identityRegistry: IdentityRegistry, wallet: string): Promise<VerificationReport> {
+  const identity = await identityRegistry.identity(wallet);
+  if (identity === constants.AddressZero) {
+    return { wallet, identity, registered: false, verified: false, topics: [] };
+  }
+
+  const topicsRegistry = IClaimTopicsRegistry__factory.connect(await identityRegistry.topicsRegistry(), identityRegistry.provider);
+  const requiredTopics = await topicsRegistry.getClaimTopics();
+  const topics = await Promise.all(requiredTopics.map((topic) => verifyClaimTopic(identityRegistry, identity, topic)));
+
+  return { wallet, identity, registered: true, verified: topics.every((topic) => topic.valid), topics };
+}
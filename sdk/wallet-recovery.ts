@@ -0,0 +1,228 @@
+/**
+ * Guided recovery of a lost investor wallet around `Token.recoveryAddress`.
+ *
+ * `recoveryAddress` moves the balance, the frozen flag, the frozen tokens and the registry entry of a lost wallet
+ * to a new wallet, but reverts with "ERC-3643: Recovery not possible" unless the new wallet is a management key
+ * (purpose 1) of the investor ONCHAINID. Adding that key is the investor's job: when it is missing the workflow
+ * stops with the exact `addKey` transaction a current management key of the identity must send, and is simply run
+ * again once it is mined.
+ *
+ * Each step (inspection, missing key, recovery transaction, verification) is appended to a JSON-lines audit log.
+ *
+ * Usage:
+ *   const outcome = await recoverWallet(token.connect(agent), { lostWallet, newWallet }, { auditLog: 'recovery.jsonl' });
+ *   if (outcome.status === 'awaiting-key') console.log(outcome.addKeyTransaction);
+ */
+import fs from 'fs';
+import { BigNumber, constants, utils } from 'ethers';
+import { IIdentity__factory, IdentityRegistry, IdentityRegistry__factory, Token } from '../typechain-types';
+import { PreflightFailure, TokenClient, walletKey } from './token-client';
+
+export interface RecoveryRequest {
+  lostWallet: string;
+  newWallet: string;
+  /** ONCHAINID of the investor, by default the one the identity registry holds for the lost wallet. */
+  identity?: string;
+}
+
+export interface RecoveryWalletState {
+  balance: string;
+  frozenTokens: string;
+  frozen: boolean;
+  registered: boolean;
+}
+
+export interface RecoveryInspection {
+  lostWallet: string;
+  newWallet: string;
+  identity: string;
+  country: number;
+  lost: RecoveryWalletState;
+  new: RecoveryWalletState;
+  /** ERC-734 purposes of the new wallet key on the identity (1 management, 2 action, 3 claim, 4 encryption). */
+  newWalletKeyPurposes: number[];
+  /** Whether the lost wallet could still sign the `addKey` transaction itself. */
+  lostWalletIsManagementKey: boolean;
+  managementKeyCount: number;
+  /** `TokenClient.checkRecovery` failures, `RECOVERY_KEY_MISSING` included. */
+  failures: PreflightFailure[];
+}
+
+/** The transaction the investor sends from a management key of the identity to make the new wallet one. */
+export interface AddKeyTransaction {
+  to: string;
+  data: string;
+  description: string;
+}
+
+export interface RecoveryCheck {
+  name: string;
+  expected: string;
+  actual: string;
+  ok: boolean;
+}
+
+export type RecoveryOutcome =
+  | { status: 'blocked'; inspection: RecoveryInspection }
+  | { status: 'awaiting-key'; inspection: RecoveryInspection; addKeyTransaction: AddKeyTransaction }
+  | { status: 'failed'; inspection: RecoveryInspection; error: string }
+  | { status: 'recovered' | 'unverified'; inspection: RecoveryInspection; transactionHash: string; checks: RecoveryCheck[] };
+
+export type RecoveryAuditStep = 'inspected' | 'blocked' | 'key-required' | 'recovery-mined' | 'recovery-failed' | 'verified' | 'verification-failed';
+
+export interface RecoveryAuditRecord {
+  at: string;
+  step: RecoveryAuditStep;
+  token: string;
+  operator: string;
+  lostWallet: string;
+  newWallet: string;
+  identity: string;
+  details: object;
+}
+
+export interface RecoveryOptions {
+  /** JSON-lines file the audit records are appended to. */
+  auditLog: string;
+  log?: (_message: string) => void;
+}
+
+const MANAGEMENT_KEY_PURPOSE = 1;
+const ECDSA_KEY_TYPE = 1;
+
+export function addKeyTransaction(identity: string, newWallet: string): AddKeyTransaction {
+  return {
+    to: identity,
+    data: IIdentity__factory.createInterface().encodeFunctionData('addKey', [walletKey(newWallet), MANAGEMENT_KEY_PURPOSE, ECDSA_KEY_TYPE]),
+    description: `addKey(keccak256(abi.encode(${newWallet})), ${MANAGEMENT_KEY_PURPOSE}, ${ECDSA_KEY_TYPE}) on ${identity}, sent by a management key`,
+  };
+}
+
+export function readRecoveryAudit(file: string): RecoveryAuditRecord[] {
+  if (!fs.existsSync(file)) return [];
+  return fs
+    .readFileSync(file, 'utf8')
+    .split('\n')
+    .filter((line) => line.trim() !== '')
+    .map((line) => JSON.parse(line));
+}
+
+async function walletState(token: Token, identityRegistry: IdentityRegistry, wallet: string): Promise<RecoveryWalletState> {
+  const [{ balance, frozenTokens, frozen }, registered] = await Promise.all([
+    new TokenClient(token).walletState(wallet),
+    identityRegistry.contains(wallet),
+  ]);
+  return { balance: balance.toString(), frozenTokens: frozenTokens.toString(), frozen, registered };
+}
+
+/** Reads everything `recoveryAddress` depends on, without sending anything. */
+export async function inspectRecovery(token: Token, request: RecoveryRequest, operator: string): Promise<RecoveryInspection> {
+  const lostWallet = utils.getAddress(request.lostWallet);
+  const newWallet = utils.getAddress(request.newWallet);
+  const identityRegistry = IdentityRegistry__factory.connect(await token.identityRegistry(), token.provider);
+  const identity = request.identity ? utils.getAddress(request.identity) : await identityRegistry.identity(lostWallet);
+  if (identity === constants.AddressZero) {
+    throw new Error(`${lostWallet} is not in the identity registry, pass the investor identity explicitly`);
+  }
+
+  const onchainId = IIdentity__factory.connect(identity, token.provider);
+  const [country, lost, current, purposes, lostWalletIsManagementKey, managementKeys, failures] = await Promise.all([
+    identityRegistry.investorCountry(lostWallet),
+    walletState(token, identityRegistry, lostWallet),
+    walletState(token, identityRegistry, newWallet),
+    onchainId.getKeyPurposes(walletKey(newWallet)),
+    onchainId.keyHasPurpose(walletKey(lostWallet), MANAGEMENT_KEY_PURPOSE),
+    onchainId.getKeysByPurpose(MANAGEMENT_KEY_PURPOSE),
+    new TokenClient(token).checkRecovery(operator, lostWallet, newWallet, identity),
+  ]);
+  return {
+    lostWallet,
+    newWallet,
+    identity,
+    country,
+    lost,
+    new: current,
+    newWalletKeyPurposes: purposes.map((purpose) => purpose.toNumber()),
+    lostWalletIsManagementKey,
+    managementKeyCount: managementKeys.length,
+    failures,
+  };
+}
+
+/** Compares the state after the recovery with the state the contract should have moved. */
+async function verifyRecovery(token: Token, inspection: RecoveryInspection): Promise<RecoveryCheck[]> {
+  const identityRegistry = IdentityRegistry__factory.connect(await token.identityRegistry(), token.provider);
+  const { lost, newWallet, lostWallet } = inspection;
+  const [after, lostAfter, identity, country] = await Promise.all([
+    walletState(token, identityRegistry, newWallet),
+    walletState(token, identityRegistry, lostWallet),
+    identityRegistry.identity(newWallet),
+    identityRegistry.investorCountry(newWallet),
+  ]);
+  const sum = (a: string, b: string) => BigNumber.from(a).add(b).toString();
+  const check = (name: string, expected: string | number | boolean, actual: string | number | boolean): RecoveryCheck => ({
+    name,
+    expected: String(expected),
+    actual: String(actual),
+    ok: expected === actual,
+  });
+  return [
+    check('new wallet identity', inspection.identity, identity),
+    check('new wallet country', inspection.country, country),
+    check('new wallet balance', sum(inspection.new.balance, lost.balance), after.balance),
+    check('new wallet frozen tokens', sum(inspection.new.frozenTokens, lost.frozenTokens), after.frozenTokens),
+    check('new wallet frozen', lost.frozen, after.frozen),
+    check('lost wallet balance', '0', lostAfter.balance),
+    check('lost wallet registered', false, lostAfter.registered),
+  ];
+}
+
+/**
+ * Runs the recovery as far as it can go: inspection, then either the `addKey` transaction the investor still has
+ * to send, a blocking pre-flight failure, or the recovery transaction followed by its verification.
+ */
+export async function recoverWallet(token: Token, request: RecoveryRequest, options: RecoveryOptions): Promise<RecoveryOutcome> {
+  const { auditLog, log = () => {} } = options;
+  const client = new TokenClient(token);
+  const operator = await token.signer.getAddress();
+  const inspection = await inspectRecovery(token, request, operator);
+  const audit = (step: RecoveryAuditStep, details: object) => {
+    const record: RecoveryAuditRecord = {
+      at: new Date().toISOString(),
+      step,
+      token: token.address,
+      operator,
+      lostWallet: inspection.lostWallet,
+      newWallet: inspection.newWallet,
+      identity: inspection.identity,
+      details,
+    };
+    fs.appendFileSync(auditLog, `${JSON.stringify(record)}\n`);
+    log(`${step}: ${JSON.stringify(details)}`);
+  };
+
+  audit('inspected', inspection);
+  const blocking = inspection.failures.filter((failure) => failure.code !== 'RECOVERY_KEY_MISSING');
+  if (blocking.length > 0) {
+    audit('blocked', { failures: blocking });
+    return { status: 'blocked', inspection };
+  }
+  if (inspection.failures.length > 0) {
+    const transaction = addKeyTransaction(inspection.identity, inspection.newWallet);
+    audit('key-required', transaction);
+    return { status: 'awaiting-key', inspection, addKeyTransaction: transaction };
+  }
+
+  const result = await client.recoveryAddress(inspection.lostWallet, inspection.newWallet, inspection.identity);
+  if (!result.ok) {
+    const error = result.failures.map((failure) => failure.message).join('; ');
+    audit('recovery-failed', { failures: result.failures });
+    return { status: 'failed', inspection, error };
+  }
+  audit('recovery-mined', { transactionHash: result.transactionHash, blockNumber: result.receipt.blockNumber });
+
+  const checks = await verifyRecovery(token, inspection);
+  const verified = checks.every((entry) => entry.ok);
+  audit(verified ? 'verified' : 'verification-failed', { checks });
+  return { status: verified ? 'recovered' : 'unverified', inspection, transactionHash: result.transactionHash, checks };
+}
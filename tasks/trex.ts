@@ -0,0 +1,421 @@
+/**
+ * Hardhat tasks for day-to-day agent operations on a deployed suite.
+ *
+ * Contract addresses come from the deployment manifest of the selected network (deployments/<network>.json),
+ * everything else from flags. Each task statically calls the contract first: a call that would revert fails the
+ * task with the revert reason (non-zero exit code) and nothing is sent. With `--dry-run` the task stops there and
+ * prints the estimated gas; otherwise it sends the transaction and prints the events decoded from the receipt.
+ *
+ * Amounts are given in token units and converted with `Token.decimals()`. Claim topics are numbers, or strings
+ * hashed with keccak256 (e.g. `--topic KYC_AML_VERIFIED`). Countries are ISO 3166-1 codes or names (`--country FR`),
+ * anything else fails the task. The first Hardhat account signs unless `--signer` names another one.
+ *
+ * Examples:
+ * npx hardhat trex:mint --to 0x... --amount 100 --network localhost
+ * npx hardhat trex:freeze --account 0x... --dry-run --network localhost
+ * npx hardhat trex:add-issuer --issuer 0x... --topics KYC_AML_VERIFIED,ACCREDITED --network localhost
+ * npx hardhat trex:block-countries --countries IR,KP --network localhost
+ * npx hardhat trex:countries --network localhost
+ * npx hardhat trex:holder-limit --limit 99 --country US --network localhost
+ * npx hardhat trex:holders --countries US,FR --network localhost
+ * npx hardhat trex:lock-ups --wallets 0x...,0x... --network localhost
+ * npx hardhat trex:set-rules --rules CountryRestrictCompliance,MaxHoldersCompliance --network localhost
+ * npx hardhat trex:rules --from 0x... --to 0x... --amount 100 --network localhost
+ *
+ * `trex:roles-plan` and `trex:roles-apply` diff and apply a declarative role file (see sdk/role-config.ts):
+ * npx hardhat trex:roles-plan --file scripts/roles.example.json --network localhost
+ * npx hardhat trex:roles-apply --file scripts/roles.example.json --network localhost
+ */
+import { Contract, utils } from 'ethers';
+import { task } from 'hardhat/config';
+import { HardhatPluginError } from 'hardhat/plugins';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+// Imported by module, not through `sdk/index.ts`: the tasks are loaded before typechain-types exists
+import { OperationResult, formatEvent, runOperation } from '../sdk/contract-operation';
+import { findCountry } from '../sdk/countries';
+import { DEFAULT_MANIFEST_DIR, DeploymentManifest, loadManifest } from '../sdk/deployment-manifest';
+
+interface CommonArgs {
+  dryRun: boolean;
+  signer?: string;
+  manifestDir: string;
+}
+
+type SuiteContractName =
+  | 'Token'
+  | 'IdentityRegistry'
+  | 'IdentityRegistryStorage'
+  | 'ClaimTopicsRegistry'
+  | 'ClaimIssuersRegistry'
+  | 'BasicCompliance'
+  | 'CountryRestrictCompliance'
+  | 'MaxHoldersCompliance'
+  | 'LockUpCompliance'
+  | 'ComposableCompliance';
+
+// Contracts whose events are decoded from the receipts
+const DECODED_CONTRACTS: SuiteContractName[] = [
+  'Token',
+  'IdentityRegistry',
+  'IdentityRegistryStorage',
+  'ClaimTopicsRegistry',
+  'ClaimIssuersRegistry',
+  'BasicCompliance',
+  'CountryRestrictCompliance',
+  'MaxHoldersCompliance',
+  'LockUpCompliance',
+  'ComposableCompliance',
+];
+
+async function signerAccount(hre: HardhatRuntimeEnvironment, signer?: string) {
+  const signers = await hre.ethers.getSigners();
+  const account = signer ? signers.find((candidate) => candidate.address.toLowerCase() === signer.toLowerCase()) : signers[0];
+  if (!account) throw new HardhatPluginError('trex', `${signer} is not one of the accounts configured for ${hre.network.name}`);
+  return account;
+}
+
+async function loadSuite(hre: HardhatRuntimeEnvironment, { signer, manifestDir }: CommonArgs) {
+  const manifest: DeploymentManifest = await loadManifest(hre.network.name, hre.ethers.provider, manifestDir);
+  const account = await signerAccount(hre, signer);
+
+  const entries = await Promise.all(
+    DECODED_CONTRACTS.filter((name) => manifest.contracts[name]).map(
+      async (name) => [name, await hre.ethers.getContractAt(name, manifest.contracts[name].address, account)] as const,
+    ),
+  );
+  const contracts: Record<string, Contract> = Object.fromEntries(entries);
+  const contract = (name: SuiteContractName): Contract => {
+    if (!contracts[name]) throw new HardhatPluginError('trex', `Contract "${name}" is not in the ${manifest.network} manifest`);
+    return contracts[name];
+  };
+  return { manifest, account, contracts, contract };
+}
+
+function printResult(result: OperationResult) {
+  const call = `${result.contract}.${result.method}`;
+  if (result.dryRun) {
+    console.log(`Dry run: ${call} would succeed${result.returned ? ` and return ${result.returned}` : ''}, estimated gas ${result.gas}`);
+    return;
+  }
+  console.log(`${call} mined in block ${result.blockNumber} (${result.transactionHash}), gas used ${result.gas}`);
+  result.events.forEach((event) => console.log(`  ${formatEvent(event)}`));
+}
+
+/**
+ * Registers a `trex:*` task with the common `--dry-run`, `--signer` and `--manifest-dir` flags. `prepare` returns
+ * the contract, method and arguments to call; the task resolves to the operation result.
+ */
+function operationTask<Args extends object>(
+  name: string,
+  description: string,
+  prepare: (_args: Args & CommonArgs, _suite: Awaited<ReturnType<typeof loadSuite>>) => Promise<[Contract, string, unknown[]]>,
+) {
+  return task(`trex:${name}`, description)
+    .addFlag('dryRun', 'Only simulate the call with callStatic and estimate its gas')
+    .addOptionalParam('signer', 'Address of the Hardhat account that signs (default: the first one)')
+    .addOptionalParam('manifestDir', 'Directory of the deployment manifests', DEFAULT_MANIFEST_DIR)
+    .setAction(async (args: Args & CommonArgs, hre) => {
+      const suite = await loadSuite(hre, args);
+      const [contract, method, callArgs] = await prepare(args, suite);
+      console.log(`${args.dryRun ? 'Simulating' : 'Sending'} ${method}(${callArgs.join(', ')}) as ${suite.account.address}`);
+      try {
+        const result = await runOperation(contract, method, callArgs, { dryRun: args.dryRun, contracts: suite.contracts });
+        printResult(result);
+        return result;
+      } catch (error) {
+        throw new HardhatPluginError('trex', (error as Error).message);
+      }
+    });
+}
+
+const tokenAmount = async (token: Contract, amount: string) => utils.parseUnits(amount, await token.decimals());
+
+const claimTopic = (topic: string) => (/^\d+$/.test(topic) ? topic : utils.id(topic));
+
+operationTask<{ to: string; amount: string }>('mint', 'Mints tokens to a verified wallet', async ({ to, amount }, { contract }) => [
+  contract('Token'),
+  'mint',
+  [to, await tokenAmount(contract('Token'), amount)],
+])
+  .addParam('to', 'Receiving wallet')
+  .addParam('amount', 'Amount in token units');
+
+operationTask<{ account: string; amount: string }>('burn', 'Burns tokens from a wallet', async ({ account, amount }, { contract }) => [
+  contract('Token'),
+  'burn',
+  [account, await tokenAmount(contract('Token'), amount)],
+])
+  .addParam('account', 'Wallet to burn from')
+  .addParam('amount', 'Amount in token units');
+
+operationTask<{ account: string; unfreeze: boolean }>('freeze', 'Freezes (or unfreezes) a wallet', async ({ account, unfreeze }, { contract }) => [
+  contract('Token'),
+  'setAddressFrozen',
+  [account, !unfreeze],
+])
+  .addParam('account', 'Wallet to freeze')
+  .addFlag('unfreeze', 'Unfreeze the wallet instead');
+
+operationTask<{ account: string; amount: string; unfreeze: boolean }>(
+  'freeze-partial',
+  'Freezes (or unfreezes) part of the balance of a wallet',
+  async ({ account, amount, unfreeze }, { contract }) => [
+    contract('Token'),
+    unfreeze ? 'unfreezePartialTokens' : 'freezePartialTokens',
+    [account, await tokenAmount(contract('Token'), amount)],
+  ],
+)
+  .addParam('account', 'Wallet whose tokens are frozen')
+  .addParam('amount', 'Amount in token units')
+  .addFlag('unfreeze', 'Unfreeze the tokens instead');
+
+operationTask<{ unpause: boolean }>('pause', 'Pauses (or unpauses) the token', async ({ unpause }, { contract }) => [
+  contract('Token'),
+  unpause ? 'unpause' : 'pause',
+  [],
+]).addFlag('unpause', 'Unpause the token instead');
+
+operationTask<{ from: string; to: string; amount: string }>(
+  'forced-transfer',
+  'Moves tokens between two wallets without their approval',
+  async ({ from, to, amount }, { contract }) => [contract('Token'), 'forcedTransfer', [from, to, await tokenAmount(contract('Token'), amount)]],
+)
+  .addParam('from', 'Sending wallet')
+  .addParam('to', 'Receiving wallet')
+  .addParam('amount', 'Amount in token units');
+
+operationTask<{ lostWallet: string; newWallet: string; identity: string }>(
+  'recover',
+  'Moves the balance, freezes and registration of a lost wallet to a new wallet of the same ONCHAINID',
+  async ({ lostWallet, newWallet, identity }, { contract }) => [contract('Token'), 'recoveryAddress', [lostWallet, newWallet, identity]],
+)
+  .addParam('lostWallet', 'Wallet the investor lost access to')
+  .addParam('newWallet', 'New wallet, a management key of the ONCHAINID')
+  .addParam('identity', 'ONCHAINID of the investor');
+
+const COUNTRY_PARAM = 'ISO 3166-1 numeric, alpha-2 or alpha-3 code or name of the country (e.g. 250, FR, FRA)';
+
+function country(code: string) {
+  const found = findCountry(code);
+  if (!found) throw new HardhatPluginError('trex', `Unknown country "${code}"`);
+  return found.numeric;
+}
+
+operationTask<{ wallet: string; identity: string; country: string }>(
+  'register-identity',
+  'Registers a wallet with its ONCHAINID and country',
+  async ({ wallet, identity, country: code }, { contract }) => [contract('IdentityRegistry'), 'registerIdentity', [wallet, identity, country(code)]],
+)
+  .addParam('wallet', 'Investor wallet')
+  .addParam('identity', 'ONCHAINID of the investor')
+  .addParam('country', COUNTRY_PARAM);
+
+operationTask<{ wallet: string; country: string }>(
+  'update-country',
+  'Updates the country of a registered wallet',
+  async ({ wallet, country: code }, { contract }) => [contract('IdentityRegistry'), 'updateCountry', [wallet, country(code)]],
+)
+  .addParam('wallet', 'Investor wallet')
+  .addParam('country', COUNTRY_PARAM);
+
+operationTask<{ topic: string }>('add-topic', 'Adds a required claim topic', async ({ topic }, { contract }) => [
+  contract('ClaimTopicsRegistry'),
+  'addClaimTopic',
+  [claimTopic(topic)],
+]).addParam('topic', 'Claim topic, a number or a string hashed with keccak256');
+
+operationTask<{ issuer: string; topics: string }>(
+  'add-issuer',
+  'Trusts a ClaimIssuer for some claim topics',
+  async ({ issuer, topics }, { contract }) => [
+    contract('ClaimIssuersRegistry'),
+    'addClaimIssuer',
+    [issuer, topics.split(',').map((topic) => claimTopic(topic.trim()))],
+  ],
+)
+  .addParam('issuer', 'ClaimIssuer contract')
+  .addParam('topics', 'Comma-separated claim topics, numbers or strings hashed with keccak256');
+
+const countries = (codes: string) => codes.split(',').map((code) => country(code));
+
+operationTask<{ countries: string; unblock: boolean }>(
+  'block-countries',
+  'Blocks transfers and mints to wallets of some countries (CountryRestrictCompliance)',
+  async ({ countries: codes, unblock }, { contract }) => [
+    contract('CountryRestrictCompliance'),
+    unblock ? 'batchUnblockCountries' : 'batchBlockCountries',
+    [countries(codes)],
+  ],
+)
+  .addParam('countries', 'Comma-separated ISO 3166-1 codes or names of countries (e.g. IR,KP)')
+  .addFlag('unblock', 'Remove the countries from the blocklist instead');
+
+operationTask<{ countries: string; disallow: boolean }>(
+  'allow-countries',
+  'Adds countries to the allowlist of the CountryRestrictCompliance; once it is not empty, only its countries can receive tokens',
+  async ({ countries: codes, disallow }, { contract }) => [
+    contract('CountryRestrictCompliance'),
+    disallow ? 'batchDisallowCountries' : 'batchAllowCountries',
+    [countries(codes)],
+  ],
+)
+  .addParam('countries', 'Comma-separated ISO 3166-1 codes or names of countries (e.g. IR,KP)')
+  .addFlag('disallow', 'Remove the countries from the allowlist instead');
+
+task('trex:countries', 'Lists the blocked and allowed countries of the CountryRestrictCompliance')
+  .addOptionalParam('manifestDir', 'Directory of the deployment manifests', DEFAULT_MANIFEST_DIR)
+  .setAction(async (args: CommonArgs, hre) => {
+    const { formatCountryRestrictions } = await import('../sdk/country-restrictions');
+    const compliance = (await loadSuite(hre, args)).contract('CountryRestrictCompliance');
+    const [blocked, allowed]: number[][] = await Promise.all([compliance.blockedCountries(), compliance.allowedCountries()]);
+    console.log(formatCountryRestrictions({ blocked, allowed }));
+    return { blocked, allowed };
+  });
+
+operationTask<{ limit: string; country?: string }>(
+  'holder-limit',
+  'Sets the maximum number of holders of the MaxHoldersCompliance, overall or of a country (0 for no limit)',
+  async ({ limit, country: code }, { contract }) => [
+    contract('MaxHoldersCompliance'),
+    code ? 'setCountryHolderLimit' : 'setHolderLimit',
+    code ? [country(code), limit] : [limit],
+  ],
+)
+  .addParam('limit', 'Maximum number of holders, 0 for no limit')
+  .addOptionalParam('country', COUNTRY_PARAM);
+
+task('trex:holders', 'Prints the holder counts and limits of the MaxHoldersCompliance')
+  .addOptionalParam('countries', 'Comma-separated countries to print besides the ones with a limit')
+  .addOptionalParam('manifestDir', 'Directory of the deployment manifests', DEFAULT_MANIFEST_DIR)
+  .setAction(async (args: CommonArgs & { countries?: string }, hre) => {
+    const [{ formatHolderCounts, readHolderCounts }, { MaxHoldersCompliance__factory }] = await Promise.all([
+      import('../sdk/holder-limits'),
+      import('../typechain-types'),
+    ]);
+    const { address } = (await loadSuite(hre, args)).contract('MaxHoldersCompliance');
+    const compliance = MaxHoldersCompliance__factory.connect(address, hre.ethers.provider);
+    const counts = await readHolderCounts(compliance, { countries: args.countries ? countries(args.countries) : [] });
+    console.log(formatHolderCounts(counts));
+    return counts;
+  });
+
+operationTask<{ seconds: string }>(
+  'lock-up-period',
+  'Sets the number of seconds minted and received tokens stay locked (LockUpCompliance)',
+  async ({ seconds }, { contract }) => [contract('LockUpCompliance'), 'setLockUpPeriod', [seconds]],
+).addParam('seconds', 'Lock-up period in seconds, 0 for no lock-up');
+
+task('trex:lock-ups', 'Prints the locked and unlocked balances of wallets under the LockUpCompliance')
+  .addParam('wallets', 'Comma-separated wallets')
+  .addOptionalParam('manifestDir', 'Directory of the deployment manifests', DEFAULT_MANIFEST_DIR)
+  .setAction(async (args: CommonArgs & { wallets: string }, hre) => {
+    const [{ formatLockUps, readLockUps }, { LockUpCompliance__factory }] = await Promise.all([
+      import('../sdk/lock-ups'),
+      import('../typechain-types'),
+    ]);
+    const { address } = (await loadSuite(hre, args)).contract('LockUpCompliance');
+    const lockUps = await readLockUps(LockUpCompliance__factory.connect(address, hre.ethers.provider), args.wallets.split(','));
+    console.log(formatLockUps(lockUps));
+    return lockUps;
+  });
+
+// Loaded when a rules task runs: compliance-rules imports typechain-types, which the tasks cannot do at load time
+async function loadComposableCompliance(hre: HardhatRuntimeEnvironment, args: CommonArgs) {
+  const [rulesModule, { ComposableCompliance__factory }] = await Promise.all([import('../sdk/compliance-rules'), import('../typechain-types')]);
+  const suite = await loadSuite(hre, args);
+  const compliance = ComposableCompliance__factory.connect(suite.contract('ComposableCompliance').address, suite.account);
+  return { ...rulesModule, suite, compliance };
+}
+
+task('trex:set-rules', 'Adds, removes and reorders the rules of the ComposableCompliance until they match --rules')
+  .addParam('rules', 'Comma-separated rules in evaluation order, addresses or manifest contract names')
+  .addFlag('dryRun', 'Only print the changes')
+  .addOptionalParam('signer', 'Address of the Hardhat account that signs (default: the first one)')
+  .addOptionalParam('manifestDir', 'Directory of the deployment manifests', DEFAULT_MANIFEST_DIR)
+  .setAction(async (args: CommonArgs & { rules: string }, hre) => {
+    const { applyComplianceRules, formatRuleChange, planComplianceRules, resolveRule, suite, compliance } = await loadComposableCompliance(hre, args);
+    try {
+      const target = args.rules.split(',').map((rule) => resolveRule(rule, suite.manifest));
+      const changes = planComplianceRules(await compliance.rules(), target);
+      if (args.dryRun || changes.length === 0) {
+        console.log(changes.length > 0 ? changes.map((change) => formatRuleChange(change, suite.manifest)).join('\n') : 'Rules already up to date');
+        return changes;
+      }
+      const applied = await applyComplianceRules(compliance, changes, {
+        manifest: suite.manifest,
+        log: (message) => console.log(`Applied ${message}`),
+      });
+      return applied.map(({ change }) => change);
+    } catch (error) {
+      throw new HardhatPluginError('trex', (error as Error).message);
+    }
+  });
+
+task('trex:rules', 'Lists the rules of the ComposableCompliance; with --from, --to and --amount, checks a transfer against each of them')
+  .addOptionalParam('from', 'Sender, the zero address for a mint')
+  .addOptionalParam('to', 'Receiver')
+  .addOptionalParam('amount', 'Amount in token units')
+  .addOptionalParam('manifestDir', 'Directory of the deployment manifests', DEFAULT_MANIFEST_DIR)
+  .setAction(async (args: CommonArgs & { from?: string; to?: string; amount?: string }, hre) => {
+    const { checkComplianceRules, readComplianceRules, suite, compliance } = await loadComposableCompliance(hre, args);
+    const label = (rule: { position: number; address: string; name?: string }) => `${rule.position}. ${rule.name ?? 'unknown'} (${rule.address})`;
+    if (!args.from || !args.to || !args.amount) {
+      const rules = await readComplianceRules(compliance, suite.manifest);
+      console.log(rules.length > 0 ? rules.map(label).join('\n') : 'No rule, every transfer is compliant');
+      return rules;
+    }
+    const amount = await tokenAmount(suite.contract('Token'), args.amount);
+    const report = await checkComplianceRules(compliance, args.from, args.to, amount, suite.manifest);
+    report.rules.forEach((rule) => console.log(`${label(rule)}: ${rule.compliant ? 'accepts' : 'rejects'}`));
+    console.log(report.rejectedBy ? `Rejected by ${label(report.rejectedBy)}` : 'Every rule accepts the transfer');
+    return report;
+  });
+
+interface RolesArgs {
+  file: string;
+  manifestDir: string;
+  signer?: string;
+  dryRun?: boolean;
+}
+
+// Loaded when a roles task runs: role-config imports typechain-types, which the tasks cannot do at load time
+const loadRoleConfig = () => import('../sdk/role-config');
+
+async function planRolesFile(hre: HardhatRuntimeEnvironment, { file, manifestDir }: RolesArgs) {
+  const { formatRoleChange, planRoles, readRoleConfig } = await loadRoleConfig();
+  const manifest = await loadManifest(hre.network.name, hre.ethers.provider, manifestDir);
+  let plan: Awaited<ReturnType<typeof planRoles>>;
+  try {
+    plan = await planRoles(readRoleConfig(file), manifest, hre.ethers.provider);
+  } catch (error) {
+    throw new HardhatPluginError('trex', `${file}: ${(error as Error).message}`);
+  }
+  console.log(`Role plan for ${manifest.network} at block ${plan.blockNumber}: ${plan.changes.length} changes, ${plan.unchanged.length} unchanged`);
+  plan.changes.forEach((change) => console.log(`  ${formatRoleChange(change)}`));
+  plan.errors.forEach((error) => console.error(`  error: ${error}`));
+  return plan;
+}
+
+task('trex:roles-plan', 'Diffs a role configuration file against the roles held on the suite contracts')
+  .addParam('file', 'JSON or YAML (.yaml, .yml) role configuration')
+  .addOptionalParam('manifestDir', 'Directory of the deployment manifests', DEFAULT_MANIFEST_DIR)
+  .setAction(async (args: RolesArgs, hre) => planRolesFile(hre, args));
+
+task('trex:roles-apply', 'Grants and revokes roles until the suite contracts match a role configuration file')
+  .addParam('file', 'JSON or YAML (.yaml, .yml) role configuration')
+  .addFlag('dryRun', 'Only simulate the calls with callStatic')
+  .addOptionalParam('signer', 'Address of the Hardhat account that signs (default: the first one)')
+  .addOptionalParam('manifestDir', 'Directory of the deployment manifests', DEFAULT_MANIFEST_DIR)
+  .setAction(async (args: RolesArgs, hre) => {
+    const { applyRolePlan } = await loadRoleConfig();
+    const plan = await planRolesFile(hre, args);
+    const account = await signerAccount(hre, args.signer);
+    try {
+      return await applyRolePlan(plan, account, {
+        dryRun: args.dryRun,
+        log: (message) => console.log(`${args.dryRun ? 'Simulated' : 'Applied'} ${message}`),
+      });
+    } catch (error) {
+      throw new HardhatPluginError('trex', (error as Error).message);
+    }
+  });
@@ -0,0 +1,231 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { ALICE_COUNTRY, BOB_COUNTRY, deploySuiteWithComposableComplianceFixture, missingRoleMessage } from '../fixtures/deploy-full-suite.fixture';
+
+describe('ComposableCompliance', () => {
+  describe('.bindToken()', () => {
+    it('should bind the token to every rule', async () => {
+      const {
+        suite: { token, compliance },
+        rules: { countryRestrict, maxHolders },
+      } = await loadFixture(deploySuiteWithComposableComplianceFixture);
+
+      await expect(compliance.isTokenBound(token.address)).to.eventually.be.true;
+      await expect(countryRestrict.isTokenBound(token.address)).to.eventually.be.true;
+      await expect(maxHolders.isTokenBound(token.address)).to.eventually.be.true;
+    });
+  });
+
+  describe('.addRule()', () => {
+    describe('when the caller does not have ADMIN_ROLE', () => {
+      it('should revert', async () => {
+        const {
+          suite: { compliance },
+          accounts: { anotherWallet },
+        } = await loadFixture(deploySuiteWithComposableComplianceFixture);
+
+        await expect(compliance.connect(anotherWallet).addRule(anotherWallet.address)).to.be.revertedWith(
+          missingRoleMessage(anotherWallet.address, await compliance.ADMIN_ROLE()),
+        );
+      });
+    });
+
+    describe('when the rule is invalid or already added', () => {
+      it('should revert', async () => {
+        const {
+          suite: { compliance },
+          rules: { maxHolders },
+        } = await loadFixture(deploySuiteWithComposableComplianceFixture);
+
+        await expect(compliance.addRule(ethers.constants.AddressZero)).to.be.revertedWith('ERC-3643: Invalid rule');
+        await expect(compliance.addRule(compliance.address)).to.be.revertedWith('ERC-3643: Invalid rule');
+        await expect(compliance.addRule(maxHolders.address)).to.be.revertedWith('ERC-3643: Rule already added');
+      });
+    });
+
+    describe('when the compliance is bound to a token', () => {
+      it('should add the rule at the end and bind it to the token', async () => {
+        const {
+          suite: { token, compliance },
+          rules: { countryRestrict, maxHolders },
+        } = await loadFixture(deploySuiteWithComposableComplianceFixture);
+        const basic = await (await ethers.getContractFactory('BasicCompliance')).deploy();
+
+        await expect(compliance.addRule(basic.address)).to.emit(compliance, 'RuleAdded').withArgs(basic.address);
+
+        await expect(compliance.rules()).to.eventually.deep.equal([countryRestrict.address, maxHolders.address, basic.address]);
+        await expect(compliance.isRule(basic.address)).to.eventually.be.true;
+        await expect(basic.isTokenBound(token.address)).to.eventually.be.true;
+      });
+    });
+
+    describe('when the rule list is full', () => {
+      it('should revert', async () => {
+        const {
+          suite: { compliance },
+        } = await loadFixture(deploySuiteWithComposableComplianceFixture);
+        const factory = await ethers.getContractFactory('BasicCompliance');
+        const missing = (await compliance.MAX_RULES()).toNumber() - (await compliance.rules()).length;
+        await Array.from({ length: missing }).reduce<Promise<void>>(async (previous) => {
+          await previous;
+          await compliance.addRule((await factory.deploy()).address);
+        }, Promise.resolve());
+
+        await expect(compliance.addRule((await factory.deploy()).address)).to.be.revertedWith('ERC-3643: Too many rules');
+      });
+    });
+  });
+
+  describe('.unbindToken()', () => {
+    describe('when the caller has neither ADMIN_ROLE nor TOKEN_ROLE', () => {
+      it('should revert', async () => {
+        const {
+          suite: { token, compliance },
+          accounts: { anotherWallet },
+        } = await loadFixture(deploySuiteWithComposableComplianceFixture);
+
+        await expect(compliance.connect(anotherWallet).unbindToken(token.address)).to.be.revertedWith('ERC-3643: Caller not authorized');
+      });
+    });
+
+    describe('when the token is not bound', () => {
+      it('should revert', async () => {
+        const {
+          suite: { compliance },
+          accounts: { anotherWallet },
+        } = await loadFixture(deploySuiteWithComposableComplianceFixture);
+
+        await expect(compliance.unbindToken(anotherWallet.address)).to.be.revertedWith('ERC-3643: Token not bound');
+      });
+    });
+
+    describe('when the token is bound', () => {
+      it('should unbind it', async () => {
+        const {
+          suite: { token, compliance },
+        } = await loadFixture(deploySuiteWithComposableComplianceFixture);
+
+        await expect(compliance.unbindToken(token.address)).to.emit(compliance, 'TokenUnbound').withArgs(token.address);
+
+        await expect(compliance.isTokenBound(token.address)).to.eventually.be.false;
+      });
+    });
+  });
+
+  describe('.removeRule()', () => {
+    describe('when the caller does not have ADMIN_ROLE', () => {
+      it('should revert', async () => {
+        const {
+          suite: { compliance },
+          accounts: { anotherWallet },
+          rules: { maxHolders },
+        } = await loadFixture(deploySuiteWithComposableComplianceFixture);
+
+        await expect(compliance.connect(anotherWallet).removeRule(maxHolders.address)).to.be.revertedWith(
+          missingRoleMessage(anotherWallet.address, await compliance.ADMIN_ROLE()),
+        );
+      });
+    });
+
+    it('should remove the rule and keep the order of the others', async () => {
+      const {
+        suite: { compliance },
+        rules: { countryRestrict, maxHolders },
+      } = await loadFixture(deploySuiteWithComposableComplianceFixture);
+      const basic = await (await ethers.getContractFactory('BasicCompliance')).deploy();
+      await compliance.addRule(basic.address);
+
+      await expect(compliance.removeRule(countryRestrict.address)).to.emit(compliance, 'RuleRemoved').withArgs(countryRestrict.address);
+
+      await expect(compliance.rules()).to.eventually.deep.equal([maxHolders.address, basic.address]);
+      await expect(compliance.isRule(countryRestrict.address)).to.eventually.be.false;
+      await expect(compliance.removeRule(countryRestrict.address)).to.be.revertedWith('ERC-3643: Rule not found');
+    });
+  });
+
+  describe('.moveRule()', () => {
+    describe('when the caller does not have ADMIN_ROLE', () => {
+      it('should revert', async () => {
+        const {
+          suite: { compliance },
+          accounts: { anotherWallet },
+          rules: { maxHolders },
+        } = await loadFixture(deploySuiteWithComposableComplianceFixture);
+
+        await expect(compliance.connect(anotherWallet).moveRule(maxHolders.address, 0)).to.be.revertedWith(
+          missingRoleMessage(anotherWallet.address, await compliance.ADMIN_ROLE()),
+        );
+      });
+    });
+
+    it('should move the rule and shift the rules in between', async () => {
+      const {
+        suite: { compliance },
+        rules: { countryRestrict, maxHolders },
+      } = await loadFixture(deploySuiteWithComposableComplianceFixture);
+      const basic = await (await ethers.getContractFactory('BasicCompliance')).deploy();
+      await compliance.addRule(basic.address);
+
+      await expect(compliance.moveRule(basic.address, 0)).to.emit(compliance, 'RuleMoved').withArgs(basic.address, 0);
+      await expect(compliance.rules()).to.eventually.deep.equal([basic.address, countryRestrict.address, maxHolders.address]);
+
+      await compliance.moveRule(basic.address, 2);
+      await expect(compliance.rules()).to.eventually.deep.equal([countryRestrict.address, maxHolders.address, basic.address]);
+      await expect(compliance.moveRule(basic.address, 3)).to.be.revertedWith('ERC-3643: Invalid position');
+    });
+  });
+
+  describe('.transferred() / .created() / .destroyed()', () => {
+    describe('when the caller is neither the token nor a holder of TOKEN_ROLE', () => {
+      it('should revert', async () => {
+        const {
+          suite: { compliance },
+          accounts: { anotherWallet, aliceWallet },
+        } = await loadFixture(deploySuiteWithComposableComplianceFixture);
+
+        await expect(compliance.connect(anotherWallet).created(aliceWallet.address, 1)).to.be.revertedWith('ERC-3643: Caller is not the token');
+      });
+    });
+  });
+
+  describe('.transfer()', () => {
+    describe('when a rule rejects the transfer', () => {
+      it('should revert', async () => {
+        const {
+          suite: { token, identityRegistry },
+          accounts: { aliceWallet, bobWallet, tokenAgent, charlieWallet },
+          identities: { aliceIdentity },
+          rules: { countryRestrict, maxHolders },
+        } = await loadFixture(deploySuiteWithComposableComplianceFixture);
+        await identityRegistry.connect(tokenAgent).registerIdentity(charlieWallet.address, aliceIdentity.address, ALICE_COUNTRY);
+        await countryRestrict.blockCountry(BOB_COUNTRY);
+        await maxHolders.setHolderLimit(2);
+
+        await expect(token.connect(aliceWallet).transfer(bobWallet.address, 100)).to.be.revertedWith('ERC-3643: Compliance failure');
+        await expect(token.connect(aliceWallet).transfer(charlieWallet.address, 100)).to.be.revertedWith('ERC-3643: Compliance failure');
+      });
+    });
+
+    describe('when every rule accepts the transfer', () => {
+      it('should transfer and forward the hooks to the rules', async () => {
+        const {
+          suite: { token, compliance, identityRegistry },
+          accounts: { aliceWallet, tokenAgent, charlieWallet },
+          identities: { aliceIdentity },
+          rules: { maxHolders },
+        } = await loadFixture(deploySuiteWithComposableComplianceFixture);
+        await identityRegistry.connect(tokenAgent).registerIdentity(charlieWallet.address, aliceIdentity.address, ALICE_COUNTRY);
+
+        await expect(token.connect(aliceWallet).transfer(charlieWallet.address, 100))
+          .to.emit(maxHolders, 'HolderAdded')
+          .withArgs(charlieWallet.address, ALICE_COUNTRY);
+
+        await expect(compliance.canTransfer(aliceWallet.address, charlieWallet.address, 100)).to.eventually.be.true;
+        await expect(maxHolders.holderCount()).to.eventually.equal(3);
+        await token.connect(tokenAgent).burn(charlieWallet.address, 100);
+        await expect(maxHolders.holderCount()).to.eventually.equal(2);
+      });
+    });
+  });
+});
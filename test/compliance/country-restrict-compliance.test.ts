@@ -0,0 +1,237 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import {
+  ALICE_COUNTRY,
+  BOB_COUNTRY,
+  deploySuiteWithCountryRestrictComplianceFixture,
+  missingRoleMessage,
+} from '../fixtures/deploy-full-suite.fixture';
+
+describe('CountryRestrictCompliance', () => {
+  describe('.blockCountry()', () => {
+    describe('when the caller does not have ADMIN_ROLE', () => {
+      it('should revert', async () => {
+        const {
+          suite: { compliance },
+          accounts: { anotherWallet },
+        } = await loadFixture(deploySuiteWithCountryRestrictComplianceFixture);
+
+        await expect(compliance.connect(anotherWallet).blockCountry(BOB_COUNTRY)).to.be.revertedWith(
+          missingRoleMessage(anotherWallet.address, await compliance.ADMIN_ROLE()),
+        );
+      });
+    });
+
+    describe('when the country is already blocked', () => {
+      it('should revert', async () => {
+        const {
+          suite: { compliance },
+        } = await loadFixture(deploySuiteWithCountryRestrictComplianceFixture);
+        await compliance.blockCountry(BOB_COUNTRY);
+
+        await expect(compliance.blockCountry(BOB_COUNTRY)).to.be.revertedWith('ERC-3643: Country already blocked');
+      });
+    });
+
+    describe('when the caller has ADMIN_ROLE', () => {
+      it('should add the country to the blocklist', async () => {
+        const {
+          suite: { compliance },
+        } = await loadFixture(deploySuiteWithCountryRestrictComplianceFixture);
+
+        await expect(compliance.blockCountry(BOB_COUNTRY)).to.emit(compliance, 'CountryBlocked').withArgs(BOB_COUNTRY);
+
+        await expect(compliance.isCountryBlocked(BOB_COUNTRY)).to.eventually.be.true;
+        await expect(compliance.isCountryPermitted(BOB_COUNTRY)).to.eventually.be.false;
+        await expect(compliance.blockedCountries()).to.eventually.deep.equal([BOB_COUNTRY]);
+      });
+    });
+  });
+
+  describe('.unblockCountry()', () => {
+    describe('when the country is not blocked', () => {
+      it('should revert', async () => {
+        const {
+          suite: { compliance },
+        } = await loadFixture(deploySuiteWithCountryRestrictComplianceFixture);
+
+        await expect(compliance.unblockCountry(BOB_COUNTRY)).to.be.revertedWith('ERC-3643: Country not blocked');
+      });
+    });
+
+    describe('when the country is blocked', () => {
+      it('should remove it and keep the other countries listed', async () => {
+        const {
+          suite: { compliance },
+        } = await loadFixture(deploySuiteWithCountryRestrictComplianceFixture);
+        await compliance.batchBlockCountries([364, 408, BOB_COUNTRY]);
+
+        await expect(compliance.unblockCountry(364)).to.emit(compliance, 'CountryUnblocked').withArgs(364);
+
+        await expect(compliance.blockedCountries()).to.eventually.have.members([408, BOB_COUNTRY]);
+        await expect(compliance.isCountryBlocked(364)).to.eventually.be.false;
+        await compliance.batchUnblockCountries([BOB_COUNTRY, 408]);
+        await expect(compliance.blockedCountries()).to.eventually.be.empty;
+      });
+    });
+  });
+
+  describe('.allowCountry() / .disallowCountry()', () => {
+    it('should only permit the allowed countries while the allowlist is not empty', async () => {
+      const {
+        suite: { compliance },
+      } = await loadFixture(deploySuiteWithCountryRestrictComplianceFixture);
+
+      await expect(compliance.allowCountry(ALICE_COUNTRY)).to.emit(compliance, 'CountryAllowed').withArgs(ALICE_COUNTRY);
+      await expect(compliance.allowCountry(ALICE_COUNTRY)).to.be.revertedWith('ERC-3643: Country already allowed');
+      await expect(compliance.isCountryPermitted(ALICE_COUNTRY)).to.eventually.be.true;
+      await expect(compliance.isCountryPermitted(BOB_COUNTRY)).to.eventually.be.false;
+
+      await expect(compliance.disallowCountry(ALICE_COUNTRY)).to.emit(compliance, 'CountryDisallowed').withArgs(ALICE_COUNTRY);
+      await expect(compliance.disallowCountry(ALICE_COUNTRY)).to.be.revertedWith('ERC-3643: Country not allowed');
+      await expect(compliance.isCountryPermitted(BOB_COUNTRY)).to.eventually.be.true;
+    });
+
+    it('should not permit a blocked country even when it is allowed', async () => {
+      const {
+        suite: { compliance },
+      } = await loadFixture(deploySuiteWithCountryRestrictComplianceFixture);
+      await compliance.batchAllowCountries([ALICE_COUNTRY, BOB_COUNTRY]);
+      await compliance.blockCountry(BOB_COUNTRY);
+
+      await expect(compliance.isCountryPermitted(ALICE_COUNTRY)).to.eventually.be.true;
+      await expect(compliance.isCountryPermitted(BOB_COUNTRY)).to.eventually.be.false;
+    });
+  });
+
+  describe('.transfer()', () => {
+    describe('when the country of the receiver is blocked', () => {
+      it('should revert', async () => {
+        const {
+          suite: { token, compliance },
+          accounts: { aliceWallet, bobWallet },
+        } = await loadFixture(deploySuiteWithCountryRestrictComplianceFixture);
+        await compliance.blockCountry(BOB_COUNTRY);
+
+        await expect(token.connect(aliceWallet).transfer(bobWallet.address, 100)).to.be.revertedWith('ERC-3643: Compliance failure');
+      });
+    });
+
+    describe('when only the country of the sender is blocked', () => {
+      it('should transfer the tokens', async () => {
+        const {
+          suite: { token, compliance },
+          accounts: { aliceWallet, bobWallet },
+        } = await loadFixture(deploySuiteWithCountryRestrictComplianceFixture);
+        await compliance.blockCountry(BOB_COUNTRY);
+
+        await expect(token.connect(bobWallet).transfer(aliceWallet.address, 100)).to.emit(token, 'Transfer');
+      });
+    });
+
+    describe('when the country of the receiver is not on the allowlist', () => {
+      it('should revert, and transfer to an allowed country', async () => {
+        const {
+          suite: { token, compliance },
+          accounts: { aliceWallet, bobWallet },
+        } = await loadFixture(deploySuiteWithCountryRestrictComplianceFixture);
+        await compliance.allowCountry(ALICE_COUNTRY);
+
+        await expect(token.connect(aliceWallet).transfer(bobWallet.address, 100)).to.be.revertedWith('ERC-3643: Compliance failure');
+        await token.connect(bobWallet).transfer(aliceWallet.address, 100);
+        await expect(token.balanceOf(aliceWallet.address)).to.eventually.equal(1100);
+      });
+    });
+  });
+
+  describe('.transferFrom()', () => {
+    describe('when the country of the receiver is blocked', () => {
+      it('should revert', async () => {
+        const {
+          suite: { token, compliance },
+          accounts: { aliceWallet, bobWallet, anotherWallet },
+        } = await loadFixture(deploySuiteWithCountryRestrictComplianceFixture);
+        await compliance.blockCountry(BOB_COUNTRY);
+        await token.connect(aliceWallet).approve(anotherWallet.address, 100);
+
+        await expect(token.connect(anotherWallet).transferFrom(aliceWallet.address, bobWallet.address, 100)).to.be.revertedWith(
+          'ERC-3643: Compliance failure',
+        );
+      });
+    });
+  });
+
+  describe('.mint()', () => {
+    describe('when the country of the receiver is blocked', () => {
+      it('should revert until the country is unblocked', async () => {
+        const {
+          suite: { token, compliance },
+          accounts: { tokenAgent, bobWallet },
+        } = await loadFixture(deploySuiteWithCountryRestrictComplianceFixture);
+        await compliance.blockCountry(BOB_COUNTRY);
+
+        await expect(token.connect(tokenAgent).mint(bobWallet.address, 100)).to.be.revertedWith('ERC-3643: Compliance failure');
+
+        await compliance.unblockCountry(BOB_COUNTRY);
+        await token.connect(tokenAgent).mint(bobWallet.address, 100);
+        await expect(token.balanceOf(bobWallet.address)).to.eventually.equal(600);
+      });
+    });
+
+    describe('when the country of the receiver is not on the allowlist', () => {
+      it('should revert', async () => {
+        const {
+          suite: { token, compliance },
+          accounts: { tokenAgent, bobWallet },
+        } = await loadFixture(deploySuiteWithCountryRestrictComplianceFixture);
+        await compliance.allowCountry(ALICE_COUNTRY);
+
+        await expect(token.connect(tokenAgent).mint(bobWallet.address, 100)).to.be.revertedWith('ERC-3643: Compliance failure');
+      });
+    });
+  });
+
+  describe('.forcedTransfer()', () => {
+    describe('when the country of the receiver is blocked', () => {
+      it('should revert', async () => {
+        const {
+          suite: { token, compliance },
+          accounts: { tokenAgent, aliceWallet, bobWallet },
+        } = await loadFixture(deploySuiteWithCountryRestrictComplianceFixture);
+        await compliance.blockCountry(BOB_COUNTRY);
+
+        await expect(token.connect(tokenAgent).forcedTransfer(aliceWallet.address, bobWallet.address, 100)).to.be.revertedWith(
+          'ERC-3643: Compliance failure',
+        );
+      });
+    });
+
+    describe('when the country of the receiver is permitted', () => {
+      it('should transfer the tokens', async () => {
+        const {
+          suite: { token, compliance },
+          accounts: { tokenAgent, aliceWallet, bobWallet },
+        } = await loadFixture(deploySuiteWithCountryRestrictComplianceFixture);
+        await compliance.blockCountry(BOB_COUNTRY);
+
+        await token.connect(tokenAgent).forcedTransfer(bobWallet.address, aliceWallet.address, 100);
+
+        await expect(token.balanceOf(aliceWallet.address)).to.eventually.equal(1100);
+      });
+    });
+  });
+
+  describe('.bindToken()', () => {
+    describe('when the compliance is already bound and the caller does not have ADMIN_ROLE', () => {
+      it('should revert', async () => {
+        const {
+          suite: { token, compliance },
+          accounts: { anotherWallet },
+        } = await loadFixture(deploySuiteWithCountryRestrictComplianceFixture);
+
+        await expect(compliance.isTokenBound(token.address)).to.eventually.be.true;
+        await expect(compliance.connect(anotherWallet).bindToken(anotherWallet.address)).to.be.revertedWith('ERC-3643: Caller not authorized');
+      });
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import { LOCK_UP_PERIOD, deploySuiteWithLockUpComplianceFixture, missingRoleMessage } from '../fixtures/deploy-full-suite.fixture';
+import { walletKey } from '../../sdk';
+
+describe('LockUpCompliance', () => {
+  describe('.setLockUpPeriod()', () => {
+    describe('when the caller does not have ADMIN_ROLE', () => {
+      it('should revert', async () => {
+        const {
+          suite: { compliance },
+          accounts: { anotherWallet },
+        } = await loadFixture(deploySuiteWithLockUpComplianceFixture);
+
+        await expect(compliance.connect(anotherWallet).setLockUpPeriod(0)).to.be.revertedWith(
+          missingRoleMessage(anotherWallet.address, await compliance.ADMIN_ROLE()),
+        );
+      });
+    });
+
+    describe('when the caller has ADMIN_ROLE', () => {
+      it('should apply the new period to the lots already recorded', async () => {
+        const {
+          suite: { token, compliance },
+          accounts: { tokenAgent, aliceWallet },
+        } = await loadFixture(deploySuiteWithLockUpComplianceFixture);
+        await token.connect(tokenAgent).mint(aliceWallet.address, 100);
+
+        await expect(compliance.setLockUpPeriod(0)).to.emit(compliance, 'LockUpPeriodSet').withArgs(0);
+
+        await expect(compliance.lockedBalanceOf(aliceWallet.address)).to.eventually.equal(0);
+      });
+    });
+  });
+
+  describe('.created()', () => {
+    describe('when the caller is neither the token nor a holder of TOKEN_ROLE', () => {
+      it('should revert', async () => {
+        const {
+          suite: { compliance },
+          accounts: { anotherWallet, aliceWallet },
+        } = await loadFixture(deploySuiteWithLockUpComplianceFixture);
+
+        await expect(compliance.connect(anotherWallet).created(aliceWallet.address, 1)).to.be.revertedWith('ERC-3643: Caller is not the token');
+      });
+    });
+  });
+
+  describe('.mint()', () => {
+    it('should lock the minted tokens until the end of the period', async () => {
+      const {
+        suite: { token, compliance },
+        accounts: { tokenAgent, aliceWallet, bobWallet },
+      } = await loadFixture(deploySuiteWithLockUpComplianceFixture);
+      await token.connect(tokenAgent).mint(aliceWallet.address, 100);
+      const mintedAt = await time.latest();
+
+      await expect(compliance.lotsOf(aliceWallet.address)).to.eventually.deep.equal([[100, mintedAt]]);
+      await expect(compliance.lockedBalanceOf(aliceWallet.address)).to.eventually.equal(100);
+      await expect(compliance.unlockedBalanceOf(aliceWallet.address)).to.eventually.equal(1000);
+      await expect(token.connect(aliceWallet).transfer(bobWallet.address, 1001)).to.be.revertedWith('ERC-3643: Compliance failure');
+
+      await time.increaseTo(mintedAt + LOCK_UP_PERIOD - 1);
+      await expect(compliance.lockedBalanceOf(aliceWallet.address)).to.eventually.equal(100);
+      // Mined one second later, at the end of the period
+      await token.connect(aliceWallet).transfer(bobWallet.address, 1001);
+
+      await expect(token.balanceOf(aliceWallet.address)).to.eventually.equal(99);
+    });
+  });
+
+  describe('.transfer()', () => {
+    it('should lock the tokens received and only unlock each lot at the end of its own period', async () => {
+      const {
+        suite: { token, compliance },
+        accounts: { aliceWallet, bobWallet },
+      } = await loadFixture(deploySuiteWithLockUpComplianceFixture);
+      await token.connect(aliceWallet).transfer(bobWallet.address, 100);
+      await time.increase(LOCK_UP_PERIOD / 2);
+      await token.connect(aliceWallet).transfer(bobWallet.address, 50);
+
+      await expect(compliance.lockedBalanceOf(bobWallet.address)).to.eventually.equal(150);
+      await expect(token.connect(bobWallet).transfer(aliceWallet.address, 501)).to.be.revertedWith('ERC-3643: Compliance failure');
+
+      await time.increase(LOCK_UP_PERIOD / 2);
+      await expect(compliance.lockedBalanceOf(bobWallet.address)).to.eventually.equal(50);
+      await token.connect(bobWallet).transfer(aliceWallet.address, 600);
+
+      await expect(compliance.unlockedBalanceOf(bobWallet.address)).to.eventually.equal(0);
+      await expect(compliance.lotsOf(bobWallet.address)).to.eventually.have.lengthOf(1);
+    });
+
+    it('should spend the tokens held before the lots, then the oldest lots', async () => {
+      const {
+        suite: { token, compliance },
+        accounts: { tokenAgent, aliceWallet, bobWallet },
+      } = await loadFixture(deploySuiteWithLockUpComplianceFixture);
+      await token.connect(tokenAgent).mint(bobWallet.address, 100);
+      await time.increase(LOCK_UP_PERIOD);
+      await token.connect(tokenAgent).mint(bobWallet.address, 30);
+      const lastMintAt = await time.latest();
+
+      await token.connect(bobWallet).transfer(aliceWallet.address, 560);
+
+      await expect(compliance.lotsOf(bobWallet.address)).to.eventually.deep.equal([
+        [40, lastMintAt - LOCK_UP_PERIOD - 1],
+        [30, lastMintAt],
+      ]);
+      await expect(compliance.lockedBalanceOf(bobWallet.address)).to.eventually.equal(30);
+    });
+  });
+
+  describe('.burn()', () => {
+    it('should spend the oldest lots and keep the locked ones that fit in the balance', async () => {
+      const {
+        suite: { token, compliance },
+        accounts: { tokenAgent, aliceWallet },
+      } = await loadFixture(deploySuiteWithLockUpComplianceFixture);
+      await token.connect(tokenAgent).mint(aliceWallet.address, 100);
+
+      await token.connect(tokenAgent).burn(aliceWallet.address, 1050);
+
+      await expect(compliance.lockedBalanceOf(aliceWallet.address)).to.eventually.equal(50);
+      await token.connect(tokenAgent).burn(aliceWallet.address, 50);
+      await expect(compliance.lotsOf(aliceWallet.address)).to.eventually.be.empty;
+    });
+  });
+
+  describe('.forcedTransfer()', () => {
+    describe('when the tokens are locked', () => {
+      it('should revert', async () => {
+        const {
+          suite: { token },
+          accounts: { tokenAgent, aliceWallet, bobWallet },
+        } = await loadFixture(deploySuiteWithLockUpComplianceFixture);
+        await token.connect(tokenAgent).mint(bobWallet.address, 100);
+
+        await expect(token.connect(tokenAgent).forcedTransfer(bobWallet.address, aliceWallet.address, 600)).to.be.revertedWith(
+          'ERC-3643: Compliance failure',
+        );
+      });
+    });
+  });
+
+  describe('.recoveryAddress()', () => {
+    it('should recover locked tokens and keep them locked until the end of their period', async () => {
+      const {
+        suite: { token, compliance },
+        accounts: { tokenAgent, aliceWallet, bobWallet, anotherWallet },
+        identities: { bobIdentity },
+      } = await loadFixture(deploySuiteWithLockUpComplianceFixture);
+      await token.connect(tokenAgent).mint(bobWallet.address, 100);
+      const mintedAt = await time.latest();
+      await bobIdentity.connect(bobWallet).addKey(walletKey(anotherWallet.address), 1, 1);
+
+      await token.connect(tokenAgent).recoveryAddress(bobWallet.address, anotherWallet.address, bobIdentity.address);
+
+      await expect(compliance.lotsOf(anotherWallet.address)).to.eventually.deep.equal([[100, mintedAt]]);
+      await expect(compliance.lotsOf(bobWallet.address)).to.eventually.be.empty;
+      await expect(token.connect(anotherWallet).transfer(aliceWallet.address, 501)).to.be.revertedWith('ERC-3643: Compliance failure');
+      await time.increaseTo(mintedAt + LOCK_UP_PERIOD);
+      await token.connect(anotherWallet).transfer(aliceWallet.address, 600);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import { ALICE_COUNTRY, BOB_COUNTRY, deploySuiteWithMaxHoldersComplianceFixture, missingRoleMessage } from '../fixtures/deploy-full-suite.fixture';
+import { walletKey } from '../../sdk';
+
+// Charlie shares Alice's identity and country and David shares Bob's, so both can receive tokens
+async function deployWithMoreInvestorsFixture() {
+  const context = await loadFixture(deploySuiteWithMaxHoldersComplianceFixture);
+  const {
+    suite: { identityRegistry },
+    accounts: { tokenAgent, charlieWallet, davidWallet },
+    identities: { aliceIdentity, bobIdentity },
+  } = context;
+  await identityRegistry
+    .connect(tokenAgent)
+    .batchRegisterIdentity([charlieWallet.address, davidWallet.address], [aliceIdentity.address, bobIdentity.address], [ALICE_COUNTRY, BOB_COUNTRY]);
+
+  return context;
+}
+
+describe('MaxHoldersCompliance', () => {
+  describe('.setHolderLimit()', () => {
+    describe('when the caller does not have ADMIN_ROLE', () => {
+      it('should revert', async () => {
+        const {
+          suite: { compliance },
+          accounts: { anotherWallet },
+        } = await loadFixture(deploySuiteWithMaxHoldersComplianceFixture);
+
+        await expect(compliance.connect(anotherWallet).setHolderLimit(2)).to.be.revertedWith(
+          missingRoleMessage(anotherWallet.address, await compliance.ADMIN_ROLE()),
+        );
+      });
+    });
+
+    describe('when the caller has ADMIN_ROLE', () => {
+      it('should set the limit', async () => {
+        const {
+          suite: { compliance },
+        } = await loadFixture(deploySuiteWithMaxHoldersComplianceFixture);
+
+        await expect(compliance.setHolderLimit(2)).to.emit(compliance, 'HolderLimitSet').withArgs(2);
+
+        await expect(compliance.holderLimit()).to.eventually.equal(2);
+      });
+    });
+  });
+
+  describe('.setCountryHolderLimit()', () => {
+    it('should list the countries with a limit until it is set back to 0', async () => {
+      const {
+        suite: { compliance },
+      } = await loadFixture(deploySuiteWithMaxHoldersComplianceFixture);
+
+      await expect(compliance.setCountryHolderLimit(ALICE_COUNTRY, 1)).to.emit(compliance, 'CountryHolderLimitSet').withArgs(ALICE_COUNTRY, 1);
+      await compliance.setCountryHolderLimit(BOB_COUNTRY, 3);
+      await compliance.setCountryHolderLimit(ALICE_COUNTRY, 2);
+      await expect(compliance.limitedCountries()).to.eventually.deep.equal([ALICE_COUNTRY, BOB_COUNTRY]);
+      await expect(compliance.countryHolderLimit(ALICE_COUNTRY)).to.eventually.equal(2);
+
+      await compliance.setCountryHolderLimit(ALICE_COUNTRY, 0);
+      await expect(compliance.limitedCountries()).to.eventually.deep.equal([BOB_COUNTRY]);
+      await expect(compliance.countryHolderLimit(ALICE_COUNTRY)).to.eventually.equal(0);
+    });
+  });
+
+  describe('.syncHolders()', () => {
+    it('should count the wallets that held tokens before the token was bound', async () => {
+      const {
+        suite: { compliance },
+        accounts: { aliceWallet, bobWallet },
+      } = await loadFixture(deploySuiteWithMaxHoldersComplianceFixture);
+
+      await expect(compliance.holderCount()).to.eventually.equal(2);
+      await expect(compliance.isHolder(aliceWallet.address)).to.eventually.be.true;
+      await expect(compliance.holderCountry(bobWallet.address)).to.eventually.equal(BOB_COUNTRY);
+      await expect(compliance.countryHolderCount(ALICE_COUNTRY)).to.eventually.equal(1);
+      await expect(compliance.syncHolders([aliceWallet.address])).not.to.emit(compliance, 'HolderAdded');
+    });
+  });
+
+  describe('.transferred() / .created() / .destroyed()', () => {
+    describe('when the caller is neither the token nor a holder of TOKEN_ROLE', () => {
+      it('should revert', async () => {
+        const {
+          suite: { compliance },
+          accounts: { anotherWallet, aliceWallet },
+        } = await loadFixture(deploySuiteWithMaxHoldersComplianceFixture);
+
+        await expect(compliance.connect(anotherWallet).created(aliceWallet.address, 1)).to.be.revertedWith('ERC-3643: Caller is not the token');
+      });
+    });
+  });
+
+  describe('.mint()', () => {
+    describe('when the receiver would exceed the holder limit', () => {
+      it('should revert', async () => {
+        const {
+          suite: { token, compliance },
+          accounts: { tokenAgent, charlieWallet },
+        } = await loadFixture(deployWithMoreInvestorsFixture);
+        await compliance.setHolderLimit(2);
+
+        await expect(token.connect(tokenAgent).mint(charlieWallet.address, 100)).to.be.revertedWith('ERC-3643: Compliance failure');
+      });
+    });
+
+    describe('when the receiver is a new holder within the limit', () => {
+      it('should count it in its country', async () => {
+        const {
+          suite: { token, compliance },
+          accounts: { tokenAgent, charlieWallet },
+        } = await loadFixture(deployWithMoreInvestorsFixture);
+        await compliance.setHolderLimit(3);
+
+        await expect(token.connect(tokenAgent).mint(charlieWallet.address, 100))
+          .to.emit(compliance, 'HolderAdded')
+          .withArgs(charlieWallet.address, ALICE_COUNTRY);
+
+        await expect(compliance.holderCount()).to.eventually.equal(3);
+        await expect(compliance.countryHolderCount(ALICE_COUNTRY)).to.eventually.equal(2);
+      });
+    });
+
+    describe('when the receiver already holds tokens', () => {
+      it('should mint even at the limit', async () => {
+        const {
+          suite: { token, compliance },
+          accounts: { tokenAgent, aliceWallet },
+        } = await loadFixture(deploySuiteWithMaxHoldersComplianceFixture);
+        await compliance.setHolderLimit(1);
+
+        await expect(token.connect(tokenAgent).mint(aliceWallet.address, 100)).not.to.emit(compliance, 'HolderAdded');
+      });
+    });
+  });
+
+  describe('.transfer()', () => {
+    describe('when the receiver would exceed the limit of its country', () => {
+      it('should revert, and still transfer to a new holder of another country', async () => {
+        const {
+          suite: { token, compliance },
+          accounts: { aliceWallet, charlieWallet, davidWallet },
+        } = await loadFixture(deployWithMoreInvestorsFixture);
+        await compliance.setCountryHolderLimit(ALICE_COUNTRY, 1);
+
+        await expect(token.connect(aliceWallet).transfer(charlieWallet.address, 100)).to.be.revertedWith('ERC-3643: Compliance failure');
+        await token.connect(aliceWallet).transfer(davidWallet.address, 100);
+
+        await expect(compliance.countryHolderCount(BOB_COUNTRY)).to.eventually.equal(2);
+      });
+    });
+
+    describe('when the sender transfers its whole balance to a new holder at the limit', () => {
+      it('should replace the sender by the receiver', async () => {
+        const {
+          suite: { token, compliance },
+          accounts: { aliceWallet, bobWallet, charlieWallet },
+        } = await loadFixture(deployWithMoreInvestorsFixture);
+        await compliance.setHolderLimit(2);
+        await compliance.setCountryHolderLimit(ALICE_COUNTRY, 1);
+
+        await expect(token.connect(aliceWallet).transfer(charlieWallet.address, 1000))
+          .to.emit(compliance, 'HolderRemoved')
+          .withArgs(aliceWallet.address, ALICE_COUNTRY);
+
+        await expect(compliance.holderCount()).to.eventually.equal(2);
+        await expect(compliance.isHolder(aliceWallet.address)).to.eventually.be.false;
+        await expect(compliance.isHolder(charlieWallet.address)).to.eventually.be.true;
+        // Bob's place is in another country, so it does not free one in the country of Charlie
+        await expect(token.connect(bobWallet).transfer(aliceWallet.address, 500)).to.be.revertedWith('ERC-3643: Compliance failure');
+      });
+    });
+  });
+
+  describe('.burn()', () => {
+    it('should stop counting a wallet once its balance is burnt', async () => {
+      const {
+        suite: { token, compliance },
+        accounts: { tokenAgent, bobWallet },
+      } = await loadFixture(deploySuiteWithMaxHoldersComplianceFixture);
+
+      await expect(token.connect(tokenAgent).burn(bobWallet.address, 200)).not.to.emit(compliance, 'HolderRemoved');
+      await expect(token.connect(tokenAgent).burn(bobWallet.address, 300))
+        .to.emit(compliance, 'HolderRemoved')
+        .withArgs(bobWallet.address, BOB_COUNTRY);
+
+      await expect(compliance.holderCount()).to.eventually.equal(1);
+      await expect(compliance.countryHolderCount(BOB_COUNTRY)).to.eventually.equal(0);
+    });
+  });
+
+  describe('.recoveryAddress()', () => {
+    it('should move the place of the lost wallet to the new one at the limit', async () => {
+      const {
+        suite: { token, compliance },
+        accounts: { tokenAgent, bobWallet, anotherWallet },
+        identities: { bobIdentity },
+      } = await loadFixture(deploySuiteWithMaxHoldersComplianceFixture);
+      await compliance.setHolderLimit(2);
+      await bobIdentity.connect(bobWallet).addKey(walletKey(anotherWallet.address), 1, 1);
+
+      await token.connect(tokenAgent).recoveryAddress(bobWallet.address, anotherWallet.address, bobIdentity.address);
+
+      await expect(compliance.holderCount()).to.eventually.equal(2);
+      await expect(compliance.isHolder(anotherWallet.address)).to.eventually.be.true;
+      await expect(compliance.countryHolderCount(BOB_COUNTRY)).to.eventually.equal(1);
+    });
+  });
+});
@@ -1,7 +1,18 @@
-import { BigNumber, Contract, Signer } from 'ethers';
+import { Contract, Signer } from 'ethers';
 import { ethers } from 'hardhat';
 import OnchainID from '@onchain-id/solidity';
 import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { Identity__factory } from '../../typechain-types';
+import { countryCode } from '../../sdk';
+
+/** Countries the full suite registers Alice and Bob in. */
+export const ALICE_COUNTRY = countryCode('LU');
+export const BOB_COUNTRY = countryCode('CH');
+
+/** Revert reason of OpenZeppelin's `AccessControl` when `account` lacks `role`. */
+export function missingRoleMessage(account: string, role: string) {
+  return `AccessControl: account ${account.toLowerCase()} is missing role ${role}`;
+}
 
 export async function deployIdentityProxy(implementationAuthority: Contract['address'], managementKey: string, signer: Signer) {
   const identity = await new ethers.ContractFactory(OnchainID.contracts.IdentityProxy.abi, OnchainID.contracts.IdentityProxy.bytecode, signer).deploy(
@@ -9,7 +20,7 @@ export async function deployIdentityProxy(implementationAuthority: Contract['add
     managementKey,
   );
 
-  return ethers.getContractAt('Identity', identity.address, signer);
+  return Identity__factory.connect(identity.address, signer);
 }
 
 export async function deployFullSuiteFixture() {
@@ -18,107 +29,49 @@ export async function deployFullSuiteFixture() {
   const claimIssuerSigningKey = ethers.Wallet.createRandom();
   const aliceActionKey = ethers.Wallet.createRandom();
 
-  // Deploy implementations
-  const claimTopicsRegistryImplementation = await ethers.deployContract('ClaimTopicsRegistry', deployer);
-  const trustedIssuersRegistryImplementation = await ethers.deployContract('TrustedIssuersRegistry', deployer);
-  const identityRegistryStorageImplementation = await ethers.deployContract('IdentityRegistryStorage', deployer);
-  const identityRegistryImplementation = await ethers.deployContract('IdentityRegistry', deployer);
-  const modularComplianceImplementation = await ethers.deployContract('ModularCompliance', deployer);
-  const tokenImplementation = await ethers.deployContract('Token', deployer);
   const identityImplementation = await new ethers.ContractFactory(
     OnchainID.contracts.Identity.abi,
     OnchainID.contracts.Identity.bytecode,
     deployer,
   ).deploy(deployer.address, true);
-
   const identityImplementationAuthority = await new ethers.ContractFactory(
     OnchainID.contracts.ImplementationAuthority.abi,
     OnchainID.contracts.ImplementationAuthority.bytecode,
     deployer,
   ).deploy(identityImplementation.address);
 
-  const identityFactory = await new ethers.ContractFactory(OnchainID.contracts.Factory.abi, OnchainID.contracts.Factory.bytecode, deployer).deploy(
-    identityImplementationAuthority.address,
-  );
-
-  const trexImplementationAuthority = await ethers.deployContract(
-    'TREXImplementationAuthority',
-    [true, ethers.constants.AddressZero, ethers.constants.AddressZero],
-    deployer,
-  );
-  const versionStruct = {
-    major: 4,
-    minor: 0,
-    patch: 0,
-  };
-  const contractsStruct = {
-    tokenImplementation: tokenImplementation.address,
-    ctrImplementation: claimTopicsRegistryImplementation.address,
-    irImplementation: identityRegistryImplementation.address,
-    irsImplementation: identityRegistryStorageImplementation.address,
-    tirImplementation: trustedIssuersRegistryImplementation.address,
-    mcImplementation: modularComplianceImplementation.address,
-  };
-  await trexImplementationAuthority.connect(deployer).addAndUseTREXVersion(versionStruct, contractsStruct);
-
-  const trexFactory = await ethers.deployContract('TREXFactory', [trexImplementationAuthority.address, identityFactory.address], deployer);
-  await identityFactory.connect(deployer).addTokenFactory(trexFactory.address);
-
-  const claimTopicsRegistry = await ethers
-    .deployContract('ClaimTopicsRegistryProxy', [trexImplementationAuthority.address], deployer)
-    .then(async (proxy) => ethers.getContractAt('ClaimTopicsRegistry', proxy.address));
-
-  const trustedIssuersRegistry = await ethers
-    .deployContract('TrustedIssuersRegistryProxy', [trexImplementationAuthority.address], deployer)
-    .then(async (proxy) => ethers.getContractAt('TrustedIssuersRegistry', proxy.address));
-
-  const identityRegistryStorage = await ethers
-    .deployContract('IdentityRegistryStorageProxy', [trexImplementationAuthority.address], deployer)
-    .then(async (proxy) => ethers.getContractAt('IdentityRegistryStorage', proxy.address));
-
-  const defaultCompliance = await ethers.deployContract('DefaultCompliance', deployer);
-
-  const identityRegistry = await ethers
-    .deployContract(
-      'IdentityRegistryProxy',
-      [trexImplementationAuthority.address, trustedIssuersRegistry.address, claimTopicsRegistry.address, identityRegistryStorage.address],
-      deployer,
-    )
-    .then(async (proxy) => ethers.getContractAt('IdentityRegistry', proxy.address));
+  const claimTopicsRegistry = await (await ethers.getContractFactory('ClaimTopicsRegistry', deployer)).deploy();
+  const claimIssuersRegistry = await (await ethers.getContractFactory('ClaimIssuersRegistry', deployer)).deploy();
+  const identityRegistryStorage = await (await ethers.getContractFactory('IdentityRegistryStorage', deployer)).deploy();
+  const identityRegistry = await (
+    await ethers.getContractFactory('IdentityRegistry', deployer)
+  ).deploy(claimIssuersRegistry.address, claimTopicsRegistry.address, identityRegistryStorage.address);
+  const compliance = await (await ethers.getContractFactory('BasicCompliance', deployer)).deploy();
 
   const tokenOID = await deployIdentityProxy(identityImplementationAuthority.address, tokenIssuer.address, deployer);
-  const tokenName = 'TREXDINO';
-  const tokenSymbol = 'TREX';
-  const tokenDecimals = BigNumber.from('0');
-  const token = await ethers
-    .deployContract(
-      'TokenProxy',
-      [
-        trexImplementationAuthority.address,
-        identityRegistry.address,
-        defaultCompliance.address,
-        tokenName,
-        tokenSymbol,
-        tokenDecimals,
-        tokenOID.address,
-      ],
-      deployer,
-    )
-    .then(async (proxy) => ethers.getContractAt('Token', proxy.address));
+  const token = await (
+    await ethers.getContractFactory('Token', deployer)
+  ).deploy(identityRegistry.address, compliance.address, 'TREXDINO', 'TREX', 0, tokenOID.address);
 
   await identityRegistryStorage.connect(deployer).bindIdentityRegistry(identityRegistry.address);
-
-  await token.connect(deployer).addAgent(tokenAgent.address);
+  await compliance.connect(deployer).grantRole(await compliance.TOKEN_ROLE(), token.address);
+  await token.connect(deployer).grantRole(await token.AGENT_ROLE(), tokenAgent.address);
+  await identityRegistry.connect(deployer).grantRole(await identityRegistry.AGENT_ROLE(), tokenAgent.address);
+  await identityRegistry.connect(deployer).grantRole(await identityRegistry.AGENT_ROLE(), token.address);
 
   const claimTopics = [ethers.utils.id('CLAIM_TOPIC')];
   await claimTopicsRegistry.connect(deployer).addClaimTopic(claimTopics[0]);
 
-  const claimIssuerContract = await ethers.deployContract('ClaimIssuer', [claimIssuer.address], claimIssuer);
+  const claimIssuerContract = await new ethers.ContractFactory(
+    OnchainID.contracts.ClaimIssuer.abi,
+    OnchainID.contracts.ClaimIssuer.bytecode,
+    claimIssuer,
+  ).deploy(claimIssuer.address);
   await claimIssuerContract
     .connect(claimIssuer)
     .addKey(ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(['address'], [claimIssuerSigningKey.address])), 3, 1);
 
-  await trustedIssuersRegistry.connect(deployer).addTrustedIssuer(claimIssuerContract.address, claimTopics);
+  await claimIssuersRegistry.connect(deployer).addClaimIssuer(claimIssuerContract.address, claimTopics);
 
   const aliceIdentity = await deployIdentityProxy(identityImplementationAuthority.address, aliceWallet.address, deployer);
   await aliceIdentity
@@ -127,12 +80,9 @@ export async function deployFullSuiteFixture() {
   const bobIdentity = await deployIdentityProxy(identityImplementationAuthority.address, bobWallet.address, deployer);
   const charlieIdentity = await deployIdentityProxy(identityImplementationAuthority.address, charlieWallet.address, deployer);
 
-  await identityRegistry.connect(deployer).addAgent(tokenAgent.address);
-  await identityRegistry.connect(deployer).addAgent(token.address);
-
   await identityRegistry
     .connect(tokenAgent)
-    .batchRegisterIdentity([aliceWallet.address, bobWallet.address], [aliceIdentity.address, bobIdentity.address], [42, 666]);
+    .batchRegisterIdentity([aliceWallet.address, bobWallet.address], [aliceIdentity.address, bobIdentity.address], [ALICE_COUNTRY, BOB_COUNTRY]);
 
   const claimForAlice = {
     data: ethers.utils.hexlify(ethers.utils.toUtf8Bytes('Some claim public data.')),
@@ -177,8 +127,6 @@ export async function deployFullSuiteFixture() {
   await token.connect(tokenAgent).mint(aliceWallet.address, 1000);
   await token.connect(tokenAgent).mint(bobWallet.address, 500);
 
-  await token.connect(tokenAgent).unpause();
-
   return {
     accounts: {
       deployer,
@@ -202,72 +150,144 @@ export async function deployFullSuiteFixture() {
     suite: {
       claimIssuerContract,
       claimTopicsRegistry,
-      trustedIssuersRegistry,
+      claimIssuersRegistry,
       identityRegistryStorage,
-      defaultCompliance,
+      compliance,
       identityRegistry,
       tokenOID,
       token,
     },
     authorities: {
-      trexImplementationAuthority,
       identityImplementationAuthority,
     },
-    factories: {
-      trexFactory,
-      identityFactory,
-    },
     implementations: {
       identityImplementation,
-      claimTopicsRegistryImplementation,
-      trustedIssuersRegistryImplementation,
-      identityRegistryStorageImplementation,
-      identityRegistryImplementation,
-      modularComplianceImplementation,
-      tokenImplementation,
     },
   };
 }
 
-export async function deploySuiteWithModularCompliancesFixture() {
+export async function deploySuiteWithFalseComplianceFixture() {
+  const context = await loadFixture(deployFullSuiteFixture);
+
+  // FalseCompliance rejects every transfer; tests bind it with `token.setCompliance(compliance.address)`.
+  const compliance = await (await ethers.getContractFactory('FalseCompliance')).deploy();
+
+  return {
+    ...context,
+    suite: {
+      ...context.suite,
+      compliance,
+    },
+  };
+}
+
+export async function deploySuiteWithHookRecorderComplianceFixture() {
   const context = await loadFixture(deployFullSuiteFixture);
 
-  const complianceProxy = await ethers.deployContract('ModularComplianceProxy', [context.authorities.trexImplementationAuthority.address]);
-  const compliance = await ethers.getContractAt('ModularCompliance', complianceProxy.address);
+  // HookRecorderCompliance accepts every transfer and emits the arguments each hook receives.
+  const compliance = await (await ethers.getContractFactory('HookRecorderCompliance')).deploy();
+  await context.suite.token.setCompliance(compliance.address);
+
+  return {
+    ...context,
+    suite: {
+      ...context.suite,
+      compliance,
+    },
+  };
+}
+
+export async function deploySuiteWithCountryRestrictComplianceFixture() {
+  const context = await loadFixture(deployFullSuiteFixture);
+  const {
+    accounts: { deployer },
+    suite: { token },
+  } = context;
+
+  // Alice (Luxembourg) and Bob (Switzerland) are registered, Charlie is not
+  const compliance = await (await ethers.getContractFactory('CountryRestrictCompliance', deployer)).deploy();
+  await compliance.grantRole(await compliance.TOKEN_ROLE(), token.address);
+  await token.connect(deployer).setCompliance(compliance.address);
+
+  return {
+    ...context,
+    suite: {
+      ...context.suite,
+      compliance,
+    },
+  };
+}
+
+export async function deploySuiteWithMaxHoldersComplianceFixture() {
+  const context = await loadFixture(deployFullSuiteFixture);
+  const {
+    accounts: { deployer, aliceWallet, bobWallet },
+    suite: { token },
+  } = context;
 
-  const complianceBeta = await ethers.deployContract('ModularCompliance');
-  await complianceBeta.init();
+  // Alice (Luxembourg) and Bob (Switzerland) received their tokens before the compliance was bound
+  const compliance = await (await ethers.getContractFactory('MaxHoldersCompliance', deployer)).deploy();
+  await compliance.grantRole(await compliance.TOKEN_ROLE(), token.address);
+  await token.connect(deployer).setCompliance(compliance.address);
+  await compliance.syncHolders([aliceWallet.address, bobWallet.address]);
 
   return {
     ...context,
     suite: {
       ...context.suite,
       compliance,
-      complianceBeta,
     },
   };
 }
 
-export async function deploySuiteWithModuleComplianceBoundToWallet() {
+/** Lock-up period of the `LockUpCompliance` fixture, 30 days in seconds. */
+export const LOCK_UP_PERIOD = 30 * 24 * 3600;
+
+export async function deploySuiteWithLockUpComplianceFixture() {
   const context = await loadFixture(deployFullSuiteFixture);
+  const {
+    accounts: { deployer },
+    suite: { token },
+  } = context;
 
-  const compliance = await ethers.deployContract('ModularCompliance');
-  await compliance.init();
+  // The balances of Alice and Bob predate the compliance, so they are not locked
+  const compliance = await (await ethers.getContractFactory('LockUpCompliance', deployer)).deploy(LOCK_UP_PERIOD);
+  await compliance.grantRole(await compliance.TOKEN_ROLE(), token.address);
+  await token.connect(deployer).setCompliance(compliance.address);
 
-  const complianceModuleA = await ethers.deployContract('TestModule');
-  await compliance.addModule(complianceModuleA.address);
-  const complianceModuleB = await ethers.deployContract('TestModule');
-  await compliance.addModule(complianceModuleB.address);
+  return {
+    ...context,
+    suite: {
+      ...context.suite,
+      compliance,
+    },
+  };
+}
 
-  await compliance.bindToken(context.accounts.charlieWallet.address);
+export async function deploySuiteWithComposableComplianceFixture() {
+  const context = await loadFixture(deployFullSuiteFixture);
+  const {
+    accounts: { deployer, aliceWallet, bobWallet },
+    suite: { token },
+  } = context;
+
+  const compliance = await (await ethers.getContractFactory('ComposableCompliance', deployer)).deploy();
+  const countryRestrict = await (await ethers.getContractFactory('CountryRestrictCompliance', deployer)).deploy();
+  const maxHolders = await (await ethers.getContractFactory('MaxHoldersCompliance', deployer)).deploy();
+  // The hooks of MaxHoldersCompliance only accept the token and the holders of TOKEN_ROLE
+  await maxHolders.grantRole(await maxHolders.TOKEN_ROLE(), compliance.address);
+  await compliance.addRule(countryRestrict.address);
+  await compliance.addRule(maxHolders.address);
+  await compliance.grantRole(await compliance.TOKEN_ROLE(), token.address);
+  await token.connect(deployer).setCompliance(compliance.address);
+  await maxHolders.syncHolders([aliceWallet.address, bobWallet.address]);
 
   return {
     ...context,
     suite: {
       ...context.suite,
       compliance,
-      complianceModuleA,
-      complianceModuleB,
     },
+    rules: { countryRestrict, maxHolders },
   };
 }
@@ -1,20 +1,9 @@
 import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
 import { expect } from 'chai';
+import { ethers } from 'hardhat';
 import { deployFullSuiteFixture } from '../fixtures/deploy-full-suite.fixture';
 
 describe('ClaimTopicsRegistry', () => {
-  describe('.init', () => {
-    describe('when contract was already initialized', () => {
-      it('should revert', async () => {
-        const {
-          suite: { claimTopicsRegistry },
-        } = await loadFixture(deployFullSuiteFixture);
-
-        await expect(claimTopicsRegistry.init()).to.be.revertedWith('Initializable: contract is already initialized');
-      });
-    });
-  });
-
   describe('.addClaimTopic', () => {
     describe('when sender is not owner', () => {
       it('should revert', async () => {
@@ -28,17 +17,14 @@ describe('ClaimTopicsRegistry', () => {
     });
 
     describe('when sender is owner', () => {
-      describe('when topic array contains more than 14 elements', () => {
-        it('should revert', async () => {
-          const {
-            suite: { claimTopicsRegistry },
-            accounts: { deployer },
-          } = await loadFixture(deployFullSuiteFixture);
-
-          await Promise.all(Array.from({ length: 14 }, (_, i) => i).map((i) => claimTopicsRegistry.addClaimTopic(i)));
+      it('should add the claim topic', async () => {
+        const {
+          suite: { claimTopicsRegistry },
+          accounts: { deployer },
+        } = await loadFixture(deployFullSuiteFixture);
 
-          await expect(claimTopicsRegistry.connect(deployer).addClaimTopic(14)).to.be.revertedWith('cannot require more than 15 topics');
-        });
+        await expect(claimTopicsRegistry.connect(deployer).addClaimTopic(14)).to.emit(claimTopicsRegistry, 'ClaimTopicAdded').withArgs(14);
+        await expect(claimTopicsRegistry.getClaimTopics()).to.eventually.deep.include(ethers.BigNumber.from(14));
       });
 
       describe('when adding a topic that is already added', () => {
@@ -50,7 +36,7 @@ describe('ClaimTopicsRegistry', () => {
 
           await claimTopicsRegistry.addClaimTopic(1);
 
-          await expect(claimTopicsRegistry.connect(deployer).addClaimTopic(1)).to.be.revertedWith('claimTopic already exists');
+          await expect(claimTopicsRegistry.connect(deployer).addClaimTopic(1)).to.be.revertedWith('ERC-3643: Topic exists');
         });
       });
     });
@@ -1,21 +1,9 @@
 import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
 import { expect } from 'chai';
 import { ethers } from 'hardhat';
-import { deployFullSuiteFixture } from '../fixtures/deploy-full-suite.fixture';
+import { deployFullSuiteFixture, missingRoleMessage } from '../fixtures/deploy-full-suite.fixture';
 
 describe('IdentityRegistryStorage', () => {
-  describe('.init', () => {
-    describe('when contract was already initialized', () => {
-      it('should revert', async () => {
-        const {
-          suite: { identityRegistryStorage },
-        } = await loadFixture(deployFullSuiteFixture);
-
-        await expect(identityRegistryStorage.init()).to.be.revertedWith('Initializable: contract is already initialized');
-      });
-    });
-  });
-
   describe('.addIdentityToStorage()', () => {
     describe('when sender is not agent', () => {
       it('should revert', async () => {
@@ -27,7 +15,7 @@ describe('IdentityRegistryStorage', () => {
 
         await expect(
           identityRegistryStorage.connect(anotherWallet).addIdentityToStorage(charlieWallet.address, charlieIdentity.address, 42),
-        ).to.be.revertedWith('AgentRole: caller does not have the Agent role');
+        ).to.be.revertedWith(missingRoleMessage(anotherWallet.address, await identityRegistryStorage.AGENT_ROLE()));
       });
     });
 
@@ -39,11 +27,11 @@ describe('IdentityRegistryStorage', () => {
             accounts: { tokenAgent, charlieWallet },
           } = await loadFixture(deployFullSuiteFixture);
 
-          await identityRegistryStorage.addAgent(tokenAgent.address);
+          await identityRegistryStorage.grantRole(await identityRegistryStorage.AGENT_ROLE(), tokenAgent.address);
 
           await expect(
             identityRegistryStorage.connect(tokenAgent).addIdentityToStorage(charlieWallet.address, ethers.constants.AddressZero, 42),
-          ).to.be.revertedWith('invalid argument - zero address');
+          ).to.be.revertedWith('ERC-3643: Invalid zero address');
         });
       });
 
@@ -55,11 +43,11 @@ describe('IdentityRegistryStorage', () => {
             identities: { charlieIdentity },
           } = await loadFixture(deployFullSuiteFixture);
 
-          await identityRegistryStorage.addAgent(tokenAgent.address);
+          await identityRegistryStorage.grantRole(await identityRegistryStorage.AGENT_ROLE(), tokenAgent.address);
 
           await expect(
             identityRegistryStorage.connect(tokenAgent).addIdentityToStorage(ethers.constants.AddressZero, charlieIdentity.address, 42),
-          ).to.be.revertedWith('invalid argument - zero address');
+          ).to.be.revertedWith('ERC-3643: Invalid zero address');
         });
       });
 
@@ -71,11 +59,11 @@ describe('IdentityRegistryStorage', () => {
             identities: { charlieIdentity },
           } = await loadFixture(deployFullSuiteFixture);
 
-          await identityRegistryStorage.addAgent(tokenAgent.address);
+          await identityRegistryStorage.grantRole(await identityRegistryStorage.AGENT_ROLE(), tokenAgent.address);
 
           await expect(
             identityRegistryStorage.connect(tokenAgent).addIdentityToStorage(bobWallet.address, charlieIdentity.address, 42),
-          ).to.be.revertedWith('address stored already');
+          ).to.be.revertedWith('ERC-3643: Already stored');
         });
       });
     });
@@ -92,7 +80,7 @@ describe('IdentityRegistryStorage', () => {
 
         await expect(
           identityRegistryStorage.connect(anotherWallet).modifyStoredIdentity(charlieWallet.address, charlieIdentity.address),
-        ).to.be.revertedWith('AgentRole: caller does not have the Agent role');
+        ).to.be.revertedWith(missingRoleMessage(anotherWallet.address, await identityRegistryStorage.AGENT_ROLE()));
       });
     });
 
@@ -104,11 +92,11 @@ describe('IdentityRegistryStorage', () => {
             accounts: { tokenAgent, charlieWallet },
           } = await loadFixture(deployFullSuiteFixture);
 
-          await identityRegistryStorage.addAgent(tokenAgent.address);
+          await identityRegistryStorage.grantRole(await identityRegistryStorage.AGENT_ROLE(), tokenAgent.address);
 
           await expect(
             identityRegistryStorage.connect(tokenAgent).modifyStoredIdentity(charlieWallet.address, ethers.constants.AddressZero),
-          ).to.be.revertedWith('invalid argument - zero address');
+          ).to.be.revertedWith('ERC-3643: Invalid zero address');
         });
       });
 
@@ -120,11 +108,11 @@ describe('IdentityRegistryStorage', () => {
             identities: { charlieIdentity },
           } = await loadFixture(deployFullSuiteFixture);
 
-          await identityRegistryStorage.addAgent(tokenAgent.address);
+          await identityRegistryStorage.grantRole(await identityRegistryStorage.AGENT_ROLE(), tokenAgent.address);
 
           await expect(
             identityRegistryStorage.connect(tokenAgent).modifyStoredIdentity(ethers.constants.AddressZero, charlieIdentity.address),
-          ).to.be.revertedWith('invalid argument - zero address');
+          ).to.be.revertedWith('ERC-3643: Invalid zero address');
         });
       });
 
@@ -136,11 +124,11 @@ describe('IdentityRegistryStorage', () => {
             identities: { charlieIdentity },
           } = await loadFixture(deployFullSuiteFixture);
 
-          await identityRegistryStorage.addAgent(tokenAgent.address);
+          await identityRegistryStorage.grantRole(await identityRegistryStorage.AGENT_ROLE(), tokenAgent.address);
 
           await expect(
             identityRegistryStorage.connect(tokenAgent).modifyStoredIdentity(charlieWallet.address, charlieIdentity.address),
-          ).to.be.revertedWith('address not stored yet');
+          ).to.be.revertedWith('ERC-3643: Address not stored');
         });
       });
     });
@@ -155,7 +143,7 @@ describe('IdentityRegistryStorage', () => {
         } = await loadFixture(deployFullSuiteFixture);
 
         await expect(identityRegistryStorage.connect(anotherWallet).modifyStoredInvestorCountry(charlieWallet.address, 42)).to.be.revertedWith(
-          'AgentRole: caller does not have the Agent role',
+          missingRoleMessage(anotherWallet.address, await identityRegistryStorage.AGENT_ROLE()),
         );
       });
     });
@@ -168,10 +156,10 @@ describe('IdentityRegistryStorage', () => {
             accounts: { tokenAgent },
           } = await loadFixture(deployFullSuiteFixture);
 
-          await identityRegistryStorage.addAgent(tokenAgent.address);
+          await identityRegistryStorage.grantRole(await identityRegistryStorage.AGENT_ROLE(), tokenAgent.address);
 
           await expect(identityRegistryStorage.connect(tokenAgent).modifyStoredInvestorCountry(ethers.constants.AddressZero, 42)).to.be.revertedWith(
-            'invalid argument - zero address',
+            'ERC-3643: Invalid zero address',
           );
         });
       });
@@ -183,10 +171,10 @@ describe('IdentityRegistryStorage', () => {
             accounts: { tokenAgent, charlieWallet },
           } = await loadFixture(deployFullSuiteFixture);
 
-          await identityRegistryStorage.addAgent(tokenAgent.address);
+          await identityRegistryStorage.grantRole(await identityRegistryStorage.AGENT_ROLE(), tokenAgent.address);
 
           await expect(identityRegistryStorage.connect(tokenAgent).modifyStoredInvestorCountry(charlieWallet.address, 42)).to.be.revertedWith(
-            'address not stored yet',
+            'ERC-3643: Address not stored',
           );
         });
       });
@@ -202,7 +190,7 @@ describe('IdentityRegistryStorage', () => {
         } = await loadFixture(deployFullSuiteFixture);
 
         await expect(identityRegistryStorage.connect(anotherWallet).removeIdentityFromStorage(charlieWallet.address)).to.be.revertedWith(
-          'AgentRole: caller does not have the Agent role',
+          missingRoleMessage(anotherWallet.address, await identityRegistryStorage.AGENT_ROLE()),
         );
       });
     });
@@ -215,10 +203,10 @@ describe('IdentityRegistryStorage', () => {
             accounts: { tokenAgent },
           } = await loadFixture(deployFullSuiteFixture);
 
-          await identityRegistryStorage.addAgent(tokenAgent.address);
+          await identityRegistryStorage.grantRole(await identityRegistryStorage.AGENT_ROLE(), tokenAgent.address);
 
           await expect(identityRegistryStorage.connect(tokenAgent).removeIdentityFromStorage(ethers.constants.AddressZero)).to.be.revertedWith(
-            'invalid argument - zero address',
+            'ERC-3643: Invalid zero address',
           );
         });
       });
@@ -230,10 +218,10 @@ describe('IdentityRegistryStorage', () => {
             accounts: { tokenAgent, charlieWallet },
           } = await loadFixture(deployFullSuiteFixture);
 
-          await identityRegistryStorage.addAgent(tokenAgent.address);
+          await identityRegistryStorage.grantRole(await identityRegistryStorage.AGENT_ROLE(), tokenAgent.address);
 
           await expect(identityRegistryStorage.connect(tokenAgent).removeIdentityFromStorage(charlieWallet.address)).to.be.revertedWith(
-            'address not stored yet',
+            'ERC-3643: Address not stored',
           );
         });
       });
@@ -250,7 +238,7 @@ describe('IdentityRegistryStorage', () => {
         } = await loadFixture(deployFullSuiteFixture);
 
         await expect(identityRegistryStorage.connect(anotherWallet).bindIdentityRegistry(charlieIdentity.address)).to.be.revertedWith(
-          'Ownable: caller is not the owner',
+          missingRoleMessage(anotherWallet.address, await identityRegistryStorage.OWNER_ROLE()),
         );
       });
     });
@@ -264,26 +252,28 @@ describe('IdentityRegistryStorage', () => {
           } = await loadFixture(deployFullSuiteFixture);
 
           await expect(identityRegistryStorage.connect(deployer).bindIdentityRegistry(ethers.constants.AddressZero)).to.be.revertedWith(
-            'invalid argument - zero address',
+            'ERC-3643: Invalid zero address',
           );
         });
       });
 
-      describe('when there are already 299 identity registries bound', () => {
-        it('should revert', async () => {
+      describe('when identity registries is not zero address', () => {
+        it('should bind the identity registry and grant it AGENT_ROLE', async () => {
           const {
-            suite: { identityRegistryStorage },
+            suite: { identityRegistryStorage, identityRegistry },
             accounts: { deployer },
             identities: { charlieIdentity },
           } = await loadFixture(deployFullSuiteFixture);
 
-          await Promise.all(
-            Array.from({ length: 299 }, () => identityRegistryStorage.connect(deployer).bindIdentityRegistry(ethers.Wallet.createRandom().address)),
-          );
+          await expect(identityRegistryStorage.connect(deployer).bindIdentityRegistry(charlieIdentity.address))
+            .to.emit(identityRegistryStorage, 'IdentityRegistryBound')
+            .withArgs(charlieIdentity.address);
 
-          await expect(identityRegistryStorage.connect(deployer).bindIdentityRegistry(charlieIdentity.address)).to.be.revertedWith(
-            'cannot bind more than 300 IR to 1 IRS',
-          );
+          await expect(identityRegistryStorage.linkedIdentityRegistries()).to.eventually.be.deep.equal([
+            identityRegistry.address,
+            charlieIdentity.address,
+          ]);
+          await expect(identityRegistryStorage.hasRole(await identityRegistryStorage.AGENT_ROLE(), charlieIdentity.address)).to.eventually.be.true;
         });
       });
     });
@@ -299,7 +289,7 @@ describe('IdentityRegistryStorage', () => {
         } = await loadFixture(deployFullSuiteFixture);
 
         await expect(identityRegistryStorage.connect(anotherWallet).unbindIdentityRegistry(charlieIdentity.address)).to.be.revertedWith(
-          'Ownable: caller is not the owner',
+          missingRoleMessage(anotherWallet.address, await identityRegistryStorage.OWNER_ROLE()),
         );
       });
     });
@@ -313,7 +303,7 @@ describe('IdentityRegistryStorage', () => {
           } = await loadFixture(deployFullSuiteFixture);
 
           await expect(identityRegistryStorage.connect(deployer).unbindIdentityRegistry(ethers.constants.AddressZero)).to.be.revertedWith(
-            'invalid argument - zero address',
+            'ERC-3643: Invalid zero address',
           );
         });
       });
@@ -328,7 +318,7 @@ describe('IdentityRegistryStorage', () => {
           await identityRegistryStorage.unbindIdentityRegistry(identityRegistry.address);
 
           await expect(identityRegistryStorage.connect(deployer).unbindIdentityRegistry(identityRegistry.address)).to.be.revertedWith(
-            'identity registry is not stored',
+            'ERC-3643: No identity registry',
           );
         });
       });
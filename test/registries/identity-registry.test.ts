@@ -1,37 +1,29 @@
 import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
 import { expect } from 'chai';
 import { ethers } from 'hardhat';
-import { deployFullSuiteFixture } from '../fixtures/deploy-full-suite.fixture';
+import { deployFullSuiteFixture, missingRoleMessage } from '../fixtures/deploy-full-suite.fixture';
 
 describe('IdentityRegistry', () => {
-  describe('.init()', () => {
-    it('should prevent re-initialization', async () => {
-      const {
-        suite: { identityRegistry },
-        accounts: { deployer },
-      } = await loadFixture(deployFullSuiteFixture);
-
-      await expect(
-        identityRegistry.connect(deployer).init(ethers.constants.AddressZero, ethers.constants.AddressZero, ethers.constants.AddressZero),
-      ).to.be.revertedWith('Initializable: contract is already initialized');
-    });
-
-    it('should reject zero address for Trusted Issuers Registry', async () => {
-      const identityRegistry = await ethers.deployContract('IdentityRegistry');
+  describe('constructor', () => {
+    it('should reject zero address for Claim Issuers Registry', async () => {
       const address = ethers.Wallet.createRandom().address;
-      await expect(identityRegistry.init(ethers.constants.AddressZero, address, address)).to.be.revertedWith('invalid argument - zero address');
+      await expect(ethers.deployContract('IdentityRegistry', [ethers.constants.AddressZero, address, address])).to.be.revertedWith(
+        'ERC-3643: Invalid zero address',
+      );
     });
 
     it('should reject zero address for Claim Topics Registry', async () => {
-      const identityRegistry = await ethers.deployContract('IdentityRegistry');
       const address = ethers.Wallet.createRandom().address;
-      await expect(identityRegistry.init(address, ethers.constants.AddressZero, address)).to.be.revertedWith('invalid argument - zero address');
+      await expect(ethers.deployContract('IdentityRegistry', [address, ethers.constants.AddressZero, address])).to.be.revertedWith(
+        'ERC-3643: Invalid zero address',
+      );
     });
 
     it('should reject zero address for Identity Storage', async () => {
-      const identityRegistry = await ethers.deployContract('IdentityRegistry');
       const address = ethers.Wallet.createRandom().address;
-      await expect(identityRegistry.init(address, address, ethers.constants.AddressZero)).to.be.revertedWith('invalid argument - zero address');
+      await expect(ethers.deployContract('IdentityRegistry', [address, address, ethers.constants.AddressZero])).to.be.revertedWith(
+        'ERC-3643: Invalid zero address',
+      );
     });
   });
 
@@ -45,7 +37,7 @@ describe('IdentityRegistry', () => {
         } = await loadFixture(deployFullSuiteFixture);
 
         await expect(identityRegistry.connect(anotherWallet).updateIdentity(bobIdentity.address, charlieIdentity.address)).to.be.revertedWith(
-          'AgentRole: caller does not have the Agent role',
+          missingRoleMessage(anotherWallet.address, await identityRegistry.AGENT_ROLE()),
         );
       });
     });
@@ -61,7 +53,7 @@ describe('IdentityRegistry', () => {
         } = await loadFixture(deployFullSuiteFixture);
 
         await expect(identityRegistry.connect(anotherWallet).updateCountry(bobIdentity.address, 100)).to.be.revertedWith(
-          'AgentRole: caller does not have the Agent role',
+          missingRoleMessage(anotherWallet.address, await identityRegistry.AGENT_ROLE()),
         );
       });
     });
@@ -76,7 +68,7 @@ describe('IdentityRegistry', () => {
         } = await loadFixture(deployFullSuiteFixture);
 
         await expect(identityRegistry.connect(anotherWallet).deleteIdentity(bobWallet.address)).to.be.revertedWith(
-          'AgentRole: caller does not have the Agent role',
+          missingRoleMessage(anotherWallet.address, await identityRegistry.AGENT_ROLE()),
         );
       });
     });
@@ -92,7 +84,7 @@ describe('IdentityRegistry', () => {
 
         await expect(
           identityRegistry.connect(anotherWallet).registerIdentity(ethers.constants.AddressZero, ethers.constants.AddressZero, 0),
-        ).to.be.revertedWith('AgentRole: caller does not have the Agent role');
+        ).to.be.revertedWith(missingRoleMessage(anotherWallet.address, await identityRegistry.AGENT_ROLE()));
       });
     });
   });
@@ -106,7 +98,7 @@ describe('IdentityRegistry', () => {
         } = await loadFixture(deployFullSuiteFixture);
 
         await expect(identityRegistry.connect(anotherWallet).setIdentityRegistryStorage(ethers.constants.AddressZero)).to.be.revertedWith(
-          'Ownable: caller is not the owner',
+          missingRoleMessage(anotherWallet.address, await identityRegistry.OWNER_ROLE()),
         );
       });
     });
@@ -134,7 +126,7 @@ describe('IdentityRegistry', () => {
         } = await loadFixture(deployFullSuiteFixture);
 
         await expect(identityRegistry.connect(anotherWallet).setClaimTopicsRegistry(ethers.constants.AddressZero)).to.be.revertedWith(
-          'Ownable: caller is not the owner',
+          missingRoleMessage(anotherWallet.address, await identityRegistry.OWNER_ROLE()),
         );
       });
     });
@@ -153,7 +145,7 @@ describe('IdentityRegistry', () => {
     });
   });
 
-  describe('.setTrustedIssuersRegistry()', () => {
+  describe('.setClaimIssuersRegistry()', () => {
     describe('when sender is not the owner', () => {
       it('should revert', async () => {
         const {
@@ -161,21 +153,21 @@ describe('IdentityRegistry', () => {
           accounts: { anotherWallet },
         } = await loadFixture(deployFullSuiteFixture);
 
-        await expect(identityRegistry.connect(anotherWallet).setTrustedIssuersRegistry(ethers.constants.AddressZero)).to.be.revertedWith(
-          'Ownable: caller is not the owner',
+        await expect(identityRegistry.connect(anotherWallet).setClaimIssuersRegistry(ethers.constants.AddressZero)).to.be.revertedWith(
+          missingRoleMessage(anotherWallet.address, await identityRegistry.OWNER_ROLE()),
         );
       });
     });
 
     describe('when sender is the owner', () => {
-      it('should set the trusted issuers registry', async () => {
+      it('should set the claim issuers registry', async () => {
         const {
           suite: { identityRegistry },
           accounts: { deployer },
         } = await loadFixture(deployFullSuiteFixture);
 
-        const tx = await identityRegistry.connect(deployer).setTrustedIssuersRegistry(ethers.constants.AddressZero);
-        await expect(tx).to.emit(identityRegistry, 'TrustedIssuersRegistrySet').withArgs(ethers.constants.AddressZero);
+        const tx = await identityRegistry.connect(deployer).setClaimIssuersRegistry(ethers.constants.AddressZero);
+        await expect(tx).to.emit(identityRegistry, 'ClaimIssuersRegistrySet').withArgs(ethers.constants.AddressZero);
         expect(await identityRegistry.issuersRegistry()).to.be.equal(ethers.constants.AddressZero);
       });
     });
@@ -201,18 +193,18 @@ describe('IdentityRegistry', () => {
       });
     });
 
-    describe('when claim topics are required but there are not trusted issuers for them', () => {
+    describe('when claim topics are required but there are no claim issuers for them', () => {
       it('should return false', async () => {
         const {
-          suite: { identityRegistry, claimTopicsRegistry, trustedIssuersRegistry },
+          suite: { identityRegistry, claimTopicsRegistry, claimIssuersRegistry },
           accounts: { aliceWallet },
         } = await loadFixture(deployFullSuiteFixture);
 
         await expect(identityRegistry.isVerified(aliceWallet.address)).to.eventually.be.true;
 
         const topics = await claimTopicsRegistry.getClaimTopics();
-        const trustedIssuers = await trustedIssuersRegistry.getTrustedIssuersForClaimTopic(topics[0]);
-        await Promise.all(trustedIssuers.map((issuer) => trustedIssuersRegistry.removeTrustedIssuer(issuer)));
+        const claimIssuers = await claimIssuersRegistry.getClaimIssuersForClaimTopic(topics[0]);
+        await Promise.all(claimIssuers.map((issuer) => claimIssuersRegistry.removeClaimIssuer(issuer)));
 
         await expect(identityRegistry.isVerified(aliceWallet.address)).to.eventually.be.false;
       });
@@ -241,16 +233,16 @@ describe('IdentityRegistry', () => {
     describe('when the claim issuer throws an error', () => {
       it('should return true if there is another valid claim', async () => {
         const {
-          suite: { identityRegistry, claimTopicsRegistry, trustedIssuersRegistry, claimIssuerContract },
+          suite: { identityRegistry, claimTopicsRegistry, claimIssuersRegistry, claimIssuerContract },
           accounts: { aliceWallet },
           identities: { aliceIdentity },
         } = await loadFixture(deployFullSuiteFixture);
 
         const trickyClaimIssuer = await ethers.deployContract('ClaimIssuerTrick');
         const claimTopics = await claimTopicsRegistry.getClaimTopics();
-        await trustedIssuersRegistry.removeTrustedIssuer(claimIssuerContract.address);
-        await trustedIssuersRegistry.addTrustedIssuer(trickyClaimIssuer.address, claimTopics);
-        await trustedIssuersRegistry.addTrustedIssuer(claimIssuerContract.address, claimTopics);
+        await claimIssuersRegistry.removeClaimIssuer(claimIssuerContract.address);
+        await claimIssuersRegistry.addClaimIssuer(trickyClaimIssuer.address, claimTopics);
+        await claimIssuersRegistry.addClaimIssuer(claimIssuerContract.address, claimTopics);
         const claimIds = await aliceIdentity.getClaimIdsByTopic(claimTopics[0]);
         const claim = await aliceIdentity.getClaim(claimIds[0]);
         await aliceIdentity.connect(aliceWallet).removeClaim(claimIds[0]);
@@ -262,14 +254,14 @@ describe('IdentityRegistry', () => {
 
       it('should return false if there are no other valid claim', async () => {
         const {
-          suite: { identityRegistry, claimTopicsRegistry, trustedIssuersRegistry },
+          suite: { identityRegistry, claimTopicsRegistry, claimIssuersRegistry },
           accounts: { aliceWallet },
           identities: { aliceIdentity },
         } = await loadFixture(deployFullSuiteFixture);
 
         const trickyClaimIssuer = await ethers.deployContract('ClaimIssuerTrick');
         const claimTopics = await claimTopicsRegistry.getClaimTopics();
-        await trustedIssuersRegistry.addTrustedIssuer(trickyClaimIssuer.address, claimTopics);
+        await claimIssuersRegistry.addClaimIssuer(trickyClaimIssuer.address, claimTopics);
         const claimIds = await aliceIdentity.getClaimIdsByTopic(claimTopics[0]);
         await aliceIdentity.connect(aliceWallet).removeClaim(claimIds[0]);
         await aliceIdentity.connect(aliceWallet).addClaim(claimTopics[0], 1, trickyClaimIssuer.address, '0x00', '0x00', '');
@@ -0,0 +1,90 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'hardhat';
+import { deployFullSuiteFixture } from '../fixtures/deploy-full-suite.fixture';
+import { parseCsv, simulateBatch } from '../../sdk';
+
+describe('SDK - simulateBatch()', () => {
+  describe('when some transfers of a batch would fail', () => {
+    it('should report them by index, carrying earlier transfers forward, and leave the chain untouched', async () => {
+      const {
+        suite: { token },
+        accounts: { aliceWallet, bobWallet, charlieWallet },
+      } = await loadFixture(deployFullSuiteFixture);
+      const blockNumber = await ethers.provider.getBlockNumber();
+
+      const simulation = await simulateBatch(
+        token.connect(aliceWallet),
+        'batchTransfer',
+        [
+          [bobWallet.address, charlieWallet.address, bobWallet.address, bobWallet.address],
+          [600, 10, 600, 400],
+        ],
+        { fork: ethers.provider },
+      );
+
+      expect(simulation.sender).to.equal(aliceWallet.address);
+      expect(simulation.failures.map((failure) => failure.index)).to.deep.equal([1, 2]);
+      expect(simulation.failures[0].reason).to.include('ERC-3643: Unverified identity');
+      expect(simulation.failures[1].reason).to.include('ERC-3643: amount exceeds balance');
+      expect(simulation.passing).to.deep.equal([
+        [bobWallet.address, bobWallet.address],
+        [600, 400],
+      ]);
+      await expect(ethers.provider.getBlockNumber()).to.eventually.equal(blockNumber);
+      await expect(token.balanceOf(aliceWallet.address)).to.eventually.equal(1000);
+
+      await token.connect(aliceWallet).batchTransfer(...simulation.passing);
+      await expect(token.balanceOf(bobWallet.address)).to.eventually.equal(1500);
+    });
+  });
+
+  describe('when the agent freezes more than a wallet holds over several items', () => {
+    it('should reject the item that goes over the balance and write it to the rejected rows file', async () => {
+      const {
+        suite: { token },
+        accounts: { tokenAgent, aliceWallet, bobWallet },
+      } = await loadFixture(deployFullSuiteFixture);
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'batch-'));
+      const rejectedFile = path.join(dir, 'rejected.csv');
+
+      try {
+        const simulation = await simulateBatch(
+          token.connect(tokenAgent),
+          'batchFreezePartialTokens',
+          [
+            [aliceWallet.address, bobWallet.address, aliceWallet.address],
+            [600, 500, 600],
+          ],
+          { fork: ethers.provider, rejectedFile },
+        );
+
+        expect(simulation.passingIndexes).to.deep.equal([0, 1]);
+        const { header, records } = parseCsv(fs.readFileSync(rejectedFile, 'utf8'));
+        expect(header).to.deep.equal(['index', 'account', 'amount', 'reason']);
+        expect(records.map((record) => record.values)).to.deep.equal([
+          { index: '2', account: aliceWallet.address, amount: '600', reason: simulation.failures[0].reason },
+        ]);
+        await expect(token.getFrozenTokens(aliceWallet.address)).to.eventually.equal(0);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('when the argument arrays have different lengths', () => {
+    it('should throw before simulating anything', async () => {
+      const {
+        suite: { token },
+        accounts: { tokenAgent, aliceWallet },
+      } = await loadFixture(deployFullSuiteFixture);
+
+      await expect(
+        simulateBatch(token.connect(tokenAgent), 'batchMint', [[aliceWallet.address], [1, 2]], { fork: ethers.provider }),
+      ).to.be.rejectedWith('batchMint: the argument arrays have different lengths');
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'hardhat';
+import { deployFullSuiteFixture } from '../fixtures/deploy-full-suite.fixture';
+import {
+  IssuanceRow,
+  issueTokens,
+  parseIssuanceCsv,
+  readIssuanceResults,
+  reconcileIssuance,
+  signReport,
+  verifyReportSignature,
+  writeIssuanceResults,
+} from '../../sdk';
+
+// the fixture mints to Alice and Bob; the import starts from an empty token
+async function emptyTokenFixture() {
+  const context = await loadFixture(deployFullSuiteFixture);
+  const {
+    suite: { token },
+    accounts: { tokenAgent, aliceWallet, bobWallet },
+  } = context;
+  await token.connect(tokenAgent).burn(aliceWallet.address, 1000);
+  await token.connect(tokenAgent).burn(bobWallet.address, 500);
+  return context;
+}
+
+describe('SDK - issueTokens()', () => {
+  let dir: string;
+  let resultFile: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'issuance-'));
+    resultFile = path.join(dir, 'register.results.csv');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('parseIssuanceCsv()', () => {
+    it('should read amounts in token units', () => {
+      const [alice, bob] = [1, 2].map(() => ethers.Wallet.createRandom().address);
+
+      expect(parseIssuanceCsv(`wallet,amount\n${alice.toLowerCase()},12.5\n${bob},3\n`, 2)).to.deep.equal([
+        { line: 2, wallet: alice, amount: ethers.BigNumber.from(1250) },
+        { line: 3, wallet: bob, amount: ethers.BigNumber.from(300) },
+      ]);
+    });
+
+    it('should reject invalid rows with their line number', () => {
+      const wallet = ethers.Wallet.createRandom().address;
+
+      expect(() => parseIssuanceCsv('wallet\n0x1234\n', 0)).to.throw('Issuance CSV is missing the amount column(s)');
+      expect(() => parseIssuanceCsv(`wallet,amount\n${wallet},0.5\n`, 0)).to.throw('Line 2: invalid amount "0.5" for a token with 0 decimals');
+      expect(() => parseIssuanceCsv(`wallet,amount\n${wallet},0\n`, 0)).to.throw('Line 2: amount must be positive');
+      expect(() => parseIssuanceCsv(`wallet,amount\n${wallet},1\n${wallet},2\n`, 0)).to.throw(`Line 3: wallet ${wallet} already listed on line 2`);
+    });
+  });
+
+  describe('when the file is issued', () => {
+    it('should mint to verified wallets, reject the others and reconcile', async () => {
+      const {
+        suite: { token },
+        accounts: { tokenAgent, aliceWallet, bobWallet, charlieWallet },
+      } = await emptyTokenFixture();
+      const csv = `wallet,amount\n${aliceWallet.address},700\n${charlieWallet.address},50\n${bobWallet.address},300\n`;
+      const rows = parseIssuanceCsv(csv, await token.decimals());
+
+      const results = await issueTokens(token.connect(tokenAgent), rows, { resultFile });
+
+      expect(results.map((result) => result.status)).to.deep.equal(['minted', 'rejected', 'minted']);
+      expect(results[1].error).to.include('is not verified');
+      expect([...readIssuanceResults(resultFile).values()]).to.deep.equal(results);
+      await expect(token.balanceOf(aliceWallet.address)).to.eventually.equal(700);
+
+      const report = await reconcileIssuance(token, rows, csv);
+      expect(report).to.include({ expectedTotal: '1050', totalSupply: '1000', reconciled: false, fileHash: ethers.utils.id(csv) });
+      expect(report.rows.filter((row) => !row.ok)).to.deep.equal([
+        { line: 3, wallet: charlieWallet.address, expected: '50', actual: '0', difference: '-50', ok: false },
+      ]);
+    });
+
+    it('should split the mints by chunk size', async () => {
+      const {
+        suite: { token },
+        accounts: { tokenAgent, aliceWallet, bobWallet },
+      } = await emptyTokenFixture();
+      const rows: IssuanceRow[] = [
+        { line: 2, wallet: aliceWallet.address, amount: ethers.BigNumber.from(10) },
+        { line: 3, wallet: bobWallet.address, amount: ethers.BigNumber.from(20) },
+      ];
+
+      const results = await issueTokens(token.connect(tokenAgent), rows, { resultFile, maxChunkSize: 1 });
+
+      expect(new Set(results.map((result) => result.transactionHash)).size).to.equal(2);
+      await expect(reconcileIssuance(token, rows)).to.eventually.include({ totalSupply: '30', reconciled: true });
+    });
+  });
+
+  describe('when the issuance is resumed', () => {
+    it('should settle a submitted chunk from its receipt instead of minting again', async () => {
+      const {
+        suite: { token },
+        accounts: { tokenAgent, aliceWallet, bobWallet },
+      } = await emptyTokenFixture();
+      const rows: IssuanceRow[] = [
+        { line: 2, wallet: aliceWallet.address, amount: ethers.BigNumber.from(10) },
+        { line: 3, wallet: bobWallet.address, amount: ethers.BigNumber.from(20) },
+      ];
+      const transaction = await token.connect(tokenAgent).batchMint([aliceWallet.address], [10]);
+      writeIssuanceResults(resultFile, [
+        { line: 2, wallet: aliceWallet.address, amount: '10', status: 'submitted', transactionHash: transaction.hash, error: '' },
+      ]);
+
+      const results = await issueTokens(token.connect(tokenAgent), rows, { resultFile });
+
+      expect(results.map((result) => result.status)).to.deep.equal(['minted', 'minted']);
+      expect(results[0].transactionHash).to.equal(transaction.hash);
+      await expect(reconcileIssuance(token, rows)).to.eventually.include({ totalSupply: '30', reconciled: true });
+    });
+
+    it('should keep a chunk submitted when waiting for it fails without a revert, then settle it without minting again', async () => {
+      const {
+        suite: { token },
+        accounts: { tokenAgent, aliceWallet },
+      } = await emptyTokenFixture();
+      const rows: IssuanceRow[] = [{ line: 2, wallet: aliceWallet.address, amount: ethers.BigNumber.from(10) }];
+      const agentToken = token.connect(tokenAgent);
+      // batchMint is sent and mined, but the wait for its receipt times out
+      const timingOutToken = Object.defineProperty(Object.create(agentToken), 'batchMint', {
+        value: async (...args: Parameters<typeof agentToken.batchMint>) => {
+          const transaction = await agentToken.batchMint(...args);
+          return { ...transaction, wait: () => Promise.reject(new Error('timeout exceeded')) };
+        },
+      }) as typeof agentToken;
+
+      const [interrupted] = await issueTokens(timingOutToken, rows, { resultFile });
+
+      expect(interrupted).to.include({ status: 'submitted', error: 'timeout exceeded' });
+      expect(readIssuanceResults(resultFile).get(aliceWallet.address)?.status).to.equal('submitted');
+
+      const [resumed] = await issueTokens(agentToken, rows, { resultFile });
+
+      expect(resumed).to.include({ status: 'minted', transactionHash: interrupted.transactionHash });
+      await expect(reconcileIssuance(token, rows)).to.eventually.include({ totalSupply: '10', reconciled: true });
+    });
+
+    it('should refuse a file whose amount changed for a minted wallet', async () => {
+      const {
+        suite: { token },
+        accounts: { tokenAgent, aliceWallet },
+      } = await emptyTokenFixture();
+      writeIssuanceResults(resultFile, [{ line: 2, wallet: aliceWallet.address, amount: '10', status: 'minted', transactionHash: '', error: '' }]);
+
+      await expect(
+        issueTokens(token.connect(tokenAgent), [{ line: 2, wallet: aliceWallet.address, amount: ethers.BigNumber.from(15) }], { resultFile }),
+      ).to.be.rejectedWith(`Line 2: ${aliceWallet.address} was already issued 10, the file now says 15`);
+    });
+  });
+
+  describe('when the operator is not an agent', () => {
+    it('should throw before minting anything', async () => {
+      const {
+        suite: { token },
+        accounts: { anotherWallet, aliceWallet },
+      } = await emptyTokenFixture();
+
+      await expect(
+        issueTokens(token.connect(anotherWallet), [{ line: 2, wallet: aliceWallet.address, amount: ethers.BigNumber.from(1) }], { resultFile }),
+      ).to.be.rejectedWith('AGENT_ROLE');
+      await expect(token.totalSupply()).to.eventually.equal(0);
+    });
+  });
+
+  describe('when the report is signed', () => {
+    it('should verify the signature and detect a tampered report', async () => {
+      const {
+        suite: { token },
+        accounts: { tokenAgent, aliceWallet },
+      } = await emptyTokenFixture();
+      const rows: IssuanceRow[] = [{ line: 2, wallet: aliceWallet.address, amount: ethers.BigNumber.from(5) }];
+      await issueTokens(token.connect(tokenAgent), rows, { resultFile });
+
+      const signed = await signReport(await reconcileIssuance(token, rows), tokenAgent);
+
+      expect(signed.signedBy).to.equal(tokenAgent.address);
+      expect(verifyReportSignature(signed)).to.be.true;
+      expect(verifyReportSignature({ ...signed, totalSupply: '6' })).to.be.false;
+    });
+  });
+});
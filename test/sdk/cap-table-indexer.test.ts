@@ -0,0 +1,190 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'hardhat';
+import { ALICE_COUNTRY, BOB_COUNTRY, deployFullSuiteFixture } from '../fixtures/deploy-full-suite.fixture';
+import { CapTableIndexer, CapTableStore, walletKey } from '../../sdk';
+
+async function deployIndexedSuiteFixture() {
+  const context = await loadFixture(deployFullSuiteFixture);
+  const { token, identityRegistry } = context.suite;
+  const indexerOptions = {
+    token: token.address,
+    identityRegistry: identityRegistry.address,
+    fromBlock: (await identityRegistry.deployTransaction.wait()).blockNumber,
+  };
+
+  return { ...context, indexerOptions };
+}
+
+describe('SDK - CapTableIndexer', () => {
+  describe('when the suite is indexed from its deployment block', () => {
+    it('should list every holder with identity, country and balance', async () => {
+      const {
+        accounts: { aliceWallet, bobWallet },
+        identities: { aliceIdentity, bobIdentity },
+        indexerOptions,
+      } = await loadFixture(deployIndexedSuiteFixture);
+      const store = new CapTableStore(':memory:');
+
+      const result = await new CapTableIndexer(ethers.provider, store, indexerOptions).sync();
+
+      expect(result.events).to.equal(4);
+      expect(store.holders()).to.deep.equal([
+        {
+          wallet: aliceWallet.address,
+          identity: aliceIdentity.address,
+          country: ALICE_COUNTRY,
+          balance: ethers.BigNumber.from(1000),
+          frozenTokens: ethers.BigNumber.from(0),
+          frozen: false,
+        },
+        {
+          wallet: bobWallet.address,
+          identity: bobIdentity.address,
+          country: BOB_COUNTRY,
+          balance: ethers.BigNumber.from(500),
+          frozenTokens: ethers.BigNumber.from(0),
+          frozen: false,
+        },
+      ]);
+    });
+  });
+
+  describe('when a frozen wallet is recovered', () => {
+    it('should move balance, frozen tokens, freeze and registration to the new wallet', async () => {
+      const {
+        suite: { token },
+        accounts: { tokenAgent, bobWallet, anotherWallet },
+        identities: { bobIdentity },
+        indexerOptions,
+      } = await loadFixture(deployIndexedSuiteFixture);
+      const store = new CapTableStore(':memory:');
+      const indexer = new CapTableIndexer(ethers.provider, store, indexerOptions);
+      await indexer.sync();
+
+      await token.connect(tokenAgent).freezePartialTokens(bobWallet.address, 50);
+      await token.connect(tokenAgent).setAddressFrozen(bobWallet.address, true);
+      await bobIdentity.connect(bobWallet).addKey(walletKey(anotherWallet.address), 1, 1);
+      await token.connect(tokenAgent).recoveryAddress(bobWallet.address, anotherWallet.address, bobIdentity.address);
+      await indexer.sync();
+
+      expect(store.holder(anotherWallet.address)).to.deep.equal({
+        wallet: anotherWallet.address,
+        identity: bobIdentity.address,
+        country: BOB_COUNTRY,
+        balance: ethers.BigNumber.from(500),
+        frozenTokens: ethers.BigNumber.from(50),
+        frozen: true,
+      });
+      expect(store.holder(bobWallet.address)).to.deep.equal({
+        wallet: bobWallet.address,
+        identity: null,
+        country: null,
+        balance: ethers.BigNumber.from(0),
+        frozenTokens: ethers.BigNumber.from(0),
+        frozen: false,
+      });
+      expect(store.holders().map((holder) => holder.wallet)).not.to.include(bobWallet.address);
+    });
+  });
+
+  describe('when the registry updates an identity and a country', () => {
+    it('should update every wallet of the old identity and the country', async () => {
+      const {
+        suite: { identityRegistry },
+        accounts: { tokenAgent, aliceWallet },
+        identities: { charlieIdentity },
+        indexerOptions,
+      } = await loadFixture(deployIndexedSuiteFixture);
+      const store = new CapTableStore(':memory:');
+      const indexer = new CapTableIndexer(ethers.provider, store, indexerOptions);
+
+      await identityRegistry.connect(tokenAgent).updateIdentity(aliceWallet.address, charlieIdentity.address);
+      await identityRegistry.connect(tokenAgent).updateCountry(aliceWallet.address, 250);
+      await indexer.sync();
+
+      expect(store.holder(aliceWallet.address)).to.include({ identity: charlieIdentity.address, country: 250 });
+    });
+  });
+
+  describe('when the indexer restarts on an existing database', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cap-table-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should resume after the checkpoint', async () => {
+      const {
+        suite: { token },
+        accounts: { aliceWallet, bobWallet },
+        indexerOptions,
+      } = await loadFixture(deployIndexedSuiteFixture);
+      const file = path.join(dir, 'cap-table.sqlite');
+
+      const firstStore = new CapTableStore(file);
+      const first = await new CapTableIndexer(ethers.provider, firstStore, indexerOptions).sync();
+      firstStore.close();
+
+      await token.connect(aliceWallet).transfer(bobWallet.address, 100);
+
+      const store = new CapTableStore(file);
+      const resumed = await new CapTableIndexer(ethers.provider, store, indexerOptions).sync();
+      expect(resumed.fromBlock).to.equal(first.toBlock + 1);
+      expect(resumed.events).to.equal(1);
+      expect(store.holder(aliceWallet.address)?.balance).to.equal(900);
+      expect(store.holder(bobWallet.address)?.balance).to.equal(600);
+      store.close();
+    });
+
+    it('should refuse a database written for another token', async () => {
+      const {
+        suite: { token },
+        indexerOptions,
+      } = await loadFixture(deployIndexedSuiteFixture);
+      const file = path.join(dir, 'cap-table.sqlite');
+      const store = new CapTableStore(file);
+      await new CapTableIndexer(ethers.provider, store, indexerOptions).sync();
+
+      const otherToken = ethers.Wallet.createRandom().address;
+      await expect(new CapTableIndexer(ethers.provider, store, { ...indexerOptions, token: otherToken }).sync()).to.be.rejectedWith(
+        `Cap table database follows token ${token.address}`,
+      );
+      store.close();
+    });
+  });
+
+  describe('when indexed blocks are reorganized away', () => {
+    it('should roll back to the common ancestor and index the new blocks', async () => {
+      const {
+        suite: { token },
+        accounts: { aliceWallet, bobWallet },
+        indexerOptions,
+      } = await loadFixture(deployIndexedSuiteFixture);
+      const store = new CapTableStore(':memory:');
+      const indexer = new CapTableIndexer(ethers.provider, store, indexerOptions);
+      const ancestor = (await indexer.sync()).toBlock;
+
+      const snapshot = await ethers.provider.send('evm_snapshot', []);
+      await token.connect(aliceWallet).transfer(bobWallet.address, 100);
+      await indexer.sync();
+      expect(store.holder(aliceWallet.address)?.balance).to.equal(900);
+
+      await ethers.provider.send('evm_revert', [snapshot]);
+      await token.connect(aliceWallet).transfer(bobWallet.address, 300);
+      const result = await indexer.sync();
+
+      expect(result.rolledBackTo).to.equal(ancestor);
+      expect(store.holder(aliceWallet.address)?.balance).to.equal(700);
+      expect(store.holder(bobWallet.address)?.balance).to.equal(800);
+      expect(store.events().filter((event) => event.name === 'Transfer')).to.have.length(3);
+    });
+  });
+});
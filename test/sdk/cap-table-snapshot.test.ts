@@ -0,0 +1,138 @@
+import { loadFixture, mine, time } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { ALICE_COUNTRY, BOB_COUNTRY, deployFullSuiteFixture } from '../fixtures/deploy-full-suite.fixture';
+import { CapTableIndexer, CapTableStore, blockAtTimestamp, snapshotToCsv, snapshotToJson, takeCapTableSnapshot } from '../../sdk';
+
+async function deploySuiteWithHistoryFixture() {
+  const context = await loadFixture(deployFullSuiteFixture);
+  const {
+    suite: { token, identityRegistry },
+    accounts: { tokenAgent, aliceWallet, bobWallet },
+  } = context;
+  const addresses = {
+    token: token.address,
+    identityRegistry: identityRegistry.address,
+    fromBlock: (await identityRegistry.deployTransaction.wait()).blockNumber,
+  };
+
+  const recordBlock = await ethers.provider.getBlockNumber();
+  await time.increase(3600);
+  await token.connect(aliceWallet).transfer(bobWallet.address, 200);
+  await token.connect(tokenAgent).freezePartialTokens(bobWallet.address, 100);
+  await token.connect(tokenAgent).mint(aliceWallet.address, 50);
+
+  return { ...context, addresses, recordBlock };
+}
+
+describe('SDK - takeCapTableSnapshot()', () => {
+  describe('when the snapshot is taken at a past block', () => {
+    it('should list the holders as of that block and reconcile with totalSupply', async () => {
+      const {
+        accounts: { aliceWallet, bobWallet },
+        identities: { aliceIdentity },
+        addresses,
+        recordBlock,
+      } = await loadFixture(deploySuiteWithHistoryFixture);
+
+      const snapshot = await takeCapTableSnapshot(ethers.provider, { ...addresses, at: { blockNumber: recordBlock } });
+
+      expect(snapshot.blockNumber).to.equal(recordBlock);
+      expect(snapshot.holders.map((holder) => [holder.wallet, holder.balance.toNumber(), holder.frozenTokens.toNumber()])).to.deep.equal([
+        [aliceWallet.address, 1000, 0],
+        [bobWallet.address, 500, 0],
+      ]);
+      expect(snapshot.holders[0]).to.include({ identity: aliceIdentity.address, country: ALICE_COUNTRY, frozen: false });
+      expect(snapshot.totalSupply).to.equal(1500);
+      expect(snapshot.totalBalance).to.equal(1500);
+      expect(snapshot.reconciled).to.be.true;
+    });
+  });
+
+  describe('when the snapshot is taken at the latest block', () => {
+    it('should include transfers, mints and frozen tokens', async () => {
+      const {
+        accounts: { aliceWallet, bobWallet },
+        addresses,
+      } = await loadFixture(deploySuiteWithHistoryFixture);
+
+      const snapshot = await takeCapTableSnapshot(ethers.provider, { ...addresses, at: { blockNumber: await ethers.provider.getBlockNumber() } });
+
+      expect(snapshot.holders.map((holder) => [holder.wallet, holder.balance.toNumber(), holder.frozenTokens.toNumber()])).to.deep.equal([
+        [aliceWallet.address, 850, 0],
+        [bobWallet.address, 700, 100],
+      ]);
+      expect(snapshot.totalSupply).to.equal(1550);
+      expect(snapshot.totalFrozenTokens).to.equal(100);
+      expect(snapshot.reconciled).to.be.true;
+    });
+  });
+
+  describe('when the snapshot is taken at a record date', () => {
+    it('should use the last block mined at or before it', async () => {
+      const { addresses, recordBlock } = await loadFixture(deploySuiteWithHistoryFixture);
+      const { timestamp } = await ethers.provider.getBlock(recordBlock);
+
+      await expect(blockAtTimestamp(ethers.provider, timestamp + 1800)).to.eventually.equal(recordBlock);
+      const snapshot = await takeCapTableSnapshot(ethers.provider, { ...addresses, at: { timestamp: timestamp + 1800 } });
+      expect(snapshot.blockNumber).to.equal(recordBlock);
+      expect(snapshot.totalBalance).to.equal(1500);
+    });
+
+    it('should throw when no block was mined before it', async () => {
+      const { addresses } = await loadFixture(deploySuiteWithHistoryFixture);
+      const genesis = await ethers.provider.getBlock(0);
+
+      await expect(takeCapTableSnapshot(ethers.provider, { ...addresses, at: { timestamp: genesis.timestamp - 1 } })).to.be.rejectedWith(
+        `No block was mined at or before timestamp ${genesis.timestamp - 1}`,
+      );
+    });
+  });
+
+  describe('when an indexed database covers the snapshot block', () => {
+    it('should replay its journal and match the chain replay', async () => {
+      const { addresses, recordBlock } = await loadFixture(deploySuiteWithHistoryFixture);
+      const store = new CapTableStore(':memory:');
+      await new CapTableIndexer(ethers.provider, store, addresses).sync();
+      await mine(5);
+
+      const fromStore = await takeCapTableSnapshot(ethers.provider, { ...addresses, at: { blockNumber: recordBlock }, store });
+      const fromChain = await takeCapTableSnapshot(ethers.provider, { ...addresses, at: { blockNumber: recordBlock } });
+
+      expect(fromStore).to.deep.equal(fromChain);
+      store.close();
+    });
+  });
+
+  describe('when the snapshot is exported', () => {
+    it('should write one CSV row per holder and the totals in JSON', async () => {
+      const {
+        accounts: { aliceWallet, bobWallet },
+        identities: { aliceIdentity, bobIdentity },
+        addresses,
+        recordBlock,
+      } = await loadFixture(deploySuiteWithHistoryFixture);
+      const snapshot = await takeCapTableSnapshot(ethers.provider, { ...addresses, at: { blockNumber: recordBlock } });
+
+      expect(snapshotToCsv(snapshot)).to.equal(
+        [
+          'wallet,identity,country,countryName,balance,frozenTokens,frozen',
+          `${aliceWallet.address},${aliceIdentity.address},${ALICE_COUNTRY},Luxembourg,1000,0,false`,
+          `${bobWallet.address},${bobIdentity.address},${BOB_COUNTRY},Switzerland,500,0,false`,
+          '',
+        ].join('\n'),
+      );
+      const json = JSON.parse(snapshotToJson(snapshot));
+      expect(json).to.include({ blockNumber: recordBlock, totalSupply: '1500', totalBalance: '1500', difference: '0', reconciled: true });
+      expect(json.holders[1]).to.deep.equal({
+        wallet: bobWallet.address,
+        identity: bobIdentity.address,
+        country: BOB_COUNTRY,
+        countryName: 'Switzerland',
+        balance: '500',
+        frozenTokens: '0',
+        frozen: false,
+      });
+    });
+  });
+});
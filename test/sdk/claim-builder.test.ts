@@ -0,0 +1,152 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { deployFullSuiteFixture } from '../fixtures/deploy-full-suite.fixture';
+import { ClaimBuilder, claimIdOf, recoverClaimSigner, submitClaim, verifyClaim } from '../../sdk';
+import { IIdentity__factory } from '../../typechain-types';
+
+describe('SDK - ClaimBuilder', () => {
+  describe('.sign()', () => {
+    it('should produce a claim accepted by ClaimIssuer.isClaimValid', async () => {
+      const {
+        suite: { claimIssuerContract },
+        accounts: { claimIssuerSigningKey },
+        identities: { charlieIdentity },
+      } = await loadFixture(deployFullSuiteFixture);
+      const topic = ethers.utils.id('CLAIM_TOPIC');
+
+      const claim = await ClaimBuilder.create(charlieIdentity.address, claimIssuerContract.address, topic)
+        .withData('Some claim public data.')
+        .sign(claimIssuerSigningKey);
+
+      expect(claim.data).to.equal(ethers.utils.hexlify(ethers.utils.toUtf8Bytes('Some claim public data.')));
+      expect(claim.claimId).to.equal(claimIdOf(claimIssuerContract.address, topic));
+      expect(recoverClaimSigner(claim)).to.equal(claimIssuerSigningKey.address);
+      await expect(claimIssuerContract.isClaimValid(charlieIdentity.address, topic, claim.signature, claim.data)).to.eventually.be.true;
+      await expect(verifyClaim(claim, ethers.provider)).to.eventually.deep.equal({
+        valid: true,
+        signer: claimIssuerSigningKey.address,
+        failures: [],
+      });
+    });
+  });
+
+  describe('.withData()', () => {
+    it('should keep hex data as bytes and reject hex with an odd number of digits', () => {
+      const builder = ClaimBuilder.create(ethers.constants.AddressZero, ethers.constants.AddressZero, 1);
+
+      expect(builder.withData('0xABCD').build().data).to.equal('0xabcd');
+      expect(builder.withData('0xzz').build().data).to.equal(ethers.utils.hexlify(ethers.utils.toUtf8Bytes('0xzz')));
+      expect(() => builder.withData('0xabc')).to.throw('Claim data "0xabc" is not valid hex: it has an odd number of digits');
+    });
+  });
+
+  describe('verifyClaim()', () => {
+    describe('when the claim was signed with an EIP-712 domain', () => {
+      it('should report SIGNER_NOT_CLAIM_KEY', async () => {
+        const {
+          suite: { claimIssuerContract },
+          accounts: { claimIssuerSigningKey },
+          identities: { charlieIdentity },
+        } = await loadFixture(deployFullSuiteFixture);
+        const claim = await ClaimBuilder.create(charlieIdentity.address, claimIssuerContract.address, ethers.utils.id('CLAIM_TOPIC')).sign(
+          claimIssuerSigningKey,
+        );
+        // eslint-disable-next-line no-underscore-dangle
+        claim.signature = await claimIssuerSigningKey._signTypedData(
+          { name: 'ClaimIssuer', version: '1', chainId: 31337, verifyingContract: claimIssuerContract.address },
+          {
+            Claim: [
+              { name: 'subject', type: 'address' },
+              { name: 'topic', type: 'uint256' },
+              { name: 'value', type: 'bytes' },
+            ],
+          },
+          { subject: claim.identity, topic: claim.topic, value: claim.data },
+        );
+
+        const check = await verifyClaim(claim, ethers.provider);
+
+        expect(check.valid).to.be.false;
+        expect(check.failures.map((failure) => failure.code)).to.deep.equal(['SIGNER_NOT_CLAIM_KEY']);
+      });
+    });
+
+    describe('when the signature was revoked', () => {
+      it('should report CLAIM_REVOKED', async () => {
+        const {
+          suite: { claimIssuerContract },
+          accounts: { claimIssuer, claimIssuerSigningKey },
+          identities: { charlieIdentity },
+        } = await loadFixture(deployFullSuiteFixture);
+        const claim = await ClaimBuilder.create(charlieIdentity.address, claimIssuerContract.address, ethers.utils.id('CLAIM_TOPIC')).sign(
+          claimIssuerSigningKey,
+        );
+        await claimIssuerContract.connect(claimIssuer).revokeClaimBySignature(claim.signature);
+
+        const check = await verifyClaim(claim, ethers.provider);
+
+        expect(check.failures.map((failure) => failure.code)).to.deep.equal(['CLAIM_REVOKED']);
+      });
+    });
+
+    describe('when the signature is malformed', () => {
+      it('should report MALFORMED_SIGNATURE', async () => {
+        const {
+          suite: { claimIssuerContract },
+          accounts: { claimIssuerSigningKey },
+          identities: { charlieIdentity },
+        } = await loadFixture(deployFullSuiteFixture);
+        const claim = await ClaimBuilder.create(charlieIdentity.address, claimIssuerContract.address, ethers.utils.id('CLAIM_TOPIC')).sign(
+          claimIssuerSigningKey,
+        );
+
+        const check = await verifyClaim({ ...claim, signature: '0x1234' }, ethers.provider);
+
+        expect(check).to.deep.equal({
+          valid: false,
+          signer: ethers.constants.AddressZero,
+          failures: [{ code: 'MALFORMED_SIGNATURE', message: 'Signature is not a 65 bytes ECDSA signature of the claim hash' }],
+        });
+      });
+    });
+  });
+
+  describe('submitClaim()', () => {
+    describe('when the sender is not a CLAIM key of the identity', () => {
+      it('should report SENDER_NOT_CLAIM_KEY without sending a transaction', async () => {
+        const {
+          suite: { claimIssuerContract },
+          accounts: { claimIssuerSigningKey, anotherWallet },
+          identities: { charlieIdentity },
+        } = await loadFixture(deployFullSuiteFixture);
+        const claim = await ClaimBuilder.create(charlieIdentity.address, claimIssuerContract.address, ethers.utils.id('CLAIM_TOPIC')).sign(
+          claimIssuerSigningKey,
+        );
+
+        const result = await submitClaim(IIdentity__factory.connect(charlieIdentity.address, anotherWallet), claim);
+
+        expect(!result.ok && result.failures.map((failure) => failure.code)).to.deep.equal(['SENDER_NOT_CLAIM_KEY']);
+      });
+    });
+
+    describe('when the claim is valid', () => {
+      it('should add the claim and make the wallet verified', async () => {
+        const {
+          suite: { claimIssuerContract, identityRegistry },
+          accounts: { tokenAgent, claimIssuerSigningKey, charlieWallet },
+          identities: { charlieIdentity },
+        } = await loadFixture(deployFullSuiteFixture);
+        await identityRegistry.connect(tokenAgent).registerIdentity(charlieWallet.address, charlieIdentity.address, 0);
+        const claim = await ClaimBuilder.create(charlieIdentity.address, claimIssuerContract.address, ethers.utils.id('CLAIM_TOPIC'))
+          .withData('Some claim public data.')
+          .sign(claimIssuerSigningKey);
+
+        const result = await submitClaim(IIdentity__factory.connect(charlieIdentity.address, charlieWallet), claim);
+
+        expect(result.ok && result.claimId).to.equal(claim.claimId);
+        await expect(identityRegistry.isVerified(charlieWallet.address)).to.eventually.be.true;
+      });
+    });
+  });
+});
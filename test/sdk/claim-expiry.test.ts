@@ -0,0 +1,97 @@
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { deployFullSuiteFixture } from '../fixtures/deploy-full-suite.fixture';
+import { createManifest, enforceClaimPolicy, expiringClaims, parseClaimPolicy, recordDeployment, scanClaimExpiry } from '../../sdk';
+
+describe('SDK - scanClaimExpiry() / enforceClaimPolicy()', () => {
+  const DAY = 24 * 60 * 60;
+
+  async function deployWithManifestFixture() {
+    const context = await loadFixture(deployFullSuiteFixture);
+    const manifest = createManifest('hardhat', 31337, context.accounts.deployer.address);
+    await recordDeployment(manifest, 'IdentityRegistryStorage', context.suite.identityRegistryStorage);
+    await recordDeployment(manifest, 'Token', context.suite.token);
+    return { ...context, manifest };
+  }
+
+  const policy = (onExpiry: string) => parseClaimPolicy(JSON.stringify({ topics: { CLAIM_TOPIC: { validityDays: 30, onExpiry } } }));
+
+  describe('when the validity period of the claims runs out', () => {
+    it('should list them as expiring, then freeze the wallets once expired', async () => {
+      const {
+        manifest,
+        suite: { token },
+        accounts: { tokenAgent, aliceWallet, bobWallet },
+      } = await loadFixture(deployWithManifestFixture);
+
+      const fresh = await scanClaimExpiry(manifest, ethers.provider, policy('freeze'), { withinDays: 10 });
+      expect(fresh.rows.map((row) => [row.wallet, row.status])).to.have.deep.members([
+        [aliceWallet.address, 'valid'],
+        [bobWallet.address, 'valid'],
+      ]);
+
+      await time.increase(25 * DAY);
+      const soon = await scanClaimExpiry(manifest, ethers.provider, policy('freeze'), { withinDays: 10 });
+      expect(expiringClaims(soon).map((row) => row.status)).to.deep.equal(['expiring', 'expiring']);
+
+      await time.increase(6 * DAY);
+      const expired = await scanClaimExpiry(manifest, ethers.provider, policy('freeze'), { withinDays: 10 });
+      const simulated = await enforceClaimPolicy(expired, { token: token.connect(tokenAgent), dryRun: true });
+      expect(simulated.map((result) => [result.action, result.outcome])).to.deep.equal([
+        ['freeze', 'simulated'],
+        ['freeze', 'simulated'],
+      ]);
+      await expect(token.isFrozen(aliceWallet.address)).to.eventually.be.false;
+
+      await enforceClaimPolicy(expired, { token: token.connect(tokenAgent) });
+      await expect(token.isFrozen(aliceWallet.address)).to.eventually.be.true;
+      await expect(token.isFrozen(bobWallet.address)).to.eventually.be.true;
+      const again = await enforceClaimPolicy(expired, { token: token.connect(tokenAgent) });
+      expect(again.map((result) => result.outcome)).to.deep.equal(['skipped', 'skipped']);
+    });
+  });
+
+  describe('when the policy revokes expired claims', () => {
+    it('should revoke them with the management key of the issuer', async () => {
+      const {
+        manifest,
+        suite: { token, identityRegistry, claimIssuerContract },
+        accounts: { tokenAgent, claimIssuer, aliceWallet },
+      } = await loadFixture(deployWithManifestFixture);
+      await time.increase(31 * DAY);
+
+      const report = await scanClaimExpiry(manifest, ethers.provider, policy('revoke'));
+      const withoutKey = await enforceClaimPolicy(report, { token: token.connect(tokenAgent) });
+      expect(withoutKey.map((result) => result.outcome)).to.deep.equal(['skipped', 'skipped']);
+      const results = await enforceClaimPolicy(report, {
+        token: token.connect(tokenAgent),
+        issuerManagers: { [claimIssuerContract.address]: claimIssuer },
+      });
+
+      expect(results.map((result) => [result.action, result.outcome])).to.deep.equal([
+        ['revoke', 'sent'],
+        ['revoke', 'sent'],
+      ]);
+      await expect(identityRegistry.isVerified(aliceWallet.address)).to.eventually.be.false;
+    });
+  });
+
+  describe('when claims predate the scanned blocks or are missing', () => {
+    it('should report them as unknown or missing', async () => {
+      const {
+        manifest,
+        suite: { identityRegistry },
+        accounts: { tokenAgent, charlieWallet },
+        identities: { charlieIdentity },
+      } = await loadFixture(deployWithManifestFixture);
+      await (await identityRegistry.connect(tokenAgent).registerIdentity(charlieWallet.address, charlieIdentity.address, 250)).wait();
+      const head = await ethers.provider.getBlock('latest');
+
+      const report = await scanClaimExpiry(manifest, ethers.provider, policy('freeze'), { fromBlock: head.number });
+
+      expect(report.rows.map((row) => row.status)).to.have.members(['unknown', 'unknown', 'missing']);
+      expect(report.rows.find((row) => row.wallet === charlieWallet.address)?.status).to.equal('missing');
+    });
+  });
+});
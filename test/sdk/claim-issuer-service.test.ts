@@ -0,0 +1,92 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import { AddressInfo } from 'net';
+import http from 'http';
+import { ethers } from 'hardhat';
+import { deployFullSuiteFixture } from '../fixtures/deploy-full-suite.fixture';
+import { IIdentity__factory } from '../../typechain-types';
+import { ClaimStatusResponse, IssuedClaim, createClaimIssuerService, submitClaim } from '../../sdk';
+
+describe('SDK - createClaimIssuerService()', () => {
+  let server: http.Server | undefined;
+
+  async function startService() {
+    const context = await loadFixture(deployFullSuiteFixture);
+    const {
+      suite: { claimIssuerContract },
+      accounts: { claimIssuer, claimIssuerSigningKey },
+    } = context;
+    server = createClaimIssuerService({
+      issuer: claimIssuerContract.address,
+      signingKey: claimIssuerSigningKey,
+      manager: claimIssuer,
+      provider: ethers.provider,
+    });
+    await new Promise<void>((resolve) => {
+      server?.listen(0, resolve);
+    });
+    const { port } = server.address() as AddressInfo;
+    const call = async (method: string, route: string, body?: unknown) => {
+      const response = await fetch(`http://127.0.0.1:${port}${route}`, { method, body: body === undefined ? undefined : JSON.stringify(body) });
+      return { status: response.status, body: await response.json() };
+    };
+    return { ...context, call };
+  }
+
+  afterEach(async () => {
+    await new Promise((resolve) => {
+      server?.close(resolve);
+    });
+    server = undefined;
+  });
+
+  describe('when an investor is onboarded with a claim of the service', () => {
+    it('should make the wallet verified until the claim is revoked', async () => {
+      const {
+        call,
+        suite: { identityRegistry },
+        accounts: { tokenAgent, charlieWallet },
+        identities: { charlieIdentity },
+      } = await startService();
+      await (await identityRegistry.connect(tokenAgent).registerIdentity(charlieWallet.address, charlieIdentity.address, 250)).wait();
+
+      const issued = await call('POST', '/claims', { identity: charlieIdentity.address, topic: 'CLAIM_TOPIC', data: 'KYC passed' });
+      expect(issued.status).to.equal(201);
+      const claim: IssuedClaim = issued.body;
+      const submitted = await submitClaim(IIdentity__factory.connect(charlieIdentity.address, charlieWallet), {
+        ...claim,
+        topic: ethers.BigNumber.from(claim.topic),
+      });
+      expect(submitted.ok).to.be.true;
+      await expect(identityRegistry.isVerified(charlieWallet.address)).to.eventually.be.true;
+
+      const valid = await call('GET', `/claims/${claim.id}`);
+      expect(valid.body).to.include({ status: 'valid', onIdentity: true });
+
+      const revoked = await call('POST', `/claims/${claim.id}/revoke`);
+      expect(revoked.status).to.equal(200);
+      expect((revoked.body as ClaimStatusResponse).status).to.equal('revoked');
+      expect(revoked.body.revocationTransaction).to.match(/^0x[0-9a-f]{64}$/);
+      await expect(identityRegistry.isVerified(charlieWallet.address)).to.eventually.be.false;
+      await expect(call('POST', `/claims/${claim.id}/revoke`)).to.eventually.include({ status: 409 });
+    });
+  });
+
+  describe('when a request is invalid', () => {
+    it('should answer with 400 or 404 and the reason', async () => {
+      const { call } = await startService();
+
+      await expect(call('POST', '/claims', { identity: 'alice', topic: 1 })).to.eventually.deep.equal({
+        status: 400,
+        body: { error: '"identity" must be an address' },
+      });
+      await expect(call('POST', '/claims', { identity: ethers.constants.AddressZero, topic: 1, data: '0xabc' })).to.eventually.deep.equal({
+        status: 400,
+        body: { error: '"data" must be text or hex with an even number of digits' },
+      });
+      const unknown = await call('GET', `/claims/${ethers.constants.HashZero}`);
+      expect(unknown.status).to.equal(404);
+      await expect(call('DELETE', '/claims')).to.eventually.include({ status: 404 });
+    });
+  });
+});
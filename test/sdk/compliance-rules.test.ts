@@ -0,0 +1,103 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { BOB_COUNTRY, deploySuiteWithComposableComplianceFixture } from '../fixtures/deploy-full-suite.fixture';
+import { checkComplianceRules, createManifest, planComplianceRules, readComplianceRules, recordDeployment, setComplianceRules } from '../../sdk';
+
+describe('SDK - compliance rules', () => {
+  async function deploySuiteWithRulesManifestFixture() {
+    const context = await loadFixture(deploySuiteWithComposableComplianceFixture);
+    const {
+      accounts: { deployer },
+      rules: { countryRestrict, maxHolders },
+    } = context;
+    const lockUp = await (await ethers.getContractFactory('LockUpCompliance', deployer)).deploy(3600);
+    const manifest = createManifest('hardhat', 31337, deployer.address);
+    await recordDeployment(manifest, 'CountryRestrictCompliance', countryRestrict);
+    await recordDeployment(manifest, 'MaxHoldersCompliance', maxHolders);
+    await recordDeployment(manifest, 'LockUpCompliance', lockUp);
+
+    return { ...context, lockUp, manifest };
+  }
+
+  describe('planComplianceRules()', () => {
+    it('should remove, add at the end, then move until the order matches', () => {
+      const [a, b, c, d] = ['0xA', '0xB', '0xC', '0xD'];
+
+      expect(planComplianceRules([a, b, c], [c, d, a])).to.deep.equal([
+        { method: 'removeRule', rule: b },
+        { method: 'addRule', rule: d },
+        { method: 'moveRule', rule: c, position: 0 },
+        { method: 'moveRule', rule: d, position: 1 },
+      ]);
+      expect(planComplianceRules([a, b], [a.toLowerCase(), b])).to.be.empty;
+      expect(() => planComplianceRules([a], [a, b, a])).to.throw('Rules listed more than once: 0xA');
+    });
+  });
+
+  describe('setComplianceRules()', () => {
+    it('should reorder the rules, add a new one with TOKEN_ROLE and forward the hooks to it', async () => {
+      const {
+        suite: { token, compliance },
+        accounts: { tokenAgent, aliceWallet },
+        rules: { maxHolders },
+        lockUp,
+        manifest,
+      } = await loadFixture(deploySuiteWithRulesManifestFixture);
+      const messages: string[] = [];
+
+      const applied = await setComplianceRules(compliance, ['LockUpCompliance', maxHolders.address], {
+        manifest,
+        log: (message) => messages.push(message),
+      });
+
+      expect(applied.map(({ result }) => result.method)).to.deep.equal(['removeRule', 'addRule', 'moveRule']);
+      expect(messages.map((message) => message.split(' (')[0])).to.deep.equal([
+        '- CountryRestrictCompliance',
+        `ComposableCompliance granted TOKEN_ROLE on ${lockUp.address}`,
+        '+ LockUpCompliance',
+        '~ LockUpCompliance',
+      ]);
+      await expect(readComplianceRules(compliance, manifest)).to.eventually.deep.equal([
+        { position: 0, address: lockUp.address, name: 'LockUpCompliance' },
+        { position: 1, address: maxHolders.address, name: 'MaxHoldersCompliance' },
+      ]);
+      await expect(lockUp.isTokenBound(token.address)).to.eventually.be.true;
+      await token.connect(tokenAgent).mint(aliceWallet.address, 100);
+      await expect(lockUp.lockedBalanceOf(aliceWallet.address)).to.eventually.equal(100);
+    });
+
+    it('should reject a rule that is neither an address nor in the manifest', async () => {
+      const {
+        suite: { compliance },
+        manifest,
+      } = await loadFixture(deploySuiteWithRulesManifestFixture);
+
+      await expect(setComplianceRules(compliance, ['FalseCompliance'], { manifest })).to.be.rejectedWith(
+        'Unknown rule "FalseCompliance", expected an address or a contract of the hardhat manifest',
+      );
+    });
+  });
+
+  describe('checkComplianceRules()', () => {
+    it('should report the rule that rejects the transfer', async () => {
+      const {
+        suite: { compliance },
+        accounts: { aliceWallet, bobWallet },
+        rules: { countryRestrict },
+        manifest,
+      } = await loadFixture(deploySuiteWithRulesManifestFixture);
+      await countryRestrict.blockCountry(BOB_COUNTRY);
+
+      const report = await checkComplianceRules(compliance, aliceWallet.address, bobWallet.address, 100, manifest);
+
+      expect(report.compliant).to.be.false;
+      expect(report.rules.map((rule) => [rule.name, rule.compliant])).to.deep.equal([
+        ['CountryRestrictCompliance', false],
+        ['MaxHoldersCompliance', true],
+      ]);
+      expect(report.rejectedBy).to.deep.equal({ position: 0, address: countryRestrict.address, name: 'CountryRestrictCompliance', compliant: false });
+      await expect(checkComplianceRules(compliance, bobWallet.address, aliceWallet.address, 100)).to.eventually.include({ compliant: true });
+    });
+  });
+});
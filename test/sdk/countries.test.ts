@@ -0,0 +1,27 @@
+import { expect } from 'chai';
+import { COUNTRIES, countryCode, countryName, findCountry, formatCountry } from '../../sdk';
+
+describe('SDK - countries', () => {
+  describe('countryCode()', () => {
+    it('should accept numeric, alpha-2 and alpha-3 codes and names', () => {
+      expect([356, '356', 'IN', 'ind', ' India ', 'INDIA'].map(countryCode)).to.deep.equal([356, 356, 356, 356, 356, 356]);
+      expect(countryCode('076')).to.equal(76);
+      expect(findCountry('FR')).to.deep.equal({ numeric: 250, alpha2: 'FR', alpha3: 'FRA', name: 'France' });
+    });
+
+    it('should reject codes that are not ISO 3166-1 countries', () => {
+      ['0', 42, 70000, 'XX', 'Atlantis', '', '1e2'].forEach((code) => {
+        expect(() => countryCode(code)).to.throw(`Unknown country "${code}"`);
+      });
+    });
+  });
+
+  describe('formatCountry()', () => {
+    it('should render stored codes readably, unknown ones included', () => {
+      expect(formatCountry(250)).to.equal('France (FR)');
+      expect(formatCountry(42)).to.equal('Unknown (42)');
+      expect(countryName(826)).to.equal('United Kingdom');
+      expect(COUNTRIES).to.have.lengthOf(249);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { deployFullSuiteFixture } from '../fixtures/deploy-full-suite.fixture';
+import {
+  attachCountryRestrictCompliance,
+  createManifest,
+  deploySuite,
+  formatCountryRestrictions,
+  readCountryRestrictions,
+  updateCountryRestrictions,
+  verifySuite,
+} from '../../sdk';
+
+describe('SDK - country restrictions', () => {
+  describe('attachCountryRestrictCompliance()', () => {
+    it('should replace the compliance of a deploySuite token and keep the suite verified', async () => {
+      const [deployer] = await ethers.getSigners();
+      const manifest = createManifest('hardhat', 31337, deployer.address);
+      const suite = await deploySuite(deployer, {
+        token: { name: 'TREXDINO', symbol: 'TREX', decimals: 0 },
+        claimTopics: [ethers.utils.id('CLAIM_TOPIC')],
+        manifest,
+      });
+
+      const compliance = await attachCountryRestrictCompliance(deployer, suite.token, { blocked: ['IR', 'KP'], allowed: [], manifest });
+
+      await expect(suite.token.compliance()).to.eventually.equal(compliance.address);
+      expect(manifest.contracts.CountryRestrictCompliance.address).to.equal(compliance.address);
+      await expect(readCountryRestrictions(compliance)).to.eventually.deep.equal({ blocked: [364, 408], allowed: [] });
+      const report = await verifySuite(manifest, ethers.provider);
+      expect(report.checks.filter((result) => !result.ok)).to.be.empty;
+      expect(report.checks.map((result) => result.label)).to.include('CountryRestrictCompliance.isTokenBound(Token)');
+    });
+  });
+
+  describe('updateCountryRestrictions()', () => {
+    it('should only send the changes the lists need, one batch call per list', async () => {
+      const {
+        suite: { token },
+        accounts: { deployer, tokenAgent, bobWallet },
+      } = await loadFixture(deployFullSuiteFixture);
+      const compliance = await attachCountryRestrictCompliance(deployer, token);
+
+      const simulated = await updateCountryRestrictions(compliance, { block: ['Saint Pierre and Miquelon', 'IRN', 666] }, { dryRun: true });
+      expect(simulated.map(({ method, countries, result }) => [method, countries, result.dryRun])).to.deep.equal([
+        ['batchBlockCountries', [666, 364], true],
+      ]);
+      await expect(readCountryRestrictions(compliance)).to.eventually.deep.equal({ blocked: [], allowed: [] });
+
+      await updateCountryRestrictions(compliance, { block: ['PM', 'IR'], allow: ['FR'] });
+      const again = await updateCountryRestrictions(compliance, { block: ['PM'], unblock: ['IR'], allow: ['FR'], disallow: ['DE'] });
+
+      expect(again.map(({ method, countries }) => [method, countries])).to.deep.equal([['batchUnblockCountries', [364]]]);
+      const restrictions = await readCountryRestrictions(compliance);
+      expect(formatCountryRestrictions(restrictions)).to.equal('Blocked: Saint Pierre and Miquelon (PM)\nAllowed: France (FR)');
+      await expect(token.connect(tokenAgent).mint(bobWallet.address, 1)).to.be.revertedWith('ERC-3643: Compliance failure');
+    });
+
+    it('should reject unknown or contradictory countries before sending anything', async () => {
+      const {
+        suite: { token },
+        accounts: { deployer },
+      } = await loadFixture(deployFullSuiteFixture);
+      const compliance = await attachCountryRestrictCompliance(deployer, token);
+
+      await expect(updateCountryRestrictions(compliance, { block: ['IR', 'XX'] })).to.be.rejectedWith('Unknown country "XX"');
+      await expect(updateCountryRestrictions(compliance, { allow: ['FR'], disallow: ['FRA'] })).to.be.rejectedWith(
+        'Countries both added to and removed from a list: France (FR)',
+      );
+      await expect(readCountryRestrictions(compliance)).to.eventually.deep.equal({ blocked: [], allowed: [] });
+    });
+  });
+});
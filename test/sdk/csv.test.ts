@@ -0,0 +1,33 @@
+import { expect } from 'chai';
+import { formatCsv, parseCsv } from '../../sdk';
+
+describe('SDK - CSV', () => {
+  describe('when a field contains a comma, a quote or a line break', () => {
+    it('should quote it and read it back', () => {
+      const rows = [
+        ['1', 'ERC-3643: Invalid zero address, line 2'],
+        ['2', 'said "no"\nthen left'],
+      ];
+
+      const text = formatCsv(['line', 'error'], rows);
+
+      expect(text).to.equal('line,error\n1,"ERC-3643: Invalid zero address, line 2"\n2,"said ""no""\nthen left"\n');
+      expect(parseCsv(text).records.map((record) => record.values.error)).to.deep.equal(rows.map((row) => row[1]));
+    });
+  });
+
+  describe('when the file has blank lines and CRLF line endings', () => {
+    it('should skip the blank lines and keep the file line numbers', () => {
+      const { header, records } = parseCsv('wallet,country\r\n\r\n0xabc, 250 \r\n');
+
+      expect(header).to.deep.equal(['wallet', 'country']);
+      expect(records).to.deep.equal([{ line: 3, values: { wallet: '0xabc', country: '250' } }]);
+    });
+  });
+
+  describe('when a row has another number of fields than the header', () => {
+    it('should throw with the line number', () => {
+      expect(() => parseCsv('wallet,country\n0xabc\n')).to.throw('Line 2: expected 2 fields, got 1');
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'hardhat';
+import { contractAddress, createManifest, loadManifest, readManifest, recordDeployment, writeManifest } from '../../sdk';
+
+describe('SDK - deployment manifest', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'manifest-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('when a deployment is recorded and written', () => {
+    it('should load it back by network with address, transaction hash and block', async () => {
+      const [deployer] = await ethers.getSigners();
+      const claimTopicsRegistry = await ethers.deployContract('ClaimTopicsRegistry', deployer);
+      const manifest = createManifest('hardhat', 31337, deployer.address);
+
+      await recordDeployment(manifest, 'ClaimTopicsRegistry', claimTopicsRegistry);
+      writeManifest(manifest, dir);
+
+      const loaded = await loadManifest('hardhat', ethers.provider, dir);
+      const receipt = await claimTopicsRegistry.deployTransaction.wait();
+      expect(loaded.contracts.ClaimTopicsRegistry).to.deep.equal({
+        address: claimTopicsRegistry.address,
+        transactionHash: receipt.transactionHash,
+        blockNumber: receipt.blockNumber,
+      });
+      expect(loaded.deploymentBlock).to.equal(receipt.blockNumber);
+      expect(contractAddress(loaded, 'ClaimTopicsRegistry')).to.equal(claimTopicsRegistry.address);
+    });
+  });
+
+  describe('when the manifest was written for another chain', () => {
+    it('should refuse to load it', async () => {
+      const [deployer] = await ethers.getSigners();
+      writeManifest(createManifest('hardhat', 1, deployer.address), dir);
+
+      await expect(loadManifest('hardhat', ethers.provider, dir)).to.be.rejectedWith(
+        'Manifest for network "hardhat" was written for chain 1, but the provider is on chain 31337',
+      );
+    });
+  });
+
+  describe('when no manifest exists for the network', () => {
+    it('should throw', () => {
+      expect(() => readManifest('sepolia', dir)).to.throw('No deployment manifest for network "sepolia"');
+    });
+  });
+
+  describe('when a contract is not in the manifest', () => {
+    it('should throw with the recorded contract names', () => {
+      const manifest = createManifest('hardhat', 31337, ethers.constants.AddressZero);
+
+      expect(() => contractAddress(manifest, 'Token')).to.throw('Contract "Token" is not in the hardhat manifest');
+    });
+  });
+});
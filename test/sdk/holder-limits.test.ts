@@ -0,0 +1,104 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { ALICE_COUNTRY, BOB_COUNTRY, deploySuiteWithMaxHoldersComplianceFixture } from '../fixtures/deploy-full-suite.fixture';
+import { formatHolderCounts, readHolderCounts, reconcileHolderCounts, takeCapTableSnapshot, walletKey } from '../../sdk';
+
+async function deploySuiteWithMoreInvestorsFixture() {
+  const context = await loadFixture(deploySuiteWithMaxHoldersComplianceFixture);
+  const {
+    suite: { identityRegistry },
+    accounts: { tokenAgent, charlieWallet, davidWallet },
+    identities: { aliceIdentity, bobIdentity },
+  } = context;
+  await identityRegistry
+    .connect(tokenAgent)
+    .batchRegisterIdentity([charlieWallet.address, davidWallet.address], [aliceIdentity.address, bobIdentity.address], [ALICE_COUNTRY, BOB_COUNTRY]);
+  const addresses = {
+    token: context.suite.token.address,
+    identityRegistry: identityRegistry.address,
+    fromBlock: (await identityRegistry.deployTransaction.wait()).blockNumber,
+  };
+
+  return { ...context, addresses };
+}
+
+describe('SDK - holder limits', () => {
+  describe('readHolderCounts()', () => {
+    it('should read the counts of the limited countries and of the countries asked for', async () => {
+      const {
+        suite: { compliance },
+      } = await loadFixture(deploySuiteWithMaxHoldersComplianceFixture);
+      await compliance.setHolderLimit(10);
+      await compliance.setCountryHolderLimit(BOB_COUNTRY, 2);
+
+      const counts = await readHolderCounts(compliance, { countries: [ALICE_COUNTRY, 'FR'] });
+
+      expect(counts).to.deep.equal({
+        holders: 2,
+        limit: 10,
+        countries: [
+          { country: 250, holders: 0, limit: 0 },
+          { country: ALICE_COUNTRY, holders: 1, limit: 0 },
+          { country: BOB_COUNTRY, holders: 1, limit: 2 },
+        ],
+      });
+      expect(formatHolderCounts(counts)).to.equal(
+        ['Holders: 2 / 10', '  France (FR): 0 (no limit)', '  Luxembourg (LU): 1 (no limit)', '  Switzerland (CH): 1 / 2'].join('\n'),
+      );
+    });
+  });
+
+  describe('reconcileHolderCounts()', () => {
+    it('should match the cap table after every step of mints, transfers, burns and recoveries', async () => {
+      const {
+        suite: { token, compliance },
+        accounts: { tokenAgent, aliceWallet, bobWallet, charlieWallet, davidWallet, anotherWallet },
+        identities: { bobIdentity },
+        addresses,
+      } = await loadFixture(deploySuiteWithMoreInvestorsFixture);
+      await compliance.setHolderLimit(3);
+      await bobIdentity.connect(bobWallet).addKey(walletKey(anotherWallet.address), 1, 1);
+
+      const steps = [
+        () => token.connect(tokenAgent).mint(charlieWallet.address, 300),
+        () => token.connect(aliceWallet).transfer(charlieWallet.address, 400),
+        () => token.connect(tokenAgent).burn(bobWallet.address, 500),
+        () => token.connect(aliceWallet).transfer(davidWallet.address, 100),
+        () => token.connect(tokenAgent).recoveryAddress(davidWallet.address, anotherWallet.address, bobIdentity.address),
+        () => token.connect(aliceWallet).transfer(bobWallet.address, 500),
+        () => token.connect(tokenAgent).burn(charlieWallet.address, 700),
+        () => token.connect(tokenAgent).mint(charlieWallet.address, 5),
+      ];
+      const holderCounts = await steps.reduce<Promise<number[]>>(async (previous, step) => {
+        const counts = await previous;
+        await (await step()).wait();
+        const snapshot = await takeCapTableSnapshot(ethers.provider, { ...addresses, at: { blockNumber: await ethers.provider.getBlockNumber() } });
+        const reconciliation = await reconcileHolderCounts(compliance, snapshot);
+        expect(reconciliation.differences, `after step ${counts.length + 1}`).to.be.empty;
+        return [...counts, reconciliation.counts.holders];
+      }, Promise.resolve([]));
+
+      expect(holderCounts).to.deep.equal([3, 3, 2, 3, 3, 3, 2, 3]);
+      await expect(token.connect(tokenAgent).mint(aliceWallet.address, 1)).to.be.revertedWith('ERC-3643: Compliance failure');
+    });
+
+    it('should report the countries updated since the holders were counted', async () => {
+      const {
+        suite: { identityRegistry, compliance },
+        accounts: { tokenAgent, aliceWallet },
+        addresses,
+      } = await loadFixture(deploySuiteWithMoreInvestorsFixture);
+      await identityRegistry.connect(tokenAgent).updateCountry(aliceWallet.address, 250);
+
+      const snapshot = await takeCapTableSnapshot(ethers.provider, { ...addresses, at: { blockNumber: await ethers.provider.getBlockNumber() } });
+      const reconciliation = await reconcileHolderCounts(compliance, snapshot);
+
+      expect(reconciliation.reconciled).to.be.false;
+      expect(reconciliation.differences).to.deep.equal([
+        { country: 250, compliance: 0, capTable: 1 },
+        { country: ALICE_COUNTRY, compliance: 1, capTable: 0 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'hardhat';
+import { ALICE_COUNTRY, deployFullSuiteFixture, deployIdentityProxy } from '../fixtures/deploy-full-suite.fixture';
+import { Identity__factory } from '../../typechain-types';
+import { InvestorRow, onboardInvestors, parseInvestorCsv, readOnboardingResults, walletKey, writeOnboardingResults } from '../../sdk';
+
+const newInvestors = (count: number, firstLine = 2): InvestorRow[] =>
+  Array.from({ length: count }, (_, i) => ({ line: firstLine + i, wallet: ethers.Wallet.createRandom().address, country: 250 }));
+
+describe('SDK - onboardInvestors()', () => {
+  let dir: string;
+  let resultFile: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'onboarding-'));
+    resultFile = path.join(dir, 'investors.results.csv');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('parseInvestorCsv()', () => {
+    it('should read wallets, countries and optional identities', () => {
+      const [wallet, identity, other] = [1, 2, 3].map(() => ethers.Wallet.createRandom().address);
+
+      expect(parseInvestorCsv(`wallet,country,identity\n${wallet.toLowerCase()},250,${identity}\n\n${other},de,\n`)).to.deep.equal([
+        { line: 2, wallet, country: 250, identity },
+        { line: 4, wallet: other, country: 276, identity: undefined },
+      ]);
+    });
+
+    it('should reject invalid rows with their line number', () => {
+      const wallet = ethers.Wallet.createRandom().address;
+
+      expect(() => parseInvestorCsv('wallet\n0x1234\n')).to.throw('Investor CSV is missing the country column(s)');
+      expect(() => parseInvestorCsv('wallet,country\n0x1234,250\n')).to.throw('Line 2: invalid wallet "0x1234"');
+      expect(() => parseInvestorCsv(`wallet,country\n${wallet},70000\n`)).to.throw('Line 2: invalid country code "70000"');
+      expect(() => parseInvestorCsv(`wallet,country\n${wallet},42\n`)).to.throw('Line 2: invalid country code "42"');
+      expect(() => parseInvestorCsv(`wallet,country\n${wallet},250\n${wallet},276\n`)).to.throw(`Line 3: wallet ${wallet} already listed on line 2`);
+    });
+  });
+
+  describe('when investors are onboarded', () => {
+    it('should deploy missing identities, register everyone and skip registered wallets', async () => {
+      const {
+        suite: { identityRegistry },
+        accounts: { tokenAgent, aliceWallet, charlieWallet },
+        identities: { aliceIdentity, charlieIdentity },
+        authorities: { identityImplementationAuthority },
+      } = await loadFixture(deployFullSuiteFixture);
+      const [first, second] = newInvestors(2, 4);
+      const investors: InvestorRow[] = [
+        { line: 2, wallet: aliceWallet.address, country: ALICE_COUNTRY },
+        { line: 3, wallet: charlieWallet.address, country: 56, identity: charlieIdentity.address },
+        first,
+        second,
+      ];
+
+      const results = await onboardInvestors(identityRegistry.connect(tokenAgent), investors, {
+        identityImplementationAuthority: identityImplementationAuthority.address,
+        resultFile,
+      });
+
+      expect(results.map((result) => result.status)).to.deep.equal(['already-registered', 'registered', 'registered', 'registered']);
+      expect(results[0].identity).to.equal(aliceIdentity.address);
+      await expect(identityRegistry.identity(charlieWallet.address)).to.eventually.equal(charlieIdentity.address);
+      await expect(identityRegistry.investorCountry(first.wallet)).to.eventually.equal(250);
+
+      const deployed = Identity__factory.connect(results[2].identity, ethers.provider);
+      await expect(identityRegistry.identity(first.wallet)).to.eventually.equal(deployed.address);
+      await expect(deployed.keyHasPurpose(walletKey(first.wallet), 1)).to.eventually.be.true;
+      expect([...readOnboardingResults(resultFile).values()]).to.deep.equal(results);
+    });
+  });
+
+  describe('when the registrations exceed the gas bound of one transaction', () => {
+    it('should register them in several chunks under the bound', async () => {
+      const {
+        suite: { identityRegistry },
+        accounts: { tokenAgent },
+        identities: { aliceIdentity },
+        authorities: { identityImplementationAuthority },
+      } = await loadFixture(deployFullSuiteFixture);
+      const sample = newInvestors(3);
+      const maxChunkGas = (
+        await identityRegistry.connect(tokenAgent).estimateGas.batchRegisterIdentity(
+          sample.map((investor) => investor.wallet),
+          sample.map(() => aliceIdentity.address),
+          sample.map((investor) => investor.country),
+        )
+      ).toNumber();
+
+      const results = await onboardInvestors(identityRegistry.connect(tokenAgent), newInvestors(6), {
+        identityImplementationAuthority: identityImplementationAuthority.address,
+        resultFile,
+        maxChunkGas,
+      });
+
+      const transactions = [...new Set(results.map((result) => result.transactionHash))];
+      expect(results.every((result) => result.status === 'registered')).to.be.true;
+      expect(transactions.length).to.be.at.least(2);
+      const receipts = await Promise.all(transactions.map((hash) => ethers.provider.getTransactionReceipt(hash)));
+      expect(receipts.every((receipt) => receipt.gasUsed.lte(maxChunkGas))).to.be.true;
+    });
+  });
+
+  describe('when one row would make the batch revert', () => {
+    it('should report that row as failed and register the others', async () => {
+      const {
+        suite: { identityRegistry },
+        accounts: { tokenAgent },
+        authorities: { identityImplementationAuthority },
+      } = await loadFixture(deployFullSuiteFixture);
+      const investors = newInvestors(4);
+      investors[2].identity = ethers.constants.AddressZero;
+
+      const results = await onboardInvestors(identityRegistry.connect(tokenAgent), investors, {
+        identityImplementationAuthority: identityImplementationAuthority.address,
+        resultFile,
+      });
+
+      expect(results.map((result) => result.status)).to.deep.equal(['registered', 'registered', 'failed', 'registered']);
+      expect(results[2].error).to.include('ERC-3643: Invalid zero address');
+      await expect(identityRegistry.contains(investors[2].wallet)).to.eventually.be.false;
+    });
+  });
+
+  describe('when the onboarding is resumed', () => {
+    it('should reuse identities deployed before the crash', async () => {
+      const {
+        suite: { identityRegistry },
+        accounts: { deployer, tokenAgent },
+        authorities: { identityImplementationAuthority },
+      } = await loadFixture(deployFullSuiteFixture);
+      const [investor] = newInvestors(1);
+      const identity = await deployIdentityProxy(identityImplementationAuthority.address, investor.wallet, deployer);
+      writeOnboardingResults(resultFile, [{ ...investor, identity: identity.address, status: 'identity-deployed', transactionHash: '', error: '' }]);
+
+      const [result] = await onboardInvestors(identityRegistry.connect(tokenAgent), [investor], {
+        identityImplementationAuthority: identityImplementationAuthority.address,
+        resultFile,
+      });
+
+      expect(result).to.include({ status: 'registered', identity: identity.address });
+      await expect(identityRegistry.identity(investor.wallet)).to.eventually.equal(identity.address);
+    });
+
+    it('should keep an identity submitted when waiting for its deployment fails without a revert, then reuse it', async () => {
+      const {
+        suite: { identityRegistry },
+        accounts: { tokenAgent },
+        authorities: { identityImplementationAuthority },
+      } = await loadFixture(deployFullSuiteFixture);
+      const [investor] = newInvestors(1);
+      const options = { identityImplementationAuthority: identityImplementationAuthority.address, resultFile };
+      // the deployment is sent and mined, but the wait for its receipt times out
+      const timingOutAgent = Object.defineProperty(Object.create(tokenAgent), 'sendTransaction', {
+        value: async (transaction: Parameters<typeof tokenAgent.sendTransaction>[0]) => {
+          const response = await tokenAgent.sendTransaction(transaction);
+          return transaction.to ? response : { ...response, wait: () => Promise.reject(new Error('timeout exceeded')) };
+        },
+      }) as typeof tokenAgent;
+
+      const [interrupted] = await onboardInvestors(identityRegistry.connect(timingOutAgent), [investor], options);
+
+      expect(interrupted).to.include({ status: 'identity-submitted', error: 'timeout exceeded' });
+      expect(readOnboardingResults(resultFile).get(investor.wallet)).to.include({
+        identity: interrupted.identity,
+        transactionHash: interrupted.transactionHash,
+      });
+
+      const [resumed] = await onboardInvestors(identityRegistry.connect(tokenAgent), [investor], options);
+
+      expect(resumed).to.include({ status: 'registered', identity: interrupted.identity });
+      await expect(identityRegistry.identity(investor.wallet)).to.eventually.equal(interrupted.identity);
+      await expect(ethers.provider.getTransactionCount(tokenAgent.address)).to.eventually.equal(
+        (await ethers.provider.getTransaction(interrupted.transactionHash)).nonce + 2,
+      );
+    });
+
+    it('should not register a wallet twice when the results were lost', async () => {
+      const {
+        suite: { identityRegistry },
+        accounts: { tokenAgent },
+        authorities: { identityImplementationAuthority },
+      } = await loadFixture(deployFullSuiteFixture);
+      const investors = newInvestors(3);
+      const options = { identityImplementationAuthority: identityImplementationAuthority.address, resultFile };
+      const first = await onboardInvestors(identityRegistry.connect(tokenAgent), investors, options);
+      fs.rmSync(resultFile);
+      const blockNumber = await ethers.provider.getBlockNumber();
+
+      const second = await onboardInvestors(identityRegistry.connect(tokenAgent), investors, options);
+
+      expect(second.map((result) => result.status)).to.deep.equal(['already-registered', 'already-registered', 'already-registered']);
+      expect(second.map((result) => result.identity)).to.deep.equal(first.map((result) => result.identity));
+      await expect(ethers.provider.getBlockNumber()).to.eventually.equal(blockNumber);
+    });
+  });
+});
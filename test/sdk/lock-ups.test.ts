@@ -0,0 +1,49 @@
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { LOCK_UP_PERIOD, deploySuiteWithLockUpComplianceFixture } from '../fixtures/deploy-full-suite.fixture';
+import { formatLockUps, readLockUps } from '../../sdk';
+
+describe('SDK - readLockUps()', () => {
+  it('should split each balance into locked and unlocked amounts as time passes', async () => {
+    const {
+      suite: { token, compliance },
+      accounts: { tokenAgent, aliceWallet, bobWallet, charlieWallet },
+    } = await loadFixture(deploySuiteWithLockUpComplianceFixture);
+    await token.connect(tokenAgent).mint(aliceWallet.address, 100);
+    const mintedAt = await time.latest();
+    await time.increase(LOCK_UP_PERIOD / 2);
+    await token.connect(aliceWallet).transfer(bobWallet.address, 50);
+    const transferredAt = await time.latest();
+    const wallets = [aliceWallet.address, bobWallet.address, charlieWallet.address];
+
+    const before = await readLockUps(compliance, wallets);
+    await time.increase(LOCK_UP_PERIOD / 2);
+    const after = await readLockUps(compliance, wallets);
+
+    expect(before.lockUpPeriod).to.equal(LOCK_UP_PERIOD);
+    expect(before.wallets.map(({ balance, locked, unlocked, nextUnlockAt }) => [balance, locked, unlocked, nextUnlockAt].map(String))).to.deep.equal([
+      ['1050', '100', '950', String(mintedAt + LOCK_UP_PERIOD)],
+      ['550', '50', '500', String(transferredAt + LOCK_UP_PERIOD)],
+      ['0', '0', '0', 'null'],
+    ]);
+    expect(before.wallets[0].lots).to.deep.equal([
+      { amount: ethers.BigNumber.from(100), acquiredAt: mintedAt, unlocksAt: mintedAt + LOCK_UP_PERIOD, locked: true },
+    ]);
+    expect(after.wallets.map(({ locked, unlocked }) => [locked.toNumber(), unlocked.toNumber()])).to.deep.equal([
+      [0, 1050],
+      [50, 500],
+      [0, 0],
+    ]);
+    expect(after.wallets[0].lots[0].locked).to.be.false;
+
+    const atTransfer = await readLockUps(compliance, [aliceWallet.address], { blockTag: before.blockNumber });
+    expect(atTransfer.wallets[0].locked.toNumber()).to.equal(100);
+    expect(formatLockUps(atTransfer)).to.equal(
+      [
+        `Lock-up period ${LOCK_UP_PERIOD}s, at block ${before.blockNumber}`,
+        `${aliceWallet.address}: 950 unlocked, 100 locked, next unlock ${new Date((mintedAt + LOCK_UP_PERIOD) * 1000).toISOString()}`,
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import fs from 'fs';
+import { ethers } from 'hardhat';
+import { deployFullSuiteFixture } from '../fixtures/deploy-full-suite.fixture';
+import { ContractRevertError, MissingRoleError, PanicError, UnknownRevertError, decodeRevert } from '../../sdk';
+import { CATALOG_FILE, collectRevertCatalog, renderRevertCatalog } from '../../sdk/revert-catalog-builder';
+
+const errorData = (reason: string) =>
+  ethers.utils.hexConcat([ethers.utils.id('Error(string)').slice(0, 10), ethers.utils.defaultAbiCoder.encode(['string'], [reason])]);
+
+describe('SDK - decodeRevert()', () => {
+  describe('the revert catalog', () => {
+    it('should be in sync with the Solidity sources', () => {
+      expect(fs.readFileSync(CATALOG_FILE, 'utf8'), 'run npm run generate:revert-catalog').to.equal(renderRevertCatalog(collectRevertCatalog()));
+    });
+  });
+
+  describe('when a Hardhat call reverts with a reason of the suite', () => {
+    it('should map it to its code, message and hints', async () => {
+      const {
+        suite: { token },
+        accounts: { tokenAgent, charlieWallet },
+      } = await loadFixture(deployFullSuiteFixture);
+
+      const error = await token
+        .connect(tokenAgent)
+        .callStatic.mint(charlieWallet.address, 10)
+        .catch((caught) => caught);
+      const revert = decodeRevert(error);
+
+      expect(revert).to.be.instanceOf(ContractRevertError);
+      expect(revert).to.include({ code: 'UNVERIFIED_IDENTITY', reason: 'ERC-3643: Unverified identity', name: 'ContractRevertError' });
+      expect(revert.message).to.equal('The receiving wallet is not verified in the identity registry');
+      expect(revert.contracts).to.deep.equal(['Token']);
+      expect(revert.hints).to.not.be.empty;
+    });
+  });
+
+  describe('when the caller misses an AccessControl role', () => {
+    it('should name the account and the role', async () => {
+      const {
+        suite: { token },
+        accounts: { anotherWallet, aliceWallet },
+      } = await loadFixture(deployFullSuiteFixture);
+
+      const error = await token
+        .connect(anotherWallet)
+        .callStatic.mint(aliceWallet.address, 10)
+        .catch((caught) => caught);
+      const revert = decodeRevert(error);
+
+      expect(revert).to.be.instanceOf(MissingRoleError);
+      expect(revert).to.include({ code: 'MISSING_ROLE', account: anotherWallet.address, roleName: 'AGENT_ROLE' });
+      expect(revert.message).to.equal(`${anotherWallet.address} is missing AGENT_ROLE`);
+    });
+  });
+
+  describe('when the token is paused', () => {
+    it('should map the OpenZeppelin reason', async () => {
+      const {
+        suite: { token },
+        accounts: { tokenAgent, aliceWallet, bobWallet },
+      } = await loadFixture(deployFullSuiteFixture);
+      await token.connect(tokenAgent).pause();
+
+      const error = await token
+        .connect(aliceWallet)
+        .transfer(bobWallet.address, 1)
+        .catch((caught) => caught);
+
+      expect(decodeRevert(error).code).to.equal('PAUSED');
+    });
+  });
+
+  describe('when the revert data is in a JSON-RPC response body', () => {
+    it('should decode it and ignore the calldata of the transaction', () => {
+      const error = {
+        code: 'UNPREDICTABLE_GAS_LIMIT',
+        transaction: { data: errorData('ERC-3643: Topic exists') },
+        error: {
+          code: -32603,
+          body: JSON.stringify({
+            jsonrpc: '2.0',
+            id: 1,
+            error: { code: 3, message: 'execution reverted', data: errorData('ERC-3643: Wallet frozen') },
+          }),
+        },
+      };
+
+      expect(decodeRevert(error)).to.include({ code: 'WALLET_FROZEN', data: errorData('ERC-3643: Wallet frozen') });
+    });
+  });
+
+  describe('when only the provider message carries the reason', () => {
+    it('should read it from the message', () => {
+      const error = new Error('VM Exception while processing transaction: revert ERC-3643: Topic exists');
+
+      expect(decodeRevert(error).code).to.equal('TOPIC_EXISTS');
+    });
+  });
+
+  describe('when the contract panics', () => {
+    it('should report the panic code', () => {
+      const data = ethers.utils.hexConcat([ethers.utils.id('Panic(uint256)').slice(0, 10), ethers.utils.defaultAbiCoder.encode(['uint256'], [0x11])]);
+
+      const revert = decodeRevert({ error: { data } });
+
+      expect(revert).to.be.instanceOf(PanicError);
+      expect(revert.message).to.equal('Panic 0x11: arithmetic overflow or underflow');
+    });
+  });
+
+  describe('when the error is not a revert of the suite', () => {
+    it('should return an unknown revert keeping the original error', () => {
+      const cause = new Error('timeout exceeded');
+
+      const revert = decodeRevert(cause);
+
+      expect(revert).to.be.instanceOf(UnknownRevertError);
+      expect(revert).to.include({ code: 'UNKNOWN', reason: '', cause });
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'hardhat';
+import { applyRolePlan, createManifest, deploySuite, formatRoleChange, parseRoleConfig, planRoles, readRoleConfig } from '../../sdk';
+
+describe('SDK - planRoles() / applyRolePlan()', () => {
+  async function deployWithManifest() {
+    const [deployer, tokenAgent, newAgent] = await ethers.getSigners();
+    const manifest = createManifest('hardhat', 31337, deployer.address);
+    const suite = await deploySuite(deployer, {
+      token: { name: 'TREXDINO', symbol: 'TREX', decimals: 0 },
+      claimTopics: [ethers.utils.id('CLAIM_TOPIC')],
+      agents: [tokenAgent.address],
+      manifest,
+    });
+    return { manifest, suite, deployer, tokenAgent, newAgent };
+  }
+
+  describe('when the file differs from the live roles', () => {
+    it('should plan the minimal grants and revocations and apply them', async () => {
+      const { manifest, suite, deployer, tokenAgent, newAgent } = await deployWithManifest();
+      const config = parseRoleConfig(
+        JSON.stringify({
+          roles: {
+            Token: { AGENT_ROLE: ['deployer', newAgent.address] },
+            IdentityRegistry: { AGENT_ROLE: ['Token', 'deployer', tokenAgent.address] },
+          },
+        }),
+      );
+
+      const plan = await planRoles(config, manifest, ethers.provider);
+
+      expect(plan.errors).to.be.empty;
+      expect(plan.changes.map(formatRoleChange)).to.deep.equal([
+        `+ Token AGENT_ROLE ${newAgent.address}`,
+        `- Token AGENT_ROLE ${tokenAgent.address}`,
+      ]);
+      expect(plan.unchanged).to.have.length(4);
+
+      const applied = await applyRolePlan(plan, deployer);
+
+      expect(applied.map(({ result }) => result.method)).to.deep.equal(['grantRole', 'revokeRole']);
+      const agentRole = await suite.token.AGENT_ROLE();
+      await expect(suite.token.hasRole(agentRole, newAgent.address)).to.eventually.be.true;
+      await expect(suite.token.hasRole(agentRole, tokenAgent.address)).to.eventually.be.false;
+      await expect(planRoles(config, manifest, ethers.provider)).to.eventually.have.property('changes').that.is.empty;
+    });
+  });
+
+  describe('when the file removes every DEFAULT_ADMIN_ROLE holder', () => {
+    it('should refuse to apply the plan', async () => {
+      const { manifest, suite, deployer } = await deployWithManifest();
+      const config = parseRoleConfig(JSON.stringify({ roles: { IdentityRegistry: { DEFAULT_ADMIN_ROLE: [] } } }));
+
+      const plan = await planRoles(config, manifest, ethers.provider);
+
+      expect(plan.errors).to.deep.equal(['Refusing to revoke the last DEFAULT_ADMIN_ROLE holder of IdentityRegistry']);
+      await expect(applyRolePlan(plan, deployer)).to.be.rejectedWith('The role plan cannot be applied');
+      await expect(suite.identityRegistry.hasRole(ethers.constants.HashZero, deployer.address)).to.eventually.be.true;
+    });
+  });
+
+  describe('when the file is YAML', () => {
+    it('should read it by its extension and keep unquoted addresses as strings', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'roles-'));
+      const file = path.join(dir, 'roles.yml');
+      const agent = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+      fs.writeFileSync(file, `roles:\n  Token:\n    AGENT_ROLE: [deployer, ${agent}]\n  IdentityRegistry:\n    AGENT_ROLE:\n      - Token\n`);
+
+      try {
+        expect(readRoleConfig(file)).to.deep.equal({
+          roles: { Token: { AGENT_ROLE: ['deployer', agent] }, IdentityRegistry: { AGENT_ROLE: ['Token'] } },
+        });
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('when the file is invalid', () => {
+    it('should reject unknown roles and report unknown contracts and accounts', async () => {
+      const { manifest } = await deployWithManifest();
+
+      expect(() => parseRoleConfig(JSON.stringify({ roles: { Token: { MINTER_ROLE: [] } } }))).to.throw('Unknown role "MINTER_ROLE"');
+      const plan = await planRoles(
+        parseRoleConfig(JSON.stringify({ roles: { ClaimTopicsRegistry: { AGENT_ROLE: [] }, Token: { AGENT_ROLE: ['treasury'] } } })),
+        manifest,
+        ethers.provider,
+      );
+      expect(plan.errors).to.deep.equal([
+        'ClaimTopicsRegistry is not an AccessControl contract of the hardhat manifest',
+        'Token.AGENT_ROLE: "treasury" is neither an address, a manifest contract nor "deployer"',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { buildRoleInventory, createManifest, deploySuite, parseCsv, roleHistoryCsv, roleMatrixCsv } from '../../sdk';
+
+describe('SDK - buildRoleInventory()', () => {
+  async function deployWithManifest() {
+    const [deployer, tokenAgent] = await ethers.getSigners();
+    const manifest = createManifest('hardhat', 31337, deployer.address);
+    const suite = await deploySuite(deployer, {
+      token: { name: 'TREXDINO', symbol: 'TREX', decimals: 0 },
+      claimTopics: [ethers.utils.id('CLAIM_TOPIC')],
+      agents: [tokenAgent.address],
+      manifest,
+    });
+    return { manifest, suite, deployer, tokenAgent };
+  }
+
+  describe('when the suite is freshly deployed', () => {
+    it('should list the role holders and flag the externally owned admin', async () => {
+      const { manifest, deployer, tokenAgent } = await deployWithManifest();
+
+      const inventory = await buildRoleInventory(manifest, ethers.provider, { batchSize: 5 });
+
+      const held = inventory.holders.map((holder) => `${holder.contract} ${holder.roleName} ${holder.accountName ?? holder.account}`);
+      expect(held).to.include.members([
+        `Token DEFAULT_ADMIN_ROLE ${deployer.address}`,
+        `Token AGENT_ROLE ${tokenAgent.address}`,
+        'IdentityRegistry AGENT_ROLE Token',
+        'IdentityRegistryStorage AGENT_ROLE IdentityRegistry',
+        `ClaimTopicsRegistry owner() ${deployer.address}`,
+      ]);
+      expect(inventory.contracts.map((contract) => contract.name)).to.not.include('TokenOID');
+      expect(inventory.holders.find((holder) => holder.accountName === 'Token')?.accountType).to.equal('contract');
+      expect(inventory.risks.map((risk) => risk.code)).to.include('EOA_DEFAULT_ADMIN');
+      expect(inventory.risks.map((risk) => risk.code)).to.not.include.members(['TOKEN_NOT_REGISTRY_AGENT', 'EVENTS_OUT_OF_SYNC']);
+      expect(parseCsv(roleMatrixCsv(inventory)).records).to.have.length(inventory.holders.length);
+    });
+  });
+
+  describe('when the Token loses AGENT_ROLE on the IdentityRegistry', () => {
+    it('should flag that recoveryAddress would fail and record the revocation', async () => {
+      const { manifest, suite, deployer } = await deployWithManifest();
+      await (await suite.identityRegistry.revokeRole(await suite.identityRegistry.AGENT_ROLE(), suite.token.address)).wait();
+
+      const inventory = await buildRoleInventory(manifest, ethers.provider);
+
+      expect(inventory.risks.map((risk) => risk.code)).to.include('TOKEN_NOT_REGISTRY_AGENT');
+      const revocation = inventory.history[inventory.history.length - 1];
+      expect(revocation).to.include({
+        contract: 'IdentityRegistry',
+        action: 'revoked',
+        roleName: 'AGENT_ROLE',
+        account: suite.token.address,
+        sender: deployer.address,
+      });
+      expect(parseCsv(roleHistoryCsv(inventory)).records.pop()?.values).to.include({ action: 'revoked', account: suite.token.address });
+    });
+  });
+
+  describe('when ownership of a registry is renounced', () => {
+    it('should drop the owner from the matrix', async () => {
+      const { manifest, suite } = await deployWithManifest();
+      await (await suite.claimTopicsRegistry.renounceOwnership()).wait();
+
+      const inventory = await buildRoleInventory(manifest, ethers.provider);
+
+      expect(inventory.holders.filter((holder) => holder.contract === 'ClaimTopicsRegistry')).to.be.empty;
+      expect(inventory.risks.map((risk) => risk.code)).to.not.include('EVENTS_OUT_OF_SYNC');
+    });
+  });
+});
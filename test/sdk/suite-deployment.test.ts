@@ -0,0 +1,45 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { checkSuiteLinks, createManifest, deploySuite, suiteAddresses, suiteAddressesFromManifest } from '../../sdk';
+
+describe('SDK - deploySuite()', () => {
+  const claimTopics = [ethers.utils.id('CLAIM_TOPIC')];
+
+  describe('when the suite is deployed', () => {
+    it('should wire every contract and pass every link check', async () => {
+      const [deployer, tokenAgent, claimSigner] = await ethers.getSigners();
+      const manifest = createManifest('hardhat', 31337, deployer.address);
+
+      const suite = await deploySuite(deployer, {
+        token: { name: 'TREXDINO', symbol: 'TREX', decimals: 0 },
+        claimTopics,
+        agents: [tokenAgent.address],
+        claimSigners: [claimSigner.address],
+        manifest,
+      });
+
+      expect(suiteAddressesFromManifest(manifest)).to.deep.equal(suiteAddresses(suite));
+      const checks = await checkSuiteLinks(suiteAddresses(suite), ethers.provider, {
+        claimTopics,
+        agents: [deployer.address, tokenAgent.address],
+        claimSigners: [claimSigner.address],
+      });
+      expect(checks.filter((check) => !check.ok)).to.be.empty;
+      await expect(suite.identityRegistryStorage.hasRole(await suite.identityRegistryStorage.AGENT_ROLE(), suite.identityRegistry.address)).to
+        .eventually.be.true;
+      await expect(suite.identityRegistry.hasRole(await suite.identityRegistry.AGENT_ROLE(), suite.token.address)).to.eventually.be.true;
+    });
+  });
+
+  describe('when a link is broken after deployment', () => {
+    it('should report the failing check', async () => {
+      const [deployer] = await ethers.getSigners();
+      const suite = await deploySuite(deployer, { token: { name: 'TREXDINO', symbol: 'TREX', decimals: 0 }, claimTopics });
+
+      await suite.identityRegistry.revokeRole(await suite.identityRegistry.AGENT_ROLE(), suite.token.address);
+
+      const checks = await checkSuiteLinks(suiteAddresses(suite), ethers.provider, { claimTopics, agents: [deployer.address], claimSigners: [] });
+      expect(checks.filter((check) => !check.ok).map((check) => check.label)).to.deep.equal(['Token has AGENT_ROLE on IdentityRegistry']);
+    });
+  });
+});
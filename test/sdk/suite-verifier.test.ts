@@ -0,0 +1,69 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { createManifest, deploySuite, formatSuiteReport, verifySuite } from '../../sdk';
+
+describe('SDK - verifySuite()', () => {
+  const claimTopic = ethers.utils.id('CLAIM_TOPIC');
+
+  async function deployWithManifest() {
+    const [deployer, tokenAgent] = await ethers.getSigners();
+    const manifest = createManifest('hardhat', 31337, deployer.address);
+    const suite = await deploySuite(deployer, {
+      token: { name: 'TREXDINO', symbol: 'TREX', decimals: 0 },
+      claimTopics: [claimTopic],
+      agents: [tokenAgent.address],
+      manifest,
+    });
+    return { manifest, suite, deployer, tokenAgent };
+  }
+
+  describe('when the suite is deployed by deploySuite', () => {
+    it('should pass every check', async () => {
+      const { manifest, tokenAgent } = await deployWithManifest();
+
+      const report = await verifySuite(manifest, ethers.provider, { agents: [tokenAgent.address] });
+
+      expect(report.checks.filter((result) => !result.ok)).to.be.empty;
+      expect(report.passed).to.be.true;
+      expect(report.checks.map((result) => result.label)).to.include.members([
+        'BasicCompliance.isTokenBound(Token)',
+        'Token holds AGENT_ROLE on the IdentityRegistry',
+        `Claim topic ${ethers.BigNumber.from(claimTopic).toHexString()} has a trusted issuer`,
+        'Token symbol is "TREX"',
+      ]);
+      expect(formatSuiteReport(report)).to.match(/All \d+ checks passed$/);
+    });
+  });
+
+  describe('when the wiring and the manifest disagree with the chain', () => {
+    it('should report each failed check with what was read', async () => {
+      const { manifest, suite } = await deployWithManifest();
+      await (await suite.identityRegistry.revokeRole(await suite.identityRegistry.AGENT_ROLE(), suite.token.address)).wait();
+      await (await suite.claimIssuersRegistry.removeClaimIssuer(suite.claimIssuer.address)).wait();
+      manifest.token = { name: 'TREXDINO', symbol: 'TREX', decimals: 18 };
+
+      const report = await verifySuite(manifest, ethers.provider);
+
+      expect(report.passed).to.be.false;
+      expect(report.checks.filter((result) => !result.ok)).to.deep.equal([
+        { label: 'Token holds AGENT_ROLE on the IdentityRegistry', ok: false, detail: 'role missing' },
+        { label: `Claim topic ${ethers.BigNumber.from(claimTopic).toHexString()} has a trusted issuer`, ok: false, detail: 'no issuer' },
+        { label: 'Token decimals are 18', ok: false, detail: 'decimals are 0' },
+      ]);
+      expect(formatSuiteReport(report)).to.contain('FAIL Token decimals are 18 (decimals are 0)');
+    });
+  });
+
+  describe('when a contract is missing from the manifest', () => {
+    it('should only report the missing contract', async () => {
+      const { manifest } = await deployWithManifest();
+      delete manifest.contracts.BasicCompliance;
+
+      const report = await verifySuite(manifest, ethers.provider);
+
+      expect(report.checks.filter((result) => !result.ok).map((result) => result.label)).to.deep.equal([
+        'BasicCompliance is recorded in the manifest',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { deployFullSuiteFixture } from '../fixtures/deploy-full-suite.fixture';
+import { TokenClient } from '../../sdk';
+
+describe('SDK - TokenClient', () => {
+  describe('.transfer()', () => {
+    describe('when the token is paused and the sender is frozen', () => {
+      it('should report every failing check without sending a transaction', async () => {
+        const {
+          suite: { token },
+          accounts: { tokenAgent, aliceWallet, bobWallet },
+        } = await loadFixture(deployFullSuiteFixture);
+
+        await token.connect(tokenAgent).pause();
+        await token.connect(tokenAgent).setAddressFrozen(aliceWallet.address, true);
+
+        const result = await TokenClient.connect(token.address, aliceWallet).transfer(bobWallet.address, 100);
+
+        expect(result.ok).to.be.false;
+        expect(!result.ok && result.failures.map((failure) => failure.code)).to.deep.equal(['TOKEN_PAUSED', 'SENDER_FROZEN']);
+        await expect(token.balanceOf(bobWallet.address)).to.eventually.eq(500);
+      });
+    });
+
+    describe('when the amount exceeds the free balance', () => {
+      it('should report INSUFFICIENT_FREE_BALANCE', async () => {
+        const {
+          suite: { token },
+          accounts: { tokenAgent, aliceWallet, bobWallet },
+        } = await loadFixture(deployFullSuiteFixture);
+
+        await token.connect(tokenAgent).freezePartialTokens(aliceWallet.address, 950);
+
+        const result = await TokenClient.connect(token.address, aliceWallet).transfer(bobWallet.address, 100);
+
+        expect(!result.ok && result.failures).to.deep.equal([
+          { code: 'INSUFFICIENT_FREE_BALANCE', message: 'Sender free balance 50 is lower than 100' },
+        ]);
+      });
+    });
+
+    describe('when the receiver is not verified', () => {
+      it('should report RECEIVER_NOT_VERIFIED', async () => {
+        const {
+          suite: { token },
+          accounts: { aliceWallet, anotherWallet },
+        } = await loadFixture(deployFullSuiteFixture);
+
+        const result = await TokenClient.connect(token.address, aliceWallet).transfer(anotherWallet.address, 100);
+
+        expect(!result.ok && result.failures.map((failure) => failure.code)).to.deep.equal(['RECEIVER_NOT_VERIFIED']);
+      });
+    });
+
+    describe('when every check passes', () => {
+      it('should send the transfer and return the receipt', async () => {
+        const {
+          suite: { token },
+          accounts: { aliceWallet, bobWallet },
+        } = await loadFixture(deployFullSuiteFixture);
+
+        const result = await TokenClient.connect(token.address, aliceWallet).transfer(bobWallet.address, 100);
+
+        expect(result.ok).to.be.true;
+        expect(result.ok && result.receipt.status).to.equal(1);
+        await expect(token.balanceOf(bobWallet.address)).to.eventually.eq(600);
+      });
+    });
+  });
+
+  describe('.mint()', () => {
+    describe('when the signer is not an agent', () => {
+      it('should report MISSING_AGENT_ROLE', async () => {
+        const {
+          suite: { token },
+          accounts: { anotherWallet, aliceWallet },
+        } = await loadFixture(deployFullSuiteFixture);
+
+        const result = await TokenClient.connect(token.address, anotherWallet).mint(aliceWallet.address, 100);
+
+        expect(!result.ok && result.failures.map((failure) => failure.code)).to.deep.equal(['MISSING_AGENT_ROLE']);
+      });
+    });
+
+    describe('when the client has no signer', () => {
+      it('should report NO_SIGNER', async () => {
+        const {
+          suite: { token },
+          accounts: { aliceWallet },
+        } = await loadFixture(deployFullSuiteFixture);
+
+        const result = await TokenClient.connect(token.address, ethers.provider).mint(aliceWallet.address, 100);
+
+        expect(!result.ok && result.failures.map((failure) => failure.code)).to.deep.equal(['NO_SIGNER']);
+      });
+    });
+  });
+
+  describe('.batchMint()', () => {
+    describe('when one receiver is not verified', () => {
+      it('should report the index of the failing item', async () => {
+        const {
+          suite: { token },
+          accounts: { tokenAgent, aliceWallet, bobWallet, anotherWallet },
+        } = await loadFixture(deployFullSuiteFixture);
+
+        const result = await TokenClient.connect(token.address, tokenAgent).batchMint(
+          [aliceWallet.address, anotherWallet.address, bobWallet.address],
+          [10, 10, 10],
+        );
+
+        expect(!result.ok && result.failures).to.deep.equal([
+          { code: 'RECEIVER_NOT_VERIFIED', message: `Receiver ${anotherWallet.address} is not verified in the identity registry`, index: 1 },
+        ]);
+      });
+    });
+
+    describe('when arrays have different lengths', () => {
+      it('should report ARRAY_SIZE_MISMATCH', async () => {
+        const {
+          suite: { token },
+          accounts: { tokenAgent, aliceWallet },
+        } = await loadFixture(deployFullSuiteFixture);
+
+        const result = await TokenClient.connect(token.address, tokenAgent).batchMint([aliceWallet.address], [10, 10]);
+
+        expect(!result.ok && result.failures.map((failure) => failure.code)).to.deep.equal(['ARRAY_SIZE_MISMATCH']);
+      });
+    });
+  });
+
+  describe('.recoveryAddress()', () => {
+    describe('when the new wallet is not a management key of the identity', () => {
+      it('should report RECOVERY_KEY_MISSING', async () => {
+        const {
+          suite: { token },
+          accounts: { tokenAgent, bobWallet, anotherWallet },
+          identities: { bobIdentity },
+        } = await loadFixture(deployFullSuiteFixture);
+
+        const result = await TokenClient.connect(token.address, tokenAgent).recoveryAddress(
+          bobWallet.address,
+          anotherWallet.address,
+          bobIdentity.address,
+        );
+
+        expect(!result.ok && result.failures.map((failure) => failure.code)).to.deep.equal(['RECOVERY_KEY_MISSING']);
+      });
+    });
+
+    describe('when the new wallet is a management key of the identity', () => {
+      it('should recover the tokens', async () => {
+        const {
+          suite: { token },
+          accounts: { tokenAgent, bobWallet, anotherWallet },
+          identities: { bobIdentity },
+        } = await loadFixture(deployFullSuiteFixture);
+
+        await bobIdentity
+          .connect(bobWallet)
+          .addKey(ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(['address'], [anotherWallet.address])), 1, 1);
+
+        const result = await TokenClient.connect(token.address, tokenAgent).recoveryAddress(
+          bobWallet.address,
+          anotherWallet.address,
+          bobIdentity.address,
+        );
+
+        expect(result.ok).to.be.true;
+        await expect(token.balanceOf(anotherWallet.address)).to.eventually.eq(500);
+      });
+    });
+  });
+});
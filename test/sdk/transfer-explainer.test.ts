@@ -0,0 +1,139 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { deployFullSuiteFixture } from '../fixtures/deploy-full-suite.fixture';
+import { explainTransfer } from '../../sdk';
+
+describe('SDK - explainTransfer()', () => {
+  describe('when the transfer is valid', () => {
+    it('should report every rule as passed', async () => {
+      const {
+        suite: { token },
+        accounts: { aliceWallet, bobWallet },
+      } = await loadFixture(deployFullSuiteFixture);
+
+      const explanation = await explainTransfer(token, aliceWallet.address, bobWallet.address, 100);
+
+      expect(explanation.kind).to.equal('transfer');
+      expect(explanation.allowed).to.be.true;
+      expect(explanation.failures).to.be.empty;
+      expect(explanation.expectedRevert).to.be.undefined;
+      expect(explanation.rules.map((rule) => rule.rule)).to.deep.equal([
+        'token-not-paused',
+        'receiver-not-zero-address',
+        'sender-not-frozen',
+        'receiver-not-frozen',
+        'sufficient-balance',
+        'sufficient-free-balance',
+        'receiver-verified',
+        'compliance-approved',
+      ]);
+    });
+  });
+
+  describe('when several rules fail', () => {
+    it('should report all of them and the revert the chain would emit', async () => {
+      const {
+        suite: { token },
+        accounts: { tokenAgent, aliceWallet, bobWallet },
+      } = await loadFixture(deployFullSuiteFixture);
+
+      await token.connect(tokenAgent).pause();
+      await token.connect(tokenAgent).setAddressFrozen(bobWallet.address, true);
+      await token.connect(tokenAgent).freezePartialTokens(aliceWallet.address, 950);
+
+      const explanation = await explainTransfer(token, aliceWallet.address, bobWallet.address, 100);
+
+      expect(explanation.allowed).to.be.false;
+      expect(explanation.failures.map((rule) => rule.rule)).to.deep.equal(['token-not-paused', 'receiver-not-frozen', 'sufficient-free-balance']);
+      expect(explanation.expectedRevert).to.equal('Pausable: paused');
+      expect(explanation.sender?.freeBalance).to.eq(50);
+      expect(explanation.receiver.frozen).to.be.true;
+    });
+  });
+
+  describe('when the receiver is not registered', () => {
+    it('should fail the verification rule', async () => {
+      const {
+        suite: { token },
+        accounts: { aliceWallet, anotherWallet },
+      } = await loadFixture(deployFullSuiteFixture);
+
+      const explanation = await explainTransfer(token, aliceWallet.address, anotherWallet.address, 100);
+
+      expect(explanation.failures.map((rule) => rule.rule)).to.deep.equal(['receiver-verified']);
+      expect(explanation.expectedRevert).to.equal('ERC-3643: Unverified identity');
+      expect(explanation.receiver.verification.registered).to.be.false;
+    });
+  });
+
+  describe('when the receiver identity has no claim from the trusted issuer', () => {
+    it('should break the verification down per topic and issuer', async () => {
+      const {
+        suite: { token, identityRegistry, claimIssuerContract },
+        accounts: { tokenAgent, aliceWallet, charlieWallet },
+        identities: { charlieIdentity },
+      } = await loadFixture(deployFullSuiteFixture);
+
+      await identityRegistry.connect(tokenAgent).registerIdentity(charlieWallet.address, charlieIdentity.address, 0);
+
+      const explanation = await explainTransfer(token, aliceWallet.address, charlieWallet.address, 100);
+      const { verification } = explanation.receiver;
+
+      expect(verification.registered).to.be.true;
+      expect(verification.verified).to.be.false;
+      expect(verification.topics).to.have.length(1);
+      expect(verification.topics[0].topic).to.eq(ethers.utils.id('CLAIM_TOPIC'));
+      expect(verification.topics[0].issuers).to.deep.equal([
+        {
+          issuer: claimIssuerContract.address,
+          claimId: ethers.utils.keccak256(
+            ethers.utils.defaultAbiCoder.encode(['address', 'uint256'], [claimIssuerContract.address, ethers.utils.id('CLAIM_TOPIC')]),
+          ),
+          status: 'missing-claim',
+          claimFound: false,
+          claimValid: false,
+          claimRevoked: false,
+        },
+      ]);
+    });
+  });
+
+  describe('when the claim of the receiver was revoked', () => {
+    it('should report the claim as found but invalid', async () => {
+      const {
+        suite: { token, claimIssuerContract },
+        accounts: { claimIssuer, aliceWallet, bobWallet },
+        identities: { bobIdentity },
+      } = await loadFixture(deployFullSuiteFixture);
+
+      const claimId = ethers.utils.keccak256(
+        ethers.utils.defaultAbiCoder.encode(['address', 'uint256'], [claimIssuerContract.address, ethers.utils.id('CLAIM_TOPIC')]),
+      );
+      await claimIssuerContract.connect(claimIssuer).revokeClaim(claimId, bobIdentity.address);
+
+      const explanation = await explainTransfer(token, aliceWallet.address, bobWallet.address, 100);
+
+      expect(explanation.failures.map((rule) => rule.rule)).to.deep.equal(['receiver-verified']);
+      expect(explanation.receiver.verification.topics[0].issuers[0]).to.include({ status: 'revoked-claim', claimFound: true, claimValid: false });
+    });
+  });
+
+  describe('when minting', () => {
+    it('should only evaluate the mint rules', async () => {
+      const {
+        suite: { token },
+        accounts: { tokenAgent, bobWallet },
+      } = await loadFixture(deployFullSuiteFixture);
+
+      await token.connect(tokenAgent).pause();
+      await token.connect(tokenAgent).setAddressFrozen(bobWallet.address, true);
+
+      const explanation = await explainTransfer(token, ethers.constants.AddressZero, bobWallet.address, 100);
+
+      expect(explanation.kind).to.equal('mint');
+      expect(explanation.allowed).to.be.true;
+      expect(explanation.rules.map((rule) => rule.rule)).to.deep.equal(['receiver-not-zero-address', 'receiver-verified', 'compliance-approved']);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import OnchainID from '@onchain-id/solidity';
+import { deployFullSuiteFixture } from '../fixtures/deploy-full-suite.fixture';
+import { claimIdOf, explainVerification } from '../../sdk';
+
+describe('SDK - explainVerification()', () => {
+  describe('when the identity holds a valid claim from a trusted issuer', () => {
+    it('should report the topic as valid', async () => {
+      const {
+        suite: { identityRegistry },
+        accounts: { aliceWallet },
+      } = await loadFixture(deployFullSuiteFixture);
+
+      const report = await explainVerification(identityRegistry, aliceWallet.address);
+
+      expect(report.verified).to.be.true;
+      expect(report.topics.map((topic) => topic.status)).to.deep.equal(['valid']);
+    });
+  });
+
+  describe('when the identity holds no claim for the topic', () => {
+    it('should report the topic as missing-claim', async () => {
+      const {
+        suite: { identityRegistry },
+        accounts: { tokenAgent, charlieWallet },
+        identities: { charlieIdentity },
+      } = await loadFixture(deployFullSuiteFixture);
+
+      await identityRegistry.connect(tokenAgent).registerIdentity(charlieWallet.address, charlieIdentity.address, 0);
+
+      const report = await explainVerification(identityRegistry, charlieWallet.address);
+
+      expect(report.verified).to.be.false;
+      expect(report.topics[0]).to.include({ status: 'missing-claim', valid: false });
+      expect(report.topics[0].untrustedIssuers).to.be.empty;
+    });
+  });
+
+  describe('when the identity only holds a claim from an untrusted issuer', () => {
+    it('should report the topic as wrong-issuer', async () => {
+      const {
+        suite: { identityRegistry },
+        accounts: { tokenAgent, charlieWallet, anotherWallet },
+        identities: { charlieIdentity },
+      } = await loadFixture(deployFullSuiteFixture);
+
+      const untrustedIssuer = await new ethers.ContractFactory(
+        OnchainID.contracts.ClaimIssuer.abi,
+        OnchainID.contracts.ClaimIssuer.bytecode,
+        anotherWallet,
+      ).deploy(anotherWallet.address);
+      const topic = ethers.utils.id('CLAIM_TOPIC');
+      const data = ethers.utils.hexlify(ethers.utils.toUtf8Bytes('Some claim public data.'));
+      const signature = await anotherWallet.signMessage(
+        ethers.utils.arrayify(
+          ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(['address', 'uint256', 'bytes'], [charlieIdentity.address, topic, data])),
+        ),
+      );
+      await charlieIdentity.connect(charlieWallet).addClaim(topic, 1, untrustedIssuer.address, signature, data, '');
+      await identityRegistry.connect(tokenAgent).registerIdentity(charlieWallet.address, charlieIdentity.address, 0);
+
+      const report = await explainVerification(identityRegistry, charlieWallet.address);
+
+      expect(report.topics[0].status).to.equal('wrong-issuer');
+      expect(report.topics[0].untrustedIssuers).to.deep.equal([untrustedIssuer.address]);
+      expect(report.topics[0].issuers[0].status).to.equal('missing-claim');
+    });
+  });
+
+  describe('when the issuer revoked the claim', () => {
+    it('should report the topic as revoked-claim', async () => {
+      const {
+        suite: { identityRegistry, claimIssuerContract },
+        accounts: { claimIssuer, bobWallet },
+        identities: { bobIdentity },
+      } = await loadFixture(deployFullSuiteFixture);
+
+      await claimIssuerContract
+        .connect(claimIssuer)
+        .revokeClaim(claimIdOf(claimIssuerContract.address, ethers.utils.id('CLAIM_TOPIC')), bobIdentity.address);
+
+      const report = await explainVerification(identityRegistry, bobWallet.address);
+
+      expect(report.verified).to.be.false;
+      expect(report.topics[0].status).to.equal('revoked-claim');
+      expect(report.topics[0].issuers[0]).to.include({ claimFound: true, claimValid: false, claimRevoked: true });
+    });
+  });
+
+  describe('when the issuer removed the key that signed the claim', () => {
+    it('should report the topic as invalid-signature', async () => {
+      const {
+        suite: { identityRegistry, claimIssuerContract },
+        accounts: { claimIssuer, claimIssuerSigningKey, bobWallet },
+      } = await loadFixture(deployFullSuiteFixture);
+
+      await claimIssuerContract
+        .connect(claimIssuer)
+        .removeKey(ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(['address'], [claimIssuerSigningKey.address])), 3);
+
+      const report = await explainVerification(identityRegistry, bobWallet.address);
+
+      expect(report.verified).to.be.false;
+      expect(report.topics[0].status).to.equal('invalid-signature');
+      expect(report.topics[0].issuers[0]).to.include({ claimFound: true, claimValid: false, claimRevoked: false });
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BOB_COUNTRY, deployFullSuiteFixture } from '../fixtures/deploy-full-suite.fixture';
+import { readRecoveryAudit, recoverWallet, walletKey } from '../../sdk';
+
+describe('SDK - recoverWallet()', () => {
+  let dir: string;
+  let auditLog: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'recovery-'));
+    auditLog = path.join(dir, 'recovery.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('when the new wallet is not a management key of the identity', () => {
+    it('should stop with the addKey transaction, then recover once the investor sent it', async () => {
+      const {
+        suite: { token, identityRegistry },
+        accounts: { tokenAgent, bobWallet, anotherWallet },
+        identities: { bobIdentity },
+      } = await loadFixture(deployFullSuiteFixture);
+      const request = { lostWallet: bobWallet.address, newWallet: anotherWallet.address };
+
+      const first = await recoverWallet(token.connect(tokenAgent), request, { auditLog });
+
+      expect(first.status).to.equal('awaiting-key');
+      expect(first.inspection).to.include({ identity: bobIdentity.address, country: BOB_COUNTRY, lostWalletIsManagementKey: true });
+      expect(first.inspection.newWalletKeyPurposes).to.deep.equal([]);
+      if (first.status !== 'awaiting-key') return;
+      expect(first.addKeyTransaction.to).to.equal(bobIdentity.address);
+      await (await bobWallet.sendTransaction({ to: first.addKeyTransaction.to, data: first.addKeyTransaction.data })).wait();
+
+      const second = await recoverWallet(token.connect(tokenAgent), request, { auditLog });
+
+      expect(second.status).to.equal('recovered');
+      await expect(identityRegistry.identity(anotherWallet.address)).to.eventually.equal(bobIdentity.address);
+      await expect(token.balanceOf(anotherWallet.address)).to.eventually.equal(500);
+      expect(readRecoveryAudit(auditLog).map((record) => record.step)).to.deep.equal([
+        'inspected',
+        'key-required',
+        'inspected',
+        'recovery-mined',
+        'verified',
+      ]);
+    });
+  });
+
+  describe('when the lost wallet is frozen', () => {
+    it('should carry the frozen flag and the frozen tokens over to the new wallet', async () => {
+      const {
+        suite: { token },
+        accounts: { tokenAgent, aliceWallet, anotherWallet },
+        identities: { aliceIdentity },
+      } = await loadFixture(deployFullSuiteFixture);
+      await token.connect(tokenAgent).freezePartialTokens(aliceWallet.address, 100);
+      await token.connect(tokenAgent).setAddressFrozen(aliceWallet.address, true);
+      await aliceIdentity.connect(aliceWallet).addKey(walletKey(anotherWallet.address), 1, 1);
+
+      const outcome = await recoverWallet(
+        token.connect(tokenAgent),
+        { lostWallet: aliceWallet.address, newWallet: anotherWallet.address },
+        { auditLog },
+      );
+
+      expect(outcome.status).to.equal('recovered');
+      if (outcome.status !== 'recovered') return;
+      expect(outcome.checks.every((check) => check.ok)).to.be.true;
+      await expect(token.isFrozen(anotherWallet.address)).to.eventually.be.true;
+      await expect(token.getFrozenTokens(anotherWallet.address)).to.eventually.equal(100);
+    });
+  });
+
+  describe('when the lost wallet holds no tokens', () => {
+    it('should be blocked without sending anything', async () => {
+      const {
+        suite: { token },
+        accounts: { tokenAgent, aliceWallet, anotherWallet },
+        identities: { aliceIdentity },
+      } = await loadFixture(deployFullSuiteFixture);
+      await token.connect(tokenAgent).burn(aliceWallet.address, 1000);
+
+      const outcome = await recoverWallet(
+        token.connect(tokenAgent),
+        { lostWallet: aliceWallet.address, newWallet: anotherWallet.address, identity: aliceIdentity.address },
+        { auditLog },
+      );
+
+      expect(outcome.status).to.equal('blocked');
+      expect(outcome.inspection.failures.map((failure) => failure.code)).to.include('NO_TOKENS_TO_RECOVER');
+      expect(readRecoveryAudit(auditLog).map((record) => record.step)).to.deep.equal(['inspected', 'blocked']);
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import hre, { ethers } from 'hardhat';
+import { BOB_COUNTRY, deployFullSuiteFixture } from '../fixtures/deploy-full-suite.fixture';
+import { OperationResult, attachCountryRestrictCompliance, createManifest, recordDeployment, writeManifest } from '../../sdk';
+
+describe('Tasks - trex:*', () => {
+  let manifestDir: string;
+
+  async function deploySuiteWithManifestFixture() {
+    const context = await loadFixture(deployFullSuiteFixture);
+    const { suite, accounts } = context;
+    const manifest = createManifest(hre.network.name, (await ethers.provider.getNetwork()).chainId, accounts.deployer.address);
+    await recordDeployment(manifest, 'Token', suite.token);
+    await recordDeployment(manifest, 'IdentityRegistry', suite.identityRegistry);
+    await recordDeployment(manifest, 'IdentityRegistryStorage', suite.identityRegistryStorage);
+    await recordDeployment(manifest, 'ClaimTopicsRegistry', suite.claimTopicsRegistry);
+    await recordDeployment(manifest, 'ClaimIssuersRegistry', suite.claimIssuersRegistry);
+    await recordDeployment(manifest, 'BasicCompliance', suite.compliance);
+    writeManifest(manifest, manifestDir);
+    return { ...context, manifest };
+  }
+
+  const run = (name: string, args: Record<string, unknown>): Promise<OperationResult> => hre.run(`trex:${name}`, { manifestDir, ...args });
+
+  before(() => {
+    manifestDir = fs.mkdtempSync(path.join(os.tmpdir(), 'trex-tasks-'));
+  });
+
+  after(() => {
+    fs.rmSync(manifestDir, { recursive: true, force: true });
+  });
+
+  describe('trex:mint', () => {
+    it('should mint and print the decoded Transfer event', async () => {
+      const {
+        suite: { token },
+        accounts: { tokenAgent, aliceWallet },
+      } = await loadFixture(deploySuiteWithManifestFixture);
+
+      const result = await run('mint', { to: aliceWallet.address, amount: '10', signer: tokenAgent.address });
+
+      expect(result.dryRun).to.be.false;
+      expect(result.events.map((event) => [event.contract, event.name])).to.deep.include(['Token', 'Transfer']);
+      expect(result.events.find((event) => event.name === 'Transfer')?.args).to.deep.equal({
+        from: ethers.constants.AddressZero,
+        to: aliceWallet.address,
+        value: '10',
+      });
+      await expect(token.balanceOf(aliceWallet.address)).to.eventually.equal(1010);
+    });
+
+    it('should only simulate the call with --dry-run', async () => {
+      const {
+        suite: { token },
+        accounts: { tokenAgent, aliceWallet },
+      } = await loadFixture(deploySuiteWithManifestFixture);
+
+      const result = await run('mint', { to: aliceWallet.address, amount: '10', signer: tokenAgent.address, dryRun: true });
+
+      expect(result.dryRun).to.be.true;
+      expect(result.transactionHash).to.be.undefined;
+      expect(result.gas.gt(0)).to.be.true;
+      await expect(token.balanceOf(aliceWallet.address)).to.eventually.equal(1000);
+    });
+
+    it('should fail with the revert reason and send nothing when the call reverts', async () => {
+      const {
+        accounts: { tokenAgent, anotherWallet },
+      } = await loadFixture(deploySuiteWithManifestFixture);
+      const blockNumber = await ethers.provider.getBlockNumber();
+
+      await expect(run('mint', { to: anotherWallet.address, amount: '10', signer: tokenAgent.address })).to.be.rejectedWith(
+        'Token.mint would revert: ERC-3643: Unverified identity',
+      );
+      await expect(ethers.provider.getBlockNumber()).to.eventually.equal(blockNumber);
+    });
+  });
+
+  describe('trex:freeze-partial', () => {
+    it('should freeze and unfreeze part of a balance', async () => {
+      const {
+        suite: { token },
+        accounts: { tokenAgent, bobWallet },
+      } = await loadFixture(deploySuiteWithManifestFixture);
+
+      await run('freeze-partial', { account: bobWallet.address, amount: '100', signer: tokenAgent.address });
+      const result = await run('freeze-partial', { account: bobWallet.address, amount: '40', unfreeze: true, signer: tokenAgent.address });
+
+      expect(result.method).to.equal('unfreezePartialTokens');
+      expect(result.events[0]).to.include({ contract: 'Token', name: 'TokensUnfrozen' });
+      await expect(token.getFrozenTokens(bobWallet.address)).to.eventually.equal(60);
+    });
+  });
+
+  describe('trex:update-country', () => {
+    it('should decode the events of the registry and of its storage', async () => {
+      const {
+        suite: { identityRegistry },
+        accounts: { tokenAgent, aliceWallet },
+      } = await loadFixture(deploySuiteWithManifestFixture);
+
+      const result = await run('update-country', { wallet: aliceWallet.address, country: 'FR', signer: tokenAgent.address });
+
+      expect(result.events.map((event) => `${event.contract}.${event.name}`)).to.have.members([
+        'IdentityRegistryStorage.CountryModified',
+        'IdentityRegistry.CountryUpdated',
+      ]);
+      await expect(identityRegistry.investorCountry(aliceWallet.address)).to.eventually.equal(250);
+    });
+
+    it('should reject a country that is not an ISO 3166-1 code before sending anything', async () => {
+      const {
+        accounts: { tokenAgent, aliceWallet },
+      } = await loadFixture(deploySuiteWithManifestFixture);
+
+      await expect(run('update-country', { wallet: aliceWallet.address, country: '42', signer: tokenAgent.address })).to.be.rejectedWith(
+        'Unknown country "42"',
+      );
+    });
+  });
+
+  describe('trex:block-countries / trex:allow-countries / trex:countries', () => {
+    it('should update and list the countries of the CountryRestrictCompliance', async () => {
+      const {
+        suite: { token },
+        accounts: { deployer },
+        manifest: suiteManifest,
+      } = await loadFixture(deploySuiteWithManifestFixture);
+      // A copy of the manifest of the fixture, the file may list contracts deployed by other tests
+      const manifest = structuredClone(suiteManifest);
+      const compliance = await attachCountryRestrictCompliance(deployer, token, { manifest });
+      writeManifest(manifest, manifestDir);
+
+      await expect(run('block-countries', { countries: 'IR,XX' })).to.be.rejectedWith('Unknown country "XX"');
+      const result = await run('block-countries', { countries: 'IR,PRK' });
+      await run('allow-countries', { countries: 'FR,DE' });
+      await run('allow-countries', { countries: 'DE', disallow: true });
+
+      expect(result.events.map((event) => `${event.contract}.${event.name}(${Object.values(event.args)})`)).to.deep.equal([
+        'CountryRestrictCompliance.CountryBlocked(364)',
+        'CountryRestrictCompliance.CountryBlocked(408)',
+      ]);
+      await expect(hre.run('trex:countries', { manifestDir })).to.eventually.deep.equal({ blocked: [364, 408], allowed: [250] });
+      await expect(compliance.isCountryPermitted(276)).to.eventually.be.false;
+    });
+  });
+
+  describe('trex:holder-limit / trex:holders', () => {
+    it('should set the limits and print the counts of the MaxHoldersCompliance', async () => {
+      const {
+        suite,
+        accounts: { deployer, aliceWallet, bobWallet },
+        manifest: suiteManifest,
+      } = await loadFixture(deploySuiteWithManifestFixture);
+      const { token } = suite;
+      const manifest = structuredClone(suiteManifest);
+      const compliance = await (await ethers.getContractFactory('MaxHoldersCompliance', deployer)).deploy();
+      await recordDeployment(manifest, 'MaxHoldersCompliance', compliance);
+      writeManifest(manifest, manifestDir);
+      await suite.compliance.grantRole(await suite.compliance.TOKEN_ROLE(), token.address);
+      await token.setCompliance(compliance.address);
+      await compliance.syncHolders([aliceWallet.address, bobWallet.address]);
+
+      await run('holder-limit', { limit: '2' });
+      const result = await run('holder-limit', { limit: '1', country: 'CH' });
+
+      expect(result.events.map((event) => `${event.contract}.${event.name}(${Object.values(event.args)})`)).to.deep.equal([
+        `MaxHoldersCompliance.CountryHolderLimitSet(${BOB_COUNTRY},1)`,
+      ]);
+      await expect(hre.run('trex:holders', { manifestDir, countries: 'FR' })).to.eventually.deep.equal({
+        holders: 2,
+        limit: 2,
+        countries: [
+          { country: 250, holders: 0, limit: 0 },
+          { country: BOB_COUNTRY, holders: 1, limit: 1 },
+        ],
+      });
+    });
+  });
+
+  describe('trex:lock-up-period / trex:lock-ups', () => {
+    it('should set the period and print the locked balances of the LockUpCompliance', async () => {
+      const {
+        suite,
+        accounts: { deployer, tokenAgent, aliceWallet },
+        manifest: suiteManifest,
+      } = await loadFixture(deploySuiteWithManifestFixture);
+      const { token } = suite;
+      const manifest = structuredClone(suiteManifest);
+      const compliance = await (await ethers.getContractFactory('LockUpCompliance', deployer)).deploy(0);
+      await recordDeployment(manifest, 'LockUpCompliance', compliance);
+      writeManifest(manifest, manifestDir);
+      await suite.compliance.grantRole(await suite.compliance.TOKEN_ROLE(), token.address);
+      await token.setCompliance(compliance.address);
+      await token.connect(tokenAgent).mint(aliceWallet.address, 100);
+
+      const result = await run('lock-up-period', { seconds: '3600' });
+      const lockUps = await hre.run('trex:lock-ups', { manifestDir, wallets: aliceWallet.address });
+
+      expect(result.events[0]).to.include({ contract: 'LockUpCompliance', name: 'LockUpPeriodSet' });
+      expect(lockUps.lockUpPeriod).to.equal(3600);
+      expect(lockUps.wallets[0].locked.toNumber()).to.equal(100);
+    });
+  });
+
+  describe('trex:set-rules / trex:rules', () => {
+    it('should set the rules of the ComposableCompliance and name the one that rejects a transfer', async () => {
+      const {
+        suite,
+        accounts: { deployer, aliceWallet, bobWallet },
+        manifest: suiteManifest,
+      } = await loadFixture(deploySuiteWithManifestFixture);
+      const { token } = suite;
+      const manifest = structuredClone(suiteManifest);
+      const compliance = await (await ethers.getContractFactory('ComposableCompliance', deployer)).deploy();
+      const countryRestrict = await (await ethers.getContractFactory('CountryRestrictCompliance', deployer)).deploy();
+      await recordDeployment(manifest, 'ComposableCompliance', compliance);
+      await recordDeployment(manifest, 'CountryRestrictCompliance', countryRestrict);
+      writeManifest(manifest, manifestDir);
+      await suite.compliance.grantRole(await suite.compliance.TOKEN_ROLE(), token.address);
+      await compliance.grantRole(await compliance.TOKEN_ROLE(), token.address);
+      await token.setCompliance(compliance.address);
+      await countryRestrict.blockCountry(BOB_COUNTRY);
+
+      const plan = await hre.run('trex:set-rules', { manifestDir, rules: 'BasicCompliance,CountryRestrictCompliance', dryRun: true });
+      await hre.run('trex:set-rules', { manifestDir, rules: 'CountryRestrictCompliance,BasicCompliance' });
+      const report = await hre.run('trex:rules', { manifestDir, from: aliceWallet.address, to: bobWallet.address, amount: '1' });
+
+      expect(plan).to.have.lengthOf(2);
+      await expect(compliance.rules()).to.eventually.deep.equal([countryRestrict.address, suite.compliance.address]);
+      expect(report.rejectedBy).to.include({ position: 0, name: 'CountryRestrictCompliance' });
+      await expect(hre.run('trex:set-rules', { manifestDir, rules: 'Unknown' })).to.be.rejectedWith('Unknown rule "Unknown"');
+    });
+  });
+
+  describe('trex:add-topic', () => {
+    it('should hash a topic given as a string', async () => {
+      const {
+        suite: { claimTopicsRegistry },
+      } = await loadFixture(deploySuiteWithManifestFixture);
+
+      await run('add-topic', { topic: 'ACCREDITED' });
+
+      await expect(claimTopicsRegistry.getClaimTopics()).to.eventually.deep.include(ethers.BigNumber.from(ethers.utils.id('ACCREDITED')));
+    });
+  });
+
+  describe('trex:roles-plan / trex:roles-apply', () => {
+    it('should plan then apply the role file', async () => {
+      const {
+        suite: { token },
+        accounts: { deployer, tokenAgent, anotherWallet },
+      } = await loadFixture(deploySuiteWithManifestFixture);
+      const file = path.join(manifestDir, 'roles.json');
+      fs.writeFileSync(file, JSON.stringify({ roles: { Token: { AGENT_ROLE: [tokenAgent.address, anotherWallet.address] } } }));
+
+      const plan = await hre.run('trex:roles-plan', { file, manifestDir });
+      await hre.run('trex:roles-apply', { file, manifestDir });
+
+      expect(plan.changes.map((change: { action: string; account: string }) => [change.action, change.account])).to.deep.equal([
+        ['grant', anotherWallet.address],
+        ['revoke', deployer.address],
+      ]);
+      await expect(token.hasRole(await token.AGENT_ROLE(), anotherWallet.address)).to.eventually.be.true;
+      await expect(token.hasRole(await token.AGENT_ROLE(), deployer.address)).to.eventually.be.false;
+    });
+  });
+
+  describe('when the signer is not a configured account', () => {
+    it('should fail before calling the contract', async () => {
+      await loadFixture(deploySuiteWithManifestFixture);
+      const stranger = ethers.Wallet.createRandom().address;
+
+      await expect(run('pause', { signer: stranger })).to.be.rejectedWith(`${stranger} is not one of the accounts configured for hardhat`);
+    });
+  });
+});
@@ -1,74 +1,17 @@
 import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
 import { expect } from 'chai';
 import { ethers } from 'hardhat';
-import { deployFullSuiteFixture, deploySuiteWithModularCompliancesFixture } from '../fixtures/deploy-full-suite.fixture';
+import { deployFullSuiteFixture, deploySuiteWithFalseComplianceFixture, missingRoleMessage } from '../fixtures/deploy-full-suite.fixture';
 
 describe('Token - Information', () => {
-  describe('.setName()', () => {
-    describe('when the caller is not the owner', () => {
-      it('should revert', async () => {
-        const {
-          suite: { token },
-          accounts: { anotherWallet },
-        } = await loadFixture(deployFullSuiteFixture);
-        await expect(token.connect(anotherWallet).setName('My Token')).to.be.revertedWith('Ownable: caller is not the owner');
-      });
-    });
-
-    describe('when the caller is the owner', () => {
-      describe('when the name is empty', () => {
-        it('should revert', async () => {
-          const {
-            suite: { token },
-          } = await loadFixture(deployFullSuiteFixture);
-          await expect(token.setName('')).to.be.revertedWith('invalid argument - empty string');
-        });
-      });
-
-      it('should set the name', async () => {
-        const {
-          suite: { token },
-        } = await loadFixture(deployFullSuiteFixture);
-        const tx = await token.setName('Updated Test Token');
-        await expect(tx)
-          .to.emit(token, 'UpdatedTokenInformation')
-          .withArgs('Updated Test Token', await token.symbol(), await token.decimals(), await token.version(), await token.onchainID());
-        expect(await token.name()).to.equal('Updated Test Token');
-      });
-    });
-  });
-
-  describe('.setSymbol()', () => {
-    describe('when the caller is not the owner', () => {
-      it('should revert', async () => {
-        const {
-          suite: { token },
-          accounts: { anotherWallet },
-        } = await loadFixture(deployFullSuiteFixture);
-        await expect(token.connect(anotherWallet).setSymbol('UpdtTK')).to.be.revertedWith('Ownable: caller is not the owner');
-      });
-    });
-
-    describe('when the caller is the owner', () => {
-      describe('when the symbol is empty', () => {
-        it('should revert', async () => {
-          const {
-            suite: { token },
-          } = await loadFixture(deployFullSuiteFixture);
-          await expect(token.setSymbol('')).to.be.revertedWith('invalid argument - empty string');
-        });
-      });
-
-      it('should set the symbol', async () => {
-        const {
-          suite: { token },
-        } = await loadFixture(deployFullSuiteFixture);
-        const tx = await token.setSymbol('UpdtTK');
-        await expect(tx)
-          .to.emit(token, 'UpdatedTokenInformation')
-          .withArgs(await token.name(), 'UpdtTK', await token.decimals(), await token.version(), await token.onchainID());
-        expect(await token.symbol()).to.equal('UpdtTK');
-      });
+  describe('.name() / .symbol() / .decimals()', () => {
+    it('should return the values given to the constructor', async () => {
+      const {
+        suite: { token },
+      } = await loadFixture(deployFullSuiteFixture);
+      expect(await token.name()).to.equal('TREXDINO');
+      expect(await token.symbol()).to.equal('TREX');
+      expect(await token.decimals()).to.equal(0);
     });
   });
 
@@ -79,7 +22,9 @@ describe('Token - Information', () => {
           suite: { token },
           accounts: { anotherWallet },
         } = await loadFixture(deployFullSuiteFixture);
-        await expect(token.connect(anotherWallet).setOnchainID(ethers.constants.AddressZero)).to.be.revertedWith('Ownable: caller is not the owner');
+        await expect(token.connect(anotherWallet).setOnchainID(ethers.constants.AddressZero)).to.be.revertedWith(
+          missingRoleMessage(anotherWallet.address, await token.OWNER_ROLE()),
+        );
       });
     });
 
@@ -89,9 +34,7 @@ describe('Token - Information', () => {
           suite: { token },
         } = await loadFixture(deployFullSuiteFixture);
         const tx = await token.setOnchainID(ethers.constants.AddressZero);
-        await expect(tx)
-          .to.emit(token, 'UpdatedTokenInformation')
-          .withArgs(await token.name(), await token.symbol(), await token.decimals(), await token.version(), ethers.constants.AddressZero);
+        await expect(tx).to.emit(token, 'UpdatedOnchainID').withArgs(ethers.constants.AddressZero);
         expect(await token.onchainID()).to.equal(ethers.constants.AddressZero);
       });
     });
@@ -105,7 +48,7 @@ describe('Token - Information', () => {
           accounts: { anotherWallet },
         } = await loadFixture(deployFullSuiteFixture);
         await expect(token.connect(anotherWallet).setIdentityRegistry(ethers.constants.AddressZero)).to.be.revertedWith(
-          'Ownable: caller is not the owner',
+          missingRoleMessage(anotherWallet.address, await token.OWNER_ROLE()),
         );
       });
     });
@@ -130,7 +73,9 @@ describe('Token - Information', () => {
           suite: { token },
           accounts: { anotherWallet },
         } = await loadFixture(deployFullSuiteFixture);
-        await expect(token.connect(anotherWallet).setCompliance(ethers.constants.AddressZero)).to.be.revertedWith('Ownable: caller is not the owner');
+        await expect(token.connect(anotherWallet).setCompliance(ethers.constants.AddressZero)).to.be.revertedWith(
+          missingRoleMessage(anotherWallet.address, await token.OWNER_ROLE()),
+        );
       });
     });
   });
@@ -139,7 +84,7 @@ describe('Token - Information', () => {
     it('should return the compliance address', async () => {
       const {
         suite: { token, compliance },
-      } = await loadFixture(deploySuiteWithModularCompliancesFixture);
+      } = await loadFixture(deploySuiteWithFalseComplianceFixture);
       await token.setCompliance(compliance.address);
       expect(await token.compliance()).to.equal(compliance.address);
     });
@@ -152,7 +97,7 @@ describe('Token - Information', () => {
           suite: { token },
           accounts: { anotherWallet },
         } = await loadFixture(deployFullSuiteFixture);
-        await expect(token.connect(anotherWallet).pause()).to.be.revertedWith('AgentRole: caller does not have the Agent role');
+        await expect(token.connect(anotherWallet).pause()).to.be.revertedWith(missingRoleMessage(anotherWallet.address, await token.AGENT_ROLE()));
       });
     });
 
@@ -189,7 +134,7 @@ describe('Token - Information', () => {
           suite: { token },
           accounts: { anotherWallet },
         } = await loadFixture(deployFullSuiteFixture);
-        await expect(token.connect(anotherWallet).unpause()).to.be.revertedWith('AgentRole: caller does not have the Agent role');
+        await expect(token.connect(anotherWallet).unpause()).to.be.revertedWith(missingRoleMessage(anotherWallet.address, await token.AGENT_ROLE()));
       });
     });
 
@@ -227,7 +172,7 @@ describe('Token - Information', () => {
           accounts: { anotherWallet },
         } = await loadFixture(deployFullSuiteFixture);
         await expect(token.connect(anotherWallet).setAddressFrozen(anotherWallet.address, true)).to.be.revertedWith(
-          'AgentRole: caller does not have the Agent role',
+          missingRoleMessage(anotherWallet.address, await token.AGENT_ROLE()),
         );
       });
     });
@@ -241,7 +186,7 @@ describe('Token - Information', () => {
           accounts: { anotherWallet },
         } = await loadFixture(deployFullSuiteFixture);
         await expect(token.connect(anotherWallet).freezePartialTokens(anotherWallet.address, 1)).to.be.revertedWith(
-          'AgentRole: caller does not have the Agent role',
+          missingRoleMessage(anotherWallet.address, await token.AGENT_ROLE()),
         );
       });
     });
@@ -269,7 +214,7 @@ describe('Token - Information', () => {
           accounts: { anotherWallet },
         } = await loadFixture(deployFullSuiteFixture);
         await expect(token.connect(anotherWallet).unfreezePartialTokens(anotherWallet.address, 1)).to.be.revertedWith(
-          'AgentRole: caller does not have the Agent role',
+          missingRoleMessage(anotherWallet.address, await token.AGENT_ROLE()),
         );
       });
     });
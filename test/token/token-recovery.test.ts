@@ -1,7 +1,7 @@
 import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
 import { expect } from 'chai';
 import { ethers } from 'hardhat';
-import { deployFullSuiteFixture } from '../fixtures/deploy-full-suite.fixture';
+import { deployFullSuiteFixture, missingRoleMessage } from '../fixtures/deploy-full-suite.fixture';
 
 describe('Token - Recovery', () => {
   describe('.recoveryAddress()', () => {
@@ -18,7 +18,7 @@ describe('Token - Recovery', () => {
           .addKey(ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(['address'], [anotherWallet.address])), 1, 1);
 
         await expect(token.connect(anotherWallet).recoveryAddress(bobWallet.address, anotherWallet.address, bobIdentity.address)).to.be.revertedWith(
-          'AgentRole: caller does not have the Agent role',
+          missingRoleMessage(anotherWallet.address, await token.AGENT_ROLE()),
         );
       });
     });
@@ -35,7 +35,7 @@ describe('Token - Recovery', () => {
           await token.connect(bobWallet).transfer(aliceWallet.address, await token.balanceOf(bobWallet.address));
 
           await expect(token.connect(tokenAgent).recoveryAddress(bobWallet.address, anotherWallet.address, bobIdentity.address)).to.be.revertedWith(
-            'no tokens to recover',
+            'ERC-3643: No tokens to recover',
           );
         });
       });
@@ -49,7 +49,7 @@ describe('Token - Recovery', () => {
           } = await loadFixture(deployFullSuiteFixture);
 
           await expect(token.connect(tokenAgent).recoveryAddress(bobWallet.address, anotherWallet.address, bobIdentity.address)).to.be.revertedWith(
-            'Recovery not possible',
+            'ERC-3643: Recovery not possible',
           );
         });
       });
@@ -1,7 +1,12 @@
 import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
 import { expect } from 'chai';
 import { ethers } from 'hardhat';
-import { deployFullSuiteFixture, deploySuiteWithModularCompliancesFixture } from '../fixtures/deploy-full-suite.fixture';
+import {
+  deployFullSuiteFixture,
+  deploySuiteWithFalseComplianceFixture,
+  deploySuiteWithHookRecorderComplianceFixture,
+  missingRoleMessage,
+} from '../fixtures/deploy-full-suite.fixture';
 
 describe('Token - Transfers', () => {
   describe('.approve()', () => {
@@ -73,7 +78,7 @@ describe('Token - Transfers', () => {
 
         await token.connect(tokenAgent).setAddressFrozen(bobWallet.address, true);
 
-        await expect(token.connect(aliceWallet).transfer(bobWallet.address, 100)).to.be.revertedWith('wallet is frozen');
+        await expect(token.connect(aliceWallet).transfer(bobWallet.address, 100)).to.be.revertedWith('ERC-3643: Wallet frozen');
       });
     });
 
@@ -86,7 +91,7 @@ describe('Token - Transfers', () => {
 
         await token.connect(tokenAgent).setAddressFrozen(aliceWallet.address, true);
 
-        await expect(token.connect(aliceWallet).transfer(bobWallet.address, 100)).to.be.revertedWith('wallet is frozen');
+        await expect(token.connect(aliceWallet).transfer(bobWallet.address, 100)).to.be.revertedWith('ERC-3643: Wallet frozen');
       });
     });
 
@@ -99,7 +104,9 @@ describe('Token - Transfers', () => {
 
         const balance = await token.balanceOf(aliceWallet.address);
 
-        await expect(token.connect(aliceWallet).transfer(bobWallet.address, balance.add(1000))).to.be.revertedWith('Insufficient Balance');
+        await expect(token.connect(aliceWallet).transfer(bobWallet.address, balance.add(1000))).to.be.revertedWith(
+          'ERC-3643: amount exceeds balance',
+        );
       });
     });
 
@@ -113,7 +120,7 @@ describe('Token - Transfers', () => {
         const balance = await token.balanceOf(aliceWallet.address);
         await token.connect(tokenAgent).freezePartialTokens(aliceWallet.address, balance.sub(100));
 
-        await expect(token.connect(aliceWallet).transfer(bobWallet.address, balance)).to.be.revertedWith('Insufficient Balance');
+        await expect(token.connect(aliceWallet).transfer(bobWallet.address, balance)).to.be.revertedWith('ERC-3643: Freezed balance');
       });
     });
 
@@ -124,7 +131,7 @@ describe('Token - Transfers', () => {
           accounts: { aliceWallet, anotherWallet },
         } = await loadFixture(deployFullSuiteFixture);
 
-        await expect(token.connect(aliceWallet).transfer(anotherWallet.address, 100)).to.be.revertedWith('Transfer not possible');
+        await expect(token.connect(aliceWallet).transfer(anotherWallet.address, 100)).to.be.revertedWith('ERC-3643: Unverified identity');
       });
     });
 
@@ -133,17 +140,11 @@ describe('Token - Transfers', () => {
         const {
           suite: { token, compliance },
           accounts: { aliceWallet, bobWallet },
-        } = await loadFixture(deploySuiteWithModularCompliancesFixture);
+        } = await loadFixture(deploySuiteWithFalseComplianceFixture);
 
-        const complianceModuleA = await ethers.deployContract('TestModule');
-        await compliance.addModule(complianceModuleA.address);
         await token.setCompliance(compliance.address);
-        const iface = new ethers.utils.Interface(['function blockModule(bool)']);
-        const encodedData = iface.encodeFunctionData('blockModule', [true]);
-
-        await compliance.callModuleFunction(encodedData, complianceModuleA.address);
 
-        await expect(token.connect(aliceWallet).transfer(bobWallet.address, 100)).to.be.revertedWith('Transfer not possible');
+        await expect(token.connect(aliceWallet).transfer(bobWallet.address, 100)).to.be.revertedWith('ERC-3643: Compliance failure');
       });
     });
 
@@ -191,12 +192,15 @@ describe('Token - Transfers', () => {
       it('should revert', async () => {
         const {
           suite: { token },
-          accounts: { aliceWallet, bobWallet, tokenAgent },
+          accounts: { aliceWallet, bobWallet, anotherWallet, tokenAgent },
         } = await loadFixture(deployFullSuiteFixture);
 
         await token.connect(tokenAgent).setAddressFrozen(aliceWallet.address, true);
 
-        await expect(token.connect(aliceWallet).transferFrom(aliceWallet.address, bobWallet.address, 100)).to.be.revertedWith('wallet is frozen');
+        await token.connect(aliceWallet).approve(anotherWallet.address, 100);
+        await expect(token.connect(anotherWallet).transferFrom(aliceWallet.address, bobWallet.address, 100)).to.be.revertedWith(
+          'ERC-3643: Wallet frozen',
+        );
       });
     });
 
@@ -204,12 +208,15 @@ describe('Token - Transfers', () => {
       it('should revert', async () => {
         const {
           suite: { token },
-          accounts: { aliceWallet, bobWallet, tokenAgent },
+          accounts: { aliceWallet, bobWallet, anotherWallet, tokenAgent },
         } = await loadFixture(deployFullSuiteFixture);
 
         await token.connect(tokenAgent).setAddressFrozen(bobWallet.address, true);
 
-        await expect(token.connect(aliceWallet).transferFrom(aliceWallet.address, bobWallet.address, 100)).to.be.revertedWith('wallet is frozen');
+        await token.connect(aliceWallet).approve(anotherWallet.address, 100);
+        await expect(token.connect(anotherWallet).transferFrom(aliceWallet.address, bobWallet.address, 100)).to.be.revertedWith(
+          'ERC-3643: Wallet frozen',
+        );
       });
     });
 
@@ -217,13 +224,14 @@ describe('Token - Transfers', () => {
       it('should revert', async () => {
         const {
           suite: { token },
-          accounts: { aliceWallet, bobWallet },
+          accounts: { aliceWallet, bobWallet, anotherWallet },
         } = await loadFixture(deployFullSuiteFixture);
 
         const balance = await token.balanceOf(aliceWallet.address);
 
-        await expect(token.connect(aliceWallet).transferFrom(aliceWallet.address, bobWallet.address, balance.add(1000))).to.be.revertedWith(
-          'Insufficient Balance',
+        await token.connect(aliceWallet).approve(anotherWallet.address, balance.add(1000));
+        await expect(token.connect(anotherWallet).transferFrom(aliceWallet.address, bobWallet.address, balance.add(1000))).to.be.revertedWith(
+          'ERC-3643: amount exceeds balance',
         );
       });
     });
@@ -232,14 +240,15 @@ describe('Token - Transfers', () => {
       it('should revert', async () => {
         const {
           suite: { token },
-          accounts: { aliceWallet, bobWallet, tokenAgent },
+          accounts: { aliceWallet, bobWallet, anotherWallet, tokenAgent },
         } = await loadFixture(deployFullSuiteFixture);
 
         const balance = await token.balanceOf(aliceWallet.address);
         await token.connect(tokenAgent).freezePartialTokens(aliceWallet.address, balance.sub(100));
 
-        await expect(token.connect(aliceWallet).transferFrom(aliceWallet.address, bobWallet.address, balance)).to.be.revertedWith(
-          'Insufficient Balance',
+        await token.connect(aliceWallet).approve(anotherWallet.address, balance);
+        await expect(token.connect(anotherWallet).transferFrom(aliceWallet.address, bobWallet.address, balance)).to.be.revertedWith(
+          'ERC-3643: Freezed balance',
         );
       });
     });
@@ -251,8 +260,9 @@ describe('Token - Transfers', () => {
           accounts: { aliceWallet, anotherWallet },
         } = await loadFixture(deployFullSuiteFixture);
 
-        await expect(token.connect(aliceWallet).transferFrom(aliceWallet.address, anotherWallet.address, 100)).to.be.revertedWith(
-          'Transfer not possible',
+        await token.connect(aliceWallet).approve(anotherWallet.address, 100);
+        await expect(token.connect(anotherWallet).transferFrom(aliceWallet.address, anotherWallet.address, 100)).to.be.revertedWith(
+          'ERC-3643: Unverified identity',
         );
       });
     });
@@ -261,20 +271,14 @@ describe('Token - Transfers', () => {
       it('should revert', async () => {
         const {
           suite: { token, compliance },
-          accounts: { aliceWallet, bobWallet },
-        } = await loadFixture(deploySuiteWithModularCompliancesFixture);
+          accounts: { aliceWallet, bobWallet, anotherWallet },
+        } = await loadFixture(deploySuiteWithFalseComplianceFixture);
 
-        const complianceModuleA = await ethers.deployContract('TestModule');
-        await compliance.addModule(complianceModuleA.address);
         await token.setCompliance(compliance.address);
 
-        const iface = new ethers.utils.Interface(['function blockModule(bool)']);
-        const encodedData = iface.encodeFunctionData('blockModule', [true]);
-
-        await compliance.callModuleFunction(encodedData, complianceModuleA.address);
-
-        await expect(token.connect(aliceWallet).transferFrom(aliceWallet.address, bobWallet.address, 100)).to.be.revertedWith(
-          'Transfer not possible',
+        await token.connect(aliceWallet).approve(anotherWallet.address, 100);
+        await expect(token.connect(anotherWallet).transferFrom(aliceWallet.address, bobWallet.address, 100)).to.be.revertedWith(
+          'ERC-3643: Compliance failure',
         );
       });
     });
@@ -293,6 +297,18 @@ describe('Token - Transfers', () => {
 
         await expect(token.allowance(aliceWallet.address, anotherWallet.address)).to.be.eventually.equal(0);
       });
+
+      it('should tell the compliance the holder the tokens left, not the spender', async () => {
+        const {
+          suite: { token, compliance },
+          accounts: { aliceWallet, bobWallet, anotherWallet },
+        } = await loadFixture(deploySuiteWithHookRecorderComplianceFixture);
+
+        await token.connect(aliceWallet).approve(anotherWallet.address, 100);
+
+        const tx = await token.connect(anotherWallet).transferFrom(aliceWallet.address, bobWallet.address, 100);
+        await expect(tx).to.emit(compliance, 'Transferred').withArgs(aliceWallet.address, bobWallet.address, 100);
+      });
     });
   });
 
@@ -305,7 +321,7 @@ describe('Token - Transfers', () => {
         } = await loadFixture(deployFullSuiteFixture);
 
         await expect(token.connect(aliceWallet).forcedTransfer(aliceWallet.address, bobWallet.address, 100)).to.be.revertedWith(
-          'AgentRole: caller does not have the Agent role',
+          missingRoleMessage(aliceWallet.address, await token.AGENT_ROLE()),
         );
       });
     });
@@ -320,7 +336,7 @@ describe('Token - Transfers', () => {
         const balance = await token.balanceOf(aliceWallet.address);
 
         await expect(token.connect(tokenAgent).forcedTransfer(aliceWallet.address, bobWallet.address, balance.add(1000))).to.be.revertedWith(
-          'sender balance too low',
+          'ERC-3643: Sender low balance',
         );
       });
     });
@@ -333,28 +349,24 @@ describe('Token - Transfers', () => {
         } = await loadFixture(deployFullSuiteFixture);
 
         await expect(token.connect(tokenAgent).forcedTransfer(aliceWallet.address, anotherWallet.address, 100)).to.be.revertedWith(
-          'Transfer not possible',
+          'ERC-3643: Unverified identity',
         );
       });
     });
 
     describe('when the transfer breaks compliance rules', () => {
-      it('should still transfer tokens', async () => {
+      it('should revert', async () => {
         const {
           suite: { token, compliance },
           accounts: { aliceWallet, bobWallet, tokenAgent },
-        } = await loadFixture(deploySuiteWithModularCompliancesFixture);
+        } = await loadFixture(deploySuiteWithFalseComplianceFixture);
 
-        const complianceModuleA = await ethers.deployContract('TestModule');
-        await compliance.addModule(complianceModuleA.address);
         await token.setCompliance(compliance.address);
-        const iface = new ethers.utils.Interface(['function blockModule(bool)']);
-        const encodedData = iface.encodeFunctionData('blockModule', [true]);
-
-        await compliance.callModuleFunction(encodedData, complianceModuleA.address);
 
-        const tx = await token.connect(tokenAgent).forcedTransfer(aliceWallet.address, bobWallet.address, 100);
-        await expect(tx).to.emit(token, 'Transfer').withArgs(aliceWallet.address, bobWallet.address, 100);
+        // Token.sol runs forced transfers through the same compliance check as regular transfers.
+        await expect(token.connect(tokenAgent).forcedTransfer(aliceWallet.address, bobWallet.address, 100)).to.be.revertedWith(
+          'ERC-3643: Compliance failure',
+        );
       });
     });
 
@@ -374,6 +386,19 @@ describe('Token - Transfers', () => {
         await expect(token.getFrozenTokens(aliceWallet.address)).to.be.eventually.equal(50);
       });
     });
+
+    describe('when the transfer is compliant', () => {
+      it('should tell the compliance the holder the tokens left, not the agent', async () => {
+        const {
+          suite: { token, compliance },
+          accounts: { aliceWallet, bobWallet, tokenAgent },
+        } = await loadFixture(deploySuiteWithHookRecorderComplianceFixture);
+
+        const tx = await token.connect(tokenAgent).forcedTransfer(aliceWallet.address, bobWallet.address, 100);
+        await expect(tx).to.emit(token, 'Transfer').withArgs(aliceWallet.address, bobWallet.address, 100);
+        await expect(tx).to.emit(compliance, 'Transferred').withArgs(aliceWallet.address, bobWallet.address, 100);
+      });
+    });
   });
 
   describe('.mint', () => {
@@ -384,7 +409,9 @@ describe('Token - Transfers', () => {
           accounts: { aliceWallet },
         } = await loadFixture(deployFullSuiteFixture);
 
-        await expect(token.connect(aliceWallet).mint(aliceWallet.address, 100)).to.be.revertedWith('AgentRole: caller does not have the Agent role');
+        await expect(token.connect(aliceWallet).mint(aliceWallet.address, 100)).to.be.revertedWith(
+          missingRoleMessage(aliceWallet.address, await token.AGENT_ROLE()),
+        );
       });
     });
 
@@ -395,7 +422,7 @@ describe('Token - Transfers', () => {
           accounts: { anotherWallet, tokenAgent },
         } = await loadFixture(deployFullSuiteFixture);
 
-        await expect(token.connect(tokenAgent).mint(anotherWallet.address, 100)).to.be.revertedWith('Identity is not verified.');
+        await expect(token.connect(tokenAgent).mint(anotherWallet.address, 100)).to.be.revertedWith('ERC-3643: Unverified identity');
       });
     });
 
@@ -404,17 +431,11 @@ describe('Token - Transfers', () => {
         const {
           suite: { token, compliance },
           accounts: { aliceWallet, tokenAgent },
-        } = await loadFixture(deploySuiteWithModularCompliancesFixture);
+        } = await loadFixture(deploySuiteWithFalseComplianceFixture);
 
-        const complianceModuleA = await ethers.deployContract('TestModule');
-        await compliance.addModule(complianceModuleA.address);
         await token.setCompliance(compliance.address);
-        const iface = new ethers.utils.Interface(['function blockModule(bool)']);
-        const encodedData = iface.encodeFunctionData('blockModule', [true]);
 
-        await compliance.callModuleFunction(encodedData, complianceModuleA.address);
-
-        await expect(token.connect(tokenAgent).mint(aliceWallet.address, 100)).to.be.revertedWith('Compliance not followed');
+        await expect(token.connect(tokenAgent).mint(aliceWallet.address, 100)).to.be.revertedWith('ERC-3643: Compliance failure');
       });
     });
   });
@@ -427,7 +448,9 @@ describe('Token - Transfers', () => {
           accounts: { aliceWallet },
         } = await loadFixture(deployFullSuiteFixture);
 
-        await expect(token.connect(aliceWallet).burn(aliceWallet.address, 100)).to.be.revertedWith('AgentRole: caller does not have the Agent role');
+        await expect(token.connect(aliceWallet).burn(aliceWallet.address, 100)).to.be.revertedWith(
+          missingRoleMessage(aliceWallet.address, await token.AGENT_ROLE()),
+        );
       });
     });
 
@@ -440,7 +463,7 @@ describe('Token - Transfers', () => {
 
         const balance = await token.balanceOf(aliceWallet.address);
 
-        await expect(token.connect(tokenAgent).burn(aliceWallet.address, balance.add(1000))).to.be.revertedWith('cannot burn more than balance');
+        await expect(token.connect(tokenAgent).burn(aliceWallet.address, balance.add(1000))).to.be.revertedWith('ERC-3643: burn exceeds balance');
       });
     });
 